@@ -6,23 +6,37 @@
 import { ObsidianExtension } from "./extensions/obsidian/ObsidianExtension";
 import { GitHubExtension } from "./extensions/github/GitHubExtension";
 import { AppleRemindersExtension } from "./extensions/apple-reminders/AppleRemindersExtension";
+import { HttpJsonExtension } from "./extensions/http-json/HttpJsonExtension";
+import { LinearExtension } from "./extensions/linear/LinearExtension";
 import { CalendarExtension } from "./extensions/calendar/CalendarExtension";
 import { DailyPlanningExtension } from "./extensions/daily-planning/DailyPlanningExtension";
 import { ContextExtension } from "./extensions/context/ContextExtension";
 import { AppleCalendarService } from "./extensions/calendar/services/AppleCalendarService";
 import { GoogleCalendarService } from "./extensions/calendar/services/GoogleCalendarService";
+import { CalDAVCalendarService } from "./extensions/calendar/services/CalDAVCalendarService";
+import { IcsCalendarService } from "./extensions/calendar/services/IcsCalendarService";
 import { Host } from "./core/host";
 import type { TaskSyncSettings } from "./types/settings";
 import { taskStore } from "./stores/taskStore";
 import { projectStore } from "./stores/projectStore";
 import { areaStore } from "./stores/areaStore";
-import { initializeSyncManager } from "./core/SyncManager";
+import { syncConflictStore } from "./stores/syncConflictStore";
+import { syncJournalStore } from "./stores/syncJournalStore";
+import {
+  initializeSyncManager,
+  syncManager,
+  type SyncConflict,
+  type SyncSnapshots,
+  type SyncJournalEntry,
+} from "./core/SyncManager";
 
 export class TaskSyncApp {
   private initialized = false;
   public obsidianExtension?: ObsidianExtension;
   public githubExtension?: GitHubExtension;
   public appleRemindersExtension?: AppleRemindersExtension;
+  public httpJsonExtension?: HttpJsonExtension;
+  public linearExtension?: LinearExtension;
   public calendarExtension?: CalendarExtension;
   public dailyPlanningExtension?: DailyPlanningExtension;
   public contextExtension?: ContextExtension;
@@ -40,12 +54,14 @@ export class TaskSyncApp {
       // Load settings from host
       this.settings = await host.loadSettings();
 
+      // Initialize SyncManager with its store dependencies
+      initializeSyncManager(taskStore, syncConflictStore, syncJournalStore, {
+        strategy: this.settings.syncStrategy,
+      });
+
       // Load persisted entity data from host storage
       await this.loadPersistedData(host);
 
-      // Initialize SyncManager with taskStore dependency
-      initializeSyncManager(taskStore);
-
       console.log("TaskSync app initializing...", {
         hasHost: !!host,
         hasSettings: !!this.settings,
@@ -75,6 +91,12 @@ export class TaskSyncApp {
       // Initialize Apple Reminders extension
       await this.initializeAppleRemindersExtension();
 
+      // Initialize HTTP JSON extension
+      await this.initializeHttpJsonExtension();
+
+      // Initialize Linear extension if enabled
+      await this.initializeLinearExtension();
+
       // Initialize Calendar extension if enabled
       await this.initializeCalendarExtension();
 
@@ -113,6 +135,14 @@ export class TaskSyncApp {
         await this.appleRemindersExtension.load();
       }
 
+      if (this.httpJsonExtension) {
+        await this.httpJsonExtension.load();
+      }
+
+      if (this.linearExtension) {
+        await this.linearExtension.load();
+      }
+
       if (this.calendarExtension) {
         await this.calendarExtension.load();
       }
@@ -145,6 +175,14 @@ export class TaskSyncApp {
       await this.githubExtension.shutdown();
     }
 
+    if (this.httpJsonExtension) {
+      await this.httpJsonExtension.shutdown();
+    }
+
+    if (this.linearExtension) {
+      await this.linearExtension.shutdown();
+    }
+
     if (this.dailyPlanningExtension) {
       await this.dailyPlanningExtension.shutdown();
     }
@@ -178,6 +216,10 @@ export class TaskSyncApp {
         return this.obsidianExtension;
       case "github":
         return this.githubExtension;
+      case "http-json":
+        return this.httpJsonExtension;
+      case "linear":
+        return this.linearExtension;
       case "calendar":
         return this.calendarExtension;
       case "daily-planning":
@@ -205,6 +247,8 @@ export class TaskSyncApp {
       this.obsidianExtension.updateSettings(newSettings);
     }
 
+    syncManager.updateConfig({ strategy: newSettings.syncStrategy });
+
     // Check if GitHub integration was enabled/disabled
     const wasGitHubEnabled = oldSettings?.integrations?.github?.enabled;
     const isGitHubEnabled = newSettings.integrations?.github?.enabled;
@@ -243,6 +287,40 @@ export class TaskSyncApp {
         this.appleRemindersExtension = undefined;
       }
     }
+
+    // Check if HTTP JSON integration was enabled/disabled
+    const wasHttpJsonEnabled = oldSettings?.integrations?.httpJson?.enabled;
+    const isHttpJsonEnabled = newSettings.integrations?.httpJson?.enabled;
+
+    if (!wasHttpJsonEnabled && isHttpJsonEnabled) {
+      console.log("HTTP JSON integration enabled, initializing...");
+      await this.initializeHttpJsonExtension();
+    } else if (wasHttpJsonEnabled && !isHttpJsonEnabled) {
+      console.log("HTTP JSON integration disabled, shutting down...");
+      if (this.httpJsonExtension) {
+        await this.httpJsonExtension.shutdown();
+        this.httpJsonExtension = undefined;
+      }
+    } else if (this.httpJsonExtension) {
+      this.httpJsonExtension.updateSettings(newSettings);
+    }
+
+    // Check if Linear integration was enabled/disabled
+    const wasLinearEnabled = oldSettings?.integrations?.linear?.enabled;
+    const isLinearEnabled = newSettings.integrations?.linear?.enabled;
+
+    if (!wasLinearEnabled && isLinearEnabled) {
+      console.log("Linear integration enabled, initializing...");
+      await this.initializeLinearExtension();
+    } else if (wasLinearEnabled && !isLinearEnabled) {
+      console.log("Linear integration disabled, shutting down...");
+      if (this.linearExtension) {
+        await this.linearExtension.shutdown();
+        this.linearExtension = undefined;
+      }
+    } else if (this.linearExtension) {
+      this.linearExtension.updateSettings(newSettings);
+    }
   }
 
   /**
@@ -348,6 +426,74 @@ export class TaskSyncApp {
         }
       }
 
+      // Load unresolved sync conflicts into store
+      if (data.syncConflicts && Array.isArray(data.syncConflicts)) {
+        console.log(
+          `Loading ${data.syncConflicts.length} unresolved sync conflicts`
+        );
+        const conflicts: SyncConflict[] = data.syncConflicts.map(
+          (conflict: any) => ({
+            ...conflict,
+            detectedAt: new Date(conflict.detectedAt),
+            values: conflict.values.map((v: any) => ({
+              ...v,
+              // Date fields were serialized to ISO strings
+              value:
+                (conflict.field === "doDate" || conflict.field === "dueDate") &&
+                v.value
+                  ? new Date(v.value)
+                  : v.value,
+            })),
+          })
+        );
+        syncConflictStore.dispatch({ type: "LOAD_CONFLICTS", conflicts });
+      }
+
+      // Load last-synced snapshots used by three-way merges
+      if (data.syncSnapshots && typeof data.syncSnapshots === "object") {
+        const snapshots: SyncSnapshots = {};
+        for (const [entityId, providers] of Object.entries<any>(
+          data.syncSnapshots
+        )) {
+          snapshots[entityId] = {};
+          for (const [providerId, snapshot] of Object.entries<any>(
+            providers
+          )) {
+            const restored = { ...snapshot };
+            // Date fields were serialized to ISO strings
+            for (const field of ["doDate", "dueDate"]) {
+              if (restored[field]) {
+                restored[field] = new Date(restored[field]);
+              }
+            }
+            snapshots[entityId][providerId] = restored;
+          }
+        }
+        syncManager.loadSnapshots(snapshots);
+      }
+
+      // Load sync journal into store
+      if (data.syncJournal && Array.isArray(data.syncJournal)) {
+        const isDateField = (field: string) =>
+          field === "doDate" || field === "dueDate";
+        const entries: SyncJournalEntry[] = data.syncJournal.map(
+          (entry: any) => ({
+            ...entry,
+            timestamp: new Date(entry.timestamp),
+            // Date fields were serialized to ISO strings
+            oldValue:
+              isDateField(entry.field) && entry.oldValue
+                ? new Date(entry.oldValue)
+                : entry.oldValue,
+            newValue:
+              isDateField(entry.field) && entry.newValue
+                ? new Date(entry.newValue)
+                : entry.newValue,
+          })
+        );
+        syncJournalStore.dispatch({ type: "LOAD_JOURNAL", entries });
+      }
+
       console.log("Persisted data loaded successfully");
     } catch (error) {
       console.error("Failed to load persisted data:", error);
@@ -427,15 +573,92 @@ export class TaskSyncApp {
     console.log("Apple Reminders extension initialized successfully");
   }
 
+  /**
+   * Initialize HTTP JSON extension if enabled in settings
+   */
+  private async initializeHttpJsonExtension(): Promise<void> {
+    if (!this.settings?.integrations?.httpJson?.enabled) {
+      return;
+    }
+
+    const obsidianHost = this.host as any; // Cast to access underlying plugin - Host abstraction incomplete
+    if (!obsidianHost.plugin) {
+      return;
+    }
+
+    // Don't reinitialize if already initialized
+    if (this.httpJsonExtension) {
+      console.log("HTTP JSON extension already initialized");
+      return;
+    }
+
+    console.log("Initializing HTTP JSON extension...");
+    this.httpJsonExtension = new HttpJsonExtension(
+      obsidianHost.plugin,
+      this.settings
+    );
+
+    await this.httpJsonExtension.initialize();
+
+    // If app is already loaded, load the extension too
+    if (this.initialized) {
+      await this.httpJsonExtension.load();
+    }
+
+    console.log("HTTP JSON extension initialized successfully");
+  }
+
+  /**
+   * Initialize Linear extension if enabled in settings
+   */
+  private async initializeLinearExtension(): Promise<void> {
+    if (!this.settings?.integrations?.linear?.enabled) {
+      return;
+    }
+
+    const obsidianHost = this.host as any; // Cast to access underlying plugin - Host abstraction incomplete
+    if (!obsidianHost.plugin) {
+      return;
+    }
+
+    // Don't reinitialize if already initialized
+    if (this.linearExtension) {
+      console.log("Linear extension already initialized");
+      return;
+    }
+
+    console.log("Initializing Linear extension...");
+    this.linearExtension = new LinearExtension(
+      this.settings,
+      obsidianHost.plugin
+    );
+
+    await this.linearExtension.initialize();
+
+    // If app is already loaded, load the extension too
+    if (this.initialized) {
+      await this.linearExtension.load();
+    }
+
+    console.log("Linear extension initialized successfully");
+  }
+
   /**
    * Initialize Calendar extension if enabled in settings
    */
   private async initializeCalendarExtension(): Promise<void> {
-    // Initialize calendar extension if either Apple Calendar or Google Calendar is enabled
+    // Initialize calendar extension if any calendar integration is enabled
     const appleCalendarEnabled = this.settings?.integrations?.appleCalendar?.enabled;
     const googleCalendarEnabled = this.settings?.integrations?.googleCalendar?.enabled;
-
-    if (!appleCalendarEnabled && !googleCalendarEnabled) {
+    const caldavCalendarEnabled = this.settings?.integrations?.caldavCalendar?.enabled;
+    const icsCalendarEnabled = this.settings?.integrations?.icsCalendar?.enabled;
+
+    if (
+      !appleCalendarEnabled &&
+      !googleCalendarEnabled &&
+      !caldavCalendarEnabled &&
+      !icsCalendarEnabled
+    ) {
       return;
     }
 
@@ -488,6 +711,26 @@ export class TaskSyncApp {
       console.log("Google Calendar service registered");
     }
 
+    // Create and register generic CalDAV service if enabled
+    if (caldavCalendarEnabled) {
+      const caldavCalendarService = new CalDAVCalendarService(
+        this.settings,
+        obsidianHost.plugin
+      );
+
+      await caldavCalendarService.initialize();
+      this.calendarExtension.registerCalendarService(caldavCalendarService);
+      console.log("CalDAV calendar service registered");
+    }
+
+    // Create and register ICS subscriptions service if enabled
+    if (icsCalendarEnabled) {
+      this.calendarExtension.registerCalendarService(
+        new IcsCalendarService(this.settings)
+      );
+      console.log("ICS calendar service registered");
+    }
+
     // If app is already loaded, load the extension too
     if (this.initialized) {
       await this.calendarExtension.load();
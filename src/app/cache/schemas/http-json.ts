@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+// Schema for a raw item returned by an HTTP JSON endpoint
+// Items are arbitrary JSON objects, their shape is described by the endpoint's field mapping
+export const HttpJsonItemSchema = z.record(z.string(), z.unknown());
+
+export const HttpJsonItemsSchema = z.array(HttpJsonItemSchema);
+
+// Type exports for use with SchemaCache
+export type HttpJsonItem = z.infer<typeof HttpJsonItemSchema>;
+export type HttpJsonItems = z.infer<typeof HttpJsonItemsSchema>;
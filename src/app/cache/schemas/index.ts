@@ -14,3 +14,9 @@ export * from "./google-calendar";
 
 // Apple Reminders schemas
 export * from "./apple-reminders";
+
+// HTTP JSON source schemas
+export * from "./http-json";
+
+// Linear schemas
+export * from "./linear";
@@ -0,0 +1,82 @@
+import { z } from "zod";
+
+// Shared Linear User schema for nested user objects
+export const LinearUserSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+// Workflow state of an issue, "type" is one of Linear's fixed state categories
+export const LinearWorkflowStateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum([
+    "triage",
+    "backlog",
+    "unstarted",
+    "started",
+    "completed",
+    "canceled",
+  ]),
+  color: z.string().optional(),
+  position: z.number().optional(),
+});
+
+export const LinearWorkflowStateListSchema = z.array(LinearWorkflowStateSchema);
+
+export const LinearTeamSchema = z.object({
+  id: z.string(),
+  key: z.string(),
+  name: z.string(),
+});
+
+export const LinearTeamListSchema = z.array(LinearTeamSchema);
+
+export const LinearProjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export const LinearLabelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.string().optional(),
+});
+
+export const LinearLabelListSchema = z.array(LinearLabelSchema);
+
+// Issue as returned by LinearClient, with GraphQL connections flattened to arrays
+export const LinearIssueSchema = z.object({
+  id: z.string(),
+  identifier: z.string(), // e.g. "ENG-123"
+  title: z.string(),
+  description: z.string().nullable(),
+  url: z.string().url(),
+  // 0 = no priority, 1 = urgent, 2 = high, 3 = medium, 4 = low
+  priority: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  completedAt: z.string().nullable(),
+  dueDate: z.string().nullable(), // "YYYY-MM-DD"
+  state: LinearWorkflowStateSchema,
+  team: LinearTeamSchema,
+  project: LinearProjectSchema.nullable(),
+  assignee: LinearUserSchema.nullable(),
+  labels: z.array(LinearLabelSchema),
+});
+
+export const LinearIssueListSchema = z.array(LinearIssueSchema);
+
+// Type exports for use with SchemaCache
+export type LinearUser = z.infer<typeof LinearUserSchema>;
+export type LinearWorkflowState = z.infer<typeof LinearWorkflowStateSchema>;
+export type LinearWorkflowStateList = z.infer<
+  typeof LinearWorkflowStateListSchema
+>;
+export type LinearTeam = z.infer<typeof LinearTeamSchema>;
+export type LinearTeamList = z.infer<typeof LinearTeamListSchema>;
+export type LinearProject = z.infer<typeof LinearProjectSchema>;
+export type LinearLabel = z.infer<typeof LinearLabelSchema>;
+export type LinearLabelList = z.infer<typeof LinearLabelListSchema>;
+export type LinearIssue = z.infer<typeof LinearIssueSchema>;
+export type LinearIssueList = z.infer<typeof LinearIssueListSchema>;
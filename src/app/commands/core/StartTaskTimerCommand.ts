@@ -0,0 +1,41 @@
+import { Notice } from "obsidian";
+import { Command } from "../Command";
+import { get } from "svelte/store";
+import { taskStore } from "../../stores/taskStore";
+import { Tasks } from "../../entities/Tasks";
+
+/**
+ * Start Task Timer Command
+ *
+ * Starts tracking time on the task open in the active editor. Only one timer
+ * runs at a time, so a timer running on another task is stopped first.
+ */
+export class StartTaskTimerCommand extends Command {
+  getId(): string {
+    return "start-task-timer";
+  }
+
+  getName(): string {
+    return "Start Task Timer";
+  }
+
+  async execute(): Promise<void> {
+    const file = this.app.workspace.getActiveFile();
+    const task = file
+      ? get(taskStore).tasks.find((t) => t.source.keys.obsidian === file.path)
+      : undefined;
+
+    if (!task) {
+      new Notice("Open a task note to start its timer");
+      return;
+    }
+
+    try {
+      await new Tasks.Operations(this.settings).startTimer(task.id);
+      new Notice(`Timer started for "${task.title}"`);
+    } catch (error) {
+      console.error("Task Sync: Failed to start timer:", error);
+      new Notice(`Failed to start timer: ${error.message}`);
+    }
+  }
+}
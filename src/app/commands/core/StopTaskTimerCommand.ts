@@ -0,0 +1,44 @@
+import { Notice } from "obsidian";
+import { Command } from "../Command";
+import { Tasks } from "../../entities/Tasks";
+import { getTrackedMinutes } from "../../utils/timeTracking";
+import { formatDuration } from "../../core/note-kit/duration";
+
+/**
+ * Stop Task Timer Command
+ *
+ * Stops the running task timer, wherever it was started from, and reports
+ * the task's new total.
+ */
+export class StopTaskTimerCommand extends Command {
+  getId(): string {
+    return "stop-task-timer";
+  }
+
+  getName(): string {
+    return "Stop Task Timer";
+  }
+
+  async execute(): Promise<void> {
+    const running = await new Tasks.Queries().getWithRunningTimer();
+
+    if (running.length === 0) {
+      new Notice("No task timer is running");
+      return;
+    }
+
+    try {
+      const operations = new Tasks.Operations(this.settings);
+      for (const task of running) {
+        await operations.stopTimer(task.id);
+      }
+
+      const [task] = running;
+      const total = formatDuration(getTrackedMinutes(task.timeLog));
+      new Notice(`Timer stopped for "${task.title}" (total ${total})`);
+    } catch (error) {
+      console.error("Task Sync: Failed to stop timer:", error);
+      new Notice(`Failed to stop timer: ${error.message}`);
+    }
+  }
+}
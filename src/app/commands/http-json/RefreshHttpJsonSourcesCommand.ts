@@ -0,0 +1,44 @@
+/**
+ * Refresh HTTP JSON Sources Command
+ * Fetches all configured HTTP JSON endpoints immediately
+ */
+
+import { Command, type CommandContext } from "../Command";
+import { Notice } from "obsidian";
+import { extensionRegistry } from "../../core/extension";
+import type { HttpJsonExtension } from "../../extensions/http-json/HttpJsonExtension";
+
+export class RefreshHttpJsonSourcesCommand extends Command {
+  constructor(context: CommandContext) {
+    super(context);
+  }
+
+  getId(): string {
+    return "refresh-http-json-sources";
+  }
+
+  getName(): string {
+    return "Refresh HTTP JSON sources";
+  }
+
+  async execute(): Promise<void> {
+    const extension = extensionRegistry.getById("http-json") as
+      | HttpJsonExtension
+      | undefined;
+
+    if (!extension || !extension.isEnabled()) {
+      new Notice(
+        "HTTP JSON sources are disabled. Enable them in settings first."
+      );
+      return;
+    }
+
+    try {
+      await extension.refresh();
+      new Notice("✅ HTTP JSON sources refreshed");
+    } catch (error: any) {
+      console.error("HTTP JSON refresh failed:", error);
+      new Notice(`❌ HTTP JSON refresh failed: ${error.message}`);
+    }
+  }
+}
@@ -11,3 +11,7 @@ export { default as EnumProperty } from "./EnumProperty.svelte";
 export { default as ArrayProperty } from "./ArrayProperty.svelte";
 export { default as SelectProperty } from "./SelectProperty.svelte";
 export { default as AssociationProperty } from "./AssociationProperty.svelte";
+export { default as DurationProperty } from "./DurationProperty.svelte";
+export { default as UrlProperty } from "./UrlProperty.svelte";
+export { default as RatingProperty } from "./RatingProperty.svelte";
+export { default as FormulaProperty } from "./FormulaProperty.svelte";
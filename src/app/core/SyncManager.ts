@@ -9,12 +9,19 @@
  * - Detect entities that exist in multiple sources (have multiple source.keys)
  * - Merge entity data from different sources using a pipeline approach
  * - Apply conflict resolution strategies when data differs
+ * - Keep last-synced snapshots per entity and provider for three-way merges
+ * - Journal applied changes so a sync can be reviewed and undone
  * - Maintain data integrity across sources
  */
 
 import { get } from "svelte/store";
+import equal from "fast-deep-equal";
 import type { Task } from "./entities";
 import type { TaskStore } from "../stores/taskStore";
+import type { SyncConflictStore } from "../stores/syncConflictStore";
+import type { SyncJournalStore } from "../stores/syncJournalStore";
+import { eventBus } from "./events";
+import { generateId } from "../utils/idGenerator";
 
 /**
  * Sync strategy for handling conflicts between data sources
@@ -22,7 +29,29 @@ import type { TaskStore } from "../stores/taskStore";
 export type SyncStrategy =
   | "source-wins" // Source extension (creator) data takes precedence
   | "last-modified" // Most recently modified wins
-  | "manual-resolve"; // Require manual conflict resolution
+  | "manual-resolve" // Require manual conflict resolution
+  | "three-way"; // Per-field merge against the last-synced snapshot
+
+/**
+ * Rule that decided the merged value of a field.
+ * Whole-payload strategies report the strategy name, the "three-way" strategy
+ * reports the per-field outcome.
+ */
+export type SyncMergeRule =
+  | "source-wins"
+  | "last-modified"
+  | "manual-resolve"
+  | "unchanged" // No source changed the field since the last sync
+  | "changed-one-side" // Only one source changed the field
+  | "changed-same" // Several sources made the same change
+  | "single-source" // Only one source reports the field
+  | "no-base" // No snapshot yet, the authoritative source wins
+  | "conflict"; // Sources changed the field differently
+
+/**
+ * Last-synced field values, keyed by entity ID and then by provider (extension ID)
+ */
+export type SyncSnapshots = Record<string, Record<string, Partial<Task>>>;
 
 /**
  * Configuration for sync operations
@@ -55,6 +84,35 @@ export interface EntityDataProvider {
    * @returns Array of property keys to sync, or undefined to sync all properties
    */
   getSyncableProperties?(): Array<keyof Task> | undefined;
+
+  /**
+   * Check if changes from other sources are written back to this provider
+   * for the given entity. Such entities are merged with the "three-way"
+   * strategy when "source-wins" is configured, since the authoritative source
+   * would otherwise overwrite every change before it could be written back.
+   */
+  isWriteBackEnabled?(entity: Task): boolean;
+}
+
+/**
+ * Pick the given properties from task data, e.g. the syncable properties of
+ * a provider before writing them
+ */
+export function pickTaskProperties(
+  data: Partial<Task>,
+  properties: Array<keyof Task>
+): Partial<Task> {
+  const picked: Partial<Task> = {};
+  const copy = <K extends keyof Task>(property: K) => {
+    picked[property] = data[property];
+  };
+
+  for (const property of properties) {
+    if (property in data) {
+      copy(property);
+    }
+  }
+  return picked;
 }
 
 /**
@@ -68,10 +126,67 @@ export interface EntitySyncResult {
     oldValue: any;
     newValue: any;
     source: string;
+    rule: SyncMergeRule;
   }>;
   errors: string[];
 }
 
+/**
+ * A field on which two or more providers disagree while the "manual-resolve"
+ * strategy is active. Conflicts are queued until a user picks a value.
+ */
+export interface SyncConflict {
+  id: string;
+  entityId: string;
+  /** Entity title at detection time, for display only */
+  entityTitle: string;
+  field: keyof Task;
+  /** Value reported by each provider (extension ID) for the field */
+  values: Array<{ source: string; value: any }>;
+  detectedAt: Date;
+}
+
+/**
+ * A field change applied to one provider during a cross-source sync.
+ * All entries of one syncAllCrossSourceEntities() run share the same syncId.
+ */
+export interface SyncJournalEntry {
+  id: string;
+  syncId: string;
+  timestamp: Date;
+  entityId: string;
+  /** Entity title at sync time, for display only */
+  entityTitle: string;
+  field: string;
+  oldValue: any;
+  newValue: any;
+  /** Provider (extension ID) the change was written to */
+  source: string;
+  rule: SyncMergeRule;
+  /** Set once the change was reverted with undoLastSync() */
+  undone?: boolean;
+}
+
+/**
+ * Entity fields that identify or describe the entity record itself and are
+ * never treated as conflicting provider data
+ */
+const NON_CONFLICTING_FIELDS: ReadonlySet<string> = new Set([
+  "id",
+  "source",
+  "createdAt",
+  "updatedAt",
+]);
+
+/**
+ * Outcome of merging the data of all sources of an entity
+ */
+interface MergeResult {
+  data: Partial<Task>;
+  rules: Map<string, SyncMergeRule>;
+  conflicts: SyncConflict[];
+}
+
 /**
  * SyncManager class
  *
@@ -82,12 +197,19 @@ export class SyncManager {
   private config: SyncConfig;
   private providers = new Map<string, EntityDataProvider>();
   private taskStore: TaskStore;
+  private conflictStore: SyncConflictStore;
+  private journalStore: SyncJournalStore;
+  private snapshots: SyncSnapshots = {};
 
   constructor(
     taskStore: TaskStore,
+    conflictStore: SyncConflictStore,
+    journalStore: SyncJournalStore,
     config: SyncConfig = { strategy: "source-wins" }
   ) {
     this.taskStore = taskStore;
+    this.conflictStore = conflictStore;
+    this.journalStore = journalStore;
     this.config = config;
   }
 
@@ -118,6 +240,20 @@ export class SyncManager {
     this.config = { ...this.config, ...newConfig };
   }
 
+  /**
+   * Get the last-synced snapshots of all entities for persistence
+   */
+  getSnapshots(): SyncSnapshots {
+    return this.snapshots;
+  }
+
+  /**
+   * Restore persisted last-synced snapshots
+   */
+  loadSnapshots(snapshots: SyncSnapshots): void {
+    this.snapshots = snapshots;
+  }
+
   /**
    * Sync all entities that exist in multiple sources
    * This should be called after any source refresh operation
@@ -166,6 +302,21 @@ export class SyncManager {
       }
     }
 
+    // Forget snapshots of entities that are no longer synced
+    const syncedIds = new Set(crossSourceTasks.map((t) => t.id));
+    for (const entityId of Object.keys(this.snapshots)) {
+      if (!syncedIds.has(entityId)) {
+        delete this.snapshots[entityId];
+      }
+    }
+
+    eventBus.trigger({
+      type: "sync.snapshots.updated",
+      snapshots: this.snapshots,
+    });
+
+    this.recordJournal(crossSourceTasks, results);
+
     console.log(
       `[SyncManager] Cross-source sync completed: ${
         results.filter((r) => r.success).length
@@ -237,25 +388,58 @@ export class SyncManager {
       }
 
       // Merge data using the configured strategy
-      const mergedData = this.mergeEntityData(entity, sourceData);
+      const strategy = this.getStrategy(entity, sourceData);
+      const {
+        data: mergedData,
+        rules,
+        conflicts,
+      } = this.mergeEntityData(entity, sourceData, strategy);
 
       // Write merged data back to all sources
+      let writeFailed = false;
       for (const [sourceKey, data] of sourceData) {
         const provider = this.providers.get(sourceKey);
         if (provider && provider.canHandle(entity)) {
-          await provider.writeEntityData(entity.id, mergedData);
+          try {
+            await provider.writeEntityData(entity.id, mergedData);
+          } catch (error) {
+            // Other sources are still written, the failure ends up in the result
+            writeFailed = true;
+            result.errors.push(
+              `Failed to write to ${sourceKey}: ${
+                error instanceof Error ? error.message : String(error)
+              }`
+            );
+            continue;
+          }
 
-          // Track changes
-          this.trackChanges(result, data, mergedData, sourceKey);
+          // Track changes to the properties this provider syncs
+          this.trackChanges(
+            result,
+            data,
+            this.filterSyncableProperties(mergedData, provider),
+            sourceKey,
+            rules
+          );
         }
       }
 
+      // After a failed write the sources no longer agree on the merged data,
+      // so the previous snapshots stay the base to merge the next sync against
+      if (!writeFailed) {
+        this.updateSnapshots(entity.id, sourceData, mergedData, conflicts);
+      }
+
       // Write merged data to main taskStore as the single source of truth for UI
       await this.updateMainTaskStore(entity.id, mergedData);
       console.log(
         `[SyncManager] Updated main taskStore with merged data for entity ${entity.id}`
       );
 
+      if (strategy === "manual-resolve" || strategy === "three-way") {
+        this.recordConflicts(entity, conflicts);
+      }
+
       result.success = result.errors.length === 0;
     } catch (error) {
       result.errors.push(
@@ -277,7 +461,260 @@ export class SyncManager {
   }
 
   /**
-   * Merge entity data from multiple sources using the configured strategy
+   * Resolve a queued conflict by applying the chosen value
+   *
+   * The value is written to every provider that syncs the conflicting field
+   * and to the main taskStore, then the conflict is removed from the queue.
+   */
+  async resolveConflict(conflictId: string, value: unknown): Promise<void> {
+    const conflict = get(this.conflictStore).conflicts.find(
+      (c) => c.id === conflictId
+    );
+    if (!conflict) {
+      throw new Error(`Sync conflict not found: ${conflictId}`);
+    }
+
+    const entity = get(this.taskStore).tasks.find(
+      (t) => t.id === conflict.entityId
+    );
+
+    if (entity) {
+      const data = { [conflict.field]: value } as Partial<Task>;
+
+      for (const sourceKey of Object.keys(entity.source.keys)) {
+        const provider = this.providers.get(sourceKey);
+        if (!provider || !provider.canHandle(entity)) {
+          continue;
+        }
+
+        const syncableData = this.filterSyncableProperties(data, provider);
+        if (conflict.field in syncableData) {
+          await provider.writeEntityData(entity.id, syncableData);
+
+          // The chosen value is the new common base for three-way merges
+          const entitySnapshots = (this.snapshots[entity.id] ??= {});
+          entitySnapshots[sourceKey] = {
+            ...entitySnapshots[sourceKey],
+            ...syncableData,
+          };
+        }
+      }
+
+      await this.updateMainTaskStore(entity.id, data);
+    }
+
+    this.conflictStore.dispatch({ type: "RESOLVE_CONFLICT", conflictId });
+    this.notifyConflictsUpdated();
+  }
+
+  /**
+   * Find fields on which providers report different values
+   *
+   * Only fields reported by at least two providers are compared, so a field
+   * one provider doesn't sync can never conflict.
+   */
+  private detectConflicts(
+    entity: Task,
+    sourceData: Map<string, Partial<Task>>
+  ): SyncConflict[] {
+    const valuesByField = this.collectFieldValues(sourceData);
+
+    const conflicts: SyncConflict[] = [];
+
+    for (const [field, values] of valuesByField) {
+      if (values.length < 2) {
+        continue;
+      }
+
+      const [first, ...rest] = values;
+      if (rest.every((v) => equal(v.value, first.value))) {
+        continue;
+      }
+
+      conflicts.push({
+        id: generateId(),
+        entityId: entity.id,
+        entityTitle: entity.title,
+        field: field as keyof Task,
+        values,
+        detectedAt: new Date(),
+      });
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Replace the queued conflicts of an entity with the freshly detected ones
+   *
+   * Previously queued conflicts that no longer differ are dropped, so
+   * conflicts fixed directly in one of the sources disappear on next sync.
+   */
+  private recordConflicts(entity: Task, conflicts: SyncConflict[]): void {
+    const queued = get(this.conflictStore).conflicts.filter(
+      (c) => c.entityId === entity.id
+    );
+
+    if (queued.length === 0 && conflicts.length === 0) {
+      return;
+    }
+
+    this.conflictStore.dispatch({
+      type: "CLEAR_ENTITY_CONFLICTS",
+      entityId: entity.id,
+      keepFields: conflicts.map((c) => c.field),
+    });
+
+    for (const conflict of conflicts) {
+      this.conflictStore.dispatch({ type: "QUEUE_CONFLICT", conflict });
+    }
+
+    console.log(
+      `[SyncManager] ${conflicts.length} unresolved conflict(s) for entity ${entity.id}`
+    );
+
+    this.notifyConflictsUpdated();
+  }
+
+  private notifyConflictsUpdated(): void {
+    eventBus.trigger({
+      type: "sync.conflicts.updated",
+      conflicts: get(this.conflictStore).conflicts,
+    });
+  }
+
+  /**
+   * Revert the field changes of the most recent sync that wasn't undone yet
+   *
+   * Each provider gets back the value it had before the sync and the task in
+   * the main taskStore takes the overwritten value again. Snapshots are left
+   * untouched, so the "three-way" strategy treats the restored values as new
+   * changes and propagates them on the next sync.
+   *
+   * @returns Number of reverted field changes
+   */
+  async undoLastSync(): Promise<number> {
+    const entries = get(this.journalStore).entries;
+    const last = [...entries].reverse().find((e) => !e.undone);
+    if (!last) {
+      return 0;
+    }
+
+    const runEntries = entries.filter(
+      (e) => e.syncId === last.syncId && !e.undone
+    );
+
+    console.log(
+      `[SyncManager] Undoing sync ${last.syncId} (${runEntries.length} changes)`
+    );
+
+    const entriesByEntity = new Map<string, SyncJournalEntry[]>();
+    for (const entry of runEntries) {
+      const entityEntries = entriesByEntity.get(entry.entityId) || [];
+      entityEntries.push(entry);
+      entriesByEntity.set(entry.entityId, entityEntries);
+    }
+
+    for (const [entityId, entityEntries] of entriesByEntity) {
+      const entity = get(this.taskStore).tasks.find((t) => t.id === entityId);
+      if (!entity) {
+        continue;
+      }
+
+      const restored: Record<string, any> = {};
+
+      for (const entry of entityEntries) {
+        const provider = this.providers.get(entry.source);
+        if (provider && provider.canHandle(entity)) {
+          await provider.writeEntityData(entityId, {
+            [entry.field]: entry.oldValue,
+          } as Partial<Task>);
+        }
+
+        // The first overwritten value of a field is restored on the task
+        if (!(entry.field in restored)) {
+          restored[entry.field] = entry.oldValue;
+        }
+      }
+
+      await this.updateMainTaskStore(entityId, restored as Partial<Task>);
+    }
+
+    this.journalStore.dispatch({ type: "MARK_SYNC_UNDONE", syncId: last.syncId });
+    this.notifyJournalUpdated();
+
+    return runEntries.length;
+  }
+
+  /**
+   * Append the changes of a syncAllCrossSourceEntities() run to the journal
+   */
+  private recordJournal(
+    entities: readonly Task[],
+    results: EntitySyncResult[]
+  ): void {
+    const syncId = generateId();
+    const timestamp = new Date();
+    const titles = new Map(entities.map((t) => [t.id, t.title]));
+    const entries: SyncJournalEntry[] = [];
+
+    for (const result of results) {
+      for (const change of result.changes) {
+        if (NON_CONFLICTING_FIELDS.has(change.field)) {
+          continue;
+        }
+
+        entries.push({
+          id: generateId(),
+          syncId,
+          timestamp,
+          entityId: result.entityId,
+          entityTitle: titles.get(result.entityId) || result.entityId,
+          field: change.field,
+          oldValue: change.oldValue,
+          newValue: change.newValue,
+          source: change.source,
+          rule: change.rule,
+        });
+      }
+    }
+
+    if (entries.length === 0) {
+      return;
+    }
+
+    this.journalStore.dispatch({ type: "RECORD_SYNC_CHANGES", entries });
+    this.notifyJournalUpdated();
+  }
+
+  private notifyJournalUpdated(): void {
+    eventBus.trigger({
+      type: "sync.journal.updated",
+      entries: get(this.journalStore).entries,
+    });
+  }
+
+  /**
+   * Get the strategy to merge an entity's data with
+   * Entities written back to one of their sources need a per-field merge, so
+   * "source-wins" is replaced by "three-way" for them.
+   */
+  private getStrategy(
+    entity: Task,
+    sourceData: Map<string, Partial<Task>>
+  ): SyncStrategy {
+    if (this.config.strategy !== "source-wins") {
+      return this.config.strategy;
+    }
+
+    const writesBack = Array.from(sourceData.keys()).some((sourceKey) =>
+      this.providers.get(sourceKey)?.isWriteBackEnabled?.(entity)
+    );
+    return writesBack ? "three-way" : this.config.strategy;
+  }
+
+  /**
+   * Merge entity data from multiple sources using the given strategy
    * 
    * The merge respects each provider's syncable properties:
    * - For each source, only properties in getSyncableProperties() are merged
@@ -286,28 +723,14 @@ export class SyncManager {
    */
   private mergeEntityData(
     entity: Task,
-    sourceData: Map<string, Partial<Task>>
-  ): Partial<Task> {
+    sourceData: Map<string, Partial<Task>>,
+    strategy: SyncStrategy
+  ): MergeResult {
     const sourceExtension = entity.source.extension;
     
-    switch (this.config.strategy) {
+    switch (strategy) {
       case "source-wins": {
-        // Start with an empty merged result
-        const merged: Record<string, any> = {};
-        
-        // First, merge non-source extension data (as base layer)
-        for (const [sourceKey, data] of sourceData) {
-          if (sourceKey !== sourceExtension) {
-            // Merge this source's data (already filtered by getSyncableProperties)
-            Object.assign(merged, data);
-          }
-        }
-        
-        // Then, overlay source extension data (authoritative source wins)
-        const sourceData_priority = sourceData.get(sourceExtension);
-        if (sourceData_priority) {
-          Object.assign(merged, sourceData_priority);
-        }
+        const merged = this.mergeSourceWins(sourceExtension, sourceData);
         
         console.log(
           `[SyncManager] Merged data with source-wins strategy:`,
@@ -318,7 +741,7 @@ export class SyncManager {
           }
         );
         
-        return merged as Partial<Task>;
+        return this.wholePayloadResult(merged, "source-wins");
       }
 
       case "last-modified": {
@@ -335,21 +758,234 @@ export class SyncManager {
             latestData = data;
           }
         }
-        return latestData;
+        return this.wholePayloadResult(latestData, "last-modified");
       }
 
       case "manual-resolve": {
-        // For now, just return the source extension data
-        // In the future, this could trigger a UI for manual resolution
-        const manualSourceData = sourceData.get(entity.source.extension);
-        return manualSourceData || sourceData.values().next().value || {};
+        // Fields the providers agree on are merged like "source-wins".
+        // Conflicting fields are left out entirely so that no source gets
+        // overwritten before the user picks a value.
+        const conflicts = this.detectConflicts(entity, sourceData);
+        const merged: Record<string, any> = this.mergeSourceWins(
+          sourceExtension,
+          sourceData
+        );
+
+        for (const conflict of conflicts) {
+          delete merged[conflict.field];
+        }
+
+        return {
+          ...this.wholePayloadResult(merged, "manual-resolve"),
+          conflicts,
+        };
       }
 
+      case "three-way":
+        return this.mergeThreeWay(entity, sourceData);
+
       default:
-        return sourceData.values().next().value || {};
+        return this.wholePayloadResult(
+          sourceData.values().next().value || {},
+          strategy
+        );
     }
   }
 
+  /**
+   * Layer all sources with the authoritative source on top
+   */
+  private mergeSourceWins(
+    sourceExtension: string,
+    sourceData: Map<string, Partial<Task>>
+  ): Record<string, any> {
+    const merged: Record<string, any> = {};
+
+    // First, merge non-source extension data (as base layer)
+    for (const [sourceKey, data] of sourceData) {
+      if (sourceKey !== sourceExtension) {
+        // Merge this source's data (already filtered by getSyncableProperties)
+        Object.assign(merged, data);
+      }
+    }
+
+    // Then, overlay source extension data (authoritative source wins)
+    const authoritativeData = sourceData.get(sourceExtension);
+    if (authoritativeData) {
+      Object.assign(merged, authoritativeData);
+    }
+
+    return merged;
+  }
+
+  private wholePayloadResult(
+    data: Partial<Task>,
+    rule: SyncMergeRule
+  ): MergeResult {
+    const rules = new Map<string, SyncMergeRule>();
+    for (const field of Object.keys(data)) {
+      rules.set(field, rule);
+    }
+    return { data, rules, conflicts: [] };
+  }
+
+  /**
+   * Per-field three-way merge against the last-synced snapshot of each source
+   *
+   * A field takes the value of whichever source changed it since the last
+   * sync. Only when sources changed the same field to different values is it
+   * flagged as a conflict and left out of the merge. Fields without a snapshot
+   * fall back to "source-wins".
+   */
+  private mergeThreeWay(
+    entity: Task,
+    sourceData: Map<string, Partial<Task>>
+  ): MergeResult {
+    const sourceExtension = entity.source.extension;
+    const bases = this.snapshots[entity.id] || {};
+
+    const merged: Record<string, any> = {};
+    const rules = new Map<string, SyncMergeRule>();
+    const conflicts: SyncConflict[] = [];
+
+    // Record-level fields are never merged per field
+    const fallback = this.mergeSourceWins(sourceExtension, sourceData);
+    for (const field of NON_CONFLICTING_FIELDS) {
+      if (field in fallback) {
+        merged[field] = fallback[field];
+        rules.set(field, "source-wins");
+      }
+    }
+
+    const valuesByField = this.collectFieldValues(sourceData);
+
+    for (const [field, values] of valuesByField) {
+      if (values.length === 1) {
+        merged[field] = values[0].value;
+        rules.set(field, "single-source");
+        continue;
+      }
+
+      const hasBase = values.every(
+        (v) => bases[v.source] && field in bases[v.source]
+      );
+      const changed = hasBase
+        ? values.filter(
+            (v) => !equal(v.value, bases[v.source][field as keyof Task])
+          )
+        : [];
+
+      const [first, ...rest] = values;
+      if (rest.every((v) => equal(v.value, first.value))) {
+        merged[field] = first.value;
+        rules.set(field, changed.length > 0 ? "changed-same" : "unchanged");
+        continue;
+      }
+
+      if (!hasBase) {
+        merged[field] = fallback[field];
+        rules.set(field, "no-base");
+        continue;
+      }
+
+      const [change, ...otherChanges] = changed;
+      if (change && otherChanges.every((v) => equal(v.value, change.value))) {
+        merged[field] = change.value;
+        rules.set(
+          field,
+          otherChanges.length > 0 ? "changed-same" : "changed-one-side"
+        );
+        continue;
+      }
+
+      // Both sides changed the field differently, or a previous conflict
+      // on it is still unresolved
+      rules.set(field, "conflict");
+      conflicts.push({
+        id: generateId(),
+        entityId: entity.id,
+        entityTitle: entity.title,
+        field: field as keyof Task,
+        values,
+        detectedAt: new Date(),
+      });
+    }
+
+    console.log(`[SyncManager] Merged data with three-way strategy:`, {
+      sourceExtension,
+      sources: Array.from(sourceData.keys()),
+      rules: Object.fromEntries(rules),
+    });
+
+    return { data: merged as Partial<Task>, rules, conflicts };
+  }
+
+  /**
+   * Group the values every source reports for a field, skipping record-level fields
+   */
+  private collectFieldValues(
+    sourceData: Map<string, Partial<Task>>
+  ): Map<string, Array<{ source: string; value: any }>> {
+    const valuesByField = new Map<
+      string,
+      Array<{ source: string; value: any }>
+    >();
+
+    for (const [sourceKey, data] of sourceData) {
+      for (const [field, value] of Object.entries(data)) {
+        if (NON_CONFLICTING_FIELDS.has(field)) {
+          continue;
+        }
+        const values = valuesByField.get(field) || [];
+        values.push({ source: sourceKey, value });
+        valuesByField.set(field, values);
+      }
+    }
+
+    return valuesByField;
+  }
+
+  /**
+   * Remember what each source holds after the sync as the base for the next
+   * three-way merge. Conflicting fields keep their previous base so they are
+   * still seen as changed on both sides until resolved.
+   */
+  private updateSnapshots(
+    entityId: string,
+    sourceData: Map<string, Partial<Task>>,
+    mergedData: Partial<Task>,
+    conflicts: SyncConflict[]
+  ): void {
+    const conflictingFields = new Set<string>(conflicts.map((c) => c.field));
+    const previous = this.snapshots[entityId] || {};
+    const snapshots: Record<string, Partial<Task>> = {};
+
+    for (const [sourceKey, data] of sourceData) {
+      const base = previous[sourceKey];
+      const snapshot: Record<string, any> = {};
+
+      for (const [field, value] of Object.entries(data)) {
+        if (NON_CONFLICTING_FIELDS.has(field)) {
+          continue;
+        }
+
+        if (conflictingFields.has(field)) {
+          if (base && field in base) {
+            snapshot[field] = base[field as keyof Task];
+          }
+        } else if (field in mergedData) {
+          snapshot[field] = mergedData[field as keyof Task];
+        } else {
+          snapshot[field] = value;
+        }
+      }
+
+      snapshots[sourceKey] = snapshot as Partial<Task>;
+    }
+
+    this.snapshots[entityId] = snapshots;
+  }
+
   /**
    * Update the main taskStore with merged data
    */
@@ -380,16 +1016,18 @@ export class SyncManager {
     result: EntitySyncResult,
     oldData: Partial<Task>,
     newData: Partial<Task>,
-    source: string
+    source: string,
+    rules: Map<string, SyncMergeRule>
   ): void {
     for (const [field, newValue] of Object.entries(newData)) {
       const oldValue = oldData[field as keyof Task];
-      if (oldValue !== newValue) {
+      if (!equal(oldValue, newValue)) {
         result.changes.push({
           field,
           oldValue,
           newValue,
           source,
+          rule: rules.get(field) ?? "source-wins",
         });
       }
     }
@@ -440,9 +1078,14 @@ export class SyncManager {
 export let syncManager: SyncManager;
 
 /**
- * Initialize the global sync manager with taskStore dependency
+ * Initialize the global sync manager with its store dependencies
  * This must be called before using syncManager
  */
-export function initializeSyncManager(taskStore: TaskStore): void {
-  syncManager = new SyncManager(taskStore);
+export function initializeSyncManager(
+  taskStore: TaskStore,
+  conflictStore: SyncConflictStore,
+  journalStore: SyncJournalStore,
+  config?: SyncConfig
+): void {
+  syncManager = new SyncManager(taskStore, conflictStore, journalStore, config);
 }
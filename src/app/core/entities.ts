@@ -53,6 +53,7 @@ export const TaskSchema = z.object({
   category: optionalStringSchema,
   priority: optionalStringSchema,
   parentTask: optionalStringSchema, // Plain task title, not wiki link
+  blockedBy: z.array(z.string()).optional(), // Plain task titles, not wiki links
   project: optionalStringSchema, // Plain project name, not wiki link
   areas: z.array(z.string()).default([]), // Plain area names, not wiki links
   tags: z.array(z.string()).default([]),
@@ -60,6 +61,11 @@ export const TaskSchema = z.object({
   // Scheduling
   doDate: optionalDateSchema,
   dueDate: optionalDateSchema,
+  // RFC 5545 RRULE (e.g. "FREQ=WEEKLY;BYDAY=MO"), see utils/recurrence
+  recurrence: optionalStringSchema,
+
+  // Time tracking entries as ISO intervals, see utils/timeTracking
+  timeLog: z.array(z.string()).optional(),
 
   // System properties
   createdAt: requiredDateSchema,
@@ -71,12 +77,23 @@ export const TaskSchema = z.object({
 
 export type Task = Readonly<z.infer<typeof TaskSchema>>;
 
+// Defaults for tasks created from a project or area context
+export const TaskDefaultsSchema = z.object({
+  template: optionalStringSchema, // Template file name in the templates folder
+  priority: optionalStringSchema,
+  category: optionalStringSchema,
+  tags: z.array(z.string()).optional(),
+});
+
+export type TaskDefaults = z.infer<typeof TaskDefaultsSchema>;
+
 export const ProjectSchema = z.object({
   id: z.string(),
   name: z.string(),
   description: optionalStringSchema,
   areas: z.array(z.string()).default([]), // Plain area names, not wiki links
   tags: z.array(z.string()).default([]),
+  taskDefaults: TaskDefaultsSchema.optional(),
   createdAt: requiredDateSchema,
   updatedAt: requiredDateSchema,
   source: TaskSourceSchema,
@@ -89,6 +106,7 @@ export const AreaSchema = z.object({
   name: z.string(),
   description: optionalStringSchema,
   tags: z.array(z.string()).default([]),
+  taskDefaults: TaskDefaultsSchema.optional(),
   createdAt: requiredDateSchema,
   updatedAt: requiredDateSchema,
   source: TaskSourceSchema,
@@ -119,6 +137,15 @@ export const CalendarEventSchema = z.object({
 
 export type CalendarEvent = z.infer<typeof CalendarEventSchema>;
 
+// Time box for a scheduled task, in local "HH:mm" time
+export const ScheduleTimeBlockSchema = z.object({
+  taskId: z.string(),
+  start: z.string().regex(/^\d{2}:\d{2}$/),
+  end: z.string().regex(/^\d{2}:\d{2}$/),
+});
+
+export type ScheduleTimeBlock = z.infer<typeof ScheduleTimeBlockSchema>;
+
 // Schedule entity schema
 export const ScheduleSchema = z.object({
   // Core identity
@@ -135,6 +162,9 @@ export const ScheduleSchema = z.object({
   // Unscheduled tasks (for daily planning)
   unscheduledTasks: z.array(TaskSchema).default([]),
 
+  // Time boxes of scheduled tasks (tasks without one aren't time-boxed)
+  timeBlocks: z.array(ScheduleTimeBlockSchema).optional(),
+
   // Calendar events for this schedule
   events: z.array(CalendarEventSchema).default([]),
 
@@ -174,6 +204,7 @@ export const SchedulePersistenceItemSchema = z.object({
   updatedAt: z.string(), // ISO date string
   taskIds: z.array(z.string()), // Array of task IDs instead of full task objects
   unscheduledTaskIds: z.array(z.string()), // Array of unscheduled task IDs
+  timeBlocks: z.array(ScheduleTimeBlockSchema).optional(),
   events: z.array(CalendarEventSchema), // Events are still stored as full objects
 });
 
@@ -5,6 +5,11 @@
 
 import { Task, Project, Area } from "./entities";
 import { EntityType } from "./extension";
+import type {
+  SyncConflict,
+  SyncJournalEntry,
+  SyncSnapshots,
+} from "./SyncManager";
 
 /**
  * Core domain events - these are the standard events emitted by the core system
@@ -19,6 +24,12 @@ export type CoreDomainEvent =
       extension?: string;
     }
   | { type: "tasks.deleted"; taskId: string; task: Task; extension?: string }
+  | {
+      type: "tasks.renamed";
+      oldTitle: string;
+      newTitle: string;
+      extension?: string;
+    }
   | { type: "tasks.loaded"; tasks: readonly Task[]; extension?: string }
 
   // Project events
@@ -83,7 +94,12 @@ export type CoreDomainEvent =
       extension?: string;
       entityType: EntityType;
       error: string;
-    };
+    }
+
+  // Cross-source sync events
+  | { type: "sync.conflicts.updated"; conflicts: readonly SyncConflict[] }
+  | { type: "sync.snapshots.updated"; snapshots: SyncSnapshots }
+  | { type: "sync.journal.updated"; entries: readonly SyncJournalEntry[] };
 
 /**
  * Extension-specific event - allows extensions to define their own event types
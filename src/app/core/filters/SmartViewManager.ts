@@ -0,0 +1,168 @@
+/**
+ * Smart View Manager
+ * Manages named views (filters + search query + sort) and their persistence
+ */
+
+import type { Host } from "../host";
+import type {
+  SmartView,
+  SmartViewInput,
+  SmartViewExport,
+  SmartViewPersistenceData,
+} from "./types";
+import { generateId } from "../../utils/idGenerator";
+
+export class SmartViewManager {
+  private views: SmartView[] = [];
+  private host: Host;
+  private persistenceKey = "smartViews";
+
+  constructor(host: Host) {
+    this.host = host;
+  }
+
+  /**
+   * Get all views in creation order
+   */
+  getViews(): SmartView[] {
+    return [...this.views];
+  }
+
+  /**
+   * Get a view by ID
+   */
+  getView(id: string): SmartView | undefined {
+    return this.views.find((view) => view.id === id);
+  }
+
+  /**
+   * Create a new view
+   * Throws if the name is empty or already used by another view
+   */
+  async createView(input: SmartViewInput): Promise<SmartView> {
+    const name = this.validateName(input.name);
+    const now = new Date().toISOString();
+
+    const view: SmartView = {
+      id: generateId(),
+      name,
+      serviceId: input.serviceId,
+      filters: { ...input.filters },
+      searchQuery: input.searchQuery,
+      sort: input.sort.map((field) => ({ ...field })),
+      pinned: input.pinned ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.views = [...this.views, view];
+    await this.persistState();
+    return view;
+  }
+
+  /**
+   * Update an existing view
+   */
+  async updateView(
+    id: string,
+    changes: Partial<SmartViewInput>
+  ): Promise<SmartView> {
+    const view = this.getView(id);
+    if (!view) {
+      throw new Error(`Smart view ${id} not found`);
+    }
+
+    const updated: SmartView = {
+      ...view,
+      ...changes,
+      name:
+        changes.name !== undefined
+          ? this.validateName(changes.name, id)
+          : view.name,
+      pinned: changes.pinned ?? view.pinned,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.views = this.views.map((v) => (v.id === id ? updated : v));
+    await this.persistState();
+    return updated;
+  }
+
+  /**
+   * Pin or unpin a view as a tab
+   */
+  async setPinned(id: string, pinned: boolean): Promise<void> {
+    await this.updateView(id, { pinned });
+  }
+
+  /**
+   * Delete a view
+   */
+  async deleteView(id: string): Promise<void> {
+    this.views = this.views.filter((view) => view.id !== id);
+    await this.persistState();
+  }
+
+  /**
+   * Export views as a JSON string
+   * @param ids - Views to export, all views when omitted
+   */
+  exportViews(ids?: string[]): string {
+    const data: SmartViewExport = {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      views: ids
+        ? this.views.filter((view) => ids.includes(view.id))
+        : this.views,
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Load persisted views from storage
+   */
+  async loadPersistedState(): Promise<void> {
+    try {
+      const data = await this.host.loadData();
+      const persistedData: SmartViewPersistenceData | undefined =
+        data?.[this.persistenceKey];
+
+      this.views = persistedData?.views ?? [];
+    } catch (err: any) {
+      console.warn("Failed to load smart views:", err.message);
+    }
+  }
+
+  /**
+   * Persist current views to storage
+   */
+  private async persistState(): Promise<void> {
+    try {
+      const data = (await this.host.loadData()) || {};
+      const persistenceData: SmartViewPersistenceData = { views: this.views };
+
+      data[this.persistenceKey] = persistenceData;
+      await this.host.saveData(data);
+    } catch (err: any) {
+      console.warn("Failed to persist smart views:", err.message);
+    }
+  }
+
+  private validateName(name: string, currentId?: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("Smart view name cannot be empty");
+    }
+
+    const duplicate = this.views.find(
+      (view) =>
+        view.id !== currentId &&
+        view.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (duplicate) {
+      throw new Error(`A smart view named "${trimmed}" already exists`);
+    }
+
+    return trimmed;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Svelte store wrapper for SmartViewManager
+ * Provides reactive smart views and the currently applied view
+ */
+
+import { writable, derived, get, type Readable } from "svelte/store";
+import { SmartViewManager } from "./SmartViewManager";
+import type { Host } from "../host";
+import type { SmartView, SmartViewInput } from "./types";
+
+class SmartViewStore {
+  private smartViewManager: SmartViewManager;
+  private viewsStore = writable<SmartView[]>([]);
+  private activeViewIdStore = writable<string | null>(null);
+
+  /** All saved views */
+  readonly views: Readable<SmartView[]> = {
+    subscribe: this.viewsStore.subscribe,
+  };
+
+  /** Views pinned as tabs */
+  readonly pinnedViews: Readable<SmartView[]> = derived(
+    this.viewsStore,
+    (views) => views.filter((view) => view.pinned)
+  );
+
+  /** View most recently applied from a tab or command, if any */
+  readonly activeView: Readable<SmartView | null> = derived(
+    [this.viewsStore, this.activeViewIdStore],
+    ([views, activeViewId]) =>
+      views.find((view) => view.id === activeViewId) ?? null
+  );
+
+  constructor(host: Host) {
+    this.smartViewManager = new SmartViewManager(host);
+  }
+
+  /**
+   * Initialize the store and load persisted views
+   */
+  async initialize(): Promise<void> {
+    await this.smartViewManager.loadPersistedState();
+    this.triggerUpdate();
+  }
+
+  async createView(input: SmartViewInput): Promise<SmartView> {
+    const view = await this.smartViewManager.createView(input);
+    this.triggerUpdate();
+    return view;
+  }
+
+  async updateView(
+    id: string,
+    changes: Partial<SmartViewInput>
+  ): Promise<SmartView> {
+    const view = await this.smartViewManager.updateView(id, changes);
+    this.triggerUpdate();
+    return view;
+  }
+
+  async setPinned(id: string, pinned: boolean): Promise<void> {
+    await this.smartViewManager.setPinned(id, pinned);
+    this.triggerUpdate();
+  }
+
+  async deleteView(id: string): Promise<void> {
+    await this.smartViewManager.deleteView(id);
+    if (get(this.activeViewIdStore) === id) {
+      this.activeViewIdStore.set(null);
+    }
+    this.triggerUpdate();
+  }
+
+  getView(id: string): SmartView | undefined {
+    return this.smartViewManager.getView(id);
+  }
+
+  /**
+   * Apply a view; services showing its serviceId pick it up reactively
+   */
+  activateView(id: string | null): void {
+    this.activeViewIdStore.set(id);
+  }
+
+  exportViews(ids?: string[]): string {
+    return this.smartViewManager.exportViews(ids);
+  }
+
+  private triggerUpdate(): void {
+    this.viewsStore.set(this.smartViewManager.getViews());
+  }
+}
+
+export type { SmartViewStore };
+
+// Global smart view store instance
+let smartViewStore: SmartViewStore | null = null;
+
+/**
+ * Initialize the global smart view store
+ */
+export function initializeSmartViewStore(host: Host): SmartViewStore {
+  if (!smartViewStore) {
+    smartViewStore = new SmartViewStore(host);
+  }
+  return smartViewStore;
+}
+
+/**
+ * Get the global smart view store instance
+ */
+export function getSmartViewStore(): SmartViewStore {
+  if (!smartViewStore) {
+    throw new Error(
+      "SmartViewStore not initialized. Call initializeSmartViewStore() first."
+    );
+  }
+  return smartViewStore;
+}
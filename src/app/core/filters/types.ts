@@ -3,6 +3,8 @@
  * Centralized filter management for all services (Local, GitHub, etc.)
  */
 
+import type { TaskSortField } from "../../services/TaskQueryService";
+
 export type FilterType = 
   | "select"      // Single selection dropdown
   | "multiselect" // Multiple selection
@@ -49,3 +51,37 @@ export interface FilterPersistenceData {
     recentValues: { [filterId: string]: string[] };
   };
 }
+
+/**
+ * Named combination of filters, search query and sort for a service
+ * Persisted next to FilterPersistenceData and pinnable as a tab
+ */
+export interface SmartView {
+  id: string;
+  name: string;
+  serviceId: string;
+  filters: FilterState;
+  searchQuery: string;
+  sort: TaskSortField[];
+  pinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SmartViewInput = Pick<
+  SmartView,
+  "name" | "serviceId" | "filters" | "searchQuery" | "sort"
+> & { pinned?: boolean };
+
+export interface SmartViewPersistenceData {
+  views: SmartView[];
+}
+
+/**
+ * JSON export format for smart views
+ */
+export interface SmartViewExport {
+  version: 1;
+  exportedAt: string;
+  views: SmartView[];
+}
@@ -93,6 +93,12 @@ export abstract class Host {
    */
   abstract showNotice(message: string, duration?: number): void;
 
+  /**
+   * Show the queued sync conflicts so the user can resolve them.
+   * For ObsidianHost, this opens the sync conflict modal.
+   */
+  abstract openSyncConflicts(): Promise<void>;
+
   /**
    * Lifecycle callback that runs when TaskSync initializes in the host environment.
    * This is where the host can perform any necessary setup operations.
@@ -45,6 +45,11 @@ export class NoteKit {
     this.propertyProcessor = new PropertyProcessor();
     this.templateEngine = new TemplateEngine();
 
+    // Parent templates are the templates of other note types
+    this.templateEngine.setTemplateResolver(
+      (id) => this.registry.get(id)?.template
+    );
+
     // Default template preferences
     const defaultTemplatePreferences: TemplatePreferences = {
       preferredProvider: "core",
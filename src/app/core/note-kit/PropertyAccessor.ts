@@ -45,6 +45,7 @@ export class PropertyAccessor implements PropertyDefinition {
   readonly order?: number;
   readonly options?: string[]; // For enum properties
   readonly source?: string;
+  readonly formula?: string;
   readonly link?: boolean;
   readonly selectOptions?: SelectOption[];
   readonly association?: PropertyDefinition["association"];
@@ -65,6 +66,7 @@ export class PropertyAccessor implements PropertyDefinition {
     this.order = propertyDef.order;
     this.options = propertyDef.options;
     this.source = propertyDef.source;
+    this.formula = propertyDef.formula;
     this.link = propertyDef.link;
     this.selectOptions = propertyDef.selectOptions;
     this.association = propertyDef.association;
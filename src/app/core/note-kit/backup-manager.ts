@@ -5,8 +5,18 @@
 
 import type { App, Vault, TFile } from "obsidian";
 import { normalizePath } from "obsidian";
-import type { NoteType, Template, SemanticVersion } from "./types";
-import type { TypeRegistry } from "./registry";
+import type {
+  NoteType,
+  Template,
+  SemanticVersion,
+  ValidationResult,
+} from "./types";
+import type { TypeRegistry, SerializedNoteType } from "./registry";
+import { createValidResult, mergeValidationResults } from "./validation";
+import {
+  selectBackupsToPrune,
+  type BackupRetentionPolicy,
+} from "./backup-retention";
 
 /**
  * Backup types
@@ -72,7 +82,11 @@ export interface RestoreOptions {
   /** Whether to create a backup before restoring */
   createBackupBeforeRestore?: boolean;
 
-  /** Whether to validate after restore */
+  /**
+   * Whether to validate the restored data
+   * Note types are validated before they're registered, so an invalid backup
+   * is only restored with forceRestore.
+   */
   validateAfterRestore?: boolean;
 
   /** Whether to force restore even if validation fails */
@@ -110,7 +124,7 @@ export interface RestoreResult {
   preRestoreBackupId?: string;
 
   /** Validation result after restore */
-  validationResult?: any;
+  validationResult?: ValidationResult;
 
   /** Errors */
   errors?: string[];
@@ -127,6 +141,8 @@ export class BackupManager {
   private vault: Vault;
   private registry: TypeRegistry;
   private backups: Map<string, BackupEntry> = new Map();
+  // Size of each backup file in bytes
+  private backupSizes: Map<string, number> = new Map();
   private backupFolder: string;
 
   constructor(
@@ -345,6 +361,8 @@ export class BackupManager {
   ): Promise<RestoreResult> {
     const {
       createBackupBeforeRestore = true,
+      validateAfterRestore = false,
+      forceRestore = false,
     } = options;
 
     try {
@@ -356,6 +374,25 @@ export class BackupManager {
         };
       }
 
+      let validationResult: ValidationResult | undefined;
+      const warnings: string[] = [];
+
+      if (validateAfterRestore) {
+        validationResult = this.validateBackup(backup);
+        if (!validationResult.valid) {
+          const messages = validationResult.errors.map((e) => e.message);
+          if (!forceRestore) {
+            return {
+              success: false,
+              backupId,
+              validationResult,
+              errors: messages,
+            };
+          }
+          warnings.push(...messages);
+        }
+      }
+
       let preRestoreBackupId: string | undefined;
 
       // Create backup before restore if requested
@@ -388,6 +425,8 @@ export class BackupManager {
         success: true,
         backupId,
         preRestoreBackupId,
+        validationResult,
+        warnings: warnings.length > 0 ? warnings : undefined,
       };
     } catch (error) {
       return {
@@ -450,12 +489,12 @@ export class BackupManager {
 
       // Remove from memory
       this.backups.delete(backupId);
+      this.backupSizes.delete(backupId);
 
       // Remove backup file
       const backupFilePath = this.getBackupFilePath(backupId);
-      const backupFile = this.vault.getAbstractFileByPath(backupFilePath);
-      if (backupFile) {
-        await this.vault.delete(backupFile);
+      if (await this.vault.adapter.exists(backupFilePath)) {
+        await this.vault.adapter.remove(backupFilePath);
       }
 
       return true;
@@ -495,15 +534,97 @@ export class BackupManager {
     return deletedCount;
   }
 
+  /**
+   * Delete the backups a retention policy doesn't keep
+   * @returns Number of deleted backups
+   */
+  async applyRetentionPolicy(
+    policy: BackupRetentionPolicy,
+    now: Date = new Date()
+  ): Promise<number> {
+    const backupIds = selectBackupsToPrune(
+      this.listBackups().map((entry) => ({
+        entry,
+        size: this.getBackupSize(entry.id),
+      })),
+      policy,
+      now
+    );
+
+    let deletedCount = 0;
+    for (const backupId of backupIds) {
+      if (await this.deleteBackup(backupId)) {
+        deletedCount++;
+      }
+    }
+
+    return deletedCount;
+  }
+
+  /**
+   * Get the size of a backup's file in bytes
+   */
+  getBackupSize(backupId: string): number {
+    return this.backupSizes.get(backupId) ?? 0;
+  }
+
+  /**
+   * Get the backed up data as text, for comparing it with the current state
+   */
+  getBackupText(backup: BackupEntry): string {
+    switch (backup.type) {
+      case "file":
+        return backup.originalData?.content ?? "";
+      case "template":
+        return backup.originalData?.content ?? "";
+      default:
+        return JSON.stringify(backup.originalData, null, 2);
+    }
+  }
+
+  /**
+   * Get the current state of what a backup was made of as text
+   * @returns null if it no longer exists or can't be looked up
+   */
+  async getCurrentText(backup: BackupEntry): Promise<string | null> {
+    switch (backup.type) {
+      case "file": {
+        const file = backup.filePath
+          ? this.vault.getAbstractFileByPath(backup.filePath)
+          : null;
+        return file ? this.vault.read(file as TFile) : null;
+      }
+      case "note-type": {
+        const noteType = backup.noteTypeId
+          ? this.registry.get(backup.noteTypeId)
+          : null;
+        return noteType
+          ? JSON.stringify(this.serializeNoteType(noteType), null, 2)
+          : null;
+      }
+      case "registry":
+        return JSON.stringify(
+          this.registry.getAll().map((nt) => this.serializeNoteType(nt)),
+          null,
+          2
+        );
+      default:
+        // Templates aren't stored under an identifier they could be found by
+        return null;
+    }
+  }
+
   // Private helper methods...
   private generateBackupId(): string {
     return `backup_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   private async ensureBackupFolder(): Promise<void> {
+    // The backup folder is in the config folder, which isn't part of the
+    // vault's file index, so backups are managed through the adapter
     const exists = await this.vault.adapter.exists(this.backupFolder);
     if (!exists) {
-      await this.vault.createFolder(this.backupFolder);
+      await this.vault.adapter.mkdir(this.backupFolder);
     }
   }
 
@@ -517,29 +638,27 @@ export class BackupManager {
     const backupFilePath = this.getBackupFilePath(backup.id);
     const backupData = JSON.stringify(backup, null, 2);
 
-    await this.vault.create(backupFilePath, backupData);
+    await this.vault.adapter.write(backupFilePath, backupData);
+    this.backupSizes.set(backup.id, backupData.length);
   }
 
   private async loadBackups(): Promise<void> {
     try {
-      const backupFiles = this.vault
-        .getFiles()
-        .filter(
-          (file) =>
-            file.path.startsWith(this.backupFolder) && file.extension === "json"
-        );
+      const { files } = await this.vault.adapter.list(this.backupFolder);
+      const backupFiles = files.filter((path) => path.endsWith(".json"));
 
-      for (const file of backupFiles) {
+      for (const path of backupFiles) {
         try {
-          const content = await this.vault.read(file);
+          const content = await this.vault.adapter.read(path);
           const backup: BackupEntry = JSON.parse(content);
 
           // Convert timestamp string back to Date
           backup.timestamp = new Date(backup.timestamp);
 
           this.backups.set(backup.id, backup);
+          this.backupSizes.set(backup.id, content.length);
         } catch (error) {
-          console.warn(`Failed to load backup file ${file.path}:`, error);
+          console.warn(`Failed to load backup file ${path}:`, error);
         }
       }
     } catch (error) {
@@ -547,11 +666,46 @@ export class BackupManager {
     }
   }
 
-  private serializeNoteType(noteType: NoteType): any {
-    return {
-      ...noteType,
-      // Convert any non-serializable properties if needed
-    };
+  private serializeNoteType(noteType: NoteType): SerializedNoteType {
+    // Zod schemas don't survive JSON, they're recreated on restore
+    return this.registry.serialize(noteType);
+  }
+
+  /**
+   * Validate the data of a backup before restoring it
+   */
+  private validateBackup(backup: BackupEntry): ValidationResult {
+    switch (backup.type) {
+      case "note-type":
+        return this.registry.validateNoteType(
+          this.registry.deserialize(backup.originalData)
+        );
+      case "registry":
+        return mergeValidationResults(
+          (backup.originalData as SerializedNoteType[]).map((serialized) =>
+            this.registry.validateNoteType(
+              this.registry.deserialize(serialized)
+            )
+          )
+        );
+      default:
+        return createValidResult(backup.originalData);
+    }
+  }
+
+  /**
+   * Register a backed up note type, replacing the current version
+   */
+  private registerBackedUpNoteType(serialized: SerializedNoteType): void {
+    const noteType = this.registry.deserialize(serialized);
+    const result = this.registry.register(noteType, {
+      allowOverwrite: true,
+      validate: false,
+      checkCompatibility: false,
+    });
+    if (!result.valid) {
+      throw new Error(result.errors.map((e) => e.message).join(", "));
+    }
   }
 
   private async createPreRestoreBackup(
@@ -564,6 +718,16 @@ export class BackupManager {
         return this.backupNoteType(originalBackup.noteTypeId!, { description });
       case "registry":
         return this.backupRegistry({ description });
+      case "file": {
+        const file = this.vault.getAbstractFileByPath(originalBackup.filePath!);
+        if (!file) {
+          return {
+            success: false,
+            errors: [`File "${originalBackup.filePath}" not found`],
+          };
+        }
+        return this.backupFile(file as TFile, { description });
+      }
       default:
         return {
           success: false,
@@ -573,10 +737,7 @@ export class BackupManager {
   }
 
   private async restoreNoteType(backup: BackupEntry): Promise<void> {
-    if (backup.noteTypeId) {
-      // This would restore the note type to the registry
-      // Implementation depends on registry's restore capabilities
-    }
+    this.registerBackedUpNoteType(backup.originalData);
   }
 
   private async restoreFile(backup: BackupEntry): Promise<void> {
@@ -590,8 +751,13 @@ export class BackupManager {
     }
   }
 
-  private async restoreRegistry(_backup: BackupEntry): Promise<void> {
-    // This would restore the entire registry
-    // Implementation depends on registry's restore capabilities
+  /**
+   * Restore every note type in a registry backup
+   * Note types registered since the backup was made are kept.
+   */
+  private async restoreRegistry(backup: BackupEntry): Promise<void> {
+    for (const serialized of backup.originalData as SerializedNoteType[]) {
+      this.registerBackedUpNoteType(serialized);
+    }
   }
 }
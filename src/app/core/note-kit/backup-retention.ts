@@ -0,0 +1,92 @@
+/**
+ * Backup Retention - Decides which backups a retention policy removes
+ * Kept free of Obsidian APIs so the rules can be reasoned about and tested
+ * on their own; BackupManager does the actual deleting.
+ */
+
+import type { BackupEntry } from "./backup-manager";
+
+/**
+ * Retention policy for backups
+ * A limit of 0 means no limit.
+ */
+export interface BackupRetentionPolicy {
+  /** Number of backups to keep for each backed up item */
+  keepLast: number;
+
+  /** Number of days to keep backups for */
+  maxAgeDays: number;
+
+  /** Total size of all backups in megabytes */
+  maxTotalSizeMB: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+/**
+ * Get the key of the item a backup was made of, e.g. "file:Tasks/Foo.md"
+ */
+export function getBackupItemKey(backup: BackupEntry): string {
+  return `${backup.type}:${backup.noteTypeId ?? backup.filePath ?? ""}`;
+}
+
+/**
+ * Select the backups a retention policy removes
+ * Backups created with autoCleanup: false are always kept, but still count
+ * towards the total size.
+ * @param backups Backups with the size of their backup file in bytes
+ * @returns IDs of the backups to delete, oldest first
+ */
+export function selectBackupsToPrune(
+  backups: Array<{ entry: BackupEntry; size: number }>,
+  policy: BackupRetentionPolicy,
+  now: Date = new Date()
+): string[] {
+  const newestFirst = [...backups].sort(
+    (a, b) => b.entry.timestamp.getTime() - a.entry.timestamp.getTime()
+  );
+  const pruned = new Set<string>();
+  const canPrune = (entry: BackupEntry) => entry.autoCleanup !== false;
+
+  if (policy.keepLast > 0) {
+    const counts = new Map<string, number>();
+    for (const { entry } of newestFirst) {
+      const key = getBackupItemKey(entry);
+      const count = (counts.get(key) ?? 0) + 1;
+      counts.set(key, count);
+      if (count > policy.keepLast && canPrune(entry)) {
+        pruned.add(entry.id);
+      }
+    }
+  }
+
+  if (policy.maxAgeDays > 0) {
+    const cutoff = now.getTime() - policy.maxAgeDays * DAY_MS;
+    for (const { entry } of newestFirst) {
+      if (entry.timestamp.getTime() < cutoff && canPrune(entry)) {
+        pruned.add(entry.id);
+      }
+    }
+  }
+
+  if (policy.maxTotalSizeMB > 0) {
+    const maxSize = policy.maxTotalSizeMB * MB;
+    let totalSize = newestFirst
+      .filter(({ entry }) => !pruned.has(entry.id))
+      .reduce((sum, { size }) => sum + size, 0);
+
+    // Remove the oldest backups until the rest fit
+    for (const { entry, size } of [...newestFirst].reverse()) {
+      if (totalSize <= maxSize) break;
+      if (pruned.has(entry.id) || !canPrune(entry)) continue;
+      pruned.add(entry.id);
+      totalSize -= size;
+    }
+  }
+
+  return newestFirst
+    .filter(({ entry }) => pruned.has(entry.id))
+    .map(({ entry }) => entry.id)
+    .reverse();
+}
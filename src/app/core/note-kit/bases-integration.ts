@@ -24,6 +24,10 @@ export const TYPE_NOTE_TO_BASE_TYPE_MAP: Record<
   enum: "text", // Enums are stored as text in basesm,
   select: "list",
   association: "text", // Associations are stored as text (wiki links)
+  duration: "text", // Durations are stored as text (e.g. "1h30m")
+  url: "text",
+  rating: "number",
+  formula: "text", // Formulas are computed at read time, not stored
 } as const;
 
 /**
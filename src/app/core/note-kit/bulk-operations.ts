@@ -6,11 +6,25 @@
 import type { App, TFile, Vault } from "obsidian";
 import type { SemanticVersion, ValidationResult } from "./types";
 import type { TypeRegistry } from "./registry";
+import type { BackupManager } from "./backup-manager";
 import { NoteProcessor } from "./note-processor";
 import { FrontMatterProcessor } from "./front-matter-processor";
 import { PropertyProcessor } from "./property-processor";
 import { TemplateEngine } from "./template-engine";
 import { compareVersions, VersionComparison } from "./version";
+import {
+  applyMigrationSteps,
+  convertPropertyValue,
+  describeMigrationStep,
+  mapPropertyValue,
+  type MigrationStep,
+} from "./declarative-migration";
+import {
+  createMigrationCheckpoint,
+  recordCheckpointFile,
+  type MigrationCheckpoint,
+  type MigrationCheckpointStore,
+} from "./migration-checkpoints";
 
 /**
  * Migration operation types
@@ -42,6 +56,9 @@ export interface MigrationOperation {
   /** Transformation function (for transform-property operations) */
   transform?: (value: any) => any;
 
+  /** Declarative step the operation was created from */
+  step?: MigrationStep;
+
   /** Description of the operation */
   description?: string;
 }
@@ -93,6 +110,15 @@ export interface BulkOperationOptions {
 
   /** Error callback */
   onError?: (file: TFile, error: string) => void;
+
+  /** Whether to only preview the changes, without writing anything */
+  dryRun?: boolean;
+
+  /** ID to checkpoint progress under, so the migration can be resumed or rolled back */
+  checkpointId?: string;
+
+  /** Signal that pauses the migration after the current batch */
+  signal?: AbortSignal;
 }
 
 /**
@@ -122,6 +148,12 @@ export interface BulkOperationResult {
 
   /** Warnings */
   warnings?: string[];
+
+  /** Changes to each file that would change (dry runs) */
+  previews?: FileMigrationPreview[];
+
+  /** Whether the migration was paused before all files were processed */
+  paused?: boolean;
 }
 
 /**
@@ -140,6 +172,12 @@ export interface FileMigrationResult {
   /** Validation result after migration */
   validationResult?: ValidationResult;
 
+  /** Description of each change */
+  changes?: string[];
+
+  /** ID of the backup made before the file was changed */
+  backupId?: string;
+
   /** Errors */
   errors?: string[];
 
@@ -147,6 +185,17 @@ export interface FileMigrationResult {
   warnings?: string[];
 }
 
+/**
+ * Preview of how a migration changes a file
+ */
+export interface FileMigrationPreview {
+  /** File path */
+  filePath: string;
+
+  /** Description of each change */
+  changes: string[];
+}
+
 /**
  * BulkOperations handles bulk operations for note type migrations
  */
@@ -157,11 +206,24 @@ export class BulkOperations {
   private noteProcessor: NoteProcessor;
   private frontMatterProcessor: FrontMatterProcessor;
   private propertyProcessor: PropertyProcessor;
+  private backupManager?: BackupManager;
+  private checkpointStore?: MigrationCheckpointStore;
 
-  constructor(app: App, registry: TypeRegistry) {
+  /**
+   * @param backupManager Keeps file backups across reloads so they can be rolled back
+   * @param checkpointStore Persists migration progress
+   */
+  constructor(
+    app: App,
+    registry: TypeRegistry,
+    backupManager?: BackupManager,
+    checkpointStore?: MigrationCheckpointStore
+  ) {
     this.app = app;
     this.vault = app.vault;
     this.registry = registry;
+    this.backupManager = backupManager;
+    this.checkpointStore = checkpointStore;
 
     // Initialize processors
     this.propertyProcessor = new PropertyProcessor();
@@ -177,7 +239,8 @@ export class BulkOperations {
     sourceNoteTypeId: string,
     sourceVersion: SemanticVersion,
     targetNoteTypeId: string,
-    targetVersion: SemanticVersion
+    targetVersion: SemanticVersion,
+    steps: MigrationStep[] = []
   ): MigrationPlan | null {
     const sourceNoteType = this.registry.get(sourceNoteTypeId);
     const targetNoteType = this.registry.get(targetNoteTypeId);
@@ -225,6 +288,9 @@ export class BulkOperations {
       }
     }
 
+    // Declarative steps authored for this migration
+    operations.push(...steps.map((step) => this.createStepOperation(step)));
+
     // Check for backwards compatibility
     const isBackwardsCompatible = compareVersions(targetVersion, sourceVersion) !== VersionComparison.LESS_THAN;
 
@@ -246,6 +312,111 @@ export class BulkOperations {
     files: TFile[],
     migrationPlan: MigrationPlan,
     options: BulkOperationOptions = {}
+  ): Promise<BulkOperationResult> {
+    let checkpoint: MigrationCheckpoint | null = null;
+    if (options.checkpointId && !options.dryRun && this.checkpointStore) {
+      checkpoint = createMigrationCheckpoint(
+        options.checkpointId,
+        migrationPlan,
+        files.map((file) => file.path)
+      );
+      await this.checkpointStore.save(checkpoint);
+    }
+
+    return this.runBulkMigration(files, migrationPlan, options, checkpoint);
+  }
+
+  /**
+   * Resume a paused or interrupted migration from its checkpoint
+   */
+  async resumeBulkMigration(
+    checkpointId: string,
+    options: Omit<BulkOperationOptions, "dryRun" | "checkpointId"> = {}
+  ): Promise<BulkOperationResult> {
+    const checkpoint = await this.loadCheckpoint(checkpointId);
+    const migrationPlan = this.restoreMigrationPlan(checkpoint.plan);
+
+    const files: TFile[] = [];
+    for (const filePath of checkpoint.pendingFiles) {
+      const file = this.vault.getFileByPath(filePath);
+      if (file) {
+        files.push(file);
+      } else {
+        recordCheckpointFile(checkpoint, filePath, {
+          success: false,
+          error: "File not found",
+        });
+      }
+    }
+
+    checkpoint.status = "running";
+    await this.checkpointStore?.save(checkpoint);
+
+    return this.runBulkMigration(files, migrationPlan, options, checkpoint);
+  }
+
+  /**
+   * Restore the files a checkpointed migration changed from their backups
+   */
+  async rollbackBulkMigration(checkpointId: string): Promise<BulkOperationResult> {
+    if (!this.backupManager) {
+      throw new Error("Rolling back a migration requires a backup manager");
+    }
+
+    const checkpoint = await this.loadCheckpoint(checkpointId);
+    const backedUpFiles = checkpoint.completedFiles.filter(
+      (filePath) => checkpoint.backups[filePath]
+    );
+
+    const result: BulkOperationResult = {
+      success: true,
+      totalFiles: backedUpFiles.length,
+      successfulFiles: 0,
+      failedFiles: 0,
+      processedFiles: [],
+      failedFileErrors: [],
+    };
+
+    for (const filePath of backedUpFiles) {
+      const restoreResult = await this.backupManager.restore(checkpoint.backups[filePath], {
+        createBackupBeforeRestore: false,
+      });
+
+      if (restoreResult.success) {
+        result.successfulFiles++;
+        result.processedFiles.push(filePath);
+      } else {
+        result.failedFiles++;
+        result.failedFileErrors.push({
+          filePath,
+          error: restoreResult.errors?.join(", ") || "Unknown error",
+        });
+      }
+    }
+
+    checkpoint.status = "rolled-back";
+    checkpoint.updatedAt = new Date().toISOString();
+    await this.checkpointStore?.save(checkpoint);
+
+    result.success = result.failedFiles === 0;
+    return result;
+  }
+
+  /**
+   * List the checkpoints of all checkpointed migrations
+   */
+  async listCheckpoints(): Promise<MigrationCheckpoint[]> {
+    return this.checkpointStore ? this.checkpointStore.list() : [];
+  }
+
+  /**
+   * Migrate files, recording progress in a checkpoint if there is one
+   */
+  private async runBulkMigration(
+    files: TFile[],
+    migrationPlan: MigrationPlan,
+    options: BulkOperationOptions,
+    checkpoint: MigrationCheckpoint | null
   ): Promise<BulkOperationResult> {
     const {
       createBackups = true,
@@ -254,6 +425,8 @@ export class BulkOperations {
       maxConcurrency = 5,
       onProgress,
       onError,
+      dryRun = false,
+      signal,
     } = options;
 
     const result: BulkOperationResult = {
@@ -266,23 +439,46 @@ export class BulkOperations {
       errors: [],
       warnings: [],
     };
+    if (dryRun) {
+      result.previews = [];
+    }
 
     // Process files in batches to control concurrency
     const batches = this.createBatches(files, maxConcurrency);
     let processedCount = 0;
 
     for (const batch of batches) {
+      if (signal?.aborted) {
+        result.paused = true;
+        break;
+      }
+
       const batchPromises = batch.map(async (file) => {
         try {
           const migrationResult = await this.migrateFile(
             file,
             migrationPlan,
-            { createBackups, validateAfterMigration }
+            { createBackups, validateAfterMigration, dryRun }
           );
 
+          if (checkpoint) {
+            recordCheckpointFile(checkpoint, file.path, {
+              success: migrationResult.success,
+              error: migrationResult.errors?.join(", "),
+              backupId: migrationResult.backupId,
+            });
+          }
+
           if (migrationResult.success) {
             result.successfulFiles++;
             result.processedFiles.push(file.path);
+
+            if (result.previews && migrationResult.changes?.length) {
+              result.previews.push({
+                filePath: file.path,
+                changes: migrationResult.changes,
+              });
+            }
           } else {
             result.failedFiles++;
             result.failedFileErrors.push({
@@ -304,6 +500,12 @@ export class BulkOperations {
         } catch (error) {
           result.failedFiles++;
           const errorMessage = error instanceof Error ? error.message : String(error);
+          if (checkpoint) {
+            recordCheckpointFile(checkpoint, file.path, {
+              success: false,
+              error: errorMessage,
+            });
+          }
           result.failedFileErrors.push({
             filePath: file.path,
             error: errorMessage,
@@ -327,6 +529,14 @@ export class BulkOperations {
       });
 
       await Promise.all(batchPromises);
+      if (checkpoint) {
+        await this.checkpointStore?.save(checkpoint);
+      }
+    }
+
+    if (checkpoint) {
+      checkpoint.status = result.paused ? "paused" : "completed";
+      await this.checkpointStore?.save(checkpoint);
     }
 
     result.success = result.failedFiles === 0;
@@ -339,14 +549,22 @@ export class BulkOperations {
   async migrateFile(
     file: TFile,
     migrationPlan: MigrationPlan,
-    options: { createBackups?: boolean; validateAfterMigration?: boolean } = {}
+    options: {
+      createBackups?: boolean;
+      validateAfterMigration?: boolean;
+      dryRun?: boolean;
+    } = {}
   ): Promise<FileMigrationResult> {
-    const { createBackups = true, validateAfterMigration = true } = options;
+    const { createBackups = true, validateAfterMigration = true, dryRun = false } = options;
 
     try {
-      // Create backup if requested
-      if (createBackups) {
-        await this.frontMatterProcessor.createBackup(file, migrationPlan.sourceNoteTypeId);
+      // Declarative steps work on the front-matter as it is
+      if (migrationPlan.operations.some((operation) => operation.step)) {
+        return await this.migrateFrontMatter(file, migrationPlan, {
+          createBackups,
+          validateAfterMigration,
+          dryRun,
+        });
       }
 
       // Read current content
@@ -409,8 +627,26 @@ export class BulkOperations {
         }
       }
 
+      const changes = Object.entries(propertiesToUpdate).map(
+        ([key, value]) => `Set '${key}' to ${JSON.stringify(value)}`
+      );
+
+      if (dryRun) {
+        return {
+          success: true,
+          filePath: file.path,
+          operationsPerformed,
+          changes,
+        };
+      }
+
       // Update front-matter if there are changes
-      if (Object.keys(propertiesToUpdate).length > 0) {
+      let backupId: string | undefined;
+      if (changes.length > 0) {
+        if (createBackups) {
+          backupId = await this.backupFile(file, migrationPlan);
+        }
+
         const updateResult = await this.frontMatterProcessor.modifyFrontMatter(
           file,
           migrationPlan.targetNoteTypeId,
@@ -447,6 +683,8 @@ export class BulkOperations {
         filePath: file.path,
         operationsPerformed,
         validationResult,
+        changes,
+        backupId,
       };
 
     } catch (error) {
@@ -489,6 +727,189 @@ export class BulkOperations {
     return candidateFiles;
   }
 
+  /**
+   * Find files of a note type, whether or not they are valid
+   */
+  findFilesOfType(noteTypeId: string): TFile[] {
+    return this.vault.getMarkdownFiles().filter((file) => {
+      const frontMatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+      return (
+        !!frontMatter &&
+        this.noteProcessor.detectNoteType(frontMatter, file.path).noteType?.id === noteTypeId
+      );
+    });
+  }
+
+  /**
+   * Preview the changes a migration plan makes to the files of its note type
+   * Runs the migration as a dry run, so nothing is written.
+   * @returns Previews of the files that would change
+   */
+  async previewMigration(migrationPlan: MigrationPlan): Promise<FileMigrationPreview[]> {
+    const result = await this.executeBulkMigration(
+      this.findFilesOfType(migrationPlan.sourceNoteTypeId),
+      migrationPlan,
+      { dryRun: true }
+    );
+    return result.previews || [];
+  }
+
+  /**
+   * Create the operation carrying out a declarative step
+   */
+  private createStepOperation(step: MigrationStep): MigrationOperation {
+    const description = describeMigrationStep(step);
+
+    switch (step.kind) {
+      case "rename-key":
+        return {
+          type: "rename-property",
+          sourceProperty: step.from,
+          targetProperty: step.to,
+          description,
+          step,
+        };
+      case "map-values":
+        return {
+          type: "transform-property",
+          sourceProperty: step.key,
+          transform: (value) => mapPropertyValue(value, step.mapping),
+          description,
+          step,
+        };
+      case "convert-type":
+        return {
+          type: "transform-property",
+          sourceProperty: step.key,
+          transform: (value) => convertPropertyValue(value, step.to),
+          description,
+          step,
+        };
+      case "drop-property":
+        return {
+          type: "remove-property",
+          sourceProperty: step.key,
+          description,
+          step,
+        };
+    }
+  }
+
+  private getMigrationSteps(migrationPlan: MigrationPlan): MigrationStep[] {
+    return migrationPlan.operations
+      .map((operation) => operation.step)
+      .filter((step): step is MigrationStep => !!step);
+  }
+
+  /**
+   * Apply a migration plan's declarative steps to a file's front-matter
+   */
+  private async migrateFrontMatter(
+    file: TFile,
+    migrationPlan: MigrationPlan,
+    options: { createBackups: boolean; validateAfterMigration: boolean; dryRun: boolean }
+  ): Promise<FileMigrationResult> {
+    const steps = this.getMigrationSteps(migrationPlan);
+    const frontMatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+    const { changes } = applyMigrationSteps(frontMatter, steps);
+
+    if (options.dryRun || changes.length === 0) {
+      return {
+        success: true,
+        filePath: file.path,
+        operationsPerformed: [],
+        changes,
+      };
+    }
+
+    let backupId: string | undefined;
+    if (options.createBackups) {
+      backupId = await this.backupFile(file, migrationPlan);
+    }
+
+    await this.app.fileManager.processFrontMatter(file, (frontMatter) => {
+      const result = applyMigrationSteps(frontMatter, steps);
+
+      for (const key of Object.keys(frontMatter)) {
+        if (!(key in result.frontMatter)) {
+          delete frontMatter[key];
+        }
+      }
+      Object.assign(frontMatter, result.frontMatter);
+    });
+
+    let validationResult: ValidationResult | undefined;
+    if (options.validateAfterMigration) {
+      validationResult = await this.frontMatterProcessor.validateFrontMatter(
+        file,
+        migrationPlan.targetNoteTypeId
+      );
+    }
+
+    return {
+      success: true,
+      filePath: file.path,
+      operationsPerformed: migrationPlan.operations.filter((operation) => operation.step),
+      validationResult,
+      changes,
+      backupId,
+    };
+  }
+
+  /**
+   * Back up a file before it's migrated
+   * @returns ID of the backup if it was made with the backup manager
+   */
+  private async backupFile(
+    file: TFile,
+    migrationPlan: MigrationPlan
+  ): Promise<string | undefined> {
+    if (!this.backupManager) {
+      await this.frontMatterProcessor.createBackup(file, migrationPlan.sourceNoteTypeId);
+      return undefined;
+    }
+
+    const backup = await this.backupManager.backupFile(file, {
+      description: `Before migration: ${migrationPlan.description || migrationPlan.sourceNoteTypeId}`,
+      tags: ["bulk-migration", migrationPlan.sourceNoteTypeId],
+      autoCleanup: false,
+    });
+
+    if (!backup.success) {
+      throw new Error(backup.errors?.join(", ") || `Failed to back up ${file.path}`);
+    }
+
+    return backup.backupId;
+  }
+
+  /**
+   * Recreate a migration plan loaded from a checkpoint
+   */
+  private restoreMigrationPlan(plan: MigrationPlan): MigrationPlan {
+    return {
+      ...plan,
+      operations: plan.operations.map((operation) => {
+        if (operation.step) {
+          return this.createStepOperation(operation.step);
+        }
+        if (operation.type === "transform-property") {
+          throw new Error(
+            `Migration "${plan.description}" transforms values and can't be resumed after a reload`
+          );
+        }
+        return operation;
+      }),
+    };
+  }
+
+  private async loadCheckpoint(checkpointId: string): Promise<MigrationCheckpoint> {
+    const checkpoint = await this.checkpointStore?.load(checkpointId);
+    if (!checkpoint) {
+      throw new Error(`Migration checkpoint ${checkpointId} not found`);
+    }
+    return checkpoint;
+  }
+
   /**
    * Create batches for concurrent processing
    */
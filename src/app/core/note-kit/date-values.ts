@@ -0,0 +1,70 @@
+/**
+ * Date Values - Parsing and formatting of dates stored in front-matter
+ * Dates keep the calendar date and time they were written with, whatever the
+ * timezone of the vault, so "2024-01-05" never turns into the previous day.
+ */
+
+/**
+ * ISO 8601 date with an optional time and offset; the offset is ignored so
+ * the date and time are read as written
+ */
+const ISO_DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?(?:Z|[+-]\d{2}:?\d{2})?$/;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/**
+ * Parse a date into a local Date with the calendar date and time as written
+ * @returns null if the value isn't a date
+ */
+export function parseDateValue(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+
+  if (typeof value === "number") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  if (typeof value !== "string" || value.trim() === "") {
+    return null;
+  }
+
+  const match = value.trim().match(ISO_DATE_TIME_PATTERN);
+  if (match) {
+    const [year, month, day, hours, minutes, seconds] = match
+      .slice(1)
+      .map((part) => Number(part ?? 0));
+    const date = new Date(year, month - 1, day, hours, minutes, seconds);
+
+    // Reject dates that roll over, e.g. 2024-02-31
+    return date.getMonth() === month - 1 && date.getDate() === day
+      ? date
+      : null;
+  }
+
+  // Other formats, e.g. "2024/01/15 09:30", are read as local dates
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Format a date as YYYY-MM-DD
+ */
+export function formatDateValue(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+/**
+ * Format a date as YYYY-MM-DD, or YYYY-MM-DDTHH:mm when it has a time
+ */
+export function formatDateTimeValue(date: Date): string {
+  const day = formatDateValue(date);
+  if (date.getHours() === 0 && date.getMinutes() === 0) {
+    return day;
+  }
+  return `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
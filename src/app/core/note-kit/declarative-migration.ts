@@ -0,0 +1,268 @@
+/**
+ * Declarative Migrations - User-authored schema migration steps
+ * Steps are plain data generated from edits made to a note type, so they can
+ * be previewed, described and recorded. They work on raw front-matter keys
+ * because the notes being migrated don't match the edited note type yet.
+ */
+
+import type {
+  PropertyDefinition,
+  PropertyType,
+  SemanticVersion,
+} from "./types";
+import { formatDateTimeValue, parseDateValue } from "./date-values";
+
+/**
+ * A single declarative migration step
+ */
+export type MigrationStep =
+  | { kind: "rename-key"; from: string; to: string }
+  | { kind: "map-values"; key: string; mapping: Record<string, string> }
+  | { kind: "convert-type"; key: string; to: PropertyType }
+  | { kind: "drop-property"; key: string };
+
+/**
+ * Declarative migration of the notes of one note type
+ */
+export interface DeclarativeMigrationDefinition {
+  /** Unique migration ID */
+  id: string;
+
+  /** Note type whose notes are migrated */
+  noteTypeId: string;
+
+  /** Note type version the notes are migrated to */
+  version: SemanticVersion;
+
+  /** Human readable description */
+  description: string;
+
+  /** Steps applied to the front-matter of every note, in order */
+  steps: MigrationStep[];
+}
+
+/**
+ * How a property of a note type was edited
+ */
+export interface PropertyChange {
+  /** Property definition before the edit */
+  before: PropertyDefinition;
+
+  /** Property definition after the edit, null when the property was removed */
+  after: PropertyDefinition | null;
+
+  /** New value of each select option that was kept, by its old value */
+  optionValues?: Record<string, string>;
+}
+
+/**
+ * Generate the steps that migrate notes to edited property definitions
+ */
+export function generateMigrationSteps(
+  changes: PropertyChange[]
+): MigrationStep[] {
+  const steps: MigrationStep[] = [];
+
+  for (const { before, after, optionValues = {} } of changes) {
+    if (!after) {
+      steps.push({ kind: "drop-property", key: before.frontMatterKey });
+      continue;
+    }
+
+    if (after.frontMatterKey !== before.frontMatterKey) {
+      steps.push({
+        kind: "rename-key",
+        from: before.frontMatterKey,
+        to: after.frontMatterKey,
+      });
+    }
+
+    if (after.type !== before.type) {
+      steps.push({
+        kind: "convert-type",
+        key: after.frontMatterKey,
+        to: after.type,
+      });
+    }
+
+    const mapping: Record<string, string> = {};
+    for (const [oldValue, newValue] of Object.entries(optionValues)) {
+      if (oldValue !== newValue) {
+        mapping[oldValue] = newValue;
+      }
+    }
+    if (Object.keys(mapping).length > 0) {
+      steps.push({ kind: "map-values", key: after.frontMatterKey, mapping });
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Describe a migration step for previews and migration records
+ */
+export function describeMigrationStep(step: MigrationStep): string {
+  switch (step.kind) {
+    case "rename-key":
+      return `Rename '${step.from}' to '${step.to}'`;
+    case "map-values":
+      return `Change ${Object.entries(step.mapping)
+        .map(([from, to]) => `'${from}' to '${to}'`)
+        .join(", ")} in '${step.key}'`;
+    case "convert-type":
+      return `Convert '${step.key}' to ${step.to}`;
+    case "drop-property":
+      return `Remove '${step.key}'`;
+  }
+}
+
+/**
+ * Apply migration steps to front-matter
+ * A key is not renamed when the new key already has a value, so nothing is
+ * overwritten.
+ * @returns Migrated copy of the front-matter and a description of each change
+ */
+export function applyMigrationSteps(
+  frontMatter: Record<string, unknown>,
+  steps: MigrationStep[]
+): { frontMatter: Record<string, unknown>; changes: string[] } {
+  const result = { ...frontMatter };
+  const changes: string[] = [];
+
+  for (const step of steps) {
+    switch (step.kind) {
+      case "rename-key": {
+        if (!(step.from in result) || result[step.to] !== undefined) break;
+        result[step.to] = result[step.from];
+        delete result[step.from];
+        changes.push(describeMigrationStep(step));
+        break;
+      }
+
+      case "map-values": {
+        const value = result[step.key];
+        const mapped = mapPropertyValue(value, step.mapping);
+        if (mapped === value) break;
+        result[step.key] = mapped;
+        changes.push(
+          `Change '${step.key}' from ${formatValue(value)} to ${formatValue(mapped)}`
+        );
+        break;
+      }
+
+      case "convert-type": {
+        const value = result[step.key];
+        const converted = convertPropertyValue(value, step.to);
+        if (converted === value) break;
+        result[step.key] = converted;
+        changes.push(
+          `Change '${step.key}' from ${formatValue(value)} to ${formatValue(converted)}`
+        );
+        break;
+      }
+
+      case "drop-property": {
+        if (!(step.key in result)) break;
+        delete result[step.key];
+        changes.push(describeMigrationStep(step));
+        break;
+      }
+    }
+  }
+
+  return { frontMatter: result, changes };
+}
+
+/**
+ * Convert a front-matter value to a property type
+ * Values that can't be converted are returned unchanged so they show up in
+ * validation instead of being lost.
+ */
+export function convertPropertyValue(
+  value: unknown,
+  type: PropertyType
+): unknown {
+  if (value === null || value === undefined || value === "") {
+    return value;
+  }
+
+  switch (type) {
+    case "string":
+    case "url":
+    case "select":
+    case "enum":
+      if (Array.isArray(value)) return value.join(", ");
+      return typeof value === "string" ? value : String(value);
+
+    case "number":
+    case "rating": {
+      if (typeof value === "number") return value;
+      const number = Number(value);
+      return typeof value === "string" && Number.isFinite(number)
+        ? number
+        : value;
+    }
+
+    case "boolean": {
+      if (typeof value === "boolean") return value;
+      if (typeof value === "number") return value !== 0;
+      const text = String(value).trim().toLowerCase();
+      if (["true", "yes", "1"].includes(text)) return true;
+      if (["false", "no", "0"].includes(text)) return false;
+      return value;
+    }
+
+    case "date": {
+      // Dates are already stored as YYYY-MM-DD
+      if (typeof value !== "string" || /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return value;
+      }
+      const date = parseDateValue(value);
+      return date ? formatDateTimeValue(date) : value;
+    }
+
+    case "array":
+      if (Array.isArray(value)) return value;
+      if (typeof value === "string") {
+        return value
+          .split(",")
+          .map((item) => item.trim())
+          .filter((item) => item !== "");
+      }
+      return [value];
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Map a front-matter value, or the items of a list value, to new values
+ */
+export function mapPropertyValue(
+  value: unknown,
+  mapping: Record<string, string>
+): unknown {
+  if (typeof value === "string") {
+    return mapping[value] ?? value;
+  }
+
+  if (Array.isArray(value)) {
+    const mapped = value.map((item) =>
+      typeof item === "string" ? (mapping[item] ?? item) : item
+    );
+    // Merging options can leave the same value twice
+    const unique = Array.from(new Set(mapped));
+    return unique.length === value.length &&
+      unique.every((item, index) => item === value[index])
+      ? value
+      : unique;
+  }
+
+  return value;
+}
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value);
+}
@@ -0,0 +1,61 @@
+/**
+ * Duration utilities
+ * Parsing and formatting of duration property values such as "1h30m"
+ */
+
+const DURATION_PATTERN = /^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/i;
+const CLOCK_PATTERN = /^(\d+):([0-5]\d)$/;
+
+/**
+ * Parse a duration into whole minutes
+ * Accepts "1h30m", "1h 30m", "2h", "45m", "1.5h", "1:30" and plain minute
+ * numbers ("90" or 90). Returns null for anything else.
+ */
+export function parseDuration(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? Math.round(value) : null;
+  }
+
+  if (typeof value !== "string") return null;
+
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10);
+  }
+
+  const clock = CLOCK_PATTERN.exec(trimmed);
+  if (clock) {
+    return parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10);
+  }
+
+  const match = DURATION_PATTERN.exec(trimmed);
+  if (!match || (match[1] === undefined && match[2] === undefined)) {
+    return null;
+  }
+
+  const hours = match[1] ? parseFloat(match[1]) : 0;
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  return Math.round(hours * 60 + minutes);
+}
+
+/**
+ * Format whole minutes as a duration string ("1h30m", "2h", "45m")
+ */
+export function formatDuration(minutes: number): string {
+  const total = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(total / 60);
+  const rest = total % 60;
+
+  if (hours === 0) return `${rest}m`;
+  if (rest === 0) return `${hours}h`;
+  return `${hours}h${rest}m`;
+}
+
+/**
+ * Check whether a value can be parsed as a duration
+ */
+export function isValidDuration(value: unknown): boolean {
+  return parseDuration(value) !== null;
+}
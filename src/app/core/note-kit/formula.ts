@@ -0,0 +1,525 @@
+/**
+ * Formula properties
+ * Parses and evaluates formula expressions computed from other properties
+ *
+ * Expressions support numbers, "strings", true/false/null, property keys,
+ * arithmetic (+ - * / %), comparisons (== != < <= > >=), logic (&& || !),
+ * parentheses and the functions listed in FORMULA_FUNCTIONS, e.g.
+ *
+ *   round(estimate / 60, 1)
+ *   if(dueDate < today(), "Overdue", "On track")
+ *
+ * Duration values are minutes and subtracting two dates yields days.
+ */
+
+import type { PropertyDefinition } from "./types";
+import { parseDuration, formatDuration } from "./duration";
+
+/**
+ * Value produced by a formula
+ */
+export type FormulaValue = number | string | boolean | Date | null;
+
+/**
+ * Parsed formula expression
+ */
+export type FormulaNode =
+  | { type: "literal"; value: FormulaValue }
+  | { type: "identifier"; name: string }
+  | { type: "unary"; operator: "-" | "!"; operand: FormulaNode }
+  | { type: "binary"; operator: string; left: FormulaNode; right: FormulaNode }
+  | { type: "call"; name: string; args: FormulaNode[] };
+
+/**
+ * Formula syntax or evaluation error
+ */
+export class FormulaError extends Error {
+  constructor(
+    message: string,
+    public position?: number
+  ) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+type Token =
+  | { type: "number"; value: number; position: number }
+  | { type: "string"; value: string; position: number }
+  | { type: "identifier"; value: string; position: number }
+  | { type: "operator"; value: string; position: number }
+  | { type: "end"; position: number };
+
+const OPERATORS = [
+  "&&",
+  "||",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "!",
+  "(",
+  ")",
+  ",",
+];
+
+// Binary operators by precedence, lowest first
+const PRECEDENCE: string[][] = [
+  ["||"],
+  ["&&"],
+  ["==", "!="],
+  ["<", "<=", ">", ">="],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Functions available in formulas
+ */
+export const FORMULA_FUNCTIONS: Record<
+  string,
+  (...args: FormulaValue[]) => FormulaValue
+> = {
+  round: (value, digits = 0) => {
+    if (typeof value !== "number") return null;
+    const factor = Math.pow(10, toNumber(digits) ?? 0);
+    return Math.round(value * factor) / factor;
+  },
+  floor: (value) => (typeof value === "number" ? Math.floor(value) : null),
+  ceil: (value) => (typeof value === "number" ? Math.ceil(value) : null),
+  abs: (value) => (typeof value === "number" ? Math.abs(value) : null),
+  min: (...values) => numericAggregate(values, Math.min),
+  max: (...values) => numericAggregate(values, Math.max),
+  if: (condition, whenTrue = null, whenFalse = null) =>
+    isTruthy(condition) ? whenTrue : whenFalse,
+  concat: (...values) => values.map(toText).join(""),
+  length: (value) => (typeof value === "string" ? value.length : null),
+  today: () => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  },
+  now: () => new Date(),
+  duration: (minutes) =>
+    typeof minutes === "number" ? formatDuration(minutes) : null,
+};
+
+/**
+ * Parse a formula expression
+ * @throws {FormulaError} if the expression is invalid
+ */
+export function parseFormula(expression: string): FormulaNode {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isOperator = (value: string) => {
+    const token = peek();
+    return token.type === "operator" && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      throw new FormulaError(`Expected "${value}"`, peek().position);
+    }
+    next();
+  };
+
+  const parseBinary = (level: number): FormulaNode => {
+    if (level >= PRECEDENCE.length) return parseUnary();
+
+    let left = parseBinary(level + 1);
+    for (;;) {
+      const token = peek();
+      if (
+        token.type !== "operator" ||
+        !PRECEDENCE[level].includes(token.value)
+      ) {
+        return left;
+      }
+      next();
+      const right = parseBinary(level + 1);
+      left = { type: "binary", operator: token.value, left, right };
+    }
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isOperator("-") || isOperator("!")) {
+      const operator = (next() as { value: "-" | "!" }).value;
+      return { type: "unary", operator, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.value };
+      case "identifier": {
+        if (token.value === "true" || token.value === "false") {
+          return { type: "literal", value: token.value === "true" };
+        }
+        if (token.value === "null") {
+          return { type: "literal", value: null };
+        }
+        if (!isOperator("(")) {
+          return { type: "identifier", name: token.value };
+        }
+
+        if (!FORMULA_FUNCTIONS[token.value]) {
+          throw new FormulaError(
+            `Unknown function "${token.value}"`,
+            token.position
+          );
+        }
+        next();
+        const args: FormulaNode[] = [];
+        if (!isOperator(")")) {
+          args.push(parseBinary(0));
+          while (isOperator(",")) {
+            next();
+            args.push(parseBinary(0));
+          }
+        }
+        expect(")");
+        return { type: "call", name: token.value, args };
+      }
+      case "operator":
+        if (token.value === "(") {
+          const node = parseBinary(0);
+          expect(")");
+          return node;
+        }
+        throw new FormulaError(
+          `Unexpected "${token.value}"`,
+          token.position
+        );
+      case "end":
+        throw new FormulaError("Unexpected end of formula", token.position);
+    }
+  };
+
+  const node = parseBinary(0);
+  if (peek().type !== "end") {
+    throw new FormulaError("Unexpected input", peek().position);
+  }
+  return node;
+}
+
+/**
+ * Check whether a formula expression can be parsed
+ */
+export function isValidFormula(expression: string): boolean {
+  try {
+    parseFormula(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Evaluate a formula against a scope of property values keyed by property key
+ * Missing values evaluate to null and propagate through arithmetic
+ */
+export function evaluateFormula(
+  formula: string | FormulaNode,
+  scope: Record<string, FormulaValue | undefined>
+): FormulaValue {
+  const node = typeof formula === "string" ? parseFormula(formula) : formula;
+  return evaluateNode(node, (name) => scope[name] ?? null);
+}
+
+/**
+ * Compute all formula properties of a note type
+ * Formulas may reference other formulas; circular references are reported
+ * as errors for the properties involved.
+ *
+ * @param values - Property values keyed by property key
+ * @returns Computed values and errors keyed by property key
+ */
+export function computeFormulaValues(
+  properties: Record<string, PropertyDefinition>,
+  values: Record<string, unknown>
+): {
+  values: Record<string, FormulaValue>;
+  errors: Record<string, string>;
+} {
+  const computed: Record<string, FormulaValue> = {};
+  const errors: Record<string, string> = {};
+  const evaluating = new Set<string>();
+
+  const resolve = (key: string): FormulaValue => {
+    const property = properties[key];
+    if (!property) return null;
+    if (property.type !== "formula") {
+      return toFormulaValue(property, values[key]);
+    }
+    if (key in computed) return computed[key];
+
+    if (evaluating.has(key)) {
+      throw new FormulaError(`Circular formula reference to "${key}"`);
+    }
+
+    evaluating.add(key);
+    try {
+      if (!property.formula) {
+        throw new FormulaError(`No formula defined for "${property.name}"`);
+      }
+      computed[key] = evaluateNode(parseFormula(property.formula), resolve);
+      return computed[key];
+    } finally {
+      evaluating.delete(key);
+    }
+  };
+
+  for (const [key, property] of Object.entries(properties)) {
+    if (property.type !== "formula") continue;
+    try {
+      resolve(key);
+    } catch (error) {
+      computed[key] = null;
+      errors[key] = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return { values: computed, errors };
+}
+
+/**
+ * Convert a raw property value to the value formulas operate on
+ */
+function toFormulaValue(
+  property: PropertyDefinition,
+  value: unknown
+): FormulaValue {
+  if (value === undefined || value === null || value === "") return null;
+
+  switch (property.type) {
+    case "duration":
+      return parseDuration(value);
+    case "number":
+    case "rating":
+      return toNumber(value as FormulaValue);
+    case "date": {
+      const date = value instanceof Date ? value : new Date(value as string);
+      return isNaN(date.getTime()) ? null : date;
+    }
+    case "boolean":
+      return Boolean(value);
+    default:
+      return Array.isArray(value) ? value.join(", ") : toText(value);
+  }
+}
+
+function evaluateNode(
+  node: FormulaNode,
+  lookup: (name: string) => FormulaValue
+): FormulaValue {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "identifier":
+      return lookup(node.name);
+    case "unary": {
+      const operand = evaluateNode(node.operand, lookup);
+      if (node.operator === "!") return !isTruthy(operand);
+      return typeof operand === "number" ? -operand : null;
+    }
+    case "call":
+      return FORMULA_FUNCTIONS[node.name](
+        ...node.args.map((arg) => evaluateNode(arg, lookup))
+      );
+    case "binary": {
+      if (node.operator === "&&") {
+        return (
+          isTruthy(evaluateNode(node.left, lookup)) &&
+          isTruthy(evaluateNode(node.right, lookup))
+        );
+      }
+      if (node.operator === "||") {
+        return (
+          isTruthy(evaluateNode(node.left, lookup)) ||
+          isTruthy(evaluateNode(node.right, lookup))
+        );
+      }
+      return applyBinary(
+        node.operator,
+        evaluateNode(node.left, lookup),
+        evaluateNode(node.right, lookup)
+      );
+    }
+  }
+}
+
+function applyBinary(
+  operator: string,
+  left: FormulaValue,
+  right: FormulaValue
+): FormulaValue {
+  switch (operator) {
+    case "==":
+      return compare(left, right) === 0;
+    case "!=":
+      return compare(left, right) !== 0;
+    case "<":
+    case "<=":
+    case ">":
+    case ">=": {
+      const result = compare(left, right);
+      if (result === null) return null;
+      if (operator === "<") return result < 0;
+      if (operator === "<=") return result <= 0;
+      if (operator === ">") return result > 0;
+      return result >= 0;
+    }
+  }
+
+  if (left === null || right === null) return null;
+
+  if (operator === "+" && (typeof left === "string" || typeof right === "string")) {
+    return toText(left) + toText(right);
+  }
+
+  // Date arithmetic: date ± days and date - date in days
+  if (left instanceof Date) {
+    if (operator === "-" && right instanceof Date) {
+      return Math.round((left.getTime() - right.getTime()) / DAY_MS);
+    }
+    if ((operator === "+" || operator === "-") && typeof right === "number") {
+      const date = new Date(left);
+      date.setDate(date.getDate() + (operator === "+" ? right : -right));
+      return date;
+    }
+    return null;
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return null;
+
+  switch (operator) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      return b === 0 ? null : a / b;
+    case "%":
+      return b === 0 ? null : a % b;
+    default:
+      throw new FormulaError(`Unknown operator "${operator}"`);
+  }
+}
+
+function compare(left: FormulaValue, right: FormulaValue): number | null {
+  if (left === null || right === null) {
+    return left === right ? 0 : null;
+  }
+  if (left instanceof Date || right instanceof Date) {
+    const a = left instanceof Date ? left.getTime() : NaN;
+    const b = right instanceof Date ? right.getTime() : NaN;
+    return isNaN(a) || isNaN(b) ? null : a - b;
+  }
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+  return toText(left).localeCompare(toText(right));
+}
+
+function numericAggregate(
+  values: FormulaValue[],
+  aggregate: (...numbers: number[]) => number
+): FormulaValue {
+  const numbers = values.filter((v): v is number => typeof v === "number");
+  return numbers.length > 0 ? aggregate(...numbers) : null;
+}
+
+function isTruthy(value: FormulaValue): boolean {
+  return value !== null && value !== false && value !== 0 && value !== "";
+}
+
+function toNumber(value: FormulaValue): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return isNaN(number) ? null : number;
+  }
+  return null;
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+  return String(value);
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/\d/.test(char) || (char === "." && /\d/.test(expression[i + 1]))) {
+      const match = /^\d*\.?\d+(?:[eE][+-]?\d+)?/.exec(expression.slice(i))!;
+      tokens.push({ type: "number", value: Number(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < expression.length && expression[i] !== char) {
+        if (expression[i] === "\\" && i + 1 < expression.length) i++;
+        value += expression[i++];
+      }
+      if (i >= expression.length) {
+        throw new FormulaError("Unterminated string", start);
+      }
+      i++;
+      tokens.push({ type: "string", value, position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(i))!;
+      tokens.push({ type: "identifier", value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => expression.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: "operator", value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected character "${char}"`, i);
+  }
+
+  tokens.push({ type: "end", position: expression.length });
+  return tokens;
+}
@@ -112,7 +112,26 @@ export {
   literalSchema,
   noteTypeMetadataSchema,
   templateMetadataSchema,
+  durationSchema,
+  optionalDurationSchema,
+  ratingSchema,
+  optionalRatingSchema,
+  formulaSchema,
+  MAX_RATING,
 } from "./schemas";
+
+// Export duration and formula utilities
+export { parseDuration, formatDuration, isValidDuration } from "./duration";
+export {
+  parseFormula,
+  isValidFormula,
+  evaluateFormula,
+  computeFormulaValues,
+  FormulaError,
+  FORMULA_FUNCTIONS,
+  type FormulaNode,
+  type FormulaValue,
+} from "./formula";
 // Export registry
 export {
   TypeRegistry,
@@ -124,14 +143,36 @@ export {
   type SerializedTemplate,
 } from "./registry";
 
+// Export note type import/export
+export {
+  NOTE_TYPES_FILE_EXTENSION,
+  NoteTypeImportError,
+  exportNoteTypes,
+  parseNoteTypesFile,
+  diffNoteTypes,
+  applyNoteTypeImport,
+  type NoteTypesFile,
+  type NoteTypeImportMode,
+  type NoteTypeDiff,
+  type NoteTypeImportResult,
+} from "./type-exchange";
+
 // Export template engine
 export {
   TemplateEngine,
   TemplateEngineError,
   type ProcessOptions,
   type InheritanceResult,
+  type TemplateResolver,
 } from "./template-engine";
 
+// Export template helpers
+export {
+  TEMPLATE_HELPERS,
+  TEMPLATE_HELPER_INFO,
+  type TemplateHelperInfo,
+} from "./template-helpers";
+
 // Export template manager
 export {
   TemplateManager,
@@ -178,8 +219,34 @@ export {
   type BulkOperationOptions,
   type BulkOperationResult,
   type FileMigrationResult,
+  type FileMigrationPreview,
 } from "./bulk-operations";
 
+// Export declarative migrations
+export {
+  generateMigrationSteps,
+  applyMigrationSteps,
+  describeMigrationStep,
+  convertPropertyValue,
+  mapPropertyValue,
+  type MigrationStep,
+  type DeclarativeMigrationDefinition,
+  type PropertyChange,
+} from "./declarative-migration";
+
+// Export migration checkpoints
+export {
+  FileCheckpointStore,
+  createMigrationCheckpoint,
+  recordCheckpointFile,
+  isResumableCheckpoint,
+  serializeMigrationPlan,
+  type MigrationCheckpoint,
+  type MigrationCheckpointStatus,
+  type MigrationCheckpointStore,
+  type CheckpointFileOutcome,
+} from "./migration-checkpoints";
+
 // Export backup manager
 export {
   BackupManager,
@@ -191,14 +258,45 @@ export {
   type RestoreResult,
 } from "./backup-manager";
 
+// Export backup retention
+export {
+  selectBackupsToPrune,
+  getBackupItemKey,
+  type BackupRetentionPolicy,
+} from "./backup-retention";
+
 // Export schema migration system
 export {
   SchemaMigrationManager,
   AssociationMigration,
+  DeclarativeMigration,
   type MigrationRecord,
   type SchemaMigration,
 } from "./schema-migration";
 
+// Export date values
+export {
+  parseDateValue,
+  formatDateValue,
+  formatDateTimeValue,
+} from "./date-values";
+
+// Export vault validation
+export {
+  VaultValidator,
+  buildValidationReport,
+  applyValidationFix,
+  getReferenceLinkpath,
+  coerceDateValue,
+  type ValidationFix,
+  type VaultValidationIssue,
+  type NoteValidationResult,
+  type PropertyIssueGroup,
+  type NoteTypeIssueGroup,
+  type VaultValidationReport,
+  type AssociationLinkResolver,
+} from "./vault-validation";
+
 // Export property processor
 export {
   PropertyProcessor,
@@ -0,0 +1,211 @@
+/**
+ * Migration Checkpoints - Persisted progress of bulk migrations
+ * BulkOperations records which files a migration has processed and where
+ * their backups are, so an interrupted migration can be resumed after a
+ * reload or rolled back.
+ */
+
+import type { App } from "obsidian";
+import type { MigrationPlan } from "./bulk-operations";
+
+/**
+ * Checkpoint status
+ * A checkpoint that is still "running" when it's loaded was interrupted.
+ */
+export type MigrationCheckpointStatus =
+  "running" | "paused" | "completed" | "rolled-back";
+
+/**
+ * Progress of a bulk migration
+ */
+export interface MigrationCheckpoint {
+  /** Checkpoint ID */
+  id: string;
+
+  /** Migration plan, without transformation functions */
+  plan: MigrationPlan;
+
+  /** Paths of the files still to migrate */
+  pendingFiles: string[];
+
+  /** Paths of the migrated files */
+  completedFiles: string[];
+
+  /** Files that failed to migrate */
+  failedFiles: Array<{ filePath: string; error: string }>;
+
+  /** Backup ID of each migrated file, by file path */
+  backups: Record<string, string>;
+
+  /** Checkpoint status */
+  status: MigrationCheckpointStatus;
+
+  /** When the migration was started (ISO string) */
+  startedAt: string;
+
+  /** When the checkpoint was last updated (ISO string) */
+  updatedAt: string;
+}
+
+/**
+ * Outcome of migrating a single file
+ */
+export interface CheckpointFileOutcome {
+  success: boolean;
+  error?: string;
+  backupId?: string;
+}
+
+/**
+ * Persistent storage for migration checkpoints
+ */
+export interface MigrationCheckpointStore {
+  /** Load all checkpoints */
+  list(): Promise<MigrationCheckpoint[]>;
+
+  /** Load a checkpoint */
+  load(id: string): Promise<MigrationCheckpoint | null>;
+
+  /** Save a checkpoint */
+  save(checkpoint: MigrationCheckpoint): Promise<void>;
+
+  /** Delete a checkpoint */
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Create the checkpoint of a migration that is about to start
+ */
+export function createMigrationCheckpoint(
+  id: string,
+  plan: MigrationPlan,
+  filePaths: string[],
+  now: Date = new Date()
+): MigrationCheckpoint {
+  return {
+    id,
+    plan: serializeMigrationPlan(plan),
+    pendingFiles: [...filePaths],
+    completedFiles: [],
+    failedFiles: [],
+    backups: {},
+    status: "running",
+    startedAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Record the outcome of migrating a file
+ */
+export function recordCheckpointFile(
+  checkpoint: MigrationCheckpoint,
+  filePath: string,
+  outcome: CheckpointFileOutcome,
+  now: Date = new Date()
+): void {
+  checkpoint.pendingFiles = checkpoint.pendingFiles.filter(
+    (path) => path !== filePath
+  );
+
+  if (outcome.success) {
+    checkpoint.completedFiles.push(filePath);
+  } else {
+    checkpoint.failedFiles.push({
+      filePath,
+      error: outcome.error || "Unknown error",
+    });
+  }
+
+  if (outcome.backupId) {
+    checkpoint.backups[filePath] = outcome.backupId;
+  }
+
+  checkpoint.updatedAt = now.toISOString();
+}
+
+/**
+ * Check whether a checkpoint belongs to a migration that can be resumed
+ */
+export function isResumableCheckpoint(
+  checkpoint: MigrationCheckpoint
+): boolean {
+  return (
+    (checkpoint.status === "running" || checkpoint.status === "paused") &&
+    checkpoint.pendingFiles.length > 0
+  );
+}
+
+/**
+ * Strip what can't be persisted from a migration plan
+ * Transformation functions are dropped; operations created from declarative
+ * steps are recreated from their step when the migration is resumed.
+ */
+export function serializeMigrationPlan(plan: MigrationPlan): MigrationPlan {
+  return {
+    ...plan,
+    operations: plan.operations.map(
+      ({ transform: _transform, ...operation }) => operation
+    ),
+  };
+}
+
+/**
+ * Stores checkpoints as JSON files in a folder of the vault
+ */
+export class FileCheckpointStore implements MigrationCheckpointStore {
+  constructor(
+    private app: App,
+    private folder: string
+  ) {}
+
+  async list(): Promise<MigrationCheckpoint[]> {
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(this.folder))) {
+      return [];
+    }
+
+    const checkpoints: MigrationCheckpoint[] = [];
+    const { files } = await adapter.list(this.folder);
+
+    for (const path of files.filter((file) => file.endsWith(".json"))) {
+      try {
+        checkpoints.push(JSON.parse(await adapter.read(path)));
+      } catch (error) {
+        console.warn(`Failed to load migration checkpoint ${path}:`, error);
+      }
+    }
+
+    return checkpoints;
+  }
+
+  async load(id: string): Promise<MigrationCheckpoint | null> {
+    const path = this.getPath(id);
+    if (!(await this.app.vault.adapter.exists(path))) {
+      return null;
+    }
+    return JSON.parse(await this.app.vault.adapter.read(path));
+  }
+
+  async save(checkpoint: MigrationCheckpoint): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(this.folder))) {
+      await adapter.mkdir(this.folder);
+    }
+    await adapter.write(
+      this.getPath(checkpoint.id),
+      JSON.stringify(checkpoint, null, 2)
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    const path = this.getPath(id);
+    if (await this.app.vault.adapter.exists(path)) {
+      await this.app.vault.adapter.remove(path);
+    }
+  }
+
+  private getPath(id: string): string {
+    return `${this.folder}/${id}.json`;
+  }
+}
@@ -388,7 +388,7 @@ export class NoteProcessor {
     properties: Record<string, unknown>,
     options: ProcessOptions = {}
   ): TemplateProcessingResult {
-    const templateResult = this.templateEngine.process(
+    const templateResult = this.templateEngine.processInherited(
       noteType.template,
       {
         variables: properties,
@@ -21,6 +21,10 @@ export const TYPE_NOTE_TO_OBSIDIAN_TYPE_MAP = {
   enum: "text", // Enum also maps to text
   object: "text", // Objects are serialized as text in Obsidian
   association: "text", // Associations are stored as text (wiki links)
+  duration: "text", // Durations are stored as text (e.g. "1h30m")
+  url: "text",
+  rating: "number",
+  formula: "text", // Formulas are computed at read time, not stored
 } as const;
 
 /**
@@ -295,6 +299,10 @@ export class ObsidianPropertyManager {
       array: "List",
       select: "Select",
       association: "Association",
+      duration: "Duration",
+      url: "URL",
+      rating: "Rating",
+      formula: "Formula",
     };
   }
 }
@@ -14,7 +14,9 @@ import {
   createValidResult,
   createInvalidResult,
   createValidationError,
+  createValidationWarning,
 } from "./validation";
+import { computeFormulaValues } from "./formula";
 import { z } from "zod";
 
 /**
@@ -180,6 +182,11 @@ export class PropertyProcessor {
 
     // First pass: Validate and process each property
     for (const [key, propertyDef] of Object.entries(noteType.properties)) {
+      // Formula properties are computed after all stored values are known
+      if (propertyDef.type === "formula") {
+        continue;
+      }
+
       const value = frontMatter[propertyDef.frontMatterKey];
 
       // Handle missing values
@@ -233,6 +240,9 @@ export class PropertyProcessor {
       processedProperties[propertyDef.frontMatterKey] = processedValue;
     }
 
+    // Evaluate formula properties from the processed values
+    this.evaluateFormulas(noteType, processedProperties, warnings);
+
     // If we have errors, return early
     if (errors.length > 0) {
       return {
@@ -306,6 +316,43 @@ export class PropertyProcessor {
     };
   }
 
+  /**
+   * Evaluate formula properties and store their results
+   * Formula errors are reported as warnings so they never block reading a note
+   */
+  private evaluateFormulas(
+    noteType: NoteType,
+    properties: Record<string, unknown>,
+    warnings: ValidationWarning[]
+  ): void {
+    const formulaProperties = Object.entries(noteType.properties).filter(
+      ([, propertyDef]) => propertyDef.type === "formula"
+    );
+    if (formulaProperties.length === 0) return;
+
+    // Formulas reference properties by key, processed values use front-matter keys
+    const valuesByKey: Record<string, unknown> = {};
+    for (const [key, propertyDef] of Object.entries(noteType.properties)) {
+      valuesByKey[key] = properties[propertyDef.frontMatterKey];
+    }
+
+    const result = computeFormulaValues(noteType.properties, valuesByKey);
+
+    for (const [key, propertyDef] of formulaProperties) {
+      properties[propertyDef.frontMatterKey] = result.values[key];
+
+      if (result.errors[key]) {
+        warnings.push(
+          createValidationWarning(
+            `Formula '${propertyDef.name}' could not be evaluated: ${result.errors[key]}`,
+            "FORMULA_ERROR",
+            { propertyKey: key }
+          )
+        );
+      }
+    }
+  }
+
   /**
    * Validate a single property value with its schema
    */
@@ -19,7 +19,10 @@ import {
   createInvalidResult,
   createValidationError,
 } from "./validation";
-import { reconstructNoteTypeSchemas } from "./schema-utils";
+import {
+  reconstructNoteTypeSchemas,
+  createSchemaFromProperty,
+} from "./schema-utils";
 import { PropertyAccessor } from "./PropertyAccessor";
 
 /**
@@ -93,6 +96,7 @@ export interface SerializedPropertyDefinition {
   order?: number;
   options?: string[]; // Options for enum properties
   source?: string; // Source for computed/formula properties
+  formula?: string; // Expression for formula properties
   link?: boolean; // Whether property should be rendered as a link
   selectOptions?: SelectOption[]; // Options for select properties with colors
   association?: { // Configuration for association properties
@@ -140,6 +144,15 @@ function enhanceNoteType(noteType: NoteType): NoteType {
   };
 }
 
+/**
+ * Turn a serialized metadata date back into a Date
+ */
+function reviveDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null) return undefined;
+  const date = value instanceof Date ? value : new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
 /**
  * TypeRegistry manages note type definitions
  */
@@ -326,6 +339,39 @@ export class TypeRegistry {
     return versions.length > 0 ? versions[versions.length - 1] : undefined;
   }
 
+  /**
+   * Upgrade a registered note type to a newer version of its definition
+   * Properties missing from the registered note type are added while its own
+   * properties are kept, so customizations survive the upgrade.
+   * @returns true if the registered note type was upgraded
+   */
+  upgrade(noteType: NoteType): boolean {
+    const existing = this.noteTypes.get(noteType.id);
+    if (
+      !existing ||
+      compareVersions(existing.version, noteType.version) !==
+        VersionComparison.LESS_THAN
+    ) {
+      return false;
+    }
+
+    const missingProperties = Object.fromEntries(
+      Object.entries(noteType.properties).filter(
+        ([key]) => !(key in existing.properties)
+      )
+    );
+
+    const result = this.register(
+      {
+        ...existing,
+        version: noteType.version,
+        properties: { ...existing.properties, ...missingProperties },
+      },
+      { allowOverwrite: true, validate: false, checkCompatibility: false }
+    );
+    return result.valid;
+  }
+
   /**
    * Clear all note types
    */
@@ -489,6 +535,7 @@ export class TypeRegistry {
         order: prop.order,
         options: prop.options,
         source: prop.source,
+        formula: prop.formula,
         link: prop.link,
         selectOptions: prop.selectOptions,
         association: prop.association,
@@ -521,6 +568,59 @@ export class TypeRegistry {
     return Array.from(this.noteTypes.values()).map((nt) => this.serialize(nt));
   }
 
+  /**
+   * Rebuild a note type from its serialized form
+   * Zod schemas are recreated from property types and metadata dates are
+   * revived, so the result can be passed to register()
+   */
+  deserialize(serialized: SerializedNoteType): NoteType {
+    const properties: Record<string, PropertyDefinition> = {};
+
+    for (const [key, prop] of Object.entries(serialized.properties || {})) {
+      const { schemaType: _schemaType, ...definition } = prop;
+      const property = { ...definition } as PropertyDefinition;
+      property.schema = createSchemaFromProperty(property);
+      properties[key] = property;
+    }
+
+    const metadata = serialized.metadata
+      ? {
+          ...serialized.metadata,
+          createdAt: reviveDate(serialized.metadata.createdAt),
+          updatedAt: reviveDate(serialized.metadata.updatedAt),
+        }
+      : undefined;
+
+    return {
+      id: serialized.id,
+      name: serialized.name,
+      version: serialized.version,
+      properties,
+      template: {
+        version: serialized.template?.version,
+        content: serialized.template?.content,
+        variables: serialized.template?.variables || {},
+        parentTemplateId: serialized.template?.parentTemplateId,
+        metadata: serialized.template?.metadata,
+      },
+      metadata,
+    };
+  }
+
+  /**
+   * Rebuild note types from the output of toJSON()
+   */
+  fromJSON(json: string): NoteType[] {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) {
+      throw new RegistryError(
+        "Expected an array of serialized note types",
+        "INVALID_SERIALIZED_DATA"
+      );
+    }
+    return parsed.map((serialized) => this.deserialize(serialized));
+  }
+
   /**
    * Get schema type identifier for serialization
    * This is a simplified version - in production, you'd need a more robust schema registry
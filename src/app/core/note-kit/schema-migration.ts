@@ -3,12 +3,23 @@
  * Manages automatic schema migrations including property type conversions
  */
 
-import type { App, Notice as ObsidianNotice } from "obsidian";
+import type { App, Notice as ObsidianNotice, TFile } from "obsidian";
 import { Notice } from "obsidian";
 import type { NoteType, PropertyDefinition } from "./types";
 import type { TypeRegistry } from "./registry";
-import { BulkOperations, type MigrationPlan, type MigrationOperation } from "./bulk-operations";
+import {
+  BulkOperations,
+  type MigrationPlan,
+  type MigrationOperation,
+  type FileMigrationPreview,
+} from "./bulk-operations";
 import { BackupManager } from "./backup-manager";
+import type { DeclarativeMigrationDefinition } from "./declarative-migration";
+import {
+  isResumableCheckpoint,
+  type MigrationCheckpoint,
+  type MigrationCheckpointStore,
+} from "./migration-checkpoints";
 
 /**
  * Migration record to track executed migrations
@@ -31,6 +42,9 @@ export interface MigrationRecord {
 
   /** Migration version (for ordering) */
   version: string;
+
+  /** Whether the migrated files were restored from their backups */
+  rolledBack?: boolean;
 }
 
 /**
@@ -321,6 +335,100 @@ export class AssociationMigration implements SchemaMigration {
   }
 }
 
+/**
+ * Declarative Migration
+ * Runs user-authored migration steps over the notes of a note type
+ */
+export class DeclarativeMigration implements SchemaMigration {
+  id: string;
+  version: string;
+  description: string;
+  autoRun = false;
+
+  /**
+   * @param checkpointStore Persists progress so the migration can be resumed or rolled back
+   * @param signal Pauses the migration
+   */
+  constructor(
+    private definition: DeclarativeMigrationDefinition,
+    private checkpointStore?: MigrationCheckpointStore,
+    private signal?: AbortSignal
+  ) {
+    this.id = definition.id;
+    this.version = definition.version;
+    this.description = definition.description;
+  }
+
+  async needsMigration(registry: TypeRegistry): Promise<boolean> {
+    return registry.has(this.definition.noteTypeId) && this.definition.steps.length > 0;
+  }
+
+  /**
+   * Create the migration plan for the definition's steps
+   */
+  createMigrationPlan(bulkOps: BulkOperations, registry: TypeRegistry): MigrationPlan {
+    const { noteTypeId, steps } = this.definition;
+    const noteType = registry.get(noteTypeId);
+    const plan =
+      noteType &&
+      bulkOps.createMigrationPlan(noteTypeId, noteType.version, noteTypeId, noteType.version, steps);
+
+    if (!plan) {
+      throw new Error(`Note type ${noteTypeId} not found`);
+    }
+
+    return { ...plan, targetVersion: this.version, description: this.description };
+  }
+
+  async execute(
+    app: App,
+    registry: TypeRegistry,
+    backupManager: BackupManager,
+    onProgress?: (processed: number, total: number, currentFile: string) => void
+  ): Promise<{
+    success: boolean;
+    filesAffected: number;
+    errors?: string[];
+  }> {
+    const bulkOps = new BulkOperations(app, registry, backupManager, this.checkpointStore);
+    const migrationPlan = this.createMigrationPlan(bulkOps, registry);
+    const errors: string[] = [];
+
+    // Only the files the steps change are migrated, and backed up first
+    const files: TFile[] = [];
+    for (const { filePath } of await bulkOps.previewMigration(migrationPlan)) {
+      const file = app.vault.getFileByPath(filePath);
+      if (file) {
+        files.push(file);
+      }
+    }
+
+    const result = await bulkOps.executeBulkMigration(files, migrationPlan, {
+      createBackups: true,
+      validateAfterMigration: true,
+      continueOnErrors: true,
+      maxConcurrency: 5,
+      checkpointId: this.id,
+      signal: this.signal,
+      onProgress,
+      onError: (file, error) => {
+        errors.push(`File ${file.path}: ${error}`);
+      },
+    });
+
+    if (result.paused) {
+      const remaining = files.length - result.successfulFiles - result.failedFiles;
+      errors.push(`Paused with ${remaining} files left`);
+    }
+
+    return {
+      success: errors.length === 0,
+      filesAffected: result.successfulFiles,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+}
+
 /**
  * Schema Migration Manager
  * Manages and executes schema migrations
@@ -329,13 +437,23 @@ export class SchemaMigrationManager {
   private app: App;
   private registry: TypeRegistry;
   private backupManager: BackupManager;
+  private checkpointStore?: MigrationCheckpointStore;
   private migrations: Map<string, SchemaMigration> = new Map();
   private executedMigrations: Map<string, MigrationRecord> = new Map();
 
-  constructor(app: App, registry: TypeRegistry, backupManager: BackupManager) {
+  // Pauses the declarative migration that is running
+  private pauseController: AbortController | null = null;
+
+  constructor(
+    app: App,
+    registry: TypeRegistry,
+    backupManager: BackupManager,
+    checkpointStore?: MigrationCheckpointStore
+  ) {
     this.app = app;
     this.registry = registry;
     this.backupManager = backupManager;
+    this.checkpointStore = checkpointStore;
 
     // Register built-in migrations
     this.registerMigration(new AssociationMigration());
@@ -360,6 +478,133 @@ export class SchemaMigrationManager {
     this.migrations.set(migration.id, migration);
   }
 
+  /**
+   * Preview the files a declarative migration changes
+   */
+  async previewDeclarativeMigration(
+    definition: DeclarativeMigrationDefinition
+  ): Promise<FileMigrationPreview[]> {
+    const bulkOps = this.createBulkOperations();
+    const migration = new DeclarativeMigration(definition);
+    return bulkOps.previewMigration(migration.createMigrationPlan(bulkOps, this.registry));
+  }
+
+  /**
+   * Register and execute a declarative migration
+   */
+  async executeDeclarativeMigration(
+    definition: DeclarativeMigrationDefinition,
+    onProgress?: (processed: number, total: number, currentFile: string) => void
+  ): Promise<MigrationRecord> {
+    const controller = new AbortController();
+    this.pauseController = controller;
+
+    try {
+      this.registerMigration(
+        new DeclarativeMigration(definition, this.checkpointStore, controller.signal)
+      );
+      return await this.executeMigration(definition.id, onProgress);
+    } finally {
+      this.pauseController = null;
+    }
+  }
+
+  /**
+   * Pause the declarative migration that is running, after its current batch
+   * @returns Whether a migration was running
+   */
+  pauseRunningMigration(): boolean {
+    if (!this.pauseController) {
+      return false;
+    }
+    this.pauseController.abort();
+    return true;
+  }
+
+  /**
+   * Get the checkpoints of migrations that were paused or interrupted
+   */
+  async getInterruptedMigrations(): Promise<MigrationCheckpoint[]> {
+    if (this.pauseController) {
+      // Can't tell a running migration from an interrupted one
+      return [];
+    }
+
+    const checkpoints = await this.createBulkOperations().listCheckpoints();
+    return checkpoints.filter(isResumableCheckpoint);
+  }
+
+  /**
+   * Resume a paused or interrupted migration
+   */
+  async resumeMigration(
+    checkpointId: string,
+    onProgress?: (processed: number, total: number, currentFile: string) => void
+  ): Promise<MigrationRecord> {
+    const controller = new AbortController();
+    this.pauseController = controller;
+
+    try {
+      await this.createBulkOperations().resumeBulkMigration(checkpointId, {
+        createBackups: true,
+        validateAfterMigration: true,
+        continueOnErrors: true,
+        signal: controller.signal,
+        onProgress,
+      });
+    } finally {
+      this.pauseController = null;
+    }
+
+    return this.updateMigrationRecord(checkpointId);
+  }
+
+  /**
+   * Roll back a migration by restoring the files it changed from their backups
+   */
+  async rollbackMigration(checkpointId: string): Promise<MigrationRecord> {
+    const result = await this.createBulkOperations().rollbackBulkMigration(checkpointId);
+    const record = await this.updateMigrationRecord(checkpointId);
+
+    if (!result.success) {
+      throw new Error(
+        result.failedFileErrors
+          .map(({ filePath, error }) => `${filePath}: ${error}`)
+          .join(", ")
+      );
+    }
+
+    return record;
+  }
+
+  /**
+   * Update the record of a checkpointed migration from its checkpoint
+   */
+  private async updateMigrationRecord(checkpointId: string): Promise<MigrationRecord> {
+    const checkpoint = await this.checkpointStore?.load(checkpointId);
+    if (!checkpoint) {
+      throw new Error(`Migration checkpoint ${checkpointId} not found`);
+    }
+
+    const record: MigrationRecord = {
+      id: checkpoint.id,
+      description: checkpoint.plan.description || checkpoint.id,
+      version: checkpoint.plan.targetVersion,
+      ...this.executedMigrations.get(checkpointId),
+      executedAt: new Date(checkpoint.updatedAt),
+      filesAffected: checkpoint.completedFiles.length,
+      success: checkpoint.status === "completed" && checkpoint.failedFiles.length === 0,
+      rolledBack: checkpoint.status === "rolled-back",
+    };
+
+    this.executedMigrations.set(checkpointId, record);
+    return record;
+  }
+
+  private createBulkOperations(): BulkOperations {
+    return new BulkOperations(this.app, this.registry, this.backupManager, this.checkpointStore);
+  }
+
   /**
    * Check if a migration has been executed
    */
@@ -12,6 +12,13 @@ import {
   dateSchema,
   enumSchema,
   stringArraySchema,
+  urlSchema,
+  optionalUrlSchema,
+  durationSchema,
+  optionalDurationSchema,
+  ratingSchema,
+  optionalRatingSchema,
+  formulaSchema,
 } from "./schemas";
 import type { NoteType, PropertyDefinition } from "./types";
 
@@ -55,6 +62,14 @@ export function createSchemaFromProperty(
       } else {
         return required ? stringSchema : optionalStringSchema;
       }
+    case "duration":
+      return required ? durationSchema : optionalDurationSchema;
+    case "url":
+      return required ? urlSchema : optionalUrlSchema;
+    case "rating":
+      return required ? ratingSchema : optionalRatingSchema;
+    case "formula":
+      return formulaSchema;
     default:
       return stringSchema;
   }
@@ -4,6 +4,7 @@
  */
 
 import { z } from "zod";
+import { parseDuration, formatDuration } from "./duration";
 
 /**
  * Schema for string properties
@@ -108,6 +109,49 @@ export const urlSchema = z.string().url("Invalid URL");
  */
 export const optionalUrlSchema = z.string().url("Invalid URL").optional();
 
+/**
+ * Schema for duration properties (e.g. "1h30m", "45m", or minutes as a number)
+ * Values are normalized to the canonical "1h30m" form
+ */
+export const durationSchema = z
+  .union([z.string(), z.number()])
+  .refine((value) => parseDuration(value) !== null, {
+    message: "Invalid duration (expected e.g. 1h30m, 45m or 2h)",
+  })
+  .transform((value) => formatDuration(parseDuration(value)!));
+
+/**
+ * Schema for optional duration properties
+ */
+export const optionalDurationSchema = durationSchema.optional();
+
+/**
+ * Highest value of a rating property
+ */
+export const MAX_RATING = 5;
+
+/**
+ * Schema for rating properties (whole numbers from 0 to MAX_RATING)
+ */
+export const ratingSchema = z
+  .number()
+  .int("Rating must be a whole number")
+  .min(0, "Rating cannot be negative")
+  .max(MAX_RATING, `Rating cannot be higher than ${MAX_RATING}`);
+
+/**
+ * Schema for optional rating properties
+ */
+export const optionalRatingSchema = ratingSchema.optional();
+
+/**
+ * Schema for formula properties
+ * Formula values are computed at read time, so any scalar result is accepted
+ */
+export const formulaSchema = z
+  .union([z.string(), z.number(), z.boolean(), z.date(), z.null()])
+  .optional();
+
 /**
  * Schema for enum/choice properties
  * Creates a schema that accepts one of the provided values
@@ -21,6 +21,7 @@ import {
   createValidationError,
   createValidationWarning,
 } from "./validation";
+import { TEMPLATE_HELPERS } from "./template-helpers";
 
 /**
  * Template engine error types
@@ -67,12 +68,19 @@ export interface InheritanceResult {
   chain: string[];
 }
 
+/**
+ * Looks up templates that aren't registered with the engine, by ID
+ */
+export type TemplateResolver = (id: string) => Template | undefined;
+
 /**
  * TemplateEngine processes templates with variable replacement and validation
  * Uses Handlebars for template rendering
  */
 export class TemplateEngine {
   private templates: Map<string, Template> = new Map();
+  private partials: Map<string, string> = new Map();
+  private templateResolver?: TemplateResolver;
   private handlebars: typeof Handlebars;
   private defaultVariablePattern = /\{\{(\w+)\}\}/g;
 
@@ -130,6 +138,11 @@ export class TemplateEngine {
           : defaultValue;
       }
     );
+
+    // Date math, link formatting and conditional section helpers
+    for (const [name, helper] of Object.entries(TEMPLATE_HELPERS)) {
+      this.handlebars.registerHelper(name, helper);
+    }
   }
 
   /**
@@ -173,6 +186,51 @@ export class TemplateEngine {
     return this.templates.get(id);
   }
 
+  /**
+   * Set the resolver used to find parent templates that aren't registered
+   */
+  setTemplateResolver(resolver: TemplateResolver | undefined): void {
+    this.templateResolver = resolver;
+  }
+
+  /**
+   * Register a reusable partial, included in templates with {{> name}}
+   */
+  registerPartial(name: string, content: string): void {
+    this.partials.set(name, content);
+    this.handlebars.registerPartial(name, content);
+  }
+
+  /**
+   * Unregister a partial
+   */
+  unregisterPartial(name: string): boolean {
+    const deleted = this.partials.delete(name);
+    if (deleted) {
+      this.handlebars.unregisterPartial(name);
+    }
+    return deleted;
+  }
+
+  /**
+   * Replace all registered partials
+   */
+  setPartials(partials: Record<string, string>): void {
+    for (const name of Array.from(this.partials.keys())) {
+      this.unregisterPartial(name);
+    }
+    for (const [name, content] of Object.entries(partials)) {
+      this.registerPartial(name, content);
+    }
+  }
+
+  /**
+   * Get the names of all registered partials
+   */
+  getPartialNames(): string[] {
+    return Array.from(this.partials.keys());
+  }
+
   /**
    * Process a template with the given context using Handlebars
    */
@@ -309,6 +367,46 @@ export class TemplateEngine {
     };
   }
 
+  /**
+   * Process a template together with the templates it inherits from
+   */
+  processInherited(
+    template: Template,
+    context: TemplateContext,
+    options: ProcessOptions = {}
+  ): TemplateProcessingResult {
+    if (!template.parentTemplateId) {
+      return this.process(template, context, options);
+    }
+
+    let inheritance: InheritanceResult;
+    try {
+      inheritance = this.resolveInheritance(template);
+    } catch (error) {
+      const code =
+        error instanceof TemplateEngineError
+          ? error.code
+          : "TEMPLATE_PROCESSING_ERROR";
+      return {
+        success: false,
+        errors: [createValidationError(error.message, code)],
+        warnings: [],
+        content: "",
+      };
+    }
+
+    return this.process(
+      {
+        ...template,
+        content: inheritance.content,
+        variables: inheritance.variables,
+        parentTemplateId: undefined,
+      },
+      context,
+      options
+    );
+  }
+
   /**
    * Validate template variables against provided values
    */
@@ -482,7 +580,7 @@ export class TemplateEngine {
 
       chain.push(parentId);
 
-      const parentTemplate = this.templates.get(parentId);
+      const parentTemplate = this.findTemplate(parentId);
       if (!parentTemplate) {
         throw new TemplateEngineError(
           `Parent template '${parentId}' not found`,
@@ -494,11 +592,11 @@ export class TemplateEngine {
       currentTemplate = parentTemplate;
     }
 
-    // Merge from root to child (reverse chain)
+    // Merge from root to child (reverse chain, the root is already first)
     const templatesInOrder = [currentTemplate];
-    for (let i = chain.length - 1; i >= 0; i--) {
+    for (let i = chain.length - 2; i >= 0; i--) {
       const templateId = chain[i];
-      const t = this.templates.get(templateId);
+      const t = this.findTemplate(templateId);
       if (t) {
         templatesInOrder.push(t);
       }
@@ -522,6 +620,13 @@ export class TemplateEngine {
     };
   }
 
+  /**
+   * Find a template by ID, among registered ones first
+   */
+  private findTemplate(id: string): Template | undefined {
+    return this.templates.get(id) ?? this.templateResolver?.(id);
+  }
+
   /**
    * Migrate template content from one version to another
    */
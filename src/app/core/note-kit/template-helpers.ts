@@ -0,0 +1,209 @@
+/**
+ * Template Helpers - Handlebars helpers available in every note type template
+ * Date math, link formatting and sections that depend on property values
+ */
+
+import type Handlebars from "handlebars";
+import { formatDateValue, parseDateValue } from "./date-values";
+
+/**
+ * Documentation of a helper, shown in the template editor
+ */
+export interface TemplateHelperInfo {
+  name: string;
+  example: string;
+  description: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether the last argument Handlebars passed to a helper is its
+ * options object, i.e. an optional argument was left out
+ */
+function isHelperOptions(value: unknown): value is Handlebars.HelperOptions {
+  return typeof value === "object" && value !== null && "hash" in value;
+}
+
+/**
+ * Add an amount of days, weeks, months or years to a date
+ */
+export function addToDate(date: Date, amount: number, unit: string): Date {
+  const result = new Date(date);
+
+  switch (unit.replace(/s$/, "")) {
+    case "week":
+      result.setDate(result.getDate() + amount * 7);
+      break;
+    case "month":
+      result.setMonth(result.getMonth() + amount);
+      break;
+    case "year":
+      result.setFullYear(result.getFullYear() + amount);
+      break;
+    default:
+      result.setDate(result.getDate() + amount);
+  }
+
+  return result;
+}
+
+/**
+ * Format a note reference as a wiki link
+ * References that already are wiki links keep their target.
+ */
+export function formatWikiLink(target: unknown, alias?: string): string {
+  const linkTarget = String(target)
+    .trim()
+    .replace(/^\[\[/, "")
+    .replace(/\]\]$/, "")
+    .split("|")[0];
+
+  if (!linkTarget) return "";
+  return alias ? `[[${linkTarget}|${alias}]]` : `[[${linkTarget}]]`;
+}
+
+function includesValue(list: unknown, value: unknown): boolean {
+  if (Array.isArray(list)) {
+    return list.includes(value);
+  }
+  if (typeof list === "string") {
+    return list
+      .split(",")
+      .map((item) => item.trim())
+      .includes(String(value));
+  }
+  return false;
+}
+
+/**
+ * Helpers registered by TemplateEngine, by name
+ */
+export const TEMPLATE_HELPERS: Record<string, Handlebars.HelperDelegate> = {
+  // Current date
+  today: () => formatDateValue(new Date()),
+
+  // Date math
+  dateAdd: (date: unknown, amount: unknown, unit: unknown) => {
+    const parsed = parseDateValue(date);
+    if (!parsed) return "";
+    return formatDateValue(
+      addToDate(
+        parsed,
+        Number(amount) || 0,
+        isHelperOptions(unit) ? "days" : String(unit)
+      )
+    );
+  },
+
+  daysBetween: (from: unknown, to: unknown) => {
+    const fromDate = parseDateValue(from);
+    const toDate = parseDateValue(to);
+    if (!fromDate || !toDate) return "";
+    return Math.round((toDate.getTime() - fromDate.getTime()) / DAY_MS);
+  },
+
+  // Link formatting
+  link: (target: unknown, alias: unknown) => {
+    if (target === null || target === undefined) return "";
+    const linkAlias = isHelperOptions(alias) ? undefined : String(alias);
+
+    if (Array.isArray(target)) {
+      return target.map((item) => formatWikiLink(item, linkAlias)).join(", ");
+    }
+    return formatWikiLink(target, linkAlias);
+  },
+
+  mdLink: (text: unknown, url: unknown) => {
+    if (!url || isHelperOptions(url)) return String(text ?? "");
+    return `[${String(text ?? url)}](${String(url)})`;
+  },
+
+  // Conditional sections
+  ifEquals: function (
+    this: unknown,
+    value: unknown,
+    expected: unknown,
+    options: Handlebars.HelperOptions
+  ) {
+    return value === expected ? options.fn(this) : options.inverse(this);
+  },
+
+  ifNotEquals: function (
+    this: unknown,
+    value: unknown,
+    expected: unknown,
+    options: Handlebars.HelperOptions
+  ) {
+    return value !== expected ? options.fn(this) : options.inverse(this);
+  },
+
+  ifIncludes: function (
+    this: unknown,
+    list: unknown,
+    value: unknown,
+    options: Handlebars.HelperOptions
+  ) {
+    return includesValue(list, value)
+      ? options.fn(this)
+      : options.inverse(this);
+  },
+};
+
+/**
+ * Documentation of the built-in helpers
+ */
+export const TEMPLATE_HELPER_INFO: TemplateHelperInfo[] = [
+  {
+    name: "formatDate",
+    example: '{{formatDate date "DD/MM/YYYY"}}',
+    description: "Format a date",
+  },
+  { name: "today", example: "{{today}}", description: "Current date" },
+  {
+    name: "dateAdd",
+    example: '{{dateAdd dueDate 7 "days"}}',
+    description: "Add days, weeks, months or years to a date",
+  },
+  {
+    name: "daysBetween",
+    example: "{{daysBetween startDate dueDate}}",
+    description: "Number of days between two dates",
+  },
+  {
+    name: "link",
+    example: '{{link project "Project"}}',
+    description: "Wiki link to a note, or to each note of a list",
+  },
+  {
+    name: "mdLink",
+    example: "{{mdLink title url}}",
+    description: "Markdown link",
+  },
+  { name: "join", example: '{{join tags ", "}}', description: "Join a list" },
+  {
+    name: "default",
+    example: '{{default priority "Low"}}',
+    description: "Fallback for an empty value",
+  },
+  {
+    name: "ifExists",
+    example: "{{#ifExists project}}…{{/ifExists}}",
+    description: "Section shown when a value is set",
+  },
+  {
+    name: "ifEquals",
+    example: '{{#ifEquals status "Done"}}…{{else}}…{{/ifEquals}}',
+    description: "Section shown when a value equals another",
+  },
+  {
+    name: "ifNotEquals",
+    example: '{{#ifNotEquals status "Done"}}…{{/ifNotEquals}}',
+    description: "Section shown when a value differs from another",
+  },
+  {
+    name: "ifIncludes",
+    example: '{{#ifIncludes tags "meeting"}}…{{/ifIncludes}}',
+    description: "Section shown when a list contains a value",
+  },
+];
@@ -0,0 +1,322 @@
+/**
+ * Note Type Exchange
+ * Export and import of note type definitions as shareable .tasksync-types.json files
+ */
+
+import type { NoteType, ValidationError } from "./types";
+import type {
+  TypeRegistry,
+  SerializedNoteType,
+  SerializedPropertyDefinition,
+} from "./registry";
+import { validateNoteType } from "./validation";
+
+/**
+ * File extension used for shared note type definitions
+ */
+export const NOTE_TYPES_FILE_EXTENSION = ".tasksync-types.json";
+
+/**
+ * Identifier stored in every exported file
+ */
+const NOTE_TYPES_FILE_FORMAT = "tasksync-types";
+
+/**
+ * Contents of a .tasksync-types.json file
+ */
+export interface NoteTypesFile {
+  format: typeof NOTE_TYPES_FILE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  noteTypes: SerializedNoteType[];
+}
+
+/**
+ * How imported note types are applied to the registry
+ * - merge: imported properties are added or updated, local-only properties are kept
+ * - replace: imported definitions fully replace local ones with the same ID
+ *
+ * Note types that are not part of the import are never removed.
+ */
+export type NoteTypeImportMode = "merge" | "replace";
+
+/**
+ * Difference between an imported note type and the registered one
+ */
+export interface NoteTypeDiff {
+  noteTypeId: string;
+  name: string;
+  status: "added" | "changed" | "unchanged";
+  currentVersion?: string;
+  importedVersion: string;
+  addedProperties: string[];
+  removedProperties: string[];
+  changedProperties: string[];
+  templateChanged: boolean;
+}
+
+/**
+ * Result of applying an import
+ */
+export interface NoteTypeImportResult {
+  added: string[];
+  updated: string[];
+  unchanged: string[];
+  errors: ValidationError[];
+}
+
+/**
+ * Import error with the validation errors of the offending note types
+ */
+export class NoteTypeImportError extends Error {
+  constructor(
+    message: string,
+    public errors: ValidationError[] = []
+  ) {
+    super(message);
+    this.name = "NoteTypeImportError";
+  }
+}
+
+/**
+ * Export note types as the contents of a .tasksync-types.json file
+ * @param noteTypeIds - Note types to export, all registered types when omitted
+ */
+export function exportNoteTypes(
+  registry: TypeRegistry,
+  noteTypeIds?: string[]
+): string {
+  const noteTypes = registry
+    .serializeAll()
+    .filter((nt) => !noteTypeIds || noteTypeIds.includes(nt.id));
+
+  const file: NoteTypesFile = {
+    format: NOTE_TYPES_FILE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    noteTypes,
+  };
+
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse and validate the contents of a .tasksync-types.json file
+ * @throws {NoteTypeImportError} if the file is malformed or a note type is invalid
+ */
+export function parseNoteTypesFile(
+  registry: TypeRegistry,
+  json: string
+): NoteType[] {
+  let file: Partial<NoteTypesFile>;
+  try {
+    file = JSON.parse(json);
+  } catch (error) {
+    throw new NoteTypeImportError(`Invalid JSON: ${error.message}`);
+  }
+
+  if (
+    !file ||
+    file.format !== NOTE_TYPES_FILE_FORMAT ||
+    !Array.isArray(file.noteTypes)
+  ) {
+    throw new NoteTypeImportError(
+      `Not a ${NOTE_TYPES_FILE_EXTENSION} file: missing format or noteTypes`
+    );
+  }
+
+  if (file.version !== 1) {
+    throw new NoteTypeImportError(
+      `Unsupported note types file version: ${file.version}`
+    );
+  }
+
+  const errors: ValidationError[] = [];
+  const seen = new Set<string>();
+  const noteTypes: NoteType[] = [];
+
+  for (const serialized of file.noteTypes) {
+    const noteType = registry.deserialize(serialized);
+    const result = validateNoteType(noteType);
+
+    if (seen.has(noteType.id)) {
+      errors.push({
+        message: `Note type '${noteType.id}' is defined more than once`,
+        code: "DUPLICATE_NOTE_TYPE",
+      });
+    }
+    seen.add(noteType.id);
+
+    errors.push(
+      ...result.errors.map((error) => ({
+        ...error,
+        message: `${noteType.id || "(unnamed)"}: ${error.message}`,
+      }))
+    );
+    noteTypes.push(noteType);
+  }
+
+  if (errors.length > 0) {
+    throw new NoteTypeImportError(
+      `Invalid note types file: ${errors.map((e) => e.message).join(", ")}`,
+      errors
+    );
+  }
+
+  return noteTypes;
+}
+
+/**
+ * Compare imported note types against the registry
+ */
+export function diffNoteTypes(
+  registry: TypeRegistry,
+  imported: NoteType[]
+): NoteTypeDiff[] {
+  return imported.map((noteType): NoteTypeDiff => {
+    const incoming = registry.serialize(noteType);
+    const existing = registry.get(noteType.id);
+
+    if (!existing) {
+      return {
+        noteTypeId: noteType.id,
+        name: noteType.name,
+        status: "added",
+        importedVersion: noteType.version,
+        addedProperties: Object.keys(incoming.properties),
+        removedProperties: [],
+        changedProperties: [],
+        templateChanged: false,
+      };
+    }
+
+    const current = registry.serialize(existing);
+    const addedProperties = Object.keys(incoming.properties).filter(
+      (key) => !current.properties[key]
+    );
+    const removedProperties = Object.keys(current.properties).filter(
+      (key) => !incoming.properties[key]
+    );
+    const changedProperties = Object.keys(incoming.properties).filter(
+      (key) =>
+        current.properties[key] &&
+        !isSameProperty(current.properties[key], incoming.properties[key])
+    );
+    const templateChanged =
+      current.template.content !== incoming.template.content ||
+      current.template.version !== incoming.template.version;
+
+    const changed =
+      current.name !== incoming.name ||
+      current.version !== incoming.version ||
+      addedProperties.length > 0 ||
+      removedProperties.length > 0 ||
+      changedProperties.length > 0 ||
+      templateChanged;
+
+    return {
+      noteTypeId: noteType.id,
+      name: noteType.name,
+      status: changed ? "changed" : "unchanged",
+      currentVersion: existing.version,
+      importedVersion: noteType.version,
+      addedProperties,
+      removedProperties,
+      changedProperties,
+      templateChanged,
+    };
+  });
+}
+
+/**
+ * Apply imported note types to the registry
+ */
+export function applyNoteTypeImport(
+  registry: TypeRegistry,
+  imported: NoteType[],
+  mode: NoteTypeImportMode
+): NoteTypeImportResult {
+  const result: NoteTypeImportResult = {
+    added: [],
+    updated: [],
+    unchanged: [],
+    errors: [],
+  };
+  const diffs = diffNoteTypes(registry, imported);
+
+  imported.forEach((noteType, index) => {
+    const diff = diffs[index];
+
+    if (diff.status === "unchanged") {
+      result.unchanged.push(noteType.id);
+      return;
+    }
+
+    // Round-trip the registered type so merged properties are plain
+    // definitions rather than the registry's PropertyAccessor wrappers
+    const existing = registry.get(noteType.id);
+    const noteTypeToRegister =
+      existing && mode === "merge"
+        ? mergeNoteTypes(
+            registry.deserialize(registry.serialize(existing)),
+            noteType
+          )
+        : noteType;
+
+    // Imports may carry an older version than the local definition,
+    // so the usual "version must increase" rule does not apply here
+    const registration = registry.register(noteTypeToRegister, {
+      allowOverwrite: true,
+      checkCompatibility: false,
+    });
+
+    if (!registration.valid) {
+      result.errors.push(...registration.errors);
+    } else if (diff.status === "added") {
+      result.added.push(noteType.id);
+    } else {
+      result.updated.push(noteType.id);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Merge an imported note type into an existing one
+ * Imported properties win, properties only defined locally are kept
+ */
+function mergeNoteTypes(existing: NoteType, imported: NoteType): NoteType {
+  return {
+    ...existing,
+    ...imported,
+    properties: { ...existing.properties, ...imported.properties },
+    metadata: {
+      ...existing.metadata,
+      ...imported.metadata,
+      updatedAt: new Date(),
+    },
+  };
+}
+
+function isSameProperty(
+  a: SerializedPropertyDefinition,
+  b: SerializedPropertyDefinition
+): boolean {
+  const { schemaType: _a, ...restA } = a;
+  const { schemaType: _b, ...restB } = b;
+  return stableStringify(restA) === stableStringify(restB);
+}
+
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) =>
+    val && typeof val === "object" && !Array.isArray(val)
+      ? Object.fromEntries(
+          Object.keys(val)
+            .sort()
+            .filter((k) => val[k] !== undefined)
+            .map((k) => [k, val[k]])
+        )
+      : val
+  );
+}
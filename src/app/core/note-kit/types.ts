@@ -22,7 +22,11 @@ export type PropertyType =
   | "enum"
   | "array"
   | "select"
-  | "association";
+  | "association"
+  | "duration"
+  | "url"
+  | "rating"
+  | "formula";
 
 /**
  * Property definition with Zod schema and transformation rules
@@ -69,6 +73,9 @@ export interface PropertyDefinition {
   /** Source for computed/formula properties (e.g., "file.ctime", "formula.Title") */
   source?: string;
 
+  /** Expression for formula properties, evaluated from other properties at read time */
+  formula?: string;
+
   /** Whether this property should be rendered as a link in Obsidian Bases */
   link?: boolean;
   /** Options for select properties with colors */
@@ -153,6 +160,9 @@ export interface PropertySettingsData {
   /** Options for enum properties (comma-separated string in UI) */
   enumOptions?: string;
 
+  /** Expression for formula properties */
+  formula?: string;
+
   /** Options for select properties with colors */
   selectOptions?: SelectOption[];
 
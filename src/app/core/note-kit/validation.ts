@@ -11,6 +11,7 @@ import type {
   PropertyDefinition,
   NoteType,
 } from "./types";
+import { parseFormula } from "./formula";
 
 // Re-export ValidationResult for external use
 export type { ValidationResult };
@@ -343,6 +344,20 @@ export function validateNoteType(noteType: NoteType): ValidationResult {
         )
       );
     }
+
+    if (propertyDef.type === "formula") {
+      try {
+        parseFormula(propertyDef.formula ?? "");
+      } catch (error) {
+        errors.push(
+          createValidationError(
+            `Property '${key}' has an invalid formula: ${error.message}`,
+            "INVALID_FORMULA",
+            { propertyKey: key }
+          )
+        );
+      }
+    }
   }
 
   // Validate template
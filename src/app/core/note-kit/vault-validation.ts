@@ -0,0 +1,523 @@
+/**
+ * Vault Validation - Validates every typed note in a vault at once
+ * Groups problems by note type and property and works out the fixes that
+ * can be applied to a note's front-matter without asking the user more than
+ * which value to use.
+ */
+
+import type {
+  NoteType,
+  PropertyDefinition,
+  ValidationError,
+  ValidationWarning,
+} from "./types";
+import type { NoteProcessor } from "./note-processor";
+import type { PropertyProcessor } from "./property-processor";
+import { createValidationError, createValidationWarning } from "./validation";
+import { formatDateTimeValue, parseDateValue } from "./date-values";
+
+/**
+ * A change that resolves a validation issue
+ */
+export type ValidationFix =
+  | {
+      /** Set the missing property to its default value */
+      kind: "fill-default";
+      value: unknown;
+    }
+  | {
+      /** Rewrite a date in the standard format */
+      kind: "coerce-date";
+      value: string;
+    }
+  | {
+      /** Replace an unknown select value with one of the options */
+      kind: "map-select-value";
+      options: string[];
+      suggested?: string;
+    }
+  | {
+      /** Point a broken association at an existing note */
+      kind: "relink-association";
+      reference: string;
+      candidates: string[];
+    };
+
+/**
+ * A single error or warning found in a note
+ */
+export interface VaultValidationIssue {
+  filePath: string;
+  severity: "error" | "warning";
+  code: string;
+  message: string;
+  noteTypeId: string;
+  noteTypeName: string;
+
+  /** Property the issue is about, if any */
+  propertyKey?: string;
+  propertyName?: string;
+  frontMatterKey?: string;
+
+  /** Front-matter value the issue was found in */
+  value?: unknown;
+
+  fix?: ValidationFix;
+}
+
+/**
+ * Validation outcome for one typed note
+ */
+export interface NoteValidationResult {
+  filePath: string;
+  noteTypeId: string;
+  issues: VaultValidationIssue[];
+}
+
+export interface PropertyIssueGroup {
+  /** Property key, or null for issues about the note as a whole */
+  propertyKey: string | null;
+  propertyName: string;
+  issues: VaultValidationIssue[];
+}
+
+export interface NoteTypeIssueGroup {
+  noteTypeId: string;
+  noteTypeName: string;
+  /** Number of notes of this type with at least one issue */
+  noteCount: number;
+  properties: PropertyIssueGroup[];
+}
+
+export interface VaultValidationReport {
+  /** Number of typed notes that were validated */
+  typedNotes: number;
+  /** Number of typed notes with at least one error */
+  invalidNotes: number;
+  errorCount: number;
+  warningCount: number;
+  groups: NoteTypeIssueGroup[];
+}
+
+/**
+ * Resolves association references against the notes in the vault
+ */
+export interface AssociationLinkResolver {
+  /** Whether a reference points to an existing note */
+  exists(reference: string, sourcePath: string): boolean;
+
+  /** Link texts of notes a broken reference could be re-linked to */
+  suggest(
+    reference: string,
+    association: NonNullable<PropertyDefinition["association"]>
+  ): string[];
+}
+
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * VaultValidator validates typed notes and suggests fixes for their issues
+ */
+export class VaultValidator {
+  private noteProcessor: NoteProcessor;
+  private propertyProcessor: PropertyProcessor;
+  private linkResolver: AssociationLinkResolver | null;
+
+  constructor(
+    noteProcessor: NoteProcessor,
+    propertyProcessor: PropertyProcessor,
+    linkResolver: AssociationLinkResolver | null = null
+  ) {
+    this.noteProcessor = noteProcessor;
+    this.propertyProcessor = propertyProcessor;
+    this.linkResolver = linkResolver;
+  }
+
+  /**
+   * Validate a note's front-matter
+   * @returns The note's issues, or null if it isn't a typed note
+   */
+  async validateNote(
+    filePath: string,
+    frontMatter: Record<string, unknown>
+  ): Promise<NoteValidationResult | null> {
+    const detection = this.noteProcessor.detectNoteType(frontMatter, filePath);
+    const noteType = detection.noteType;
+    if (!noteType) {
+      return null;
+    }
+
+    const result = await this.propertyProcessor.process(noteType, frontMatter);
+
+    const issues: VaultValidationIssue[] = [
+      ...result.errors.map((error) =>
+        this.toIssue(filePath, noteType, frontMatter, error, "error")
+      ),
+      ...[...detection.warnings, ...result.warnings].map((warning) =>
+        this.toIssue(filePath, noteType, frontMatter, warning, "warning")
+      ),
+    ];
+
+    // Problems the schemas don't catch, for properties without issues yet
+    for (const [key, propertyDef] of Object.entries(noteType.properties)) {
+      if (issues.some((issue) => issue.propertyKey === key)) continue;
+
+      const { errors, warnings } = this.checkProperty(
+        filePath,
+        propertyDef,
+        frontMatter[propertyDef.frontMatterKey]
+      );
+      for (const error of errors) {
+        issues.push(
+          this.toIssue(filePath, noteType, frontMatter, error, "error")
+        );
+      }
+      for (const warning of warnings) {
+        issues.push(
+          this.toIssue(filePath, noteType, frontMatter, warning, "warning")
+        );
+      }
+    }
+
+    return { filePath, noteTypeId: noteType.id, issues };
+  }
+
+  /**
+   * Validate many notes
+   * Notes that aren't typed notes are left out of the results.
+   */
+  async validateNotes(
+    notes: Array<{ filePath: string; frontMatter: Record<string, unknown> }>
+  ): Promise<NoteValidationResult[]> {
+    const results: NoteValidationResult[] = [];
+
+    for (const note of notes) {
+      const result = await this.validateNote(note.filePath, note.frontMatter);
+      if (result) {
+        results.push(result);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Find problems with a property value that its schema accepts
+   */
+  private checkProperty(
+    filePath: string,
+    propertyDef: PropertyDefinition,
+    value: unknown
+  ): { errors: ValidationError[]; warnings: ValidationWarning[] } {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    if (value === undefined || value === null || value === "") {
+      return { errors, warnings };
+    }
+
+    switch (propertyDef.type) {
+      case "date":
+        if (typeof value === "string" && !ISO_DATE_PATTERN.test(value)) {
+          warnings.push(
+            createValidationWarning(
+              `'${propertyDef.name}' is not in YYYY-MM-DD format`,
+              "NON_STANDARD_DATE",
+              { propertyKey: propertyDef.key }
+            )
+          );
+        }
+        break;
+
+      case "select":
+      case "enum": {
+        const options = getPropertyOptions(propertyDef);
+        if (
+          typeof value === "string" &&
+          options.length > 0 &&
+          !options.includes(value)
+        ) {
+          warnings.push(
+            createValidationWarning(
+              `'${value}' is not an option of '${propertyDef.name}'`,
+              "UNKNOWN_SELECT_VALUE",
+              { propertyKey: propertyDef.key }
+            )
+          );
+        }
+        break;
+      }
+
+      case "association":
+        if (!this.linkResolver) break;
+        for (const reference of getReferences(value)) {
+          if (!this.linkResolver.exists(reference, filePath)) {
+            errors.push(
+              createValidationError(
+                `'${propertyDef.name}' links to '${reference}', which doesn't exist`,
+                "BROKEN_ASSOCIATION",
+                { propertyKey: propertyDef.key, actual: reference }
+              )
+            );
+          }
+        }
+        break;
+    }
+
+    return { errors, warnings };
+  }
+
+  private toIssue(
+    filePath: string,
+    noteType: NoteType,
+    frontMatter: Record<string, unknown>,
+    problem: ValidationError | ValidationWarning,
+    severity: "error" | "warning"
+  ): VaultValidationIssue {
+    const propertyDef = problem.propertyKey
+      ? noteType.properties[problem.propertyKey]
+      : undefined;
+
+    const issue: VaultValidationIssue = {
+      filePath,
+      severity,
+      code: problem.code,
+      message: problem.message,
+      noteTypeId: noteType.id,
+      noteTypeName: noteType.name,
+    };
+
+    if (propertyDef) {
+      const value = frontMatter[propertyDef.frontMatterKey];
+      issue.propertyKey = problem.propertyKey;
+      issue.propertyName = propertyDef.name;
+      issue.frontMatterKey = propertyDef.frontMatterKey;
+      issue.value = value;
+      issue.fix = this.getFix(
+        propertyDef,
+        value,
+        problem.code === "BROKEN_ASSOCIATION"
+          ? String((problem as ValidationError).actual)
+          : undefined
+      );
+    }
+
+    return issue;
+  }
+
+  /**
+   * Work out how an issue with a property value can be fixed, if at all
+   */
+  private getFix(
+    propertyDef: PropertyDefinition,
+    value: unknown,
+    brokenReference?: string
+  ): ValidationFix | undefined {
+    if (value === undefined || value === null) {
+      return propertyDef.defaultValue !== undefined
+        ? { kind: "fill-default", value: propertyDef.defaultValue }
+        : undefined;
+    }
+
+    switch (propertyDef.type) {
+      case "date": {
+        const date = typeof value === "string" ? coerceDateValue(value) : null;
+        return date !== null && date !== value
+          ? { kind: "coerce-date", value: date }
+          : undefined;
+      }
+
+      case "select":
+      case "enum": {
+        const options = getPropertyOptions(propertyDef);
+        if (options.length === 0 || typeof value !== "string") {
+          return undefined;
+        }
+        return {
+          kind: "map-select-value",
+          options,
+          suggested: options.find(
+            (option) => option.toLowerCase() === value.trim().toLowerCase()
+          ),
+        };
+      }
+
+      case "association":
+        if (
+          !brokenReference ||
+          !this.linkResolver ||
+          !propertyDef.association
+        ) {
+          return undefined;
+        }
+        return {
+          kind: "relink-association",
+          reference: brokenReference,
+          candidates: this.linkResolver.suggest(
+            brokenReference,
+            propertyDef.association
+          ),
+        };
+
+      default:
+        return undefined;
+    }
+  }
+}
+
+/**
+ * Group validation results by note type and property
+ */
+export function buildValidationReport(
+  results: NoteValidationResult[]
+): VaultValidationReport {
+  const groups = new Map<string, NoteTypeIssueGroup>();
+  const notesWithIssues = new Map<string, Set<string>>();
+  let invalidNotes = 0;
+  let errorCount = 0;
+  let warningCount = 0;
+
+  for (const result of results) {
+    if (result.issues.some((issue) => issue.severity === "error")) {
+      invalidNotes++;
+    }
+
+    for (const issue of result.issues) {
+      if (issue.severity === "error") {
+        errorCount++;
+      } else {
+        warningCount++;
+      }
+
+      let group = groups.get(issue.noteTypeId);
+      if (!group) {
+        group = {
+          noteTypeId: issue.noteTypeId,
+          noteTypeName: issue.noteTypeName,
+          noteCount: 0,
+          properties: [],
+        };
+        groups.set(issue.noteTypeId, group);
+        notesWithIssues.set(issue.noteTypeId, new Set());
+      }
+      notesWithIssues.get(issue.noteTypeId)!.add(issue.filePath);
+
+      const propertyKey = issue.propertyKey ?? null;
+      let propertyGroup = group.properties.find(
+        (candidate) => candidate.propertyKey === propertyKey
+      );
+      if (!propertyGroup) {
+        propertyGroup = {
+          propertyKey,
+          propertyName: issue.propertyName ?? "Note",
+          issues: [],
+        };
+        group.properties.push(propertyGroup);
+      }
+      propertyGroup.issues.push(issue);
+    }
+  }
+
+  for (const group of groups.values()) {
+    group.noteCount = notesWithIssues.get(group.noteTypeId)!.size;
+  }
+
+  return {
+    typedNotes: results.length,
+    invalidNotes,
+    errorCount,
+    warningCount,
+    groups: Array.from(groups.values()).sort((a, b) =>
+      a.noteTypeName.localeCompare(b.noteTypeName)
+    ),
+  };
+}
+
+/**
+ * Apply an issue's fix to a note's front-matter
+ * @param choice The option or note to use, for fixes that need one
+ */
+export function applyValidationFix(
+  frontMatter: Record<string, unknown>,
+  issue: VaultValidationIssue,
+  choice?: string
+): void {
+  const { fix, frontMatterKey } = issue;
+  if (!fix || !frontMatterKey) {
+    throw new Error(`Issue '${issue.code}' can't be fixed automatically`);
+  }
+
+  switch (fix.kind) {
+    case "fill-default":
+      frontMatter[frontMatterKey] = Array.isArray(fix.value)
+        ? [...fix.value]
+        : fix.value;
+      break;
+
+    case "coerce-date":
+      frontMatter[frontMatterKey] = fix.value;
+      break;
+
+    case "map-select-value":
+      if (!choice || !fix.options.includes(choice)) {
+        throw new Error(
+          `'${choice}' is not an option of '${issue.propertyName}'`
+        );
+      }
+      frontMatter[frontMatterKey] = choice;
+      break;
+
+    case "relink-association": {
+      if (!choice) {
+        throw new Error("Choose a note to link to");
+      }
+      const link = `[[${choice}]]`;
+      const value = frontMatter[frontMatterKey];
+      frontMatter[frontMatterKey] = Array.isArray(value)
+        ? value.map((reference) =>
+            reference === fix.reference ? link : reference
+          )
+        : link;
+      break;
+    }
+  }
+}
+
+/**
+ * Get the link path of an association reference, e.g. "Projects/Foo" for
+ * "[[Projects/Foo|Foo]]"
+ */
+export function getReferenceLinkpath(reference: string): string {
+  return reference
+    .trim()
+    .replace(/^\[\[/, "")
+    .replace(/\]\]$/, "")
+    .split("|")[0]
+    .split("#")[0]
+    .trim();
+}
+
+/**
+ * Rewrite a date as YYYY-MM-DD, keeping the time if it has one
+ * @returns null if the value isn't a date
+ */
+export function coerceDateValue(value: string): string | null {
+  const date = parseDateValue(value);
+  return date ? formatDateTimeValue(date) : null;
+}
+
+function getPropertyOptions(propertyDef: PropertyDefinition): string[] {
+  if (propertyDef.selectOptions && propertyDef.selectOptions.length > 0) {
+    return propertyDef.selectOptions.map((option) => option.value);
+  }
+  return propertyDef.options ?? [];
+}
+
+function getReferences(value: unknown): string[] {
+  const references = Array.isArray(value) ? value : [value];
+  return references.filter(
+    (reference): reference is string =>
+      typeof reference === "string" && getReferenceLinkpath(reference) !== ""
+  );
+}
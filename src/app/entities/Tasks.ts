@@ -12,6 +12,14 @@ import {
 } from "../core/entities-base";
 import { taskStore as store } from "../stores/taskStore";
 import { eventBus } from "../core/events";
+import { buildNextOccurrence } from "../utils/recurrence";
+import {
+  isTimerRunning,
+  startTimeEntry,
+  stopTimeEntry,
+} from "../utils/timeTracking";
+import { assertNoDependencyCycle } from "../utils/taskDependencies";
+import { allSubtasksDone } from "../utils/taskHierarchy";
 
 export class Tasks extends Entities {
   protected entityType = "task" as const;
@@ -74,6 +82,10 @@ export class Tasks extends Entities {
     async getPending(): Promise<readonly Task[]> {
       return get(store).tasks.filter((t) => !t.done);
     }
+
+    async getWithRunningTimer(): Promise<readonly Task[]> {
+      return get(store).tasks.filter((t) => isTimerRunning(t.timeLog));
+    }
   };
 
   static Operations = class TaskOperations extends EntitiesOperations {
@@ -85,6 +97,10 @@ export class Tasks extends Entities {
       // buildEntity handles schema validation and date coercion
       const task = this.buildEntity(taskData) as Task;
 
+      if (task.blockedBy?.length) {
+        assertNoDependencyCycle(task, get(store).tasks);
+      }
+
       // Dispatch action instead of calling store.addTask()
       store.dispatch({ type: "ADD_TASK", task });
 
@@ -96,6 +112,17 @@ export class Tasks extends Entities {
 
     async update(task: Task): Promise<Task> {
       const updatedTask: Task = { ...task, updatedAt: this.timestamp() };
+      const tasks = get(store).tasks;
+      const previous = tasks.find((t) => t.id === task.id);
+
+      // Only validate edited dependencies, so a cycle already in the vault
+      // doesn't prevent other changes to its tasks
+      const blockedByChanged =
+        (previous?.blockedBy ?? []).join("\n") !==
+        (updatedTask.blockedBy ?? []).join("\n");
+      if (blockedByChanged && updatedTask.blockedBy?.length) {
+        assertNoDependencyCycle(updatedTask, tasks);
+      }
 
       // Dispatch action instead of calling store.updateTask()
       store.dispatch({ type: "UPDATE_TASK", task: updatedTask });
@@ -103,6 +130,19 @@ export class Tasks extends Entities {
       // Still trigger domain event for cross-cutting concerns
       eventBus.trigger({ type: "tasks.updated", task: updatedTask });
 
+      if (previous && previous.title !== updatedTask.title) {
+        eventBus.trigger({
+          type: "tasks.renamed",
+          oldTitle: previous.title,
+          newTitle: updatedTask.title,
+        });
+      }
+
+      // Completed tasks stop blocking through their done status, see getBlockers
+      if (updatedTask.done && previous && !previous.done) {
+        await this.completeParent(updatedTask);
+      }
+
       return updatedTask;
     }
 
@@ -120,10 +160,91 @@ export class Tasks extends Entities {
     async markDone(taskId: string): Promise<void> {
       const task = await new Tasks.Queries().getById(taskId);
       if (task) {
+        const nextOccurrence = task.done
+          ? null
+          : await this.createNextOccurrence(task);
+
+        // The recurrence rule moves to the next occurrence so completing
+        // this one again doesn't spawn a duplicate
         await this.update({
           ...task,
           done: true,
           status: "Done",
+          recurrence: nextOccurrence ? undefined : task.recurrence,
+          timeLog: isTimerRunning(task.timeLog)
+            ? stopTimeEntry(task.timeLog, this.timestamp())
+            : task.timeLog,
+        });
+      }
+    }
+
+    /**
+     * Create the next occurrence of a recurring task
+     * Returns null when the series has ended or the rule can't be parsed
+     */
+    async createNextOccurrence(task: Task): Promise<Task | null> {
+      if (!task.recurrence) {
+        return null;
+      }
+
+      try {
+        const occurrence = buildNextOccurrence(task, this.timestamp());
+        return occurrence ? await this.create(occurrence) : null;
+      } catch (error) {
+        console.warn(
+          `Failed to create next occurrence of task "${task.title}":`,
+          error.message
+        );
+        return null;
+      }
+    }
+
+    /**
+     * Mark the parent of a completed subtask done once all of its subtasks
+     * are done, when enabled in settings
+     */
+    async completeParent(task: Task): Promise<void> {
+      if (!this.settings?.autoCompleteParentTasks || !task.parentTask) {
+        return;
+      }
+
+      const tasks = get(store).tasks;
+      const parent = tasks.find((t) => t.title === task.parentTask);
+      if (parent && !parent.done && allSubtasksDone(parent, tasks)) {
+        await this.markDone(parent.id);
+      }
+    }
+
+    /**
+     * Start tracking time on a task
+     * Only one timer runs at a time, so timers on other tasks are stopped
+     */
+    async startTimer(taskId: string): Promise<void> {
+      const task = await new Tasks.Queries().getById(taskId);
+      if (!task || isTimerRunning(task.timeLog)) {
+        return;
+      }
+
+      const now = this.timestamp();
+      for (const running of await new Tasks.Queries().getWithRunningTimer()) {
+        await this.update({
+          ...running,
+          timeLog: stopTimeEntry(running.timeLog, now),
+        });
+      }
+
+      await this.update({
+        ...task,
+        timeLog: startTimeEntry(task.timeLog, now),
+      });
+    }
+
+    async stopTimer(taskId: string): Promise<void> {
+      const task = await new Tasks.Queries().getById(taskId);
+      if (task && isTimerRunning(task.timeLog)) {
+        await this.update({
+          ...task,
+          timeLog: stopTimeEntry(task.timeLog, this.timestamp()),
         });
       }
     }
@@ -20,7 +20,12 @@ import {
 import type { TaskSyncSettings } from "../../types/settings";
 import { AppleRemindersDataSource } from "./sources/DataSource";
 import { taskSourceManager } from "../../core/TaskSourceManager";
-import { syncManager, type EntityDataProvider } from "../../core/SyncManager";
+import {
+  syncManager,
+  pickTaskProperties,
+  type EntityDataProvider,
+} from "../../core/SyncManager";
+import { AppleRemindersWriter } from "./services/AppleRemindersWriter";
 import * as osascript from "node-osascript";
 import {
   AppleRemindersPermission,
@@ -52,7 +57,7 @@ export interface AppleRemindersRefreshProgress {
 
 /**
  * EntityDataProvider for Apple Reminders extension
- * Handles reading Apple Reminders data for cross-source synchronization
+ * Handles reading/writing Apple Reminders data for cross-source synchronization
  */
 class AppleRemindersEntityDataProvider implements EntityDataProvider {
   extensionId = "apple-reminders";
@@ -100,17 +105,40 @@ class AppleRemindersEntityDataProvider implements EntityDataProvider {
     return null;
   }
 
-  async writeEntityData(entityId: string, _data: Partial<Task>): Promise<void> {
-    // Apple Reminders extension is read-only for now
-    // Future enhancement could support writing back to Apple Reminders
-    console.log(
-      `[AppleRemindersEntityDataProvider] Apple Reminders is read-only, ignoring write for entity ${entityId}`
-    );
+  async writeEntityData(entityId: string, data: Partial<Task>): Promise<void> {
+    const task = get(taskStore).tasks.find((t) => t.id === entityId);
+
+    if (!task || !task.source.keys["apple-reminders"]) {
+      console.log(
+        `[AppleRemindersEntityDataProvider] No reminder linked to entity ${entityId}, ignoring write`
+      );
+      return;
+    }
+
+    // Only push properties that have a direct mapping to reminders
+    const syncableData = pickTaskProperties(data, this.getSyncableProperties());
+
+    await this.extension.updateReminderFromTask(task, syncableData);
   }
 
   canHandle(entity: Task): boolean {
     return entity.source.extension === "apple-reminders";
   }
+
+  /**
+   * Apple Reminders only syncs properties that have direct mapping to reminders
+   * All other properties are Obsidian-specific and should not be overridden
+   */
+  getSyncableProperties(): Array<keyof Task> {
+    return [
+      "title", // Reminder name
+      "status", // Derived from reminder completion
+      "done", // Reminder completion
+      "description", // Reminder notes
+      "dueDate", // Reminder due date
+      "priority", // Reminder priority
+    ];
+  }
 }
 
 /**
@@ -1179,4 +1207,45 @@ export class AppleRemindersExtension implements Extension {
 
     return true;
   }
+
+  /**
+   * Push task changes back to the reminder the task was imported from
+   * @throws Error if the reminder could not be updated
+   */
+  async updateReminderFromTask(task: Task, data: Partial<Task>): Promise<void> {
+    try {
+      const writer = new AppleRemindersWriter(
+        (script) => this.executeAppleScript(script),
+        this.settings
+      );
+      const updatedReminder = await writer.writeTask(task, data);
+
+      if (!updatedReminder) {
+        return;
+      }
+
+      // Keep the reminder snapshot current so the next sync only sends new changes
+      const currentTask = get(taskStore).tasks.find((t) => t.id === task.id);
+      if (currentTask) {
+        taskStore.dispatch({
+          type: "UPDATE_TASK",
+          task: {
+            ...currentTask,
+            source: { ...currentTask.source, data: updatedReminder },
+          },
+        });
+      }
+
+      this.entityStore.update((tasks) =>
+        tasks.map((t) =>
+          t.source.keys["apple-reminders"] === updatedReminder.id
+            ? { ...t, source: { ...t.source, data: updatedReminder } }
+            : t
+        )
+      );
+    } catch (error) {
+      console.error(`🍎 Failed to update reminder for task ${task.id}:`, error);
+      throw error;
+    }
+  }
 }
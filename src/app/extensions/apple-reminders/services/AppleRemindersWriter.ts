@@ -0,0 +1,261 @@
+/**
+ * Apple Reminders Writer Service
+ * Builds AppleScript to push task changes back to the reminder a task was
+ * imported from. Script execution is injected so the script builders can be
+ * verified without macOS.
+ */
+
+import type { Task } from "../../../core/entities";
+import type { AppleReminder } from "../../../types/apple-reminders";
+import type { TaskSyncSettings } from "../../../types/settings";
+
+/**
+ * Executes an AppleScript and resolves with its result
+ * (AppleRemindersExtension.executeAppleScript in the plugin)
+ */
+export type AppleScriptExecutor = (script: string) => Promise<any>;
+
+/**
+ * Reminder properties that can be updated from a task.
+ * A null dueDate clears the due date of the reminder.
+ */
+export interface AppleReminderUpdate {
+  title?: string;
+  notes?: string;
+  completed?: boolean;
+  dueDate?: Date | null;
+  priority?: number;
+}
+
+/**
+ * Apple Reminders priority values, on the scale used when importing reminders:
+ * 0 = none, 1-3 = low, 4-6 = medium, 7-9 = high
+ */
+export const REMINDER_PRIORITY = {
+  none: 0,
+  low: 1,
+  medium: 5,
+  high: 9,
+} as const;
+
+export type ReminderPriorityLevel = "high" | "medium" | "low";
+
+/**
+ * Map an Apple Reminders priority value to its priority level
+ */
+export function reminderPriorityToLevel(
+  priority: number
+): ReminderPriorityLevel | null {
+  if (!priority || priority <= 0) {
+    return null;
+  }
+  if (priority >= 7) {
+    return "high";
+  }
+  if (priority >= 4) {
+    return "medium";
+  }
+  return "low";
+}
+
+/**
+ * Map a task priority name to an Apple Reminders priority value
+ * "Urgent" and "Critical" are treated as high, unknown names as no priority
+ */
+export function taskPriorityToReminderPriority(priority?: string): number {
+  switch ((priority || "").toLowerCase()) {
+    case "urgent":
+    case "critical":
+    case "high":
+      return REMINDER_PRIORITY.high;
+    case "medium":
+      return REMINDER_PRIORITY.medium;
+    case "low":
+      return REMINDER_PRIORITY.low;
+    default:
+      return REMINDER_PRIORITY.none;
+  }
+}
+
+/**
+ * Escape a value for use inside an AppleScript string literal
+ */
+export function escapeAppleScriptString(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+/**
+ * Build AppleScript statements assigning a date to a variable.
+ * Dates are built from components because date literals depend on the
+ * system locale.
+ */
+function buildDateStatements(variable: string, date: Date): string[] {
+  const secondsOfDay =
+    date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds();
+
+  return [
+    `set ${variable} to current date`,
+    // Reset the day first so that changing the month can't overflow
+    `set day of ${variable} to 1`,
+    `set year of ${variable} to ${date.getFullYear()}`,
+    `set month of ${variable} to ${date.getMonth() + 1}`,
+    `set day of ${variable} to ${date.getDate()}`,
+    `set time of ${variable} to ${secondsOfDay}`,
+  ];
+}
+
+/**
+ * Build the AppleScript updating a reminder
+ *
+ * @param reminderId - Reminder ID as returned by "properties of reminders"
+ * @param update - Reminder properties to change
+ * @param allDay - Whether the reminder uses an all-day due date
+ */
+export function buildUpdateReminderScript(
+  reminderId: string,
+  update: AppleReminderUpdate,
+  allDay = false
+): string {
+  const preamble: string[] = [];
+  const statements: string[] = [];
+  const dueDateProperty = allDay ? "allday due date" : "due date";
+
+  if (update.title !== undefined) {
+    statements.push(
+      `set name of theReminder to "${escapeAppleScriptString(update.title)}"`
+    );
+  }
+
+  if (update.notes !== undefined) {
+    statements.push(
+      `set body of theReminder to "${escapeAppleScriptString(update.notes)}"`
+    );
+  }
+
+  if (update.completed !== undefined) {
+    statements.push(`set completed of theReminder to ${update.completed}`);
+  }
+
+  if (update.dueDate === null) {
+    statements.push(`set ${dueDateProperty} of theReminder to missing value`);
+  } else if (update.dueDate !== undefined) {
+    preamble.push(...buildDateStatements("dueDateValue", update.dueDate));
+    statements.push(`set ${dueDateProperty} of theReminder to dueDateValue`);
+  }
+
+  if (update.priority !== undefined) {
+    statements.push(`set priority of theReminder to ${update.priority}`);
+  }
+
+  return [
+    ...preamble,
+    `tell application "Reminders"`,
+    `  set theReminder to reminder id "${escapeAppleScriptString(reminderId)}"`,
+    ...statements.map((statement) => `  ${statement}`),
+    `end tell`,
+  ].join("\n");
+}
+
+export class AppleRemindersWriter {
+  constructor(
+    private execute: AppleScriptExecutor,
+    private settings: TaskSyncSettings
+  ) {}
+
+  /**
+   * Push task data to the reminder linked through source.keys["apple-reminders"]
+   *
+   * The task's source.data holds the last known state of the reminder and is
+   * used to send only the properties that actually changed.
+   *
+   * @returns The updated reminder, or null if nothing was written
+   */
+  async writeTask(
+    task: Task,
+    data: Partial<Task>
+  ): Promise<AppleReminder | null> {
+    const reminderId = task.source.keys["apple-reminders"];
+    const reminder = task.source.data as AppleReminder | undefined;
+
+    if (!reminderId || !reminder) {
+      console.log(
+        `[AppleRemindersWriter] No reminder snapshot for task ${task.id}, skipping write`
+      );
+      return null;
+    }
+
+    const update = this.buildReminderUpdate(reminder, data);
+    if (!update) {
+      return null;
+    }
+
+    console.log(
+      `[AppleRemindersWriter] Updating reminder ${reminderId}:`,
+      update
+    );
+
+    await this.execute(
+      buildUpdateReminderScript(reminderId, update, reminder.allDay)
+    );
+
+    const updated: AppleReminder = { ...reminder };
+    if (update.title !== undefined) updated.title = update.title;
+    if (update.notes !== undefined) updated.notes = update.notes;
+    if (update.completed !== undefined) updated.completed = update.completed;
+    if (update.dueDate !== undefined) {
+      updated.dueDate = update.dueDate ?? undefined;
+    }
+    if (update.priority !== undefined) updated.priority = update.priority;
+
+    return updated;
+  }
+
+  /**
+   * Build the reminder update for the given task data
+   * @returns The changed reminder properties, or null if the reminder is up to date
+   */
+  buildReminderUpdate(
+    reminder: AppleReminder,
+    data: Partial<Task>
+  ): AppleReminderUpdate | null {
+    const settings = this.settings.integrations.appleReminders;
+    const update: AppleReminderUpdate = {};
+
+    if (data.title !== undefined && data.title !== reminder.title) {
+      update.title = data.title;
+    }
+
+    // Descriptions only map to notes when notes are imported as descriptions
+    if (
+      settings.importNotesAsDescription &&
+      data.description !== undefined &&
+      data.description !== (reminder.notes || "")
+    ) {
+      update.notes = data.description;
+    }
+
+    if (data.done !== undefined && data.done !== reminder.completed) {
+      update.completed = data.done;
+    }
+
+    if ("dueDate" in data) {
+      const current = reminder.dueDate ? new Date(reminder.dueDate) : null;
+      const next = data.dueDate ? new Date(data.dueDate) : null;
+      if (current?.getTime() !== next?.getTime()) {
+        update.dueDate = next;
+      }
+    }
+
+    if (settings.preservePriority && data.priority !== undefined) {
+      const priority = taskPriorityToReminderPriority(data.priority);
+      if (
+        reminderPriorityToLevel(priority) !==
+        reminderPriorityToLevel(reminder.priority)
+      ) {
+        update.priority = priority;
+      }
+    }
+
+    return Object.keys(update).length > 0 ? update : null;
+  }
+}
@@ -17,9 +17,26 @@ import { calendarOperations } from "./entities/Calendar";
 import type {
   Calendar,
   CalendarEvent,
+  CalendarEventCreateResult,
   CalendarEventFetchOptions,
 } from "../../types/calendar";
-import type { TaskSyncSettings } from "../../types/settings";
+import type {
+  AppleCalendarIntegrationSettings,
+  CalDAVCalendarIntegrationSettings,
+  GoogleCalendarIntegrationSettings,
+  TaskSyncSettings,
+} from "../../types/settings";
+import { Tasks } from "../../entities/Tasks";
+import { buildTaskEvent } from "../../utils/timeBlocking";
+
+/**
+ * Calendar service names by the provider in calendar metadata
+ */
+const EVENT_PROVIDER_SERVICES: Record<string, string> = {
+  google: "google-calendar",
+  apple: "apple-calendar",
+  caldav: "caldav-calendar",
+};
 
 export class CalendarExtension implements Extension {
   readonly id = "calendar";
@@ -428,6 +445,212 @@ export class CalendarExtension implements Extension {
     }
   }
 
+  /**
+   * Whether an event can be moved and resized from the Day View
+   * Events in CalDAV calendars and writable Google calendars can be edited.
+   */
+  canEditEvent(event: CalendarEvent): boolean {
+    const metadata = event.calendar.metadata;
+
+    if (event.allDay || !this.getEventService(event)) {
+      return false;
+    }
+
+    return (
+      metadata?.provider !== "google" ||
+      ["owner", "writer"].includes(metadata.accessRole)
+    );
+  }
+
+  /**
+   * Time-block a task by creating an event for it in the default scheduling
+   * calendar, or moving the event it already has
+   * The event links back to the task note and its ID is kept in the task's
+   * source keys. Failed updates of an existing event aren't retried as a new
+   * event, only events that are gone from the calendar are replaced.
+   */
+  async scheduleTask(
+    task: Task,
+    start: Date
+  ): Promise<CalendarEventCreateResult> {
+    const scheduling = this.getSchedulingService();
+
+    if (!scheduling) {
+      return {
+        success: false,
+        error:
+          "Task scheduling is not set up in any calendar's settings",
+      };
+    }
+
+    const { service, settings: schedulingSettings } = scheduling;
+    const notePath = task.source.keys.obsidian;
+    const eventData = buildTaskEvent(task, start, {
+      calendarId: schedulingSettings.defaultSchedulingCalendar,
+      durationMinutes: schedulingSettings.defaultEventDuration,
+      reminders: schedulingSettings.defaultReminders,
+      includeTaskDetails: schedulingSettings.includeTaskDetailsInEvent,
+      noteUrl: notePath
+        ? `obsidian://open?vault=${encodeURIComponent(
+            this.plugin.app.vault.getName()
+          )}&file=${encodeURIComponent(notePath)}`
+        : undefined,
+    });
+
+    const existingEventId = task.source.keys.calendar;
+
+    if (existingEventId) {
+      // The event stays in the service and calendar it was created in; tasks
+      // scheduled before these were recorded use the current ones
+      const ownerName = task.source.keys.calendarService ?? service.serviceName;
+      const owner = calendarServiceRegistry.getService(ownerName);
+
+      if (!owner?.isEnabled()) {
+        return {
+          success: false,
+          error: `The task's event is in ${ownerName}, which isn't enabled`,
+        };
+      }
+
+      const calendarId = task.source.keys.calendarId ?? eventData.calendarId;
+      const result = await owner.updateEvent(existingEventId, {
+        ...eventData,
+        calendarId,
+      });
+
+      // Only events that are gone from the calendar are created again, so
+      // failed updates and conflicts don't leave duplicates behind
+      if (!result.notFound) {
+        if (result.success) {
+          await this.recordTaskEvent(task, existingEventId, owner, calendarId);
+        }
+        return result;
+      }
+    }
+
+    const result = await service.createEvent(eventData);
+
+    if (result.success) {
+      await this.recordTaskEvent(
+        task,
+        result.externalEventId!,
+        service,
+        eventData.calendarId
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Keep the ID of a task's event in its source keys, along with the service
+   * and calendar the event is in
+   */
+  private async recordTaskEvent(
+    task: Task,
+    eventId: string,
+    service: CalendarService,
+    calendarId: string
+  ): Promise<void> {
+    const keys = {
+      ...task.source.keys,
+      calendar: eventId,
+      calendarService: service.serviceName,
+      calendarId,
+    };
+
+    if (
+      keys.calendar === task.source.keys.calendar &&
+      keys.calendarService === task.source.keys.calendarService &&
+      keys.calendarId === task.source.keys.calendarId
+    ) {
+      return;
+    }
+
+    await new Tasks.Operations(this.settings).update({
+      ...task,
+      source: { ...task.source, keys },
+    });
+  }
+
+  /**
+   * Move or resize an event
+   */
+  async moveEvent(
+    event: CalendarEvent,
+    startDate: Date,
+    endDate: Date
+  ): Promise<CalendarEventCreateResult> {
+    const service = this.getEventService(event);
+
+    if (!service || !this.canEditEvent(event)) {
+      return {
+        success: false,
+        error: `Events in ${event.calendar.name} can't be edited`,
+      };
+    }
+
+    return service.updateEvent(event.id, {
+      calendarId: event.calendar.id,
+      startDate,
+      endDate,
+      allDay: false,
+    });
+  }
+
+  /**
+   * Get the enabled service an event was loaded from
+   */
+  private getEventService(event: CalendarEvent): CalendarService | undefined {
+    const serviceName =
+      EVENT_PROVIDER_SERVICES[event.calendar.metadata?.provider];
+    const service = serviceName
+      ? calendarServiceRegistry.getService(serviceName)
+      : undefined;
+    return service?.isEnabled() ? service : undefined;
+  }
+
+  /**
+   * Get the first enabled service that tasks can be scheduled in
+   */
+  private getSchedulingService():
+    | {
+        service: CalendarService;
+        settings:
+          | AppleCalendarIntegrationSettings
+          | CalDAVCalendarIntegrationSettings
+          | GoogleCalendarIntegrationSettings;
+      }
+    | undefined {
+    const candidates = [
+      {
+        serviceName: "google-calendar",
+        settings: this.settings.integrations.googleCalendar,
+      },
+      {
+        serviceName: "apple-calendar",
+        settings: this.settings.integrations.appleCalendar,
+      },
+      {
+        serviceName: "caldav-calendar",
+        settings: this.settings.integrations.caldavCalendar,
+      },
+    ];
+
+    for (const { serviceName, settings } of candidates) {
+      const service = calendarServiceRegistry.getService(serviceName);
+      if (
+        service?.isEnabled() &&
+        settings.schedulingEnabled &&
+        settings.defaultSchedulingCalendar
+      ) {
+        return { service, settings };
+      }
+    }
+
+    return undefined;
+  }
+
   // Event handler methods required by Extension interface
   async onEntityCreated(_event: any): Promise<void> {
     // Calendar extension doesn't respond to entity creation events
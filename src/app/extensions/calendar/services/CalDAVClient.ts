@@ -0,0 +1,382 @@
+/**
+ * CalDAV Client
+ * Minimal CalDAV client for reading and writing VEVENT resources.
+ * Writes are conditional on the resource's ETag, so changes made on the
+ * server since an event was read are reported as conflicts instead of being
+ * overwritten.
+ *
+ * The HTTP transport is injected so the plugin can use Obsidian's requestUrl
+ * while tests talk to a local CalDAV stand-in server.
+ */
+
+import ICAL from "ical.js";
+import type { CalendarEventCreateData } from "../../../types/calendar";
+
+const DAV_NAMESPACE = "DAV:";
+const CALDAV_NAMESPACE = "urn:ietf:params:xml:ns:caldav";
+
+/**
+ * Performs a request and returns the raw response
+ */
+export type CalDAVTransport = (request: {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}) => Promise<{
+  status: number;
+  text: string;
+  headers: Record<string, string>;
+}>;
+
+export interface CalDAVClientOptions {
+  baseUrl: string;
+  username: string;
+  password: string;
+  transport: CalDAVTransport;
+}
+
+/**
+ * A calendar object resource (an .ics file) on the server
+ */
+export interface CalDAVResource {
+  href: string;
+  etag?: string;
+  data: string;
+}
+
+/**
+ * Error returned by the CalDAV server
+ */
+export class CalDAVError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "CalDAVError";
+  }
+}
+
+/**
+ * The resource was changed or removed on the server since it was read
+ */
+export class CalDAVConflictError extends Error {
+  constructor(public href: string) {
+    super(`${href} was changed on the server`);
+    this.name = "CalDAVConflictError";
+  }
+}
+
+export class CalDAVClient {
+  private baseUrl: string;
+  private authorization: string;
+  private transport: CalDAVTransport;
+
+  constructor(options: CalDAVClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/?$/, "/");
+    this.authorization = `Basic ${btoa(
+      `${options.username}:${options.password}`
+    )}`;
+    this.transport = options.transport;
+  }
+
+  /**
+   * Make a request, throwing CalDAVError for error responses
+   * @param path URL, absolute path on the server or path relative to the
+   *   base URL
+   */
+  async request(
+    path: string,
+    method: string = "GET",
+    body?: string,
+    headers: Record<string, string> = {}
+  ): Promise<{
+    status: number;
+    text: string;
+    headers: Record<string, string>;
+  }> {
+    const response = await this.transport({
+      url: this.resolveUrl(path),
+      method,
+      headers: {
+        Authorization: this.authorization,
+        "Content-Type": "application/xml; charset=utf-8",
+        "User-Agent": "Obsidian Task Sync Plugin/1.0",
+        ...headers,
+      },
+      body,
+    });
+
+    if (response.status >= 400) {
+      throw new CalDAVError(
+        `CalDAV request failed: ${response.status} ${response.text}`,
+        response.status
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Get an event resource, or null if it doesn't exist
+   */
+  async getEvent(href: string): Promise<CalDAVResource | null> {
+    try {
+      const response = await this.request(href, "GET", undefined, {
+        Accept: "text/calendar",
+      });
+      return {
+        href,
+        etag: getHeader(response.headers, "etag"),
+        data: response.text,
+      };
+    } catch (error) {
+      if (error instanceof CalDAVError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find the event with the given UID in a calendar collection
+   * Servers name resources as they like, so the UID is matched with a
+   * calendar-query REPORT instead of guessing the resource's href.
+   * @returns The event resource, or null if the calendar has no such event
+   */
+  async findEventByUid(
+    calendarHref: string,
+    uid: string
+  ): Promise<CalDAVResource | null> {
+    const response = await this.request(
+      calendarHref,
+      "REPORT",
+      buildUidQuery(uid),
+      { Depth: "1" }
+    );
+
+    const doc = new DOMParser().parseFromString(response.text, "text/xml");
+    const text = (element: Element, namespace: string, name: string) =>
+      element.getElementsByTagNameNS(namespace, name)[0]?.textContent?.trim();
+
+    for (const element of Array.from(
+      doc.getElementsByTagNameNS(DAV_NAMESPACE, "response")
+    )) {
+      const href = text(element, DAV_NAMESPACE, "href");
+      const data = text(element, CALDAV_NAMESPACE, "calendar-data");
+      if (href && data) {
+        return {
+          href,
+          etag: text(element, DAV_NAMESPACE, "getetag"),
+          data,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Create or replace an event resource
+   * @param etag ETag of the version being replaced, or null to only create
+   *   the resource if it doesn't exist yet
+   * @returns The new ETag, if the server returned one
+   */
+  async putEvent(
+    href: string,
+    data: string,
+    etag: string | null
+  ): Promise<string | undefined> {
+    const condition: Record<string, string> =
+      etag === null ? { "If-None-Match": "*" } : { "If-Match": etag };
+
+    try {
+      const response = await this.request(href, "PUT", data, {
+        "Content-Type": "text/calendar; charset=utf-8",
+        ...condition,
+      });
+      return getHeader(response.headers, "etag");
+    } catch (error) {
+      if (error instanceof CalDAVError && error.status === 412) {
+        throw new CalDAVConflictError(href);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an event resource
+   * @param etag ETag of the version being deleted, if known
+   * @returns Whether the resource existed
+   */
+  async deleteEvent(href: string, etag?: string): Promise<boolean> {
+    try {
+      await this.request(
+        href,
+        "DELETE",
+        undefined,
+        etag ? { "If-Match": etag } : {}
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof CalDAVError && error.status === 404) {
+        return false;
+      }
+      if (error instanceof CalDAVError && error.status === 412) {
+        throw new CalDAVConflictError(href);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve hrefs the way the server does: absolute paths are relative to
+   * the server's origin and other paths to the base URL
+   */
+  private resolveUrl(path: string): string {
+    return new URL(path, this.baseUrl).toString();
+  }
+}
+
+/**
+ * Get the href of an event resource in a calendar collection
+ */
+export function getEventHref(calendarHref: string, uid: string): string {
+  return `${calendarHref.replace(/\/$/, "")}/${encodeURIComponent(uid)}.ics`;
+}
+
+/**
+ * Build a calendar-query REPORT body matching events by UID
+ */
+function buildUidQuery(uid: string): string {
+  const escapedUid = uid
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+  return `<?xml version="1.0" encoding="utf-8" ?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <d:getetag />
+    <c:calendar-data />
+  </d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:prop-filter name="UID">
+          <c:text-match collation="i;octet">${escapedUid}</c:text-match>
+        </c:prop-filter>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+}
+
+/**
+ * Build the iCalendar data of a new event
+ */
+export function buildEventICal(
+  eventData: CalendarEventCreateData,
+  uid: string,
+  now: Date = new Date()
+): string {
+  const calendar = new ICAL.Component(["vcalendar", [], []]);
+  calendar.updatePropertyWithValue("version", "2.0");
+  calendar.updatePropertyWithValue("prodid", "-//Obsidian Task Sync//EN");
+  calendar.updatePropertyWithValue("calscale", "GREGORIAN");
+
+  const vevent = new ICAL.Component("vevent");
+  const timestamp = ICAL.Time.fromJSDate(now, true);
+  vevent.updatePropertyWithValue("uid", uid);
+  vevent.updatePropertyWithValue("dtstamp", timestamp);
+  vevent.updatePropertyWithValue("created", timestamp);
+  vevent.updatePropertyWithValue("last-modified", timestamp);
+  calendar.addSubcomponent(vevent);
+
+  applyEventChanges(new ICAL.Event(vevent), eventData);
+
+  for (const minutes of eventData.reminders ?? []) {
+    const alarm = new ICAL.Component("valarm");
+    alarm.updatePropertyWithValue("action", "DISPLAY");
+    alarm.updatePropertyWithValue(
+      "trigger",
+      ICAL.Duration.fromSeconds(-minutes * 60)
+    );
+    alarm.updatePropertyWithValue("description", eventData.title);
+    vevent.addSubcomponent(alarm);
+  }
+
+  return calendar.toString();
+}
+
+/**
+ * Apply changes to the iCalendar data of an existing event
+ * Properties that aren't changed, like attendees or recurrence rules, are kept.
+ */
+export function updateEventICal(
+  data: string,
+  changes: Partial<CalendarEventCreateData>,
+  now: Date = new Date()
+): string {
+  const calendar = new ICAL.Component(ICAL.parse(data));
+  const vevent = calendar.getFirstSubcomponent("vevent");
+  if (!vevent) {
+    throw new Error("Calendar data has no event");
+  }
+
+  applyEventChanges(new ICAL.Event(vevent), changes);
+
+  const timestamp = ICAL.Time.fromJSDate(now, true);
+  const sequence = Number(vevent.getFirstPropertyValue("sequence")) || 0;
+  vevent.updatePropertyWithValue("dtstamp", timestamp);
+  vevent.updatePropertyWithValue("last-modified", timestamp);
+  vevent.updatePropertyWithValue("sequence", sequence + 1);
+
+  return calendar.toString();
+}
+
+function applyEventChanges(
+  event: ICAL.Event,
+  changes: Partial<CalendarEventCreateData>
+): void {
+  if (changes.title !== undefined) {
+    event.summary = changes.title;
+  }
+  if (changes.description !== undefined) {
+    event.description = changes.description;
+  }
+  if (changes.location !== undefined) {
+    event.location = changes.location;
+  }
+
+  const allDay = changes.allDay ?? event.startDate?.isDate ?? false;
+  if (changes.startDate) {
+    event.startDate = toICalTime(changes.startDate, allDay);
+  }
+  if (changes.endDate) {
+    event.endDate = toICalTime(changes.endDate, allDay);
+  }
+}
+
+function toICalTime(date: Date, allDay: boolean): ICAL.Time {
+  if (allDay) {
+    return ICAL.Time.fromData({
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      isDate: true,
+    });
+  }
+  return ICAL.Time.fromJSDate(date, true);
+}
+
+function getHeader(
+  headers: Record<string, string>,
+  name: string
+): string | undefined {
+  const key = Object.keys(headers).find(
+    (header) => header.toLowerCase() === name
+  );
+  return key ? headers[key] : undefined;
+}
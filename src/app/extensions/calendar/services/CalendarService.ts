@@ -4,7 +4,13 @@
  * Enables support for multiple calendar providers (Apple Calendar, Google Calendar, Outlook, etc.)
  */
 
-import type { Calendar, CalendarEvent, CalendarEventFetchOptions } from "../../../types/calendar";
+import type {
+  Calendar,
+  CalendarEvent,
+  CalendarEventCreateData,
+  CalendarEventCreateResult,
+  CalendarEventFetchOptions,
+} from "../../../types/calendar";
 
 /**
  * Abstract interface that all calendar service implementations must follow
@@ -40,6 +46,24 @@ export interface CalendarService {
   /** Get events for today from specified calendars */
   getTodayEvents(calendarIds?: string[]): Promise<CalendarEvent[]>;
 
+  /** Create a new event in the calendar given by eventData.calendarId */
+  createEvent(
+    eventData: CalendarEventCreateData
+  ): Promise<CalendarEventCreateResult>;
+
+  /**
+   * Update an existing event
+   * Only the given fields are changed. Services that can detect concurrent
+   * changes report them with `conflict: true` instead of overwriting them.
+   */
+  updateEvent(
+    eventId: string,
+    eventData: Partial<CalendarEventCreateData>
+  ): Promise<CalendarEventCreateResult>;
+
+  /** Delete an event, returning whether it was deleted */
+  deleteEvent(eventId: string): Promise<boolean>;
+
   /** Check if the service has necessary permissions to access calendar data */
   checkPermissions(): Promise<boolean>;
 
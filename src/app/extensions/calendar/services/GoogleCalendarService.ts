@@ -94,6 +94,19 @@ interface GoogleCalendarApiRequestBody {
   };
 }
 
+/**
+ * Error response of the Google Calendar API
+ */
+export class GoogleCalendarApiError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "GoogleCalendarApiError";
+  }
+}
+
 export class GoogleCalendarService implements CalendarService {
   readonly serviceName = "google-calendar";
 
@@ -295,14 +308,18 @@ export class GoogleCalendarService implements CalendarService {
 
       if (response.status >= 400) {
         console.error(`[GoogleCalendar] API Error: ${response.status} for ${method} ${endpoint}`);
-        throw new Error(
-          `Google Calendar API request failed: ${response.status} ${response.text}`
+        throw new GoogleCalendarApiError(
+          `Google Calendar API request failed: ${response.status} ${response.text}`,
+          response.status
         );
       }
 
       console.log(`[GoogleCalendar] API Success: ${method} ${endpoint}`);
       return response.json;
     } catch (error: any) {
+      if (error instanceof GoogleCalendarApiError) {
+        throw error;
+      }
       console.error(`[GoogleCalendar] API request error for ${method} ${endpoint}:`, error);
       throw new Error(`Google Calendar API request failed: ${error.message}`);
     }
@@ -878,6 +895,10 @@ export class GoogleCalendarService implements CalendarService {
     } catch (error: any) {
       return {
         success: false,
+        // Deleted events are gone (410) once they're purged (404)
+        notFound:
+          error instanceof GoogleCalendarApiError &&
+          [404, 410].includes(error.status),
         error: `Failed to update event: ${error.message}`,
       };
     }
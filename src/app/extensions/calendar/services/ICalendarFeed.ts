@@ -0,0 +1,155 @@
+/**
+ * iCalendar Feed Parsing
+ * Turns the VEVENTs of an .ics feed into calendar events within a date range,
+ * expanding recurring events (RRULE, RDATE and EXDATE) and applying modified
+ * occurrences (RECURRENCE-ID).
+ */
+
+import ICAL from "ical.js";
+import type { Calendar, CalendarEvent } from "../../../types/calendar";
+
+/** Upper bound on occurrences within the range per recurring event */
+const MAX_OCCURRENCES = 5000;
+
+/**
+ * Get the events of a feed overlapping the given range
+ */
+export function parseICalendarEvents(
+  ics: string,
+  calendar: Calendar,
+  rangeStart: Date,
+  rangeEnd: Date
+): CalendarEvent[] {
+  const root = new ICAL.Component(ICAL.parse(ics));
+
+  // Resolve TZIDs against the time zones defined in the feed
+  for (const vtimezone of root.getAllSubcomponents("vtimezone")) {
+    const timezone = new ICAL.Timezone(vtimezone);
+    if (!ICAL.TimezoneService.has(timezone.tzid)) {
+      ICAL.TimezoneService.register(vtimezone);
+    }
+  }
+
+  const masters = new Map<string, ICAL.Event>();
+  const exceptions: ICAL.Event[] = [];
+
+  for (const vevent of root.getAllSubcomponents("vevent")) {
+    const event = new ICAL.Event(vevent);
+    if (event.isRecurrenceException()) {
+      exceptions.push(event);
+    } else {
+      masters.set(event.uid, event);
+    }
+  }
+
+  // Recurrence IDs of modified occurrences, by UID
+  const modified = new Map<string, Set<string>>();
+
+  for (const exception of exceptions) {
+    const master = masters.get(exception.uid);
+    if (master) {
+      master.relateException(exception);
+      const recurrenceIds = modified.get(exception.uid) ?? new Set<string>();
+      recurrenceIds.add(exception.recurrenceId.toString());
+      modified.set(exception.uid, recurrenceIds);
+    } else {
+      // A modified occurrence without its series is a single event
+      masters.set(
+        `${exception.uid}:${exception.recurrenceId.toString()}`,
+        exception
+      );
+    }
+  }
+
+  const events: CalendarEvent[] = [];
+
+  for (const event of masters.values()) {
+    if (!event.startDate) continue;
+
+    if (!event.isRecurring()) {
+      const occurrence = toCalendarEvent(
+        event,
+        event.uid,
+        event.startDate,
+        event.endDate ?? event.startDate,
+        calendar
+      );
+      if (overlaps(occurrence, rangeStart, rangeEnd)) {
+        events.push(occurrence);
+      }
+      continue;
+    }
+
+    const iterator = event.iterator();
+    const duration = event.duration.toSeconds() * 1000;
+    const recurrenceIds = modified.get(event.uid);
+    let next: ICAL.Time | null;
+    let count = 0;
+
+    while (count < MAX_OCCURRENCES && (next = iterator.next())) {
+      const start = next.toJSDate();
+      if (start > rangeEnd) break;
+
+      // Occurrences ending before the range aren't counted, so series that
+      // started long ago still reach it; modified ones may have moved into it
+      if (
+        start.getTime() + duration < rangeStart.getTime() &&
+        !recurrenceIds?.has(next.toString())
+      ) {
+        continue;
+      }
+      count++;
+
+      const details = event.getOccurrenceDetails(next);
+      const occurrence = toCalendarEvent(
+        details.item,
+        `${event.uid}:${details.recurrenceId.toString()}`,
+        details.startDate,
+        details.endDate,
+        calendar
+      );
+      if (overlaps(occurrence, rangeStart, rangeEnd)) {
+        events.push(occurrence);
+      }
+    }
+  }
+
+  return events
+    .filter((event) => event.metadata?.status !== "cancelled")
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+}
+
+function toCalendarEvent(
+  event: ICAL.Event,
+  id: string,
+  start: ICAL.Time,
+  end: ICAL.Time,
+  calendar: Calendar
+): CalendarEvent {
+  const status = event.component.getFirstPropertyValue("status");
+  const url = event.component.getFirstPropertyValue("url");
+
+  return {
+    id,
+    title: event.summary || "Untitled Event",
+    description: event.description || "",
+    location: event.location || "",
+    startDate: start.toJSDate(),
+    endDate: end.toJSDate(),
+    allDay: start.isDate,
+    calendar,
+    url: typeof url === "string" ? url : undefined,
+    metadata: {
+      uid: event.uid,
+      status: typeof status === "string" ? status.toLowerCase() : undefined,
+    },
+  };
+}
+
+function overlaps(event: CalendarEvent, start: Date, end: Date): boolean {
+  // Events without a duration still count when they start within the range
+  return (
+    event.startDate <= end &&
+    (event.endDate > start || event.startDate.getTime() >= start.getTime())
+  );
+}
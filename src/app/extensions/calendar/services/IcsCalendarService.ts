@@ -0,0 +1,232 @@
+/**
+ * ICS Calendar Service
+ * Read-only calendars from iCalendar (.ics) subscription URLs
+ * Implements the CalendarService interface for the new architecture
+ */
+
+import { requestUrl } from "obsidian";
+import type {
+  Calendar,
+  CalendarEvent,
+  CalendarEventCreateData,
+  CalendarEventCreateResult,
+  CalendarEventFetchOptions,
+} from "../../../types/calendar";
+import type {
+  IcsCalendarSubscription,
+  TaskSyncSettings,
+} from "../../../types/settings";
+import { CalendarService } from "./CalendarService";
+import { parseICalendarEvents } from "./ICalendarFeed";
+
+const READ_ONLY_ERROR = "ICS subscriptions are read-only";
+
+export class IcsCalendarService implements CalendarService {
+  readonly serviceName = "ics-calendar";
+
+  private settings: TaskSyncSettings;
+
+  // Fetched feeds by URL
+  private feeds: Map<string, { ics: string; fetchedAt: number }> = new Map();
+
+  // Track pending requests to prevent duplicate concurrent fetches
+  private pendingFeedRequests: Map<string, Promise<string>> = new Map();
+
+  constructor(settings: TaskSyncSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Update settings reference
+   */
+  updateSettings(newSettings: TaskSyncSettings): void {
+    this.settings = newSettings;
+  }
+
+  /**
+   * Check if ICS subscriptions are enabled
+   */
+  isEnabled(): boolean {
+    return this.settings.integrations.icsCalendar?.enabled ?? false;
+  }
+
+  /**
+   * ICS feeds are plain HTTP, so every platform is supported
+   */
+  isPlatformSupported(): boolean {
+    return true;
+  }
+
+  /**
+   * Get a calendar for each subscription
+   */
+  async getCalendars(): Promise<Calendar[]> {
+    return this.getSubscriptions().map((subscription) =>
+      this.toCalendar(subscription)
+    );
+  }
+
+  /**
+   * Get events from the specified subscriptions within a date range
+   * Feeds that fail to load are skipped so the others still show up.
+   */
+  async getEvents(
+    calendarIds: string[],
+    startDate: Date,
+    endDate: Date,
+    _options?: CalendarEventFetchOptions
+  ): Promise<CalendarEvent[]> {
+    const subscriptions = this.getSubscriptions().filter(
+      (subscription) =>
+        calendarIds.length === 0 ||
+        calendarIds.includes(subscription.id) ||
+        calendarIds.includes(subscription.name)
+    );
+
+    const events: CalendarEvent[] = [];
+
+    for (const subscription of subscriptions) {
+      try {
+        const ics = await this.fetchFeed(subscription.url);
+        events.push(
+          ...parseICalendarEvents(
+            ics,
+            this.toCalendar(subscription),
+            startDate,
+            endDate
+          )
+        );
+      } catch (error: any) {
+        console.error(
+          `[ICS] Failed to load ${subscription.name}: ${error.message}`
+        );
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Get events for today
+   */
+  async getTodayEvents(calendarIds?: string[]): Promise<CalendarEvent[]> {
+    const today = new Date();
+    const startOfDay = new Date(
+      today.getFullYear(),
+      today.getMonth(),
+      today.getDate()
+    );
+    const endOfDay = new Date(
+      today.getFullYear(),
+      today.getMonth(),
+      today.getDate(),
+      23,
+      59,
+      59
+    );
+
+    return this.getEvents(calendarIds || [], startOfDay, endOfDay);
+  }
+
+  async createEvent(
+    _eventData: CalendarEventCreateData
+  ): Promise<CalendarEventCreateResult> {
+    return { success: false, error: READ_ONLY_ERROR };
+  }
+
+  async updateEvent(
+    _eventId: string,
+    _eventData: Partial<CalendarEventCreateData>
+  ): Promise<CalendarEventCreateResult> {
+    return { success: false, error: READ_ONLY_ERROR };
+  }
+
+  async deleteEvent(_eventId: string): Promise<boolean> {
+    return false;
+  }
+
+  /**
+   * Subscriptions need no permissions
+   */
+  async checkPermissions(): Promise<boolean> {
+    return true;
+  }
+
+  async requestPermissions(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Forget fetched feeds so they're fetched again
+   */
+  async clearCache(): Promise<void> {
+    this.feeds.clear();
+    this.pendingFeedRequests.clear();
+  }
+
+  dispose(): void {
+    this.feeds.clear();
+  }
+
+  /**
+   * Get a feed, fetching it again once the refresh interval has passed
+   */
+  private async fetchFeed(url: string): Promise<string> {
+    const refreshInterval =
+      this.settings.integrations.icsCalendar.refreshInterval * 60 * 1000;
+    const feed = this.feeds.get(url);
+
+    if (feed && Date.now() - feed.fetchedAt < refreshInterval) {
+      return feed.ics;
+    }
+
+    const pendingRequest = this.pendingFeedRequests.get(url);
+    if (pendingRequest !== undefined) {
+      return pendingRequest;
+    }
+
+    const requestPromise = (async () => {
+      try {
+        const response = await requestUrl({
+          url: url.replace(/^webcal:\/\//i, "https://"),
+          method: "GET",
+          headers: { Accept: "text/calendar" },
+          throw: false,
+        });
+
+        if (response.status >= 400) {
+          throw new Error(`ICS request failed: ${response.status}`);
+        }
+
+        this.feeds.set(url, { ics: response.text, fetchedAt: Date.now() });
+        return response.text;
+      } finally {
+        this.pendingFeedRequests.delete(url);
+      }
+    })();
+
+    this.pendingFeedRequests.set(url, requestPromise);
+
+    return requestPromise;
+  }
+
+  private getSubscriptions(): IcsCalendarSubscription[] {
+    return (this.settings.integrations.icsCalendar?.subscriptions ?? []).filter(
+      (subscription) => subscription.url
+    );
+  }
+
+  private toCalendar(subscription: IcsCalendarSubscription): Calendar {
+    return {
+      id: subscription.id,
+      name: subscription.name,
+      color: subscription.color,
+      visible: true,
+      provider: "ICS Subscriptions",
+      metadata: {
+        url: subscription.url,
+        provider: "ics",
+      },
+    };
+  }
+}
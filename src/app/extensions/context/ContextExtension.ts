@@ -240,6 +240,10 @@ export class ContextExtension implements Extension {
     const enrichedContext: FileContext = {
       ...baseContext,
       entity,
+      taskDefaults: this.contextService.getTaskDefaults({
+        ...baseContext,
+        entity,
+      }),
     };
 
     console.log("ContextExtension - Updating context:", {
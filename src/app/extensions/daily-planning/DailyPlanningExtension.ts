@@ -3,7 +3,7 @@
  * Manages Schedule entities and provides daily planning wizard functionality
  */
 
-import { TFile } from "obsidian";
+import { TFile, type EventRef } from "obsidian";
 import {
   Extension,
   extensionRegistry,
@@ -12,7 +12,12 @@ import {
 } from "../../core/extension";
 import { eventBus, DomainEvent } from "../../core/events";
 import { writable, get, readable, type Readable } from "svelte/store";
-import type { Task, Schedule, CalendarEvent } from "../../core/entities";
+import type {
+  Task,
+  Schedule,
+  CalendarEvent,
+  ScheduleTimeBlock,
+} from "../../core/entities";
 import { ScheduleQueries, ScheduleOperations } from "../../entities/Schedules";
 import { Tasks } from "../../entities/Tasks";
 import { scheduleStore } from "../../stores/scheduleStore";
@@ -32,6 +37,12 @@ import {
   getTodayTasksGrouped,
 } from "../../utils/dateFiltering";
 import { getDailyNotePath } from "../../utils/dailyNoteDiscovery";
+import { filterRecurringTasksDueOn } from "../../utils/recurrence";
+import { isBlocked } from "../../utils/taskDependencies";
+import {
+  compareTrackedTime,
+  type TimeComparison,
+} from "../../utils/timeTracking";
 import { InlineTaskParser } from "../obsidian/services/InlineTaskParser";
 import { InlineTaskEditor } from "../obsidian/services/InlineTaskEditor";
 import { ObsidianHost } from "../../hosts/ObsidianHost";
@@ -65,6 +76,7 @@ export class DailyPlanningExtension implements Extension {
   // Inline task parser for extracting task links from notes
   private inlineTaskParser: InlineTaskParser;
   private inlineTaskEditor: InlineTaskEditor;
+  private dailyNoteEventRef?: EventRef;
 
   // Note: Planning state is now managed by contextStore
 
@@ -165,6 +177,11 @@ export class DailyPlanningExtension implements Extension {
     // Persist any pending schedule data
     await this.persistSchedules();
 
+    if (this.dailyNoteEventRef) {
+      this.host.plugin.app.metadataCache.offref(this.dailyNoteEventRef);
+      this.dailyNoteEventRef = undefined;
+    }
+
     eventBus.trigger({
       type: "extension.unregistered",
       extension: this.id,
@@ -336,19 +353,21 @@ export class DailyPlanningExtension implements Extension {
 
   /**
    * Sync schedule with Daily Note
-   * Updates the schedule to match what's actually in the Daily Note
+   * Updates the schedule to match what's actually in the Daily Note,
+   * including the order of its tasks and their time boxes
    */
   async syncScheduleWithDailyNote(): Promise<void> {
     try {
       // Get tasks from Daily Note (source of truth)
-      const dailyNoteTasks = await this.getTasksFromTodayDailyNote();
+      const { tasks, timeBlocks } = await this.getScheduleFromTodayDailyNote();
 
       // Get today's schedule
       const todaySchedule = await this.ensureTodayScheduleExists();
 
       // Update schedule to match Daily Note
       await this.schedules.update(todaySchedule.id, {
-        tasks: dailyNoteTasks,
+        tasks,
+        timeBlocks,
       });
     } catch (error) {
       console.error("Error syncing schedule with Daily Note:", error);
@@ -425,6 +444,19 @@ export class DailyPlanningExtension implements Extension {
     return getYesterdayTasksGrouped([...allTasks]);
   }
 
+  /**
+   * Compare yesterday's tracked time with the calendar blocks planned for it
+   */
+  async getYesterdayTimeComparison(): Promise<TimeComparison[]> {
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+
+    const allTasks = await new Tasks.Queries().getAll();
+    const events = await this.getEventsForDate(yesterday);
+
+    return compareTrackedTime(allTasks, events, yesterday);
+  }
+
   /**
    * Get today's tasks grouped by completion status
    * This reconciles tasks with doDate=today against the Daily Note
@@ -446,42 +478,62 @@ export class DailyPlanningExtension implements Extension {
    * This is the source of truth for what's scheduled
    */
   async getTasksFromTodayDailyNote(): Promise<Task[]> {
+    const { tasks } = await this.getScheduleFromTodayDailyNote();
+    return tasks;
+  }
+
+  /**
+   * Get the tasks linked in today's Daily Note in note order, along with
+   * their time boxes
+   */
+  async getScheduleFromTodayDailyNote(): Promise<{
+    tasks: Task[];
+    timeBlocks: ScheduleTimeBlock[];
+  }> {
     try {
-      const today = new Date();
-      const dailyNotePath = getDailyNotePath(
-        this.host.plugin.app,
-        today,
-        this.settings.dailyNotesFolder
+      const dailyNoteFile = this.host.plugin.app.vault.getAbstractFileByPath(
+        this.getTodayDailyNotePath()
       );
 
-      const dailyNoteFile =
-        this.host.plugin.app.vault.getAbstractFileByPath(dailyNotePath);
-
       if (!dailyNoteFile || !(dailyNoteFile instanceof TFile)) {
-        return [];
+        return { tasks: [], timeBlocks: [] };
       }
 
-      // Parse the Daily Note to get task file paths
-      const taskFilePaths = await this.inlineTaskParser.getTaskFilePaths(
+      // Parse the Daily Note to get linked tasks in note order
+      const inlineTasks = await this.inlineTaskParser.parseInlineTasks(
         dailyNoteFile
       );
 
-      // Get all tasks and filter to those in the Daily Note
       const taskQueries = new Tasks.Queries();
       const allTasks = await taskQueries.getAll();
 
-      return allTasks.filter((task) =>
-        taskFilePaths.includes(task.source.keys.obsidian)
-      );
+      const tasks: Task[] = [];
+      const timeBlocks: ScheduleTimeBlock[] = [];
+
+      for (const inlineTask of inlineTasks) {
+        const task = allTasks.find(
+          (t) => t.source.keys.obsidian === inlineTask.filePath
+        );
+        if (!task || tasks.includes(task)) {
+          continue;
+        }
+
+        tasks.push(task);
+        if (inlineTask.timeBox) {
+          timeBlocks.push({ taskId: task.id, ...inlineTask.timeBox });
+        }
+      }
+
+      return { tasks, timeBlocks };
     } catch (error) {
       console.error("Error getting tasks from Daily Note:", error);
-      return [];
+      return { tasks: [], timeBlocks: [] };
     }
   }
 
   /**
-   * Get tasks that have doDate=today but are NOT in the Daily Note
-   * These are candidates for scheduling
+   * Get tasks that have doDate=today, or recur today, but are NOT in the Daily Note
+   * These are candidates for scheduling. Tasks blocked by pending tasks are left out.
    */
   async getSchedulingCandidates(): Promise<Task[]> {
     const taskQueries = new Tasks.Queries();
@@ -494,12 +546,22 @@ export class DailyPlanningExtension implements Extension {
       ...tasksWithTodayDoDate.notDone,
     ];
 
+    // Add pending recurring tasks with an occurrence today
+    const todayTaskIds = new Set(allTodayTasks.map((t) => t.id));
+    for (const task of filterRecurringTasksDueOn([...allTasks], new Date())) {
+      if (!todayTaskIds.has(task.id)) {
+        allTodayTasks.push(task);
+      }
+    }
+
     // Get tasks in Daily Note
     const dailyNoteTasks = await this.getTasksFromTodayDailyNote();
     const dailyNoteTaskIds = new Set(dailyNoteTasks.map((t) => t.id));
 
-    // Return tasks with doDate=today that are NOT in Daily Note
-    return allTodayTasks.filter((task) => !dailyNoteTaskIds.has(task.id));
+    // Return unblocked tasks with doDate=today that are NOT in Daily Note
+    return allTodayTasks.filter(
+      (task) => !dailyNoteTaskIds.has(task.id) && !isBlocked(task, allTasks)
+    );
   }
 
   /**
@@ -747,6 +809,27 @@ export class DailyPlanningExtension implements Extension {
     eventBus.on("tasks.created", (event) => void this.onEntityCreated(event));
     eventBus.on("tasks.updated", (event) => void this.onEntityUpdated(event));
     eventBus.on("tasks.deleted", (event) => void this.onEntityDeleted(event));
+
+    // Keep today's schedule in sync with edits made to the Daily Note
+    this.dailyNoteEventRef = this.host.plugin.app.metadataCache.on(
+      "changed",
+      (file: TFile) => {
+        if (
+          file.path === this.getTodayDailyNotePath() &&
+          scheduleStore.findScheduleByDate(new Date())
+        ) {
+          void this.syncScheduleWithDailyNote();
+        }
+      }
+    );
+  }
+
+  private getTodayDailyNotePath(): string {
+    return getDailyNotePath(
+      this.host.plugin.app,
+      new Date(),
+      this.settings.dailyNotesFolder
+    );
   }
 
   private getExtensionSettings(): DailyPlanningExtensionSettings {
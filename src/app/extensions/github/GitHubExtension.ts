@@ -33,8 +33,13 @@ import { GitHubOperations } from "./entities/GitHub";
 import type { TaskSyncSettings } from "../../types/settings";
 import { GitHubTaskSource } from "./sources/TaskSource";
 import { taskSourceManager } from "../../core/TaskSourceManager";
-import { syncManager, type EntityDataProvider } from "../../core/SyncManager";
+import {
+  syncManager,
+  pickTaskProperties,
+  type EntityDataProvider,
+} from "../../core/SyncManager";
 import { extractRepositoryFromGitHubUrl } from "./utils/GitHubUrlUtils";
+import { GitHubIssueWriter } from "./services/GitHubIssueWriter";
 
 /**
  * EntityDataProvider for GitHub extension
@@ -89,18 +94,30 @@ class GitHubEntityDataProvider implements EntityDataProvider {
     return null;
   }
 
-  async writeEntityData(entityId: string, _data: Partial<Task>): Promise<void> {
-    // GitHub extension doesn't write data back to GitHub
-    // It's a read-only source - GitHub API is the source of truth
-    console.log(
-      `[GitHubEntityDataProvider] GitHub is read-only, ignoring write for entity ${entityId}`
-    );
+  async writeEntityData(entityId: string, data: Partial<Task>): Promise<void> {
+    const task = get(taskStore).tasks.find((t) => t.id === entityId);
+
+    if (!task || !task.source.keys.github) {
+      console.log(
+        `[GitHubEntityDataProvider] No GitHub issue linked to entity ${entityId}, ignoring write`
+      );
+      return;
+    }
+
+    // Only push properties that have a direct mapping to GitHub issues
+    const syncableData = pickTaskProperties(data, this.getSyncableProperties());
+
+    await this.extension.updateIssueFromTask(task, syncableData);
   }
 
   canHandle(entity: Task): boolean {
     return entity.source.extension === "github";
   }
 
+  isWriteBackEnabled(entity: Task): boolean {
+    return this.extension.isWriteBackEnabled(entity);
+  }
+
   /**
    * GitHub only syncs specific properties that have direct mapping to GitHub issues
    * All other properties are Obsidian-specific and should not be overridden
@@ -1392,4 +1409,72 @@ export class GitHubExtension implements Extension {
       this.githubOperations.tasks.importPullRequest(item, repo)
     );
   }
+
+  /**
+   * Check if task changes are pushed back to the issue a task was imported from
+   * Two-way sync is enabled per repository
+   */
+  isWriteBackEnabled(task: Task): boolean {
+    const repository = extractRepositoryFromGitHubUrl(task.source.keys.github);
+    return (
+      repository !== null &&
+      (this.settings.integrations.github.writeBackRepositories || []).includes(
+        repository
+      )
+    );
+  }
+
+  /**
+   * Push task changes back to the GitHub issue the task was imported from
+   * Only writes to repositories where two-way sync has been enabled
+   * @throws Error if GitHub rejects the update
+   */
+  async updateIssueFromTask(task: Task, data: Partial<Task>): Promise<void> {
+    if (!this.octokit) {
+      console.log(
+        `[GitHubExtension] GitHub integration is not configured, skipping write for ${task.id}`
+      );
+      return;
+    }
+
+    try {
+      const writer = new GitHubIssueWriter(this.octokit, this.settings);
+      const updatedIssue = await writer.writeTask(task, data);
+
+      if (!updatedIssue) {
+        return;
+      }
+
+      // Keep the issue snapshot current so the next sync only sends new changes
+      const currentTask = get(taskStore).tasks.find((t) => t.id === task.id);
+      if (currentTask) {
+        taskStore.dispatch({
+          type: "UPDATE_TASK",
+          task: {
+            ...currentTask,
+            source: { ...currentTask.source, data: updatedIssue },
+          },
+        });
+      }
+
+      this.rawEntityStore.update((tasks) =>
+        tasks.map((t) =>
+          t.source.keys.github === updatedIssue.html_url
+            ? { ...t, source: { ...t.source, data: updatedIssue } }
+            : t
+        )
+      );
+
+      // Cached issue lists are stale now
+      if (this.issuesCache) {
+        await this.issuesCache.clear();
+      }
+    } catch (error) {
+      console.error(
+        `[GitHubExtension] Failed to update GitHub issue for task ${task.id}:`,
+        error
+      );
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,219 @@
+/**
+ * GitHub Issue Writer Service
+ * Pushes task changes back to the GitHub issue a task was imported from
+ */
+
+import type { Task } from "../../../core/entities";
+import type { GitHubIssue } from "../../../cache/schemas/github";
+import type { TaskSyncSettings } from "../../../types/settings";
+import {
+  extractIssueNumberFromGitHubUrl,
+  extractRepositoryFromGitHubUrl,
+} from "../utils/GitHubUrlUtils";
+
+/**
+ * Fields of a GitHub issue that can be updated from a task
+ */
+export type GitHubIssueUpdate = {
+  title?: string;
+  body?: string;
+  state?: "open" | "closed";
+  labels?: string[];
+};
+
+/**
+ * Minimal subset of the Octokit client used for writing issues.
+ * Octokit satisfies this interface, which also allows a local stand-in in tests.
+ */
+export interface GitHubIssuesClient {
+  rest: {
+    issues: {
+      update(
+        params: GitHubIssueUpdate & {
+          owner: string;
+          repo: string;
+          issue_number: number;
+        }
+      ): Promise<{ data: unknown }>;
+    };
+  };
+}
+
+export class GitHubIssueWriter {
+  constructor(
+    private client: GitHubIssuesClient,
+    private settings: TaskSyncSettings
+  ) {}
+
+  /**
+   * Check if two-way sync has been enabled for a repository
+   * @param repository Repository in format 'owner/repo'
+   */
+  isWriteBackEnabled(repository: string): boolean {
+    const repositories =
+      this.settings.integrations.github.writeBackRepositories || [];
+    return repositories.includes(repository);
+  }
+
+  /**
+   * Push task data to the GitHub issue linked through source.keys.github
+   *
+   * The task's source.data holds the last known state of the issue and is used
+   * to send only the fields that actually changed.
+   *
+   * @returns The updated issue, or null if nothing was written
+   */
+  async writeTask(
+    task: Task,
+    data: Partial<Task>
+  ): Promise<GitHubIssue | null> {
+    const url = task.source.keys.github;
+    const repository = extractRepositoryFromGitHubUrl(url);
+    const issueNumber = extractIssueNumberFromGitHubUrl(url);
+
+    if (!repository || issueNumber === null) {
+      console.log(
+        `[GitHubIssueWriter] ${url} is not a GitHub issue URL, skipping write`
+      );
+      return null;
+    }
+
+    if (!this.isWriteBackEnabled(repository)) {
+      console.log(
+        `[GitHubIssueWriter] Two-way sync is disabled for ${repository}, skipping write`
+      );
+      return null;
+    }
+
+    const issue = task.source.data as GitHubIssue | undefined;
+    if (!issue) {
+      console.log(
+        `[GitHubIssueWriter] No issue snapshot for ${url}, skipping write`
+      );
+      return null;
+    }
+
+    const update = this.buildIssueUpdate(issue, data);
+    if (!update) {
+      return null;
+    }
+
+    const [owner, repo] = repository.split("/");
+
+    console.log(
+      `[GitHubIssueWriter] Updating ${repository}#${issueNumber}:`,
+      update
+    );
+
+    const response = await this.client.rest.issues.update({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      ...update,
+    });
+
+    return response.data as GitHubIssue;
+  }
+
+  /**
+   * Build the issue update for the given task data
+   * @returns The changed issue fields, or null if the issue is up to date
+   */
+  buildIssueUpdate(
+    issue: GitHubIssue,
+    data: Partial<Task>
+  ): GitHubIssueUpdate | null {
+    const update: GitHubIssueUpdate = {};
+
+    if (data.title !== undefined && data.title !== issue.title) {
+      update.title = data.title;
+    }
+
+    if (
+      data.description !== undefined &&
+      data.description !== (issue.body ?? "")
+    ) {
+      update.body = data.description;
+    }
+
+    const done = this.resolveDone(data);
+    if (done !== undefined) {
+      const state = done ? "closed" : "open";
+      if (state !== issue.state) {
+        update.state = state;
+      }
+    }
+
+    if (data.status !== undefined) {
+      const labels = this.mapStatusToLabels(
+        issue.labels.map((label) => label.name),
+        data.status
+      );
+      if (labels) {
+        update.labels = labels;
+      }
+    }
+
+    return Object.keys(update).length > 0 ? update : null;
+  }
+
+  /**
+   * Determine whether the issue should be closed.
+   * An explicit done flag wins, otherwise it is derived from the status.
+   */
+  private resolveDone(data: Partial<Task>): boolean | undefined {
+    if (data.done !== undefined) {
+      return data.done;
+    }
+
+    if (data.status !== undefined) {
+      const status = this.settings.taskStatuses.find(
+        (s) => s.name === data.status
+      );
+      return status?.isDone;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Replace status labels on an issue with the label mapped to the given status.
+   * Status labels are the labels of statusLabelMapping, all other labels are
+   * left untouched. labelTypeMapping isn't used because it maps labels to the
+   * task types set on import, so its labels are never statuses.
+   *
+   * @returns The new label list, or null if the labels don't change
+   */
+  private mapStatusToLabels(
+    currentLabels: string[],
+    status: string
+  ): string[] | null {
+    const statusLabels = Object.entries(
+      this.settings.integrations.github.statusLabelMapping || {}
+    );
+
+    if (statusLabels.length === 0) {
+      return null;
+    }
+
+    const isStatusLabel = (name: string) =>
+      statusLabels.some(
+        ([, label]) => label.toLowerCase() === name.toLowerCase()
+      );
+
+    const labels = currentLabels.filter((name) => !isStatusLabel(name));
+    for (const [statusName, label] of statusLabels) {
+      if (statusName.toLowerCase() === status.toLowerCase()) {
+        labels.push(label);
+      }
+    }
+
+    // GitHub label names are case-insensitive
+    const current = new Set(currentLabels.map((name) => name.toLowerCase()));
+    const unchanged =
+      labels.length === currentLabels.length &&
+      labels.every((name) => current.has(name.toLowerCase()));
+
+    return unchanged ? null : labels;
+  }
+}
@@ -27,3 +27,15 @@ export function isGitHubUrlForRepository(
   const extractedRepo = extractRepositoryFromGitHubUrl(url);
   return extractedRepo === repository;
 }
+
+/**
+ * Extract issue number from GitHub issue URL
+ * @param url GitHub URL (e.g., "https://github.com/owner/repo/issues/123")
+ * @returns Issue number or null if the URL doesn't point to an issue
+ */
+export function extractIssueNumberFromGitHubUrl(url: string): number | null {
+  if (!url) return null;
+
+  const match = url.match(/github\.com\/[^/]+\/[^/]+\/issues\/(\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+}
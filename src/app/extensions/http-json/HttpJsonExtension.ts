@@ -0,0 +1,291 @@
+/**
+ * HTTP JSON Extension for TaskSync
+ * Polls user-configured HTTP endpoints returning JSON and maps their items to
+ * tasks through a declarative field mapping, so trackers without a dedicated
+ * integration can feed the task list.
+ */
+
+import { Plugin, requestUrl } from "obsidian";
+import { Extension, extensionRegistry, EntityType } from "../../core/extension";
+import { eventBus } from "../../core/events";
+import { taskStore } from "../../stores/taskStore";
+import { derived, type Readable } from "svelte/store";
+import { Task, TaskSchema } from "../../core/entities";
+import { generateId } from "../../utils/idGenerator";
+import { SchemaCache } from "../../cache/SchemaCache";
+import {
+  HttpJsonItemsSchema,
+  type HttpJsonItems,
+} from "../../cache/schemas/http-json";
+import type {
+  HttpJsonEndpoint,
+  TaskSyncSettings,
+} from "../../types/settings";
+import { taskSourceManager } from "../../core/TaskSourceManager";
+import { HttpJsonTaskSource } from "./sources/TaskSource";
+import {
+  HttpJsonMapper,
+  HTTP_JSON_SOURCE_ID,
+  extractItems,
+} from "./services/HttpJsonMapper";
+
+export class HttpJsonExtension implements Extension {
+  readonly id = HTTP_JSON_SOURCE_ID;
+  readonly name = "HTTP JSON";
+  readonly version = "1.0.0";
+  readonly supportedEntities: readonly EntityType[] = ["task"];
+
+  private plugin: Plugin;
+  private settings: TaskSyncSettings;
+  private initialized = false;
+
+  // Cache of raw endpoint items, keyed by endpoint ID
+  private itemsCache?: SchemaCache<HttpJsonItems>;
+
+  constructor(plugin: Plugin, settings: TaskSyncSettings) {
+    this.plugin = plugin;
+    this.settings = settings;
+  }
+
+  /**
+   * Check if the HTTP JSON integration is enabled in settings
+   */
+  isEnabled(): boolean {
+    return this.settings.integrations?.httpJson?.enabled === true;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      console.log("Initializing HttpJsonExtension...");
+
+      this.itemsCache = new SchemaCache(
+        this.plugin,
+        "http-json-items",
+        HttpJsonItemsSchema,
+        { version: "1.0.0" }
+      );
+
+      extensionRegistry.register(this);
+
+      taskSourceManager.registerSource(new HttpJsonTaskSource(this));
+
+      eventBus.trigger({
+        type: "extension.registered",
+        extension: this.id,
+        supportedEntities: [...this.supportedEntities],
+      });
+
+      this.initialized = true;
+      console.log("HttpJsonExtension initialized successfully");
+    } catch (error) {
+      console.error("Failed to initialize HttpJsonExtension:", error);
+      throw error;
+    }
+  }
+
+  async load(): Promise<void> {
+    if (!this.initialized) {
+      throw new Error("HttpJsonExtension must be initialized before loading");
+    }
+
+    try {
+      console.log("Loading HttpJsonExtension...");
+
+      await this.itemsCache?.preloadFromStorage();
+
+      // Load cached items first, then fetch fresh data in the background
+      await taskSourceManager.loadSource(this.id);
+      this.refresh().catch((error) => {
+        console.error("Failed to refresh HTTP JSON endpoints:", error);
+      });
+
+      eventBus.trigger({
+        type: "extension.loaded",
+        extension: this.id,
+        supportedEntities: this.supportedEntities,
+      });
+
+      console.log("HttpJsonExtension loaded successfully");
+    } catch (error) {
+      console.error("Failed to load HttpJsonExtension:", error);
+      throw error;
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    if (!this.initialized) return;
+
+    // Stops polling
+    taskSourceManager.unregisterSource(this.id);
+    extensionRegistry.unregister(this.id);
+
+    eventBus.trigger({
+      type: "extension.unregistered",
+      extension: this.id,
+    });
+
+    this.initialized = false;
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return this.initialized && this.isEnabled();
+  }
+
+  // Event handler methods required by Extension interface
+  async onEntityCreated(_event: any): Promise<void> {
+    // No-op: endpoint tasks are read-only
+  }
+
+  async onEntityUpdated(_event: any): Promise<void> {
+    // No-op: endpoint tasks are read-only
+  }
+
+  async onEntityDeleted(_event: any): Promise<void> {
+    // No-op: endpoint tasks are read-only
+  }
+
+  /**
+   * Get tasks from this extension (implements ExtensionDataAccess)
+   */
+  getTasks(): Readable<readonly Task[]> {
+    return derived(taskStore, ($taskStore) =>
+      $taskStore.tasks.filter((task) => task.source.keys[this.id] !== undefined)
+    );
+  }
+
+  /**
+   * Fetch fresh items from all endpoints via TaskSourceManager
+   */
+  async refresh(): Promise<void> {
+    if (!this.isEnabled()) {
+      console.log("HTTP JSON integration is disabled");
+      return;
+    }
+
+    await taskSourceManager.refreshSource(this.id);
+  }
+
+  updateSettings(settings: TaskSyncSettings): void {
+    this.settings = settings;
+  }
+
+  getEndpoints(): HttpJsonEndpoint[] {
+    return this.settings.integrations.httpJson?.endpoints ?? [];
+  }
+
+  /**
+   * Poll interval in minutes, 0 when polling is disabled
+   */
+  getPollInterval(): number {
+    return this.settings.integrations.httpJson?.pollInterval ?? 0;
+  }
+
+  /**
+   * Load tasks for all configured endpoints
+   *
+   * @param options.useCache - Use cached items instead of fetching endpoints
+   */
+  async loadTasks(options: { useCache: boolean }): Promise<Task[]> {
+    if (!this.isEnabled()) {
+      return [];
+    }
+
+    const tasks: Task[] = [];
+
+    for (const endpoint of this.getEndpoints()) {
+      if (!endpoint.id || !endpoint.url) {
+        continue;
+      }
+
+      let items = (await this.itemsCache?.get(endpoint.id)) ?? null;
+
+      if (!options.useCache || !items) {
+        try {
+          items = await this.fetchEndpointItems(endpoint);
+        } catch (error) {
+          console.error(
+            `Failed to fetch HTTP JSON endpoint "${endpoint.name}", using cached items:`,
+            error
+          );
+        }
+      }
+
+      tasks.push(...this.transformItemsToTasks(endpoint, items ?? []));
+    }
+
+    console.log(`Loaded ${tasks.length} HTTP JSON tasks`);
+    return tasks;
+  }
+
+  /**
+   * Fetch the items of an endpoint and cache them
+   */
+  async fetchEndpointItems(
+    endpoint: HttpJsonEndpoint
+  ): Promise<HttpJsonItems> {
+    const response = await requestUrl({
+      url: endpoint.url,
+      method: "GET",
+      headers: { Accept: "application/json", ...endpoint.headers },
+      throw: false,
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(
+        `HTTP ${response.status} from ${endpoint.url}: ${response.text}`
+      );
+    }
+
+    const items = extractItems(response.json, endpoint.itemsPath);
+
+    if (this.itemsCache) {
+      await this.itemsCache.set(endpoint.id, items);
+    }
+
+    return items;
+  }
+
+  /**
+   * Transform endpoint items to Task entities, skipping unmappable items
+   */
+  private transformItemsToTasks(
+    endpoint: HttpJsonEndpoint,
+    items: HttpJsonItems
+  ): Task[] {
+    const mapper = new HttpJsonMapper(endpoint, this.settings.taskStatuses);
+    const tasks: Task[] = [];
+
+    for (const item of items) {
+      try {
+        const taskData = mapper.mapItem(item);
+        if (!taskData) {
+          console.warn(
+            `HTTP JSON item from "${endpoint.name}" has no id or title, skipping`,
+            item
+          );
+          continue;
+        }
+
+        const now = new Date();
+        tasks.push(
+          TaskSchema.parse({
+            id: generateId(),
+            createdAt: now,
+            updatedAt: now,
+            ...taskData,
+          })
+        );
+      } catch (error) {
+        console.error(
+          "Failed to transform HTTP JSON item to Task:",
+          error,
+          item
+        );
+      }
+    }
+
+    return tasks;
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * HTTP JSON Mapper Service
+ * Maps items returned by an HTTP JSON endpoint to task data through the
+ * endpoint's declarative field mapping.
+ *
+ * Paths use a JSONPath-like syntax:
+ * - `$` is the item itself and can be omitted: `$.fields.summary` = `fields.summary`
+ * - `[0]` selects an array element, `['some key']` a key with special characters
+ * - `[*]` or `.*` selects all elements, e.g. `labels[*].name` yields a list
+ */
+
+import type { Task } from "../../../core/entities";
+import type { HttpJsonItem } from "../../../cache/schemas/http-json";
+import type { HttpJsonEndpoint, TaskStatus } from "../../../types/settings";
+import { coerceToDate } from "../../../utils/dateCoercion";
+import { DEFAULT_TASK_STATUS } from "../../../constants/defaults";
+
+export const HTTP_JSON_SOURCE_ID = "http-json";
+
+/**
+ * Task fields that can be mapped from endpoint items.
+ * "id" is the item's identifier in the external system and becomes part of
+ * the task's source key, not the task ID.
+ */
+export const HTTP_JSON_MAPPABLE_FIELDS = [
+  "id",
+  "title",
+  "description",
+  "status",
+  "done",
+  "category",
+  "priority",
+  "project",
+  "areas",
+  "tags",
+  "doDate",
+  "dueDate",
+] as const;
+
+export type HttpJsonMappableField = (typeof HTTP_JSON_MAPPABLE_FIELDS)[number];
+
+export type JsonPathSegment =
+  | { type: "key"; key: string }
+  | { type: "index"; index: number }
+  | { type: "wildcard" };
+
+const SEGMENT_PATTERN =
+  /\.?\*|\.?([^.[\]]+)|\[(\d+|\*|'[^']*'|"[^"]*")\]|(\.)/y;
+
+/**
+ * Parse a JSONPath-like expression into segments
+ * @throws Error if the path can't be parsed
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  const expression = path.trim().replace(/^\$/, "");
+  const segments: JsonPathSegment[] = [];
+
+  SEGMENT_PATTERN.lastIndex = 0;
+  while (SEGMENT_PATTERN.lastIndex < expression.length) {
+    const start = SEGMENT_PATTERN.lastIndex;
+    const match = SEGMENT_PATTERN.exec(expression);
+
+    // A lone dot means an empty key, e.g. "a..b" or a trailing "."
+    if (!match || match[3] !== undefined) {
+      throw new Error(`Invalid JSON path "${path}" at position ${start}`);
+    }
+
+    const [, key, bracket] = match;
+    if (key !== undefined) {
+      segments.push({ type: "key", key });
+    } else if (bracket === undefined || bracket === "*") {
+      segments.push({ type: "wildcard" });
+    } else if (/^\d+$/.test(bracket)) {
+      segments.push({ type: "index", index: Number(bracket) });
+    } else {
+      segments.push({ type: "key", key: bracket.slice(1, -1) });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Resolve a JSONPath-like expression against a value
+ *
+ * @returns The selected value, a list of values if the path contains a
+ * wildcard, or undefined if nothing matches
+ */
+export function resolveJsonPath(value: unknown, path: string): unknown {
+  const segments = parseJsonPath(path);
+  let nodes: unknown[] = [value];
+
+  for (const segment of segments) {
+    const next: unknown[] = [];
+
+    for (const node of nodes) {
+      if (node === null || typeof node !== "object") {
+        continue;
+      }
+
+      if (segment.type === "wildcard") {
+        next.push(...(Array.isArray(node) ? node : Object.values(node)));
+      } else if (segment.type === "index") {
+        if (Array.isArray(node) && segment.index < node.length) {
+          next.push(node[segment.index]);
+        }
+      } else if (
+        !Array.isArray(node) &&
+        Object.prototype.hasOwnProperty.call(node, segment.key)
+      ) {
+        next.push((node as Record<string, unknown>)[segment.key]);
+      }
+    }
+
+    nodes = next;
+  }
+
+  if (segments.some((segment) => segment.type === "wildcard")) {
+    return nodes;
+  }
+
+  return nodes[0];
+}
+
+/**
+ * Extract the list of items from an endpoint response
+ * @throws Error if the items path doesn't point to a list of objects
+ */
+export function extractItems(
+  response: unknown,
+  itemsPath: string
+): HttpJsonItem[] {
+  const items = itemsPath.trim()
+    ? resolveJsonPath(response, itemsPath)
+    : response;
+
+  if (!Array.isArray(items)) {
+    throw new Error(
+      `Expected a list of items at "${itemsPath || "$"}", got ${typeof items}`
+    );
+  }
+
+  return items.filter(
+    (item): item is HttpJsonItem =>
+      item !== null && typeof item === "object" && !Array.isArray(item)
+  );
+}
+
+function toText(value: unknown): string | undefined {
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return String(value);
+  }
+  return undefined;
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value
+      .map(toText)
+      .filter((text): text is string => !!text && text.trim().length > 0);
+  }
+
+  const text = toText(value);
+  if (!text) {
+    return [];
+  }
+
+  return text
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+}
+
+const TRUTHY_VALUES = [
+  "true",
+  "yes",
+  "1",
+  "done",
+  "closed",
+  "completed",
+  "resolved",
+];
+
+function toBoolean(value: unknown): boolean {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  if (typeof value === "number") {
+    return value !== 0;
+  }
+  if (typeof value === "string") {
+    return TRUTHY_VALUES.includes(value.trim().toLowerCase());
+  }
+  return false;
+}
+
+/**
+ * Numbers are interpreted as milliseconds since the epoch
+ */
+function toDate(value: unknown): Date | undefined {
+  if (typeof value === "number") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return coerceToDate(value) ?? undefined;
+}
+
+export class HttpJsonMapper {
+  constructor(
+    private endpoint: HttpJsonEndpoint,
+    private taskStatuses: TaskStatus[]
+  ) {}
+
+  /**
+   * Build the source key linking a task to an item of this endpoint
+   */
+  getSourceKey(itemId: string): string {
+    return `${this.endpoint.id}:${itemId}`;
+  }
+
+  /**
+   * Map an endpoint item to task data (without id and timestamps)
+   * @returns The task data, or null if the item has no id or title
+   */
+  mapItem(
+    item: HttpJsonItem
+  ): Omit<Task, "id" | "createdAt" | "updatedAt"> | null {
+    const itemId = toText(this.resolve(item, "id"));
+    const title = toText(this.resolve(item, "title"));
+
+    if (!itemId || !title) {
+      return null;
+    }
+
+    const status = this.mapStatus(toText(this.resolve(item, "status")));
+    const doneValue = this.resolve(item, "done");
+    const done =
+      doneValue !== undefined
+        ? toBoolean(doneValue)
+        : this.taskStatuses.some((s) => s.name === status && s.isDone);
+
+    return {
+      title,
+      description: toText(this.resolve(item, "description")),
+      status,
+      done,
+      category: toText(this.resolve(item, "category")),
+      priority: toText(this.resolve(item, "priority")),
+      parentTask: undefined,
+      project: toText(this.resolve(item, "project")),
+      areas: toList(this.resolve(item, "areas")),
+      tags: toList(this.resolve(item, "tags")),
+      doDate: toDate(this.resolve(item, "doDate")),
+      dueDate: toDate(this.resolve(item, "dueDate")),
+      source: {
+        extension: HTTP_JSON_SOURCE_ID,
+        keys: { [HTTP_JSON_SOURCE_ID]: this.getSourceKey(itemId) },
+        data: item,
+      },
+    };
+  }
+
+  /**
+   * Resolve a mapped field and apply the field's value mapping
+   */
+  private resolve(item: HttpJsonItem, field: HttpJsonMappableField): unknown {
+    const path = this.endpoint.fieldMapping[field];
+    if (!path) {
+      return undefined;
+    }
+
+    const value = resolveJsonPath(item, path);
+    const valueMapping = this.endpoint.valueMapping?.[field];
+    if (!valueMapping) {
+      return value;
+    }
+
+    const mapValue = (raw: unknown) => {
+      const text = toText(raw);
+      return text !== undefined && text in valueMapping
+        ? valueMapping[text]
+        : raw;
+    };
+
+    return Array.isArray(value) ? value.map(mapValue) : mapValue(value);
+  }
+
+  /**
+   * Use the configured status name when a value matches it case-insensitively
+   */
+  private mapStatus(value: string | undefined): string {
+    if (!value) {
+      return DEFAULT_TASK_STATUS;
+    }
+
+    const status = this.taskStatuses.find(
+      (s) => s.name.toLowerCase() === value.toLowerCase()
+    );
+    return status ? status.name : value;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * HttpJsonTaskSource - Pure data source for HTTP JSON endpoint tasks
+ *
+ * Responsibilities:
+ * - Return tasks mapped from cached endpoint items during initial load
+ * - Fetch fresh items from the configured endpoints during refresh
+ * - Poll the endpoints while watched
+ * - NO store manipulation - just pure data fetching
+ */
+
+import type {
+  DataSource,
+  DataSourceWatchCallbacks,
+} from "../../../sources/DataSource";
+import type { Task } from "../../../core/entities";
+import type { HttpJsonExtension } from "../HttpJsonExtension";
+import { HTTP_JSON_SOURCE_ID } from "../services/HttpJsonMapper";
+
+/**
+ * HttpJsonTaskSource class
+ *
+ * Implements DataSource<Task> for all configured HTTP JSON endpoints
+ */
+export class HttpJsonTaskSource implements DataSource<Task> {
+  readonly id = HTTP_JSON_SOURCE_ID;
+  readonly name = "HTTP JSON";
+
+  constructor(private extension: HttpJsonExtension) {}
+
+  /**
+   * Load tasks from cached endpoint items without hitting the network
+   */
+  async loadInitialData(): Promise<readonly Task[]> {
+    return this.extension.loadTasks({ useCache: true });
+  }
+
+  /**
+   * Fetch fresh items from all endpoints
+   * Endpoints that fail to respond fall back to their cached items
+   */
+  async refresh(): Promise<readonly Task[]> {
+    return this.extension.loadTasks({ useCache: false });
+  }
+
+  /**
+   * Poll the endpoints using the configured interval
+   *
+   * The interval is read before scheduling each poll so changes in settings
+   * apply without reloading the plugin. An interval of 0 pauses polling.
+   */
+  watch(callbacks: DataSourceWatchCallbacks<Task>): () => void {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const poll = async () => {
+      if (stopped) return;
+
+      if (this.extension.getPollInterval() > 0) {
+        try {
+          const tasks = await this.refresh();
+          if (!stopped) {
+            callbacks.onBulkRefresh?.(tasks);
+          }
+        } catch (error) {
+          console.error("[HttpJsonTaskSource] Polling failed:", error);
+        }
+      }
+
+      if (!stopped) schedule();
+    };
+
+    const schedule = () => {
+      const minutes = this.extension.getPollInterval();
+      // Check again in a minute while polling is disabled
+      const delay = (minutes > 0 ? minutes : 1) * 60 * 1000;
+
+      timer = setTimeout(() => void poll(), delay);
+    };
+
+    schedule();
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    };
+  }
+}
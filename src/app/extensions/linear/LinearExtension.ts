@@ -0,0 +1,864 @@
+/**
+ * Linear Extension for TaskSync
+ * Provides Linear issue import functionality following the Extension pattern.
+ * Talks to a Linear-compatible GraphQL API, the endpoint is configurable.
+ */
+
+import { requestUrl, Plugin } from "obsidian";
+import { Extension, extensionRegistry, EntityType } from "../../core/extension";
+import { eventBus } from "../../core/events";
+import { taskStore } from "../../stores/taskStore";
+import { derived, get, writable, type Readable } from "svelte/store";
+import type { Task } from "../../core/entities";
+import { SchemaCache } from "../../cache/SchemaCache";
+import { TaskQueryService } from "../../services/TaskQueryService";
+import {
+  LinearIssueListSchema,
+  LinearLabelListSchema,
+  LinearTeamListSchema,
+  type LinearIssue,
+  type LinearIssueList,
+  type LinearLabel,
+  type LinearLabelList,
+  type LinearTeam,
+  type LinearTeamList,
+  type LinearUser,
+} from "../../cache/schemas/linear";
+import { LinearOperations } from "./entities/Linear";
+import type { TaskSyncSettings } from "../../types/settings";
+import { LinearTaskSource } from "./sources/TaskSource";
+import { taskSourceManager } from "../../core/TaskSourceManager";
+import {
+  syncManager,
+  pickTaskProperties,
+  type EntityDataProvider,
+} from "../../core/SyncManager";
+import { LinearClient, type LinearTransport } from "./services/LinearClient";
+import { LinearIssueWriter } from "./services/LinearIssueWriter";
+
+/**
+ * EntityDataProvider for Linear extension
+ * Handles reading/writing Linear task data for cross-source synchronization
+ */
+class LinearEntityDataProvider implements EntityDataProvider {
+  extensionId = "linear";
+
+  constructor(private extension: LinearExtension) {}
+
+  async readEntityData(entityId: string): Promise<Partial<Task> | null> {
+    // Prefer the main task store, it has the complete task with all source keys
+    const mainTask = get(taskStore).tasks.find((t) => t.id === entityId);
+    if (mainTask) {
+      return mainTask;
+    }
+
+    // Fallback: Read from the extension's entity store for non-imported tasks
+    const linearTasks = get(this.extension.getEntityStore());
+    return linearTasks.find((t) => t.id === entityId) ?? null;
+  }
+
+  async writeEntityData(entityId: string, data: Partial<Task>): Promise<void> {
+    const task = get(taskStore).tasks.find((t) => t.id === entityId);
+
+    if (!task || !task.source.keys.linear) {
+      console.log(
+        `[LinearEntityDataProvider] No Linear issue linked to entity ${entityId}, ignoring write`
+      );
+      return;
+    }
+
+    // Only push properties that have a direct mapping to Linear issues
+    const syncableData = pickTaskProperties(data, this.getSyncableProperties());
+
+    await this.extension.updateIssueFromTask(task, syncableData);
+  }
+
+  canHandle(entity: Task): boolean {
+    return entity.source.extension === "linear";
+  }
+
+  /**
+   * Linear only syncs specific properties that have direct mapping to Linear issues
+   * All other properties are Obsidian-specific and should not be overridden
+   */
+  getSyncableProperties(): Array<keyof Task> {
+    return [
+      "title", // Linear issue title
+      "status", // Mapped from the workflow state
+      "done", // Derived from the workflow state
+      "description", // Linear issue description (note content)
+    ];
+  }
+}
+
+export interface LinearFilters {
+  team: string | null;
+  state: "open" | "closed" | "all";
+}
+
+export class LinearExtension implements Extension {
+  readonly id = "linear";
+  readonly name = "Linear";
+  readonly version = "1.0.0";
+  readonly supportedEntities: readonly EntityType[] = ["task"];
+
+  private initialized = false;
+  private client: LinearClient | undefined;
+  private plugin: Plugin;
+  private settings: TaskSyncSettings;
+  private linearOperations: LinearOperations;
+
+  // Cache instances
+  private issuesCache?: SchemaCache<LinearIssueList>;
+  private teamsCache?: SchemaCache<LinearTeamList>;
+  private labelsCache?: SchemaCache<LinearLabelList>;
+
+  // SyncManager provider
+  private entityDataProvider?: LinearEntityDataProvider;
+
+  constructor(settings: TaskSyncSettings, plugin: Plugin) {
+    this.settings = settings;
+    this.plugin = plugin;
+    this.linearOperations = new LinearOperations(settings);
+  }
+
+  /**
+   * Update settings and reinitialize components that depend on them
+   */
+  updateSettings(newSettings: TaskSyncSettings): void {
+    this.settings = newSettings;
+
+    // Operations hold the team/project mapper built from settings
+    this.linearOperations = new LinearOperations(newSettings);
+
+    this.initializeClient();
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      console.log("Initializing LinearExtension...");
+
+      this.setupCaches();
+      this.initializeClient();
+
+      extensionRegistry.register(this);
+
+      eventBus.trigger({
+        type: "extension.registered",
+        extension: this.id,
+        supportedEntities: this.supportedEntities,
+      });
+
+      taskSourceManager.registerSource(new LinearTaskSource(this));
+
+      this.entityDataProvider = new LinearEntityDataProvider(this);
+      syncManager.registerProvider(this.entityDataProvider);
+
+      this.initialized = true;
+      console.log("LinearExtension initialized successfully");
+    } catch (error) {
+      console.error("Failed to initialize LinearExtension:", error);
+      throw error;
+    }
+  }
+
+  async load(): Promise<void> {
+    if (!this.initialized) {
+      throw new Error("LinearExtension must be initialized before loading");
+    }
+
+    try {
+      console.log("Loading LinearExtension...");
+
+      this.setupReactiveCleanup();
+
+      await this.preloadCaches();
+
+      await taskSourceManager.loadSource(this.id);
+
+      eventBus.trigger({
+        type: "extension.loaded",
+        extension: this.id,
+        supportedEntities: this.supportedEntities,
+      });
+
+      console.log("LinearExtension loaded successfully");
+    } catch (error) {
+      console.error("Failed to load LinearExtension:", error);
+      throw error;
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    if (!this.initialized) return;
+
+    this.unsubscribeCleanup?.();
+    this.unsubscribeCleanup = undefined;
+
+    if (this.entityDataProvider) {
+      syncManager.unregisterProvider(this.id);
+      this.entityDataProvider = undefined;
+    }
+
+    taskSourceManager.unregisterSource(this.id);
+    extensionRegistry.unregister(this.id);
+
+    eventBus.trigger({
+      type: "extension.unregistered",
+      extension: this.id,
+    });
+
+    this.initialized = false;
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return this.initialized && this.client !== undefined;
+  }
+
+  // Event handler methods required by Extension interface
+  // Linear extension uses reactive stores instead of event handlers
+  async onEntityCreated(_event: any): Promise<void> {
+    // No-op: Linear entity store is managed reactively
+  }
+
+  async onEntityUpdated(_event: any): Promise<void> {
+    // No-op: Linear entity store is managed reactively
+  }
+
+  async onEntityDeleted(_event: any): Promise<void> {
+    // No-op: Linear entity store is managed reactively
+  }
+
+  // ============================================================================
+  // REACTIVE STATE - Extension-level state that components can observe
+  // ============================================================================
+
+  // Raw entity store - contains Linear tasks fetched from the API
+  private rawEntityStore = writable<Task[]>([]);
+
+  // Track Linear URLs that exist in main store (for reactive cleanup)
+  private mainStoreLinearUrls = new Set<string>();
+  private unsubscribeCleanup?: () => void;
+
+  /**
+   * Get the extension's entity store (read-only)
+   */
+  getEntityStore(): Readable<Task[]> {
+    return this.rawEntityStore;
+  }
+
+  /**
+   * Remove tasks from the entity store when they're deleted from the main store
+   */
+  private setupReactiveCleanup(): void {
+    this.unsubscribeCleanup?.();
+
+    this.unsubscribeCleanup = taskStore.subscribe(($mainStore) => {
+      const currentUrls = new Set<string>();
+      for (const task of $mainStore.tasks) {
+        if (task.source.keys.linear) {
+          currentUrls.add(task.source.keys.linear);
+        }
+      }
+
+      const deletedUrls = [...this.mainStoreLinearUrls].filter(
+        (url) => !currentUrls.has(url)
+      );
+
+      if (deletedUrls.length > 0) {
+        this.rawEntityStore.update((tasks) =>
+          tasks.filter((task) => !deletedUrls.includes(task.source.keys.linear!))
+        );
+      }
+
+      this.mainStoreLinearUrls = currentUrls;
+    });
+  }
+
+  /**
+   * Update the extension's entity store by merging new tasks
+   * Tasks with the same Linear URL are replaced, all other tasks are kept
+   *
+   * @param tasks - Tasks to add/update in the store
+   */
+  updateEntityStore(tasks: Task[]): void {
+    this.rawEntityStore.update((currentTasks) => {
+      const taskMap = new Map<string, Task>();
+
+      for (const task of [...currentTasks, ...tasks]) {
+        const url = task.source.keys.linear;
+        if (url) {
+          taskMap.set(url, task);
+        }
+      }
+
+      return Array.from(taskMap.values());
+    });
+  }
+
+  // Current active filters - components should read/write these
+  private currentFilters = writable<LinearFilters>({
+    team: null,
+    state: "open",
+  });
+
+  /**
+   * Get the current filter state (for components to read)
+   */
+  getFilters(): Readable<LinearFilters> {
+    return this.currentFilters;
+  }
+
+  /**
+   * Set the current filter state (for components to update)
+   * Fetches issues when there's no data for the selected team and state yet
+   */
+  setFilters(filters: Partial<LinearFilters>): void {
+    this.currentFilters.update((current) => ({ ...current, ...filters }));
+
+    const { team, state } = get(this.currentFilters);
+    if (!team) {
+      return;
+    }
+
+    const hasDataForTeam = get(this.rawEntityStore).some((task) =>
+      this.matchesFilters(task, { team, state })
+    );
+
+    if (!hasDataForTeam) {
+      void taskSourceManager.refreshSource(this.id);
+    }
+  }
+
+  /**
+   * Get the current filter state (for TaskSource to use)
+   */
+  getCurrentFilters(): LinearFilters {
+    return get(this.currentFilters);
+  }
+
+  /**
+   * Get observable tasks for this extension
+   * Combines imported Linear tasks from taskStore with fetched issues of the
+   * selected team. Imported tasks are marked with `imported: true`.
+   */
+  getTasks(): Readable<readonly Task[]> {
+    const importedLinearTasks = derived(taskStore, ($store) =>
+      $store.tasks.filter((task) => task.source?.extension === "linear")
+    );
+
+    return derived(
+      [importedLinearTasks, this.rawEntityStore, this.currentFilters],
+      ([$importedTasks, $linearTasks, $filters]) => {
+        if (!$filters.team) {
+          return $importedTasks;
+        }
+
+        return $linearTasks
+          .filter((task) => this.matchesFilters(task, $filters))
+          .map((linearTask) => {
+            const importedTask = $importedTasks.find(
+              (task) => task.source.keys.linear === linearTask.source.keys.linear
+            );
+
+            if (importedTask) {
+              // Keep user modifications but use fresh Linear data
+              return {
+                ...importedTask,
+                source: { ...importedTask.source, data: linearTask.source.data },
+                imported: true,
+              } as Task & { imported: boolean };
+            }
+
+            return { ...linearTask, imported: false } as Task & {
+              imported: boolean;
+            };
+          });
+      }
+    );
+  }
+
+  /**
+   * Refresh Linear data by reloading from source
+   */
+  async refresh(): Promise<void> {
+    try {
+      await this.clearCache();
+      await taskSourceManager.refreshSource(this.id);
+    } catch (err: any) {
+      console.error("Failed to refresh Linear data:", err);
+      throw err;
+    }
+  }
+
+  /**
+   * Search tasks by query string
+   * Uses TaskQueryService for consistent search behavior
+   */
+  searchTasks(query: string, tasks: readonly Task[]): readonly Task[] {
+    return TaskQueryService.search(tasks, query);
+  }
+
+  /**
+   * Sort tasks by multiple fields
+   * Uses canonical Linear data (updatedAt, createdAt, identifier) instead of
+   * Task entity timestamps
+   */
+  sortTasks(
+    tasks: readonly Task[],
+    sortFields: Array<{ key: string; direction: "asc" | "desc" }>
+  ): readonly Task[] {
+    const valueOf = (task: Task, key: string): any => {
+      const issue = task.source?.data as LinearIssue | undefined;
+
+      if (key === "updatedAt" || key === "createdAt") {
+        return issue?.[key] ? new Date(issue[key]) : null;
+      }
+      if (key === "identifier") {
+        // Compare by issue number within the team
+        return issue ? Number(issue.identifier.split("-").pop()) : null;
+      }
+      if (key === "priority") {
+        // 0 means no priority and sorts last
+        return issue && issue.priority > 0 ? issue.priority : null;
+      }
+      return task[key as keyof Task];
+    };
+
+    return [...tasks].sort((a, b) => {
+      for (const { key, direction } of sortFields) {
+        const aVal = valueOf(a, key);
+        const bVal = valueOf(b, key);
+
+        let comparison = 0;
+
+        // Handle null/undefined values
+        if (aVal == null && bVal == null) {
+          comparison = 0;
+        } else if (aVal == null) {
+          comparison = 1; // null sorts to end
+        } else if (bVal == null) {
+          comparison = -1; // null sorts to end
+        } else if (aVal < bVal) {
+          comparison = -1;
+        } else if (aVal > bVal) {
+          comparison = 1;
+        }
+
+        if (comparison !== 0) {
+          return direction === "desc" ? -comparison : comparison;
+        }
+      }
+      return 0;
+    });
+  }
+
+  /**
+   * Filter tasks by criteria
+   * Linear doesn't use showCompleted - state filter determines open/closed
+   */
+  filterTasks(
+    tasks: readonly Task[],
+    criteria: {
+      project?: string | null;
+      area?: string | null;
+      // Linear-specific filters
+      state?: "open" | "closed" | "all";
+      assignedToMe?: boolean;
+      labels?: string[];
+      currentUser?: LinearUser | null;
+    }
+  ): readonly Task[] {
+    return tasks.filter((task) => {
+      const issue = task.source?.data as LinearIssue | undefined;
+
+      if (criteria.project && task.project !== criteria.project) {
+        return false;
+      }
+
+      if (criteria.area && !task.areas.includes(criteria.area)) {
+        return false;
+      }
+
+      if (criteria.state && criteria.state !== "all" && issue) {
+        if (this.getIssueState(issue) !== criteria.state) return false;
+      }
+
+      if (criteria.assignedToMe && criteria.currentUser && issue) {
+        if (issue.assignee?.id !== criteria.currentUser.id) return false;
+      }
+
+      if (criteria.labels && criteria.labels.length > 0 && issue) {
+        const hasMatchingLabel = criteria.labels.some((selectedLabel) =>
+          issue.labels.some((label) => label.name === selectedLabel)
+        );
+        if (!hasMatchingLabel) return false;
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Open/closed state of an issue derived from its workflow state type
+   */
+  getIssueState(issue: LinearIssue): "open" | "closed" {
+    return ["completed", "canceled"].includes(issue.state.type)
+      ? "closed"
+      : "open";
+  }
+
+  private matchesFilters(task: Task, filters: LinearFilters): boolean {
+    const issue = task.source?.data as LinearIssue | undefined;
+    if (!issue || issue.team.key !== filters.team) {
+      return false;
+    }
+
+    return filters.state === "all" || this.getIssueState(issue) === filters.state;
+  }
+
+  /**
+   * Setup Linear-specific caches
+   */
+  private setupCaches(): void {
+    this.issuesCache = new SchemaCache(
+      this.plugin,
+      "linear-issues",
+      LinearIssueListSchema
+    );
+    this.teamsCache = new SchemaCache(
+      this.plugin,
+      "linear-teams",
+      LinearTeamListSchema
+    );
+    this.labelsCache = new SchemaCache(
+      this.plugin,
+      "linear-labels",
+      LinearLabelListSchema
+    );
+  }
+
+  /**
+   * Preload Linear caches from persistent storage
+   */
+  private async preloadCaches(): Promise<void> {
+    const caches = [this.issuesCache, this.teamsCache, this.labelsCache];
+
+    await Promise.all(
+      caches.map(async (cache) => {
+        if (cache) {
+          await cache.preloadFromStorage();
+        }
+      })
+    );
+  }
+
+  /**
+   * Initialize the GraphQL client if integration is enabled and an API key is provided
+   */
+  private initializeClient(): void {
+    const linearSettings = this.settings.integrations.linear;
+    const apiKey = linearSettings.apiKey?.trim();
+
+    if (linearSettings.enabled && apiKey) {
+      this.client = new LinearClient({
+        apiKey,
+        apiUrl: linearSettings.apiUrl,
+        transport: this.createObsidianTransport(),
+      });
+    } else {
+      // Clear client if integration is disabled or no API key
+      this.client = undefined;
+    }
+  }
+
+  /**
+   * Create a transport using Obsidian's requestUrl
+   */
+  private createObsidianTransport(): LinearTransport {
+    return async ({ url, headers, body }) => {
+      const response = await requestUrl({
+        url,
+        method: "POST",
+        headers,
+        body,
+        throw: false, // Let LinearClient report HTTP errors
+      });
+
+      return { status: response.status, text: response.text };
+    };
+  }
+
+  private getClient(): LinearClient {
+    if (!this.client) {
+      throw new Error("Linear integration is not enabled or configured");
+    }
+    return this.client;
+  }
+
+  /**
+   * Generate consistent cache key for Linear resources
+   */
+  private generateCacheKey(
+    category: "issues" | "teams" | "labels",
+    team?: string,
+    filters?: { state?: string; assignedToMe?: boolean; labels?: string[] }
+  ): string {
+    const parts = ["linear"];
+
+    if (team) {
+      parts.push(`team:${team}`);
+    }
+
+    parts.push(`category:${category}`);
+
+    if (filters) {
+      if (filters.state) {
+        parts.push(`status:${filters.state}`);
+      }
+      if (filters.assignedToMe) {
+        parts.push("assignee:me");
+      }
+      if (filters.labels && filters.labels.length > 0) {
+        parts.push(`labels:${[...filters.labels].sort().join(",")}`);
+      }
+    }
+
+    return parts.join("|");
+  }
+
+  /**
+   * Clear all Linear-specific caches
+   */
+  async clearCache(): Promise<void> {
+    const caches = [this.issuesCache, this.teamsCache, this.labelsCache];
+
+    for (const cache of caches) {
+      if (cache) {
+        await cache.clear();
+      }
+    }
+  }
+
+  /**
+   * Check if Linear integration is enabled
+   */
+  isEnabled(): boolean {
+    return this.settings.integrations.linear.enabled && !!this.client;
+  }
+
+  /**
+   * Fetch issues of a team with caching
+   * @param team - Team key (e.g., 'ENG')
+   * @param filterOverrides - Optional filter overrides, defaults come from settings
+   */
+  async fetchIssues(
+    team: string,
+    filterOverrides?: {
+      state?: "open" | "closed" | "all";
+      assignedToMe?: boolean;
+      labels?: string[];
+    }
+  ): Promise<LinearIssue[]> {
+    const client = this.getClient();
+
+    const settingsFilters = this.settings.integrations.linear.issueFilters;
+    const filters = {
+      state: filterOverrides?.state ?? settingsFilters.state,
+      assignedToMe:
+        filterOverrides?.assignedToMe ?? settingsFilters.assignedToMe,
+      labels: filterOverrides?.labels ?? settingsFilters.labels,
+    };
+
+    const cacheKey = this.generateCacheKey("issues", team, filters);
+
+    if (this.issuesCache) {
+      const cachedIssues = await this.issuesCache.get(cacheKey);
+      if (cachedIssues) {
+        return cachedIssues;
+      }
+    }
+
+    console.log(
+      `[LinearExtension] Fetching issues for ${team} with state=${filters.state}`
+    );
+
+    const issues = await client.fetchIssues(team, filters);
+
+    if (this.issuesCache) {
+      await this.issuesCache.set(cacheKey, issues);
+    }
+
+    return issues;
+  }
+
+  /**
+   * Fetch specific issues regardless of filters (not cached)
+   */
+  async fetchIssuesByIds(ids: string[]): Promise<LinearIssue[]> {
+    return this.getClient().fetchIssuesByIds(ids);
+  }
+
+  /**
+   * Fetch teams visible to the API key
+   */
+  async fetchTeams(): Promise<LinearTeam[]> {
+    const client = this.getClient();
+    const cacheKey = this.generateCacheKey("teams");
+
+    if (this.teamsCache) {
+      const cachedTeams = await this.teamsCache.get(cacheKey);
+      if (cachedTeams) {
+        return cachedTeams;
+      }
+    }
+
+    const teams = await client.fetchTeams();
+
+    if (this.teamsCache) {
+      await this.teamsCache.set(cacheKey, teams);
+    }
+
+    return teams;
+  }
+
+  /**
+   * Fetch labels of a team
+   */
+  async fetchLabels(team: string): Promise<LinearLabel[]> {
+    const client = this.getClient();
+    const cacheKey = this.generateCacheKey("labels", team);
+
+    if (this.labelsCache) {
+      const cachedLabels = await this.labelsCache.get(cacheKey);
+      if (cachedLabels) {
+        return cachedLabels;
+      }
+    }
+
+    const { labels } = await client.fetchTeamDetails(team);
+
+    if (this.labelsCache) {
+      await this.labelsCache.set(cacheKey, labels);
+    }
+
+    return labels;
+  }
+
+  /**
+   * Get the user the API key belongs to
+   */
+  async getCurrentUser(): Promise<LinearUser> {
+    return this.getClient().getViewer();
+  }
+
+  /**
+   * Transform Linear issue to task format
+   */
+  transformIssueToTask(
+    issue: LinearIssue
+  ): Omit<Task, "id" | "createdAt" | "updatedAt"> {
+    return this.linearOperations.tasks.transformIssueToTask(issue);
+  }
+
+  /**
+   * Build a task entity with proper ID and timestamps
+   */
+  buildTaskEntity(
+    taskData: Omit<Task, "id" | "createdAt" | "updatedAt">
+  ): Task {
+    return this.linearOperations.tasks.buildEntity(taskData) as Task;
+  }
+
+  /**
+   * Import a Linear issue as a task
+   * Delegates to Linear.TaskOperations which handles task creation and event triggering
+   */
+  async importIssueAsTask(
+    issue: LinearIssue
+  ): Promise<{ success: boolean; taskId?: string; error?: string }> {
+    try {
+      // Check if already imported by looking for existing task with this URL
+      const existingTask = TaskQueryService.findBySourceKey(
+        get(taskStore).tasks,
+        this.id,
+        issue.url
+      );
+
+      if (existingTask) {
+        console.log(
+          `Linear issue ${issue.identifier} already imported as task ${existingTask.id}`
+        );
+        return { success: true, taskId: existingTask.id };
+      }
+
+      const task = await this.linearOperations.tasks.importIssue(issue);
+
+      console.log(
+        `Successfully imported Linear issue ${issue.identifier} as task ${task.id}`
+      );
+
+      return { success: true, taskId: task.id };
+    } catch (error: any) {
+      console.error("Failed to import Linear issue:", error);
+      return {
+        success: false,
+        error: error.message || "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Push task changes back to the Linear issue the task was imported from
+   * Only writes when two-way sync has been enabled
+   */
+  async updateIssueFromTask(task: Task, data: Partial<Task>): Promise<void> {
+    if (!this.client) {
+      console.log(
+        `[LinearExtension] Linear integration is not configured, skipping write for ${task.id}`
+      );
+      return;
+    }
+
+    try {
+      const writer = new LinearIssueWriter(this.client, this.settings);
+      const updatedIssue = await writer.writeTask(task, data);
+
+      if (!updatedIssue) {
+        return;
+      }
+
+      // Keep the issue snapshot current so the next sync only sends new changes
+      const currentTask = get(taskStore).tasks.find((t) => t.id === task.id);
+      if (currentTask) {
+        taskStore.dispatch({
+          type: "UPDATE_TASK",
+          task: {
+            ...currentTask,
+            source: { ...currentTask.source, data: updatedIssue },
+          },
+        });
+      }
+
+      this.rawEntityStore.update((tasks) =>
+        tasks.map((t) =>
+          t.source.keys.linear === updatedIssue.url
+            ? { ...t, source: { ...t.source, data: updatedIssue } }
+            : t
+        )
+      );
+
+      // Cached issue lists are stale now
+      if (this.issuesCache) {
+        await this.issuesCache.clear();
+      }
+    } catch (error) {
+      console.error(
+        `[LinearExtension] Failed to update Linear issue for task ${task.id}:`,
+        error
+      );
+    }
+  }
+}
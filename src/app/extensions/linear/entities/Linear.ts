@@ -0,0 +1,178 @@
+/**
+ * Linear-specific Entity Operations
+ * Extends base entity operations to add Linear-specific behavior for importing issues
+ */
+
+import { Task } from "../../../core/entities";
+import { Tasks } from "../../../entities/Tasks";
+import type { LinearIssue } from "../../../cache/schemas/linear";
+import type {
+  TaskSyncSettings,
+  LinearTeamProjectMapping,
+} from "../../../types/settings";
+import { LinearTeamProjectMapper } from "../services/LinearTeamProjectMapper";
+import { coerceToDate } from "../../../utils/dateCoercion";
+
+// Linear priority numbers to priority names, 0 means no priority
+const LINEAR_PRIORITY_NAMES: Record<number, string> = {
+  1: "Urgent",
+  2: "High",
+  3: "Medium",
+  4: "Low",
+};
+
+/**
+ * Linear-specific Task Operations
+ * Handles importing Linear issues as tasks
+ */
+export class LinearTaskOperations extends Tasks.Operations {
+  private teamProjectMapper: LinearTeamProjectMapper;
+
+  constructor(settings: TaskSyncSettings) {
+    super(settings);
+
+    // Initialize team/project mapper
+    this.teamProjectMapper = new LinearTeamProjectMapper(
+      settings.integrations.linear.teamProjectMappings || []
+    );
+  }
+
+  /**
+   * Update the team/project mappings
+   */
+  updateTeamProjectMappings(mappings: LinearTeamProjectMapping[]): void {
+    this.teamProjectMapper.setMappings(mappings);
+  }
+
+  /**
+   * Transform a Linear issue to a Task object (without persisting)
+   * Used for displaying Linear issues as tasks in the UI
+   */
+  transformIssueToTask(
+    issue: LinearIssue
+  ): Omit<Task, "id" | "createdAt" | "updatedAt"> {
+    const isClosed = ["completed", "canceled"].includes(issue.state.type);
+
+    const baseTaskData = {
+      title: issue.title,
+      description: issue.description || "",
+      category: this.extractCategoryFromLabels(issue.labels),
+      status: this.determineStatusFromLinearState(issue.state.type),
+      priority: this.mapPriority(issue.priority),
+      done: isClosed,
+      project: issue.project?.name || "",
+      areas: [] as string[],
+      parentTask: "",
+      doDate: undefined as Date | undefined,
+      dueDate: coerceToDate(issue.dueDate) ?? undefined,
+      tags: [] as string[], // Do not set tags from Linear labels
+      source: {
+        extension: "linear",
+        keys: {
+          linear: issue.url,
+        },
+        data: issue, // Store original Linear issue data
+      },
+    };
+
+    // Apply team/project mappings
+    const enhancedData = this.teamProjectMapper.enhanceTaskData(
+      issue.team.key,
+      issue.project?.name,
+      {
+        project: baseTaskData.project,
+        areas: baseTaskData.areas,
+      }
+    );
+
+    baseTaskData.project = enhancedData.project || baseTaskData.project;
+    baseTaskData.areas = enhancedData.areas || baseTaskData.areas;
+
+    return baseTaskData;
+  }
+
+  /**
+   * Import a Linear issue as a task
+   * Transforms Linear issue data to Task entity with Linear source metadata
+   */
+  async importIssue(issue: LinearIssue): Promise<Task> {
+    const taskData = this.transformIssueToTask(issue);
+
+    // Use base create method which handles ID generation and event triggering
+    return await this.create(taskData);
+  }
+
+  /**
+   * Extract category from Linear labels
+   * Maps Linear labels to available task categories case-insensitively
+   */
+  private extractCategoryFromLabels(labels: Array<{ name: string }>): string {
+    const availableCategories = this.settings.taskCategories.map(
+      (taskCategory) => taskCategory.name
+    );
+
+    for (const label of labels) {
+      const labelName = label.name.trim().toLowerCase();
+
+      const matchedCategory = availableCategories.find(
+        (category) => category.toLowerCase() === labelName
+      );
+
+      if (matchedCategory) {
+        return matchedCategory; // Return with proper casing
+      }
+    }
+
+    return "Task"; // Default category
+  }
+
+  /**
+   * Map a Linear priority number to a configured task priority
+   */
+  private mapPriority(priority: number): string {
+    const name = LINEAR_PRIORITY_NAMES[priority];
+    if (!name) {
+      return ""; // No priority
+    }
+
+    const configured = this.settings.taskPriorities.find(
+      (p) => p.name.toLowerCase() === name.toLowerCase()
+    );
+    return configured ? configured.name : name;
+  }
+
+  /**
+   * Determine the appropriate status based on the Linear workflow state type
+   * Uses the configured status options from settings
+   */
+  private determineStatusFromLinearState(
+    stateType: LinearIssue["state"]["type"]
+  ): string {
+    const statuses = this.settings.taskStatuses;
+    let status;
+
+    if (stateType === "completed" || stateType === "canceled") {
+      status = statuses.find((s) => s.isDone === true);
+    } else if (stateType === "started") {
+      status = statuses.find((s) => s.isInProgress === true);
+    } else {
+      status = statuses.find(
+        (s) => s.isDone === false && s.isInProgress === false
+      );
+    }
+
+    // Fallback: return first available status
+    return status?.name || statuses[0]?.name || "Backlog";
+  }
+}
+
+/**
+ * Factory class to create Linear operations
+ */
+export class LinearOperations {
+  public readonly tasks: LinearTaskOperations;
+
+  constructor(settings: TaskSyncSettings) {
+    this.tasks = new LinearTaskOperations(settings);
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * Linear GraphQL Client
+ * Minimal client for the Linear GraphQL API, covering what the extension needs:
+ * teams, labels, workflow states, issues and issue updates.
+ *
+ * The HTTP transport is injected so the plugin can use Obsidian's requestUrl
+ * while tests talk to a local mock GraphQL server.
+ */
+
+import {
+  LinearIssueSchema,
+  LinearLabelListSchema,
+  LinearTeamListSchema,
+  LinearUserSchema,
+  LinearWorkflowStateListSchema,
+  type LinearIssue,
+  type LinearLabel,
+  type LinearTeam,
+  type LinearUser,
+  type LinearWorkflowState,
+} from "../../../cache/schemas/linear";
+
+export const LINEAR_API_URL = "https://api.linear.app/graphql";
+
+/**
+ * Performs a POST request and returns the raw response
+ */
+export type LinearTransport = (request: {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}) => Promise<{ status: number; text: string }>;
+
+export interface LinearClientOptions {
+  apiKey: string;
+  apiUrl?: string;
+  transport: LinearTransport;
+}
+
+export interface LinearIssueQueryFilters {
+  state?: "open" | "closed" | "all";
+  assignedToMe?: boolean;
+  labels?: string[];
+}
+
+/**
+ * Fields of a Linear issue that can be updated from a task
+ */
+export type LinearIssueUpdate = {
+  title?: string;
+  description?: string;
+  stateId?: string;
+};
+
+/**
+ * Error returned by the Linear API, either as an HTTP error or as GraphQL errors
+ */
+export class LinearApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public errors: Array<{ message: string }> = []
+  ) {
+    super(message);
+    this.name = "LinearApiError";
+  }
+}
+
+// Workflow state types of issues that are no longer open
+const CLOSED_STATE_TYPES = ["completed", "canceled"];
+
+// Safety limit for paginated queries (100 items per page)
+const MAX_PAGES = 10;
+
+const ISSUE_FIELDS = `
+  id
+  identifier
+  title
+  description
+  url
+  priority
+  createdAt
+  updatedAt
+  completedAt
+  dueDate
+  state { id name type color position }
+  team { id key name }
+  project { id name }
+  assignee { id name }
+  labels { nodes { id name color } }
+`;
+
+const VIEWER_QUERY = `
+  query Viewer {
+    viewer { id name }
+  }
+`;
+
+const TEAMS_QUERY = `
+  query Teams {
+    teams(first: 100) {
+      nodes { id key name }
+    }
+  }
+`;
+
+const TEAM_DETAILS_QUERY = `
+  query TeamDetails($key: String!) {
+    teams(filter: { key: { eq: $key } }) {
+      nodes {
+        labels(first: 250) { nodes { id name color } }
+        states(first: 100) { nodes { id name type color position } }
+      }
+    }
+  }
+`;
+
+const ISSUES_QUERY = `
+  query Issues($filter: IssueFilter, $after: String) {
+    issues(filter: $filter, first: 100, after: $after) {
+      nodes { ${ISSUE_FIELDS} }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+const ISSUE_UPDATE_MUTATION = `
+  mutation IssueUpdate($id: String!, $input: IssueUpdateInput!) {
+    issueUpdate(id: $id, input: $input) {
+      success
+      issue { ${ISSUE_FIELDS} }
+    }
+  }
+`;
+
+type Connection<T> = { nodes: T[] };
+
+export class LinearClient {
+  private apiKey: string;
+  private apiUrl: string;
+  private transport: LinearTransport;
+
+  constructor(options: LinearClientOptions) {
+    this.apiKey = options.apiKey;
+    this.apiUrl = options.apiUrl?.trim() || LINEAR_API_URL;
+    this.transport = options.transport;
+  }
+
+  /**
+   * Execute a GraphQL operation and return its data
+   * @throws LinearApiError on HTTP errors or when the response contains errors
+   */
+  async request<T>(
+    query: string,
+    variables: Record<string, unknown> = {}
+  ): Promise<T> {
+    const response = await this.transport({
+      url: this.apiUrl,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: this.apiKey,
+      },
+      body: JSON.stringify({ query, variables }),
+    });
+
+    let payload: { data?: T; errors?: Array<{ message: string }> } = {};
+    try {
+      payload = JSON.parse(response.text);
+    } catch {
+      // Non-JSON responses are reported as HTTP errors below
+    }
+
+    if (payload.errors && payload.errors.length > 0) {
+      throw new LinearApiError(
+        payload.errors.map((error) => error.message).join("; "),
+        response.status,
+        payload.errors
+      );
+    }
+
+    if (response.status < 200 || response.status >= 300 || !payload.data) {
+      throw new LinearApiError(
+        `HTTP ${response.status} from ${this.apiUrl}`,
+        response.status
+      );
+    }
+
+    return payload.data;
+  }
+
+  /**
+   * Get the user the API key belongs to
+   */
+  async getViewer(): Promise<LinearUser> {
+    const data = await this.request<{ viewer: unknown }>(VIEWER_QUERY);
+    return LinearUserSchema.parse(data.viewer);
+  }
+
+  async fetchTeams(): Promise<LinearTeam[]> {
+    const data = await this.request<{ teams: Connection<unknown> }>(
+      TEAMS_QUERY
+    );
+    return LinearTeamListSchema.parse(data.teams.nodes);
+  }
+
+  /**
+   * Fetch the labels and workflow states of a team
+   * @param teamKey Team key (e.g., 'ENG')
+   */
+  async fetchTeamDetails(teamKey: string): Promise<{
+    labels: LinearLabel[];
+    states: LinearWorkflowState[];
+  }> {
+    const data = await this.request<{
+      teams: Connection<{
+        labels: Connection<unknown>;
+        states: Connection<unknown>;
+      }>;
+    }>(TEAM_DETAILS_QUERY, { key: teamKey });
+
+    const team = data.teams.nodes[0];
+    if (!team) {
+      throw new LinearApiError(`Team ${teamKey} not found`, 404);
+    }
+
+    return {
+      labels: LinearLabelListSchema.parse(team.labels.nodes),
+      states: LinearWorkflowStateListSchema.parse(team.states.nodes),
+    };
+  }
+
+  /**
+   * Fetch issues of a team, following pagination
+   * @param teamKey Team key (e.g., 'ENG')
+   */
+  async fetchIssues(
+    teamKey: string,
+    filters: LinearIssueQueryFilters = {}
+  ): Promise<LinearIssue[]> {
+    return this.fetchAllIssues(this.buildIssueFilter(teamKey, filters));
+  }
+
+  /**
+   * Fetch specific issues regardless of their state
+   * @param ids Linear issue IDs
+   */
+  async fetchIssuesByIds(ids: string[]): Promise<LinearIssue[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    return this.fetchAllIssues({ id: { in: ids } });
+  }
+
+  async updateIssue(
+    id: string,
+    input: LinearIssueUpdate
+  ): Promise<LinearIssue> {
+    const data = await this.request<{
+      issueUpdate: { success: boolean; issue: unknown };
+    }>(ISSUE_UPDATE_MUTATION, { id, input });
+
+    if (!data.issueUpdate.success) {
+      throw new LinearApiError(`Failed to update issue ${id}`, 200);
+    }
+
+    return this.parseIssue(data.issueUpdate.issue);
+  }
+
+  /**
+   * Build the IssueFilter input for a team and the given filters
+   */
+  buildIssueFilter(
+    teamKey: string,
+    filters: LinearIssueQueryFilters
+  ): Record<string, unknown> {
+    const filter: Record<string, unknown> = {
+      team: { key: { eq: teamKey } },
+    };
+
+    if (filters.state === "open") {
+      filter.state = { type: { nin: CLOSED_STATE_TYPES } };
+    } else if (filters.state === "closed") {
+      filter.state = { type: { in: CLOSED_STATE_TYPES } };
+    }
+
+    if (filters.assignedToMe) {
+      filter.assignee = { isMe: { eq: true } };
+    }
+
+    if (filters.labels && filters.labels.length > 0) {
+      filter.labels = { name: { in: filters.labels } };
+    }
+
+    return filter;
+  }
+
+  private async fetchAllIssues(
+    filter: Record<string, unknown>
+  ): Promise<LinearIssue[]> {
+    const issues: LinearIssue[] = [];
+    let after: string | null = null;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const data: {
+        issues: Connection<unknown> & {
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        };
+      } = await this.request(ISSUES_QUERY, { filter, after });
+
+      issues.push(...data.issues.nodes.map((node) => this.parseIssue(node)));
+
+      if (!data.issues.pageInfo.hasNextPage) {
+        return issues;
+      }
+      after = data.issues.pageInfo.endCursor;
+    }
+
+    console.warn(
+      `Linear API: Stopping pagination after ${MAX_PAGES} pages (${issues.length} issues) for safety`
+    );
+    return issues;
+  }
+
+  /**
+   * Flatten GraphQL connections and validate the issue
+   */
+  private parseIssue(node: unknown): LinearIssue {
+    const raw = node as Record<string, any>;
+    return LinearIssueSchema.parse({
+      ...raw,
+      labels: raw?.labels?.nodes ?? [],
+    });
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Linear Issue Writer Service
+ * Pushes task changes back to the Linear issue a task was imported from
+ */
+
+import type { Task } from "../../../core/entities";
+import type {
+  LinearIssue,
+  LinearWorkflowState,
+} from "../../../cache/schemas/linear";
+import type { TaskSyncSettings } from "../../../types/settings";
+import type { LinearClient, LinearIssueUpdate } from "./LinearClient";
+
+/**
+ * Subset of LinearClient used for writing issues
+ */
+export type LinearIssuesClient = Pick<
+  LinearClient,
+  "fetchTeamDetails" | "updateIssue"
+>;
+
+export class LinearIssueWriter {
+  constructor(
+    private client: LinearIssuesClient,
+    private settings: TaskSyncSettings
+  ) {}
+
+  isWriteBackEnabled(): boolean {
+    return this.settings.integrations.linear.writeBack === true;
+  }
+
+  /**
+   * Push task data to the Linear issue stored in the task's source.data
+   *
+   * The snapshot is the last known state of the issue and is used to send
+   * only the fields that actually changed.
+   *
+   * @returns The updated issue, or null if nothing was written
+   */
+  async writeTask(
+    task: Task,
+    data: Partial<Task>
+  ): Promise<LinearIssue | null> {
+    if (!this.isWriteBackEnabled()) {
+      console.log(
+        `[LinearIssueWriter] Two-way sync is disabled, skipping write for ${task.id}`
+      );
+      return null;
+    }
+
+    const issue = task.source.data as LinearIssue | undefined;
+    if (!issue) {
+      console.log(
+        `[LinearIssueWriter] No issue snapshot for ${task.source.keys.linear}, skipping write`
+      );
+      return null;
+    }
+
+    const targetStateType = this.resolveTargetStateType(issue, data);
+    let states: LinearWorkflowState[] = [];
+    if (targetStateType) {
+      ({ states } = await this.client.fetchTeamDetails(issue.team.key));
+    }
+
+    const update = this.buildIssueUpdate(issue, data, states);
+    if (!update) {
+      return null;
+    }
+
+    console.log(
+      `[LinearIssueWriter] Updating ${issue.identifier}:`,
+      update
+    );
+
+    return this.client.updateIssue(issue.id, update);
+  }
+
+  /**
+   * Build the issue update for the given task data
+   * @param states Workflow states of the issue's team, used for state changes
+   * @returns The changed issue fields, or null if the issue is up to date
+   */
+  buildIssueUpdate(
+    issue: LinearIssue,
+    data: Partial<Task>,
+    states: LinearWorkflowState[]
+  ): LinearIssueUpdate | null {
+    const update: LinearIssueUpdate = {};
+
+    if (data.title !== undefined && data.title !== issue.title) {
+      update.title = data.title;
+    }
+
+    if (
+      data.description !== undefined &&
+      data.description !== (issue.description ?? "")
+    ) {
+      update.description = data.description;
+    }
+
+    const targetStateType = this.resolveTargetStateType(issue, data);
+    if (targetStateType) {
+      const state = this.findState(states, targetStateType);
+      if (state && state.id !== issue.state.id) {
+        update.stateId = state.id;
+      }
+    }
+
+    return Object.keys(update).length > 0 ? update : null;
+  }
+
+  /**
+   * Determine which workflow state type the issue should move to
+   *
+   * Done tasks complete the issue, reopened tasks move it back to "unstarted",
+   * and in-progress statuses start it. Canceled issues are considered done.
+   *
+   * @returns The state type, or null if the issue's state already matches
+   */
+  private resolveTargetStateType(
+    issue: LinearIssue,
+    data: Partial<Task>
+  ): LinearWorkflowState["type"] | null {
+    const status =
+      data.status !== undefined
+        ? this.settings.taskStatuses.find((s) => s.name === data.status)
+        : undefined;
+    const done = data.done ?? status?.isDone;
+    const isClosed = ["completed", "canceled"].includes(issue.state.type);
+
+    if (done === true) {
+      return isClosed ? null : "completed";
+    }
+
+    if (status?.isInProgress) {
+      return issue.state.type === "started" ? null : "started";
+    }
+
+    if (done === false && isClosed) {
+      return "unstarted";
+    }
+
+    return null;
+  }
+
+  /**
+   * Pick the first state of the given type in workflow order
+   */
+  private findState(
+    states: LinearWorkflowState[],
+    type: LinearWorkflowState["type"]
+  ): LinearWorkflowState | undefined {
+    return [...states]
+      .filter((state) => state.type === type)
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))[0];
+  }
+}
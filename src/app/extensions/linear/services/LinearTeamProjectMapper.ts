@@ -0,0 +1,233 @@
+/**
+ * Linear Team/Project Mapper Service
+ * Maps Linear teams and projects to Obsidian areas and projects
+ */
+
+import type { LinearTeamProjectMapping } from "../../../types/settings";
+
+export interface TeamProjectMappingResult {
+  /** Target area for the imported task */
+  targetArea?: string;
+  /** Target project for the imported task */
+  targetProject?: string;
+  /** The mapping that was matched (for debugging/logging) */
+  matchedMapping?: LinearTeamProjectMapping;
+  /** The type of match that was found */
+  matchType?: "project" | "team" | "none";
+}
+
+export class LinearTeamProjectMapper {
+  private mappings: LinearTeamProjectMapping[];
+
+  constructor(mappings: LinearTeamProjectMapping[] = []) {
+    this.mappings = [...mappings];
+  }
+
+  /**
+   * Update the mappings configuration
+   */
+  setMappings(mappings: LinearTeamProjectMapping[]): void {
+    this.mappings = [...mappings];
+  }
+
+  /**
+   * Get the current mappings configuration
+   */
+  getMappings(): LinearTeamProjectMapping[] {
+    return [...this.mappings];
+  }
+
+  /**
+   * Resolve area and project mappings for an issue's team and project
+   * @param team Team key (e.g., 'ENG')
+   * @param project Linear project name, if the issue belongs to one
+   * @returns Mapping result with target area/project if found
+   */
+  resolveMapping(
+    team: string,
+    project?: string | null
+  ): TeamProjectMappingResult {
+    if (!team) {
+      return { matchType: "none" };
+    }
+
+    // Sort mappings by priority (higher priority first), then by specificity
+    const sortedMappings = this.getSortedMappings();
+
+    // First, try to find a project match (optionally scoped to a team)
+    if (project) {
+      for (const mapping of sortedMappings) {
+        if (
+          mapping.project &&
+          mapping.project === project &&
+          (!mapping.team || mapping.team === team)
+        ) {
+          return {
+            targetArea: mapping.targetArea,
+            targetProject: mapping.targetProject,
+            matchedMapping: mapping,
+            matchType: "project",
+          };
+        }
+      }
+    }
+
+    // Then, try to find a team match
+    for (const mapping of sortedMappings) {
+      if (mapping.team && mapping.team === team && !mapping.project) {
+        return {
+          targetArea: mapping.targetArea,
+          targetProject: mapping.targetProject,
+          matchedMapping: mapping,
+          matchType: "team",
+        };
+      }
+    }
+
+    return { matchType: "none" };
+  }
+
+  /**
+   * Apply team/project mappings to task data
+   * @param team Team key
+   * @param project Linear project name
+   * @param taskData Existing task data to enhance
+   * @returns Enhanced task data with team/project mappings applied
+   */
+  enhanceTaskData(
+    team: string,
+    project: string | null | undefined,
+    taskData: { project?: string; areas?: string[] }
+  ): { project?: string; areas?: string[] } {
+    const mapping = this.resolveMapping(team, project);
+
+    if (mapping.matchType === "none") {
+      return taskData;
+    }
+
+    const enhancedData = { ...taskData };
+
+    // Apply project mapping if found - Linear mappings take precedence over existing data
+    if (mapping.targetProject) {
+      enhancedData.project = mapping.targetProject;
+    }
+
+    // Apply area mapping if found - Linear mappings take precedence over existing data
+    if (mapping.targetArea) {
+      enhancedData.areas = [mapping.targetArea];
+    }
+
+    return enhancedData;
+  }
+
+  /**
+   * Check if a team/project combination has any configured mappings
+   * @returns True if any mapping exists for the project or its team
+   */
+  hasMapping(team: string, project?: string | null): boolean {
+    const result = this.resolveMapping(team, project);
+    return result.matchType !== "none";
+  }
+
+  /**
+   * Get all mappings for a specific team
+   * @param team Team key
+   * @returns Array of mappings for the team
+   */
+  getMappingsForTeam(team: string): LinearTeamProjectMapping[] {
+    return this.mappings.filter((mapping) => mapping.team === team);
+  }
+
+  /**
+   * Add a new mapping
+   * @param mapping The mapping to add
+   */
+  addMapping(mapping: LinearTeamProjectMapping): void {
+    this.mappings.push({ ...mapping });
+  }
+
+  /**
+   * Remove a mapping
+   * @param index Index of the mapping to remove
+   */
+  removeMapping(index: number): void {
+    if (index >= 0 && index < this.mappings.length) {
+      this.mappings.splice(index, 1);
+    }
+  }
+
+  /**
+   * Update a mapping at a specific index
+   * @param index Index of the mapping to update
+   * @param mapping New mapping data
+   */
+  updateMapping(index: number, mapping: LinearTeamProjectMapping): void {
+    if (index >= 0 && index < this.mappings.length) {
+      this.mappings[index] = { ...mapping };
+    }
+  }
+
+  /**
+   * Validate a mapping configuration
+   * @param mapping The mapping to validate
+   * @returns Validation result with any errors
+   */
+  validateMapping(mapping: LinearTeamProjectMapping): {
+    isValid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+
+    // Must have either team or project
+    if (!mapping.team && !mapping.project) {
+      errors.push("Must specify either team or project");
+    }
+
+    // Team keys are short uppercase identifiers like 'ENG'
+    if (mapping.team && !/^[A-Z0-9_]+$/.test(mapping.team)) {
+      errors.push("Team must be a team key (e.g., 'ENG')");
+    }
+
+    // Must have at least one target
+    if (!mapping.targetArea && !mapping.targetProject) {
+      errors.push("Must specify at least one target (area or project)");
+    }
+
+    // Priority validation
+    if (mapping.priority !== undefined && mapping.priority < 0) {
+      errors.push("Priority must be non-negative");
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Sort mappings by priority and specificity
+   * Project mappings take precedence over team mappings, and project mappings
+   * scoped to a team over unscoped ones
+   * Higher priority numbers take precedence over lower ones
+   */
+  private getSortedMappings(): LinearTeamProjectMapping[] {
+    return [...this.mappings].sort((a, b) => {
+      // First sort by priority (higher first)
+      const priorityA = a.priority ?? 0;
+      const priorityB = b.priority ?? 0;
+      if (priorityA !== priorityB) {
+        return priorityB - priorityA;
+      }
+
+      // Then by specificity
+      return this.getSpecificity(b) - this.getSpecificity(a);
+    });
+  }
+
+  private getSpecificity(mapping: LinearTeamProjectMapping): number {
+    if (mapping.project) {
+      return mapping.team ? 3 : 2;
+    }
+    return mapping.team ? 1 : 0;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * LinearTaskSource - Pure data source for Linear tasks
+ *
+ * Responsibilities:
+ * - Fetch fresh Linear data from the GraphQL API during refresh
+ * - Transform Linear issues into tasks
+ * - Return imported Linear tasks from the store during initial load
+ * - NO store manipulation - just pure data fetching
+ */
+
+import type { DataSource } from "../../../sources/DataSource";
+import type { Task } from "../../../core/entities";
+import { taskStore } from "../../../stores/taskStore";
+import { get } from "svelte/store";
+
+import type { LinearExtension } from "../LinearExtension";
+import type { LinearIssue } from "../../../cache/schemas/linear";
+
+/**
+ * LinearTaskSource class
+ *
+ * Implements DataSource<Task> for Linear tasks
+ */
+export class LinearTaskSource implements DataSource<Task> {
+  readonly id = "linear";
+  readonly name = "Linear";
+
+  constructor(private linearExtension: LinearExtension) {}
+
+  /**
+   * Load initial data by returning imported Linear tasks from the extension's entity store
+   * Non-imported tasks are just cached API data and shouldn't be in the main store
+   */
+  async loadInitialData(): Promise<readonly Task[]> {
+    const entityStore = get(this.linearExtension.getEntityStore());
+
+    return entityStore.filter(
+      (task) => task.source.keys.obsidian !== undefined
+    );
+  }
+
+  /**
+   * Refresh data by fetching fresh Linear data from the API
+   *
+   * Fetches the issues of the selected team, plus imported issues that are not
+   * part of the current results (e.g. closed ones or from other teams), so every
+   * imported task is synced. Returns all imported Linear tasks with fresh data.
+   */
+  async refresh(): Promise<readonly Task[]> {
+    const filters = this.linearExtension.getCurrentFilters();
+
+    try {
+      const issues = filters.team
+        ? await this.linearExtension.fetchIssues(filters.team, {
+            state: filters.state,
+          })
+        : [];
+
+      const missingIssues = await this.fetchMissingImportedIssues(issues);
+      const tasks = this.transformIssuesToTasks([...issues, ...missingIssues]);
+
+      console.log(
+        `[LinearTaskSource] Fetched ${issues.length} issues (${missingIssues.length} additional imported issues)`
+      );
+
+      this.linearExtension.updateEntityStore(tasks);
+
+      // Return imported tasks only, preserving the obsidian key of each task
+      const freshTasksByUrl = new Map<string, Task>();
+      for (const task of tasks) {
+        freshTasksByUrl.set(task.source.keys.linear!, task);
+      }
+
+      return get(taskStore)
+        .tasks.filter(
+          (task) =>
+            task.source.extension === "linear" && !!task.source.keys.linear
+        )
+        .map((importedTask) => {
+          const freshTask = freshTasksByUrl.get(importedTask.source.keys.linear!);
+          if (!freshTask) {
+            return importedTask;
+          }
+
+          return {
+            ...freshTask,
+            source: {
+              ...freshTask.source,
+              keys: {
+                ...freshTask.source.keys,
+                obsidian: importedTask.source.keys.obsidian,
+              },
+            },
+          } as Task;
+        });
+    } catch (error) {
+      console.error("[LinearTaskSource] Failed to refresh from Linear:", error);
+      // Fallback to current entity store data on error
+      return this.loadInitialData();
+    }
+  }
+
+  /**
+   * Fetch imported issues that are not in the fetched results
+   */
+  private async fetchMissingImportedIssues(
+    fetchedIssues: LinearIssue[]
+  ): Promise<LinearIssue[]> {
+    const fetchedUrls = new Set(fetchedIssues.map((issue) => issue.url));
+
+    const missingIds = get(taskStore)
+      .tasks.filter(
+        (task) =>
+          task.source.keys.linear &&
+          task.source.keys.obsidian &&
+          !fetchedUrls.has(task.source.keys.linear)
+      )
+      .map((task) => (task.source.data as LinearIssue | undefined)?.id)
+      .filter((id): id is string => !!id);
+
+    if (missingIds.length === 0) {
+      return [];
+    }
+
+    try {
+      return await this.linearExtension.fetchIssuesByIds(missingIds);
+    } catch (error) {
+      console.error(
+        "[LinearTaskSource] Failed to fetch missing imported issues:",
+        error
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Transform Linear issues into tasks
+   *
+   * For imported issues only the Linear-syncable properties are updated,
+   * preserving the task ID and Obsidian-specific properties.
+   */
+  private transformIssuesToTasks(issues: LinearIssue[]): Task[] {
+    const importedTasksByUrl = new Map<string, Task>();
+    for (const task of get(taskStore).tasks) {
+      if (task.source.keys.linear && task.source.keys.obsidian) {
+        importedTasksByUrl.set(task.source.keys.linear, task);
+      }
+    }
+
+    return issues.map((issue) => {
+      const taskData = this.linearExtension.transformIssueToTask(issue);
+      const existingTask = importedTasksByUrl.get(issue.url);
+
+      if (!existingTask) {
+        return this.linearExtension.buildTaskEntity(taskData);
+      }
+
+      return {
+        ...existingTask,
+        title: taskData.title,
+        status: taskData.status,
+        done: taskData.done,
+        description: taskData.description,
+        source: {
+          ...taskData.source,
+          keys: {
+            ...taskData.source.keys,
+            ...existingTask.source.keys, // Preserve obsidian key
+          },
+        },
+      } as Task;
+    });
+  }
+}
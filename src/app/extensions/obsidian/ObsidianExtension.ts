@@ -882,6 +882,16 @@ export class ObsidianExtension implements Extension {
             console.log(
               `[ObsidianExtension] Updating Title after rename: "${currentTitle}" -> "${event.file.basename}"`
             );
+
+            // Let subtasks and dependents follow the renamed task
+            if (event.noteType.id === "task" && currentTitle) {
+              eventBus.trigger({
+                type: "tasks.renamed",
+                oldTitle: currentTitle,
+                newTitle: event.file.basename,
+                extension: "obsidian",
+              });
+            }
           }
         }
 
@@ -890,6 +900,11 @@ export class ObsidianExtension implements Extension {
         )) {
           const frontMatterKey = propDef.frontMatterKey || propDef.name;
 
+          // Formula properties are computed at read time, never stored
+          if (propDef.type === "formula") {
+            continue;
+          }
+
           // Skip properties that already exist (unless it's Title in a rename event, already handled above)
           if (existingProperties[frontMatterKey] !== undefined) {
             continue;
@@ -1169,17 +1184,23 @@ export class ObsidianExtension implements Extension {
    */
   private async registerTaskNoteType(): Promise<void> {
     try {
+      // Build Task note type with default configuration
+      const taskNoteType = buildTaskNoteType();
+
       // Check if Task note type already exists (from persisted data)
       if (this.typeNote.registry.has("task")) {
+        // Persisted types from older versions get the properties added since
+        if (this.typeNote.registry.upgrade(taskNoteType)) {
+          console.log(
+            `Task note type upgraded to version ${taskNoteType.version}`
+          );
+        }
         console.log(
           "Task note type already exists in registry (loaded from persistence), skipping default registration"
         );
         return;
       }
 
-      // Build Task note type with default configuration
-      const taskNoteType = buildTaskNoteType();
-
       // Register with NoteKit registry
       const result = this.typeNote.registry.register(taskNoteType, {
         allowOverwrite: false, // Don't overwrite persisted note types
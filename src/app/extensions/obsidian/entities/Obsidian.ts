@@ -10,6 +10,7 @@ import { Projects } from "../../../entities/Projects";
 import { Areas } from "../../../entities/Areas";
 import { App, MarkdownView, TFile } from "obsidian";
 import { ContextService } from "../../../services/ContextService";
+import { applyTaskDefaults } from "../../../utils/taskDefaults";
 import { InlineTaskParser } from "../services/InlineTaskParser";
 import { InlineTaskEditor } from "../services/InlineTaskEditor";
 import type { InlineTodoItem } from "../services/InlineTaskParser";
@@ -266,8 +267,8 @@ export class ObsidianTodoPromotionOperations {
         };
       }
 
-      // Detect context for the current file
-      const context = this.contextService.detectCurrentFileContext();
+      // Detect context for the current file, including project/area defaults
+      const context = this.contextService.getCurrentContext();
 
       // Create task data from todo item
       const taskData = await this.createTaskFromTodo(
@@ -427,7 +428,8 @@ export class ObsidianTodoPromotionOperations {
     // Build minimal task data - buildEntity will set defaults
     // Status will be determined by buildEntity based on done field and settings
     // Don't set: status, priority, tags, doDate, dueDate, category, description
-    // These will all use schema defaults
+    // These will all use schema defaults unless the project or area note
+    // configures defaults for its tasks
     const taskData: any = {
       title: todoItem.text,
       done: todoItem.completed,
@@ -448,7 +450,9 @@ export class ObsidianTodoPromotionOperations {
       },
     };
 
-    return taskData;
+    return context.taskDefaults
+      ? applyTaskDefaults(taskData, context.taskDefaults)
+      : taskData;
   }
 
   /**
@@ -6,7 +6,7 @@
 
 import { App, TFile } from "obsidian";
 import { eventBus, type DomainEvent } from "../../../core/events";
-import type { Schedule, Task } from "../../../core/entities";
+import type { Schedule } from "../../../core/entities";
 import { TaskSyncSettings } from "../../../types/settings";
 import {
   discoverDailyNoteSettings,
@@ -196,7 +196,8 @@ export class DailyNoteFeature {
   }
 
   /**
-   * Update daily note from schedule (idempotent - adds missing tasks and removes unscheduled ones)
+   * Update daily note from schedule (idempotent - adds missing tasks, removes
+   * unscheduled ones and writes the schedule order and time boxes)
    */
   private async updateDailyNoteFromSchedule(schedule: Schedule): Promise<void> {
     // Only update daily note if schedule is planned
@@ -247,22 +248,16 @@ export class DailyNoteFeature {
       );
     }
 
-    // Find tasks to add (in schedule but not in daily note)
-    let tasksToAdd: Task[] = [];
-    for (const task of schedule.tasks) {
-      if (!existingTaskPaths.has(task.source.keys.obsidian!)) {
-        tasksToAdd.push(task);
-      }
-    }
-
-    // Add new tasks to daily note using InlineTaskEditor
-    if (tasksToAdd.length > 0) {
-      currentContent = this.inlineTaskEditor.addTasks(
-        currentContent,
-        tasksToAdd,
-        { section: "Tasks" }
-      );
-    }
+    // Add missing tasks and apply the schedule's order and time boxes
+    const tasksToAdd = schedule.tasks.filter(
+      (task) => !existingTaskPaths.has(task.source.keys.obsidian!)
+    );
+    currentContent = this.inlineTaskEditor.writeSchedule(
+      currentContent,
+      schedule.tasks,
+      schedule.timeBlocks,
+      { section: "Tasks" }
+    );
 
     // Only update if content actually changed
     const originalContent = await this.app.vault.read(dailyNoteResult.file!);
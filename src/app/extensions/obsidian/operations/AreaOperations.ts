@@ -8,6 +8,10 @@ import { get } from "svelte/store";
 import { Area } from "../../../core/entities";
 import { ObsidianEntityOperations } from "./EntityOperations";
 import { PROPERTY_REGISTRY } from "../utils/PropertyRegistry";
+import {
+  parseTaskDefaults,
+  generateTaskDefaultsFrontMatter,
+} from "../utils/TaskDefaultsFrontMatter";
 import type { TaskSyncSettings } from "../../../types/settings";
 import type { NoteKit } from "../../../core/note-kit/NoteKit";
 import { areaStore } from "../../../stores/areaStore";
@@ -43,6 +47,7 @@ export class ObsidianAreaOperations extends ObsidianEntityOperations<Area> {
       [PROPERTY_REGISTRY.TYPE.name]: "Area", // Always "Area" for area entities
       [PROPERTY_REGISTRY.TAGS.name]:
         area.tags && area.tags.length > 0 ? area.tags : undefined,
+      ...generateTaskDefaultsFrontMatter(area.taskDefaults),
     };
   }
 
@@ -200,6 +205,7 @@ export class ObsidianAreaOperations extends ObsidianEntityOperations<Area> {
       name: frontMatter.Name || file.basename,
       description: frontMatter.Description || "",
       tags: Array.isArray(frontMatter.Tags) ? frontMatter.Tags : [],
+      taskDefaults: parseTaskDefaults(frontMatter),
       source: {
         extension: "obsidian",
         keys: {
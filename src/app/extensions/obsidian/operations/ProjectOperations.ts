@@ -10,6 +10,10 @@ import { ObsidianEntityOperations } from "./EntityOperations";
 import { ObsidianBaseManager } from "../utils/BaseManager";
 import type { TaskSyncSettings } from "../../../types/settings";
 import { PROPERTY_REGISTRY } from "../utils/PropertyRegistry";
+import {
+  parseTaskDefaults,
+  generateTaskDefaultsFrontMatter,
+} from "../utils/TaskDefaultsFrontMatter";
 import { projectStore } from "../../../stores/projectStore";
 import { areaStore } from "../../../stores/areaStore";
 import { Projects } from "../../../entities/Projects";
@@ -118,6 +122,7 @@ export class ObsidianProjectOperations extends ObsidianEntityOperations<Project>
       description: frontMatter.Description || "",
       areas: Array.isArray(frontMatter.Areas) ? frontMatter.Areas : [], // Areas are plain names
       tags: Array.isArray(frontMatter.Tags) ? frontMatter.Tags : [],
+      taskDefaults: parseTaskDefaults(frontMatter),
       source: {
         extension: "obsidian",
         keys: {
@@ -161,6 +166,7 @@ export class ObsidianProjectOperations extends ObsidianEntityOperations<Project>
       [PROPERTY_REGISTRY.AREAS.name]: areasValue, // Areas as plain names (for Bases filtering)
       [PROPERTY_REGISTRY.TAGS.name]:
         project.tags && project.tags.length > 0 ? project.tags : undefined,
+      ...generateTaskDefaultsFrontMatter(project.taskDefaults),
     };
   }
 
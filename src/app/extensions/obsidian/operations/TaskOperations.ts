@@ -10,6 +10,8 @@ import { ObsidianEntityOperations } from "./EntityOperations";
 import { projectStore } from "../../../stores/projectStore";
 import { taskStore } from "../../../stores/taskStore";
 import { getDateString } from "../../../utils/dateFiltering";
+import { getTrackedMinutes } from "../../../utils/timeTracking";
+import { formatDuration } from "../../../core/note-kit/duration";
 import { PROPERTY_REGISTRY } from "../utils/PropertyRegistry";
 import type { TaskSyncSettings } from "../../../types/settings";
 
@@ -180,6 +182,14 @@ export class ObsidianTaskOperations extends ObsidianEntityOperations<Task> {
       }
     }
 
+    // Convert blocking tasks to wiki link format
+    const blockedByValue = (task.blockedBy || []).map((title) => {
+      if (title.startsWith("[[")) return title;
+      const blocker = this.findTaskByName(title);
+      const blockerFilePath = blocker?.source.keys.obsidian;
+      return blockerFilePath ? `[[${blockerFilePath}|${title}]]` : title;
+    });
+
     return {
       [PROPERTY_REGISTRY.TITLE.name]: task.title, // Use property name from registry
       [PROPERTY_REGISTRY.TYPE.name]: "Task", // Always "Task" for task entities
@@ -190,12 +200,22 @@ export class ObsidianTaskOperations extends ObsidianEntityOperations<Task> {
       [PROPERTY_REGISTRY.DONE.name]: task.done, // Done boolean
       [PROPERTY_REGISTRY.STATUS.name]: task.status, // Status
       [PROPERTY_REGISTRY.PARENT_TASK.name]: parentTaskValue, // Parent task in wiki link format
+      [PROPERTY_REGISTRY.BLOCKED_BY.name]: blockedByValue.length
+        ? blockedByValue
+        : null, // Blocking tasks in wiki link format
       [PROPERTY_REGISTRY.DO_DATE.name]: task.doDate
         ? getDateString(task.doDate)
         : null, // Do Date
       [PROPERTY_REGISTRY.DUE_DATE.name]: task.dueDate
         ? getDateString(task.dueDate)
         : null, // Due Date
+      [PROPERTY_REGISTRY.RECURRENCE.name]: task.recurrence || null, // RRULE
+      [PROPERTY_REGISTRY.TIME_LOG.name]: task.timeLog?.length
+        ? [...task.timeLog]
+        : null, // Time entries
+      [PROPERTY_REGISTRY.TIME_SPENT.name]: task.timeLog?.length
+        ? formatDuration(getTrackedMinutes(task.timeLog))
+        : null, // Running total of the time log
       [PROPERTY_REGISTRY.TAGS.name]: task.tags || [], // Tags array
       [PROPERTY_REGISTRY.REMINDERS.name]: [], // Reminders (not yet implemented)
       // Note: createdAt and updatedAt are NOT frontmatter properties according to registry
@@ -418,8 +438,15 @@ export class ObsidianTaskOperations extends ObsidianEntityOperations<Task> {
       project: cleanLinkFormat(frontMatter.Project),
       areas: areas,
       parentTask: cleanLinkFormat(frontMatter["Parent task"]),
+      blockedBy: Array.isArray(frontMatter["Blocked by"])
+        ? cleanLinkFormat(frontMatter["Blocked by"])
+        : undefined,
       doDate: parseDate(frontMatter["Do Date"]),
       dueDate: parseDate(frontMatter["Due Date"]),
+      recurrence: frontMatter.Recurrence || undefined,
+      timeLog: Array.isArray(frontMatter["Time Log"])
+        ? frontMatter["Time Log"].map(String)
+        : undefined,
       tags: frontMatter.tags || [],
       // Source information for tracking
       source: sourceInfo,
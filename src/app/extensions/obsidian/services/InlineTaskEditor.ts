@@ -4,11 +4,19 @@
  * Supports both section-aware and position-based operations
  */
 
-import type { Task } from "../../../core/entities";
+import type { ScheduleTimeBlock, Task } from "../../../core/entities";
 import type {
   InlineTodoItem,
   TaskSection,
 } from "./InlineTaskParser";
+import {
+  TIME_BOX_PREFIX_SOURCE,
+  formatScheduleLine,
+  linkMatchesPath,
+  parseScheduleLines,
+  sameTimeBox,
+  type TimeBox,
+} from "./ScheduleLineFormat";
 
 /**
  * Options for adding tasks to content
@@ -30,6 +38,14 @@ export interface RemoveTasksOptions {
   removeAll?: boolean;
 }
 
+/**
+ * Options for writing a schedule to content
+ */
+export interface WriteScheduleOptions {
+  /** Section name to add missing tasks to (defaults to "Tasks") */
+  section?: string;
+}
+
 /**
  * Edit inline tasks in note content
  * Provides high-level API for modifying notes with inline tasks
@@ -105,26 +121,28 @@ export class InlineTaskEditor {
       // - [x] [[Tasks/Task Name|Task Name]]
       // - [x] [[Task Name]]
       // - [ ] [[Tasks/Task Name|Display Text]] (any display text)
+      // - [ ] 09:00-10:30 [[Tasks/Task Name|Task Name]] (time-boxed)
+      const prefix = `^\\s*-\\s*\\[[ x]\\]\\s*${TIME_BOX_PREFIX_SOURCE}`;
 
       const patterns = [
         // Full path with pipe separator and any display text
         new RegExp(
-          `^\\s*-\\s*\\[[ x]\\]\\s*\\[\\[${escapedPath}\\|[^\\]]*\\]\\]\\s*$`,
+          `${prefix}\\[\\[${escapedPath}\\|[^\\]]*\\]\\]\\s*$`,
           "m"
         ),
         // Just title with pipe separator (matches any path before pipe)
         new RegExp(
-          `^\\s*-\\s*\\[[ x]\\]\\s*\\[\\[[^|]*\\|${escapedTitle}\\]\\]\\s*$`,
+          `${prefix}\\[\\[[^|]*\\|${escapedTitle}\\]\\]\\s*$`,
           "m"
         ),
         // Full path without pipe separator
         new RegExp(
-          `^\\s*-\\s*\\[[ x]\\]\\s*\\[\\[${escapedPath}\\]\\]\\s*$`,
+          `${prefix}\\[\\[${escapedPath}\\]\\]\\s*$`,
           "m"
         ),
         // Just title without pipe separator
         new RegExp(
-          `^\\s*-\\s*\\[[ x]\\]\\s*\\[\\[${escapedTitle}\\]\\]\\s*$`,
+          `${prefix}\\[\\[${escapedTitle}\\]\\]\\s*$`,
           "m"
         ),
       ];
@@ -161,27 +179,28 @@ export class InlineTaskEditor {
     const escapedPath = this.escapeRegex(taskPath);
     const escapedTitle = this.escapeRegex(taskTitle);
     const checkboxState = completed ? "[x]" : "[ ]";
+    const prefix = `^(\\s*-\\s*)\\[([ x])\\]\\s*(${TIME_BOX_PREFIX_SOURCE})`;
 
-    // Patterns to match task links in various formats
+    // Patterns to match task links in various formats, keeping any time box
     const patterns = [
       // Full path with pipe separator: [[path|display]] -> change checkbox
       new RegExp(
-        `^(\\s*-\\s*)\\[([ x])\\]\\s*(\\[\\[${escapedPath}\\|[^\\]]*\\]\\])`,
+        `${prefix}(\\[\\[${escapedPath}\\|[^\\]]*\\]\\])`,
         "m"
       ),
       // Just title with pipe separator: [[...|title]] -> change checkbox
       new RegExp(
-        `^(\\s*-\\s*)\\[([ x])\\]\\s*(\\[\\[[^|]*\\|${escapedTitle}\\]\\])`,
+        `${prefix}(\\[\\[[^|]*\\|${escapedTitle}\\]\\])`,
         "m"
       ),
       // Full path without pipe: [[path]] -> change checkbox
       new RegExp(
-        `^(\\s*-\\s*)\\[([ x])\\]\\s*(\\[\\[${escapedPath}\\]\\])`,
+        `${prefix}(\\[\\[${escapedPath}\\]\\])`,
         "m"
       ),
       // Just title without pipe: [[title]] -> change checkbox
       new RegExp(
-        `^(\\s*-\\s*)\\[([ x])\\]\\s*(\\[\\[${escapedTitle}\\]\\])`,
+        `${prefix}(\\[\\[${escapedTitle}\\]\\])`,
         "m"
       ),
     ];
@@ -189,12 +208,103 @@ export class InlineTaskEditor {
     let updatedContent = content;
 
     for (const pattern of patterns) {
-      updatedContent = updatedContent.replace(pattern, `$1${checkboxState} $3`);
+      updatedContent = updatedContent.replace(
+        pattern,
+        `$1${checkboxState} $3$4`
+      );
     }
 
     return updatedContent;
   }
 
+  /**
+   * Write a schedule's order and time boxes to note content
+   * Task lines already in the note are reordered within the lines they
+   * occupy, missing tasks are added after them, and lines whose task and
+   * time box didn't change are kept as written. Time boxes are left alone
+   * when timeBlocks is undefined. Removing unscheduled tasks is up to
+   * removeTasks.
+   * @param content The note content
+   * @param tasks Scheduled tasks in schedule order
+   * @param timeBlocks Time boxes of the scheduled tasks
+   * @param options Options for writing the schedule
+   * @returns Updated content following the schedule
+   */
+  writeSchedule(
+    content: string,
+    tasks: Task[],
+    timeBlocks?: ScheduleTimeBlock[],
+    options: WriteScheduleOptions = {}
+  ): string {
+    if (tasks.length === 0) {
+      return content;
+    }
+
+    const lines = content.split("\n");
+    const scheduleLines = parseScheduleLines(content);
+    const claimed = new Set<number>();
+    const slots: number[] = [];
+    const orderedLines: string[] = [];
+
+    for (const task of tasks) {
+      const taskPath = task.source.keys.obsidian!;
+      const block = timeBlocks?.find((b) => b.taskId === task.id);
+      const timeBox: TimeBox | undefined = block
+        ? { start: block.start, end: block.end }
+        : undefined;
+
+      const existing = scheduleLines.find(
+        (line) =>
+          !claimed.has(line.lineNumber) &&
+          linkMatchesPath(line.linkPath, taskPath)
+      );
+
+      if (!existing) {
+        orderedLines.push(
+          formatScheduleLine({
+            indentation: "",
+            listMarker: "-",
+            completed: false,
+            linkPath: taskPath,
+            displayText: task.title,
+            timeBox,
+          })
+        );
+        continue;
+      }
+
+      claimed.add(existing.lineNumber);
+      slots.push(existing.lineNumber);
+
+      if (timeBlocks === undefined || sameTimeBox(existing.timeBox, timeBox)) {
+        orderedLines.push(lines[existing.lineNumber]);
+      } else {
+        orderedLines.push(formatScheduleLine({ ...existing, timeBox }));
+      }
+    }
+
+    if (slots.length === 0) {
+      return this.insertTasksInSection(
+        content,
+        orderedLines,
+        options.section || "Tasks"
+      );
+    }
+
+    // Fill the occupied lines in schedule order, the last one taking any
+    // remaining (new) task lines with it
+    slots.sort((a, b) => a - b);
+    const lastSlot = slots.length - 1;
+
+    for (let i = lastSlot; i >= 0; i--) {
+      const replacement =
+        i === lastSlot ? orderedLines.slice(lastSlot) : [orderedLines[i]];
+      lines.splice(slots[i], 1, ...replacement);
+    }
+
+    return lines.join("\n");
+  }
+
   /**
    * Replace a todo line with a task link (for todo promotion)
    * Preserves indentation, list marker, and checkbox state
@@ -5,6 +5,7 @@
  */
 
 import { App, TFile, CachedMetadata, ListItemCache } from "obsidian";
+import { parseTimeBox, type TimeBox } from "./ScheduleLineFormat";
 
 /**
  * Represents an inline todo item extracted from a note
@@ -40,6 +41,8 @@ export interface InlineTask extends InlineTodoItem {
   linkPath: string;
   /** Whether this todo has a task link */
   hasTaskLink: boolean;
+  /** Time box written before the link, e.g. 09:00-10:30 (see ScheduleLineFormat) */
+  timeBox?: TimeBox;
 }
 
 /**
@@ -141,8 +144,9 @@ export class InlineTaskParser {
           file.path
         );
 
-        // Extract text from todo (handling wiki link formats)
-        const extractedText = this.extractTextFromTodo(todo.text, linkPath);
+        // Extract text from todo (handling time boxes and wiki link formats)
+        const { timeBox, text } = parseTimeBox(todo.text);
+        const extractedText = this.extractTextFromTodo(text, linkPath);
 
         inlineTasks.push({
           ...todo,
@@ -151,6 +155,7 @@ export class InlineTaskParser {
           linkPath,
           hasTaskLink: true,
           text: extractedText,
+          timeBox,
         });
       }
 
@@ -0,0 +1,172 @@
+/**
+ * Daily note schedule format
+ *
+ * The task links in a daily note are the schedule for that day. Each task is
+ * a todo linking to the task note, optionally time-boxed with a 24-hour local
+ * time range before the link:
+ *
+ *   ## Tasks
+ *   - [ ] 09:00-10:30 [[Tasks/Write report|Write report]]
+ *   - [x] [[Tasks/Review PRs|Review PRs]]
+ *
+ * Line order is the schedule order and the checkbox is the task's done state.
+ * Like the inline task parser, any todo whose first link is the task note
+ * counts, e.g. "- [ ] Follow up on [[Tasks/Write report]] #work". Lines are
+ * only rewritten when their time box changes, and then only the time box, so
+ * anything else in the note is left exactly as written.
+ */
+
+export interface TimeBox {
+  start: string; // "HH:mm"
+  end: string; // "HH:mm"
+}
+
+/**
+ * A todo line linking to a task, as written in a daily note
+ */
+export interface ScheduleLine {
+  lineNumber: number;
+  indentation: string;
+  listMarker: string;
+  completed: boolean;
+  /** Wiki link target, e.g. "Tasks/Write report" */
+  linkPath: string;
+  /** Wiki link display text, e.g. "Write report" from [[Tasks/Write report|Write report]] */
+  displayText?: string;
+  timeBox?: TimeBox;
+  /** Todo text after the time box as written, the link is formatted when missing */
+  text?: string;
+}
+
+const TODO_PATTERN = /^(\s*)([-*])\s*\[([xX\s])\]\s*(.+)$/;
+const TIME_BOX_PATTERN = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})\s+/;
+// First wiki link in the text, embeds (![[...]]) aren't links
+const WIKI_LINK_PATTERN = /(?<!!)\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/;
+
+/**
+ * Regex source matching an optional time box prefix, for use in line patterns
+ */
+export const TIME_BOX_PREFIX_SOURCE =
+  "(?:\\d{1,2}:\\d{2}\\s*-\\s*\\d{1,2}:\\d{2}\\s+)?";
+
+/**
+ * Split a leading time box off todo text
+ * Invalid times (e.g. "25:00" or an end before the start) aren't time boxes.
+ */
+export function parseTimeBox(text: string): {
+  timeBox?: TimeBox;
+  text: string;
+} {
+  const match = TIME_BOX_PATTERN.exec(text);
+  if (!match) return { text };
+
+  const [, startHours, startMinutes, endHours, endMinutes] = match.map(Number);
+  const start = toMinutes(startHours, startMinutes);
+  const end = toMinutes(endHours, endMinutes);
+
+  if (start === null || end === null || end <= start) return { text };
+
+  return {
+    timeBox: { start: formatMinutes(start), end: formatMinutes(end) },
+    text: text.slice(match[0].length),
+  };
+}
+
+/**
+ * Format a time box as written in daily notes, e.g. "09:00-10:30"
+ */
+export function formatTimeBox(timeBox: TimeBox): string {
+  return `${timeBox.start}-${timeBox.end}`;
+}
+
+/**
+ * Parse a todo line linking to a note, returning null for any other line
+ * The first link of the todo is the note it links to.
+ */
+export function parseScheduleLine(
+  line: string,
+  lineNumber: number
+): ScheduleLine | null {
+  const todo = TODO_PATTERN.exec(line);
+  if (!todo) return null;
+
+  const [, indentation, listMarker, checkbox, rest] = todo;
+  const { timeBox, text } = parseTimeBox(rest.trim());
+  const link = WIKI_LINK_PATTERN.exec(text);
+  if (!link) return null;
+
+  return {
+    lineNumber,
+    indentation,
+    listMarker,
+    completed: checkbox.toLowerCase() === "x",
+    linkPath: link[1].trim(),
+    displayText: link[2]?.trim() || undefined,
+    timeBox,
+    text,
+  };
+}
+
+/**
+ * Parse all todo lines linking to notes, in note order
+ */
+export function parseScheduleLines(content: string): ScheduleLine[] {
+  return content
+    .split("\n")
+    .map((line, lineNumber) => parseScheduleLine(line, lineNumber))
+    .filter((line): line is ScheduleLine => line !== null);
+}
+
+/**
+ * Format a schedule line
+ */
+export function formatScheduleLine(
+  line: Omit<ScheduleLine, "lineNumber">
+): string {
+  const checkbox = line.completed ? "[x]" : "[ ]";
+  const timeBox = line.timeBox ? `${formatTimeBox(line.timeBox)} ` : "";
+  const link = line.displayText
+    ? `[[${line.linkPath}|${line.displayText}]]`
+    : `[[${line.linkPath}]]`;
+
+  return `${line.indentation}${line.listMarker} ${checkbox} ${timeBox}${
+    line.text ?? link
+  }`;
+}
+
+/**
+ * Check whether a wiki link target refers to the task note at the given path
+ * Links may use the full path or just the note name, with or without ".md".
+ */
+export function linkMatchesPath(linkPath: string, filePath: string): boolean {
+  const link = stripExtension(linkPath);
+  const path = stripExtension(filePath);
+  return link === path || (!link.includes("/") && basename(path) === link);
+}
+
+/**
+ * Check whether two time boxes are the same
+ */
+export function sameTimeBox(a?: TimeBox, b?: TimeBox): boolean {
+  return a?.start === b?.start && a?.end === b?.end;
+}
+
+function toMinutes(hours: number, minutes: number): number | null {
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+function formatMinutes(total: number): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(Math.floor(total / 60))}:${pad(total % 60)}`;
+}
+
+function stripExtension(path: string): string {
+  return path.replace(/\.md$/, "");
+}
+
+function basename(path: string): string {
+  return path.split("/").pop() ?? path;
+}
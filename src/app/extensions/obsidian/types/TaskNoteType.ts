@@ -13,9 +13,13 @@ import {
   optionalBooleanSchema,
   optionalDateSchema,
   stringArraySchema,
+  optionalStringArraySchema,
+  optionalDurationSchema,
   enumSchema,
   withDefault,
+  customSchema,
 } from "../../../core/note-kit/schemas";
+import { isValidRecurrence } from "../../../utils/recurrence";
 
 /**
  * Default task categories with colors
@@ -255,6 +259,25 @@ export function buildTaskNoteType(): NoteType {
         hidden: true, // Hide from primary form section
       },
     },
+    blockedBy: {
+      key: "blockedBy",
+      name: "Blocked by",
+      type: "association",
+      schema: optionalStringArraySchema,
+      frontMatterKey: "Blocked by",
+      required: false,
+      description: "Tasks that must be done first (wiki link format)",
+      visible: true,
+      order: 9,
+      association: {
+        noteTypeId: "task",
+        multiple: true,
+        allowCreate: false,
+      },
+      form: {
+        hidden: true, // Hide from primary form section
+      },
+    },
     doDate: {
       key: "doDate",
       name: "Do Date",
@@ -264,7 +287,7 @@ export function buildTaskNoteType(): NoteType {
       required: false,
       description: "Date when task should be done",
       visible: true,
-      order: 9,
+      order: 10,
       form: {
         hidden: true, // Hide from primary form section
       },
@@ -278,7 +301,53 @@ export function buildTaskNoteType(): NoteType {
       required: false,
       description: "Deadline for task completion",
       visible: true,
-      order: 10,
+      order: 11,
+      form: {
+        hidden: true, // Hide from primary form section
+      },
+    },
+    recurrence: {
+      key: "recurrence",
+      name: "Recurrence",
+      type: "string",
+      schema: customSchema(
+        optionalStringSchema,
+        (value) => !value || isValidRecurrence(value),
+        "Invalid recurrence rule (expected an RRULE such as FREQ=WEEKLY;BYDAY=MO)"
+      ),
+      frontMatterKey: "Recurrence",
+      required: false,
+      description: "Repeat rule (RFC 5545 RRULE, e.g. FREQ=WEEKLY;BYDAY=MO)",
+      visible: true,
+      order: 12,
+      form: {
+        hidden: true, // Hide from primary form section
+      },
+    },
+    timeLog: {
+      key: "timeLog",
+      name: "Time Log",
+      type: "array",
+      schema: optionalStringArraySchema,
+      frontMatterKey: "Time Log",
+      required: false,
+      description: "Tracked time entries, recorded by the task timer",
+      visible: true,
+      order: 13,
+      form: {
+        hidden: true, // Hide from primary form section
+      },
+    },
+    timeSpent: {
+      key: "timeSpent",
+      name: "Time Spent",
+      type: "duration",
+      schema: optionalDurationSchema,
+      frontMatterKey: "Time Spent",
+      required: false,
+      description: "Total tracked time, updated when a timer stops",
+      visible: true,
+      order: 14,
       form: {
         hidden: true, // Hide from primary form section
       },
@@ -293,7 +362,7 @@ export function buildTaskNoteType(): NoteType {
       defaultValue: [],
       description: "Task tags",
       visible: true,
-      order: 11,
+      order: 15,
       form: {
         hidden: true, // Hide from primary form section
       },
@@ -319,7 +388,8 @@ export function buildTaskNoteType(): NoteType {
   const noteType: NoteType = {
     id: "task",
     name: "Task",
-    version: "1.0.0",
+    // 1.1.0 added recurrence, blockedBy, timeLog and timeSpent
+    version: "1.1.0",
     properties,
     template,
     metadata: {
@@ -25,8 +25,12 @@ export const PROPERTY_SETS = {
     "DONE",
     "STATUS",
     "PARENT_TASK",
+    "BLOCKED_BY",
     "DO_DATE",
     "DUE_DATE",
+    "RECURRENCE",
+    "TIME_LOG",
+    "TIME_SPENT",
     "TAGS",
     "REMINDERS",
   ] as const,
@@ -40,8 +44,11 @@ export const PROPERTY_SETS = {
     "DONE",
     "STATUS",
     "PARENT_TASK",
+    "BLOCKED_BY",
     "DO_DATE",
     "DUE_DATE",
+    "RECURRENCE",
+    "TIME_SPENT",
     "TAGS",
     "REMINDERS",
     "CREATED_AT",
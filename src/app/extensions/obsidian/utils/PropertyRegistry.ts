@@ -84,6 +84,13 @@ export const PROPERTY_REGISTRY: Record<string, PropertyDefinition> = {
     link: true,
     frontmatter: true,
   },
+  BLOCKED_BY: {
+    key: "blockedBy",
+    name: "Blocked by",
+    type: "array",
+    link: true,
+    frontmatter: true,
+  },
   DO_DATE: {
     key: "doDate",
     name: "Do Date",
@@ -96,6 +103,24 @@ export const PROPERTY_REGISTRY: Record<string, PropertyDefinition> = {
     type: "date",
     frontmatter: true,
   },
+  RECURRENCE: {
+    key: "recurrence",
+    name: "Recurrence",
+    type: "string",
+    frontmatter: true,
+  },
+  TIME_LOG: {
+    key: "timeLog",
+    name: "Time Log",
+    type: "array",
+    frontmatter: true,
+  },
+  TIME_SPENT: {
+    key: "timeSpent",
+    name: "Time Spent",
+    type: "string",
+    frontmatter: true,
+  },
   TAGS: {
     key: "tags",
     name: "Tags",
@@ -132,6 +157,31 @@ export const PROPERTY_REGISTRY: Record<string, PropertyDefinition> = {
     default: [],
     frontmatter: true,
   },
+  // Defaults for tasks created from a project or area note
+  TASK_TEMPLATE: {
+    key: "taskTemplate",
+    name: "Task Template",
+    type: "string",
+    frontmatter: true,
+  },
+  DEFAULT_PRIORITY: {
+    key: "defaultPriority",
+    name: "Default Priority",
+    type: "string",
+    frontmatter: true,
+  },
+  DEFAULT_CATEGORY: {
+    key: "defaultCategory",
+    name: "Default Category",
+    type: "string",
+    frontmatter: true,
+  },
+  DEFAULT_TAGS: {
+    key: "defaultTags",
+    name: "Default Tags",
+    type: "array",
+    frontmatter: true,
+  },
 } as const;
 
 /**
@@ -143,6 +193,10 @@ export function generateProjectFrontMatter(): PropertyDefinition[] {
     PROPERTY_REGISTRY.TYPE,
     PROPERTY_REGISTRY.AREAS,
     PROPERTY_REGISTRY.TAGS,
+    PROPERTY_REGISTRY.TASK_TEMPLATE,
+    PROPERTY_REGISTRY.DEFAULT_PRIORITY,
+    PROPERTY_REGISTRY.DEFAULT_CATEGORY,
+    PROPERTY_REGISTRY.DEFAULT_TAGS,
   ];
 }
 
@@ -154,6 +208,10 @@ export function generateAreaFrontMatter(): PropertyDefinition[] {
     PROPERTY_REGISTRY.NAME, // Use Name instead of Title for areas
     PROPERTY_REGISTRY.TYPE,
     PROPERTY_REGISTRY.TAGS,
+    PROPERTY_REGISTRY.TASK_TEMPLATE,
+    PROPERTY_REGISTRY.DEFAULT_PRIORITY,
+    PROPERTY_REGISTRY.DEFAULT_CATEGORY,
+    PROPERTY_REGISTRY.DEFAULT_TAGS,
   ];
 }
 
@@ -171,8 +229,12 @@ export function generateTaskFrontMatter(): PropertyDefinition[] {
     PROPERTY_REGISTRY.DONE,
     PROPERTY_REGISTRY.STATUS,
     PROPERTY_REGISTRY.PARENT_TASK,
+    PROPERTY_REGISTRY.BLOCKED_BY,
     PROPERTY_REGISTRY.DO_DATE,
     PROPERTY_REGISTRY.DUE_DATE,
+    PROPERTY_REGISTRY.RECURRENCE,
+    PROPERTY_REGISTRY.TIME_LOG,
+    PROPERTY_REGISTRY.TIME_SPENT,
     PROPERTY_REGISTRY.TAGS,
     PROPERTY_REGISTRY.REMINDERS,
   ];
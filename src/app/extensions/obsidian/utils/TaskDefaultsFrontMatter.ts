@@ -0,0 +1,59 @@
+/**
+ * Front-matter mapping for the task defaults of project and area notes
+ */
+
+import type { TaskDefaults } from "../../../core/entities";
+import { PROPERTY_REGISTRY } from "./PropertyRegistry";
+
+/**
+ * Read task defaults from a project or area note's front-matter
+ * Returns undefined when the note doesn't configure any.
+ */
+export function parseTaskDefaults(
+  frontMatter: Record<string, any>
+): TaskDefaults | undefined {
+  const template = cleanTemplateName(
+    frontMatter[PROPERTY_REGISTRY.TASK_TEMPLATE.name]
+  );
+  const priority = frontMatter[PROPERTY_REGISTRY.DEFAULT_PRIORITY.name];
+  const category = frontMatter[PROPERTY_REGISTRY.DEFAULT_CATEGORY.name];
+  const tags = frontMatter[PROPERTY_REGISTRY.DEFAULT_TAGS.name];
+
+  const defaults: TaskDefaults = {
+    template,
+    priority: typeof priority === "string" && priority ? priority : undefined,
+    category: typeof category === "string" && category ? category : undefined,
+    tags: Array.isArray(tags) && tags.length > 0 ? tags.map(String) : undefined,
+  };
+
+  return Object.values(defaults).some((value) => value !== undefined)
+    ? defaults
+    : undefined;
+}
+
+/**
+ * Front-matter properties for task defaults, undefined values are dropped
+ * by the entity operations
+ */
+export function generateTaskDefaultsFrontMatter(
+  defaults: TaskDefaults | undefined
+): Record<string, any> {
+  return {
+    [PROPERTY_REGISTRY.TASK_TEMPLATE.name]: defaults?.template,
+    [PROPERTY_REGISTRY.DEFAULT_PRIORITY.name]: defaults?.priority,
+    [PROPERTY_REGISTRY.DEFAULT_CATEGORY.name]: defaults?.category,
+    [PROPERTY_REGISTRY.DEFAULT_TAGS.name]: defaults?.tags?.length
+      ? defaults.tags
+      : undefined,
+  };
+}
+
+// Templates may be given as wiki links, e.g. "[[Templates/Bug.md]]"
+function cleanTemplateName(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const name = value
+    .trim()
+    .replace(/^\[\[(.*?)(\|.*)?\]\]$/, "$1")
+    .trim();
+  return name || undefined;
+}
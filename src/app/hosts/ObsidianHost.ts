@@ -16,6 +16,9 @@ import { eventBus } from "../core/events";
 import { taskStore } from "../stores/taskStore";
 import { projectStore } from "../stores/projectStore";
 import { areaStore } from "../stores/areaStore";
+import { syncConflictStore } from "../stores/syncConflictStore";
+import { syncJournalStore } from "../stores/syncJournalStore";
+import { syncManager } from "../core/SyncManager";
 import { get } from "svelte/store";
 import { taskSyncApp } from "../App";
 import { isPlanningActive } from "../stores/contextStore";
@@ -230,6 +233,14 @@ export class ObsidianHost extends Host {
     new Notice(message, duration);
   }
 
+  /**
+   * Show the queued sync conflicts in the sync conflict modal.
+   */
+  async openSyncConflicts(): Promise<void> {
+    const { SyncConflictModal } = await import("../modals/SyncConflictModal");
+    new SyncConflictModal(this.plugin.app).open();
+  }
+
   /**
    * Get an extension by its ID.
    * For the "local" service ID, this returns the ObsidianExtension.
@@ -278,11 +289,21 @@ export class ObsidianHost extends Host {
           const tasks = get(taskStore).tasks;
           const projects = get(projectStore).projects;
           const areas = get(areaStore).areas;
+          const syncConflicts = get(syncConflictStore).conflicts;
+          const syncSnapshots = syncManager?.getSnapshots();
+          const syncJournal = get(syncJournalStore).entries;
+
+          // Preserve data other components keep next to the entities
+          const existingData = (await this.loadData()) || {};
 
           const data = {
+            ...existingData,
             tasks,
             projects,
             areas,
+            syncConflicts,
+            syncSnapshots: syncSnapshots ?? existingData.syncSnapshots,
+            syncJournal,
             lastSync: new Date().toISOString(),
           };
 
@@ -308,6 +329,10 @@ export class ObsidianHost extends Host {
     eventBus.on("areas.updated", persistData);
     eventBus.on("areas.deleted", persistData);
     eventBus.on("areas.loaded", persistData);
+
+    eventBus.on("sync.conflicts.updated", persistData);
+    eventBus.on("sync.snapshots.updated", persistData);
+    eventBus.on("sync.journal.updated", persistData);
   }
 
   /**
@@ -335,6 +360,10 @@ export class ObsidianHost extends Host {
     eventBus.clearHandlers("areas.updated");
     eventBus.clearHandlers("areas.deleted");
     eventBus.clearHandlers("areas.loaded");
+
+    eventBus.clearHandlers("sync.conflicts.updated");
+    eventBus.clearHandlers("sync.snapshots.updated");
+    eventBus.clearHandlers("sync.journal.updated");
   }
 
   /**
@@ -20,6 +20,7 @@ export class CreateEntityModal extends Modal {
   private preselectedNoteTypeId?: string;
   private initialPropertyValues?: Record<string, any>;
   private contextualTitle?: string;
+  private templateContent?: string;
 
   constructor(
     app: App,
@@ -28,6 +29,7 @@ export class CreateEntityModal extends Modal {
     options?: {
       initialPropertyValues?: Record<string, any>;
       contextualTitle?: string;
+      templateContent?: string; // Replaces the note type's template
     }
   ) {
     super(app);
@@ -37,6 +39,7 @@ export class CreateEntityModal extends Modal {
     this.preselectedNoteTypeId = preselectedNoteTypeId;
     this.initialPropertyValues = options?.initialPropertyValues;
     this.contextualTitle = options?.contextualTitle;
+    this.templateContent = options?.templateContent;
   }
 
   onOpen() {
@@ -63,6 +66,7 @@ export class CreateEntityModal extends Modal {
         preselectedNoteTypeId: this.preselectedNoteTypeId,
         initialPropertyValues: this.initialPropertyValues,
         contextualTitle: this.contextualTitle,
+        templateContent: this.templateContent,
         onsubmit: async (data: {
           noteType: NoteType;
           properties: Record<string, any>;
@@ -0,0 +1,106 @@
+/**
+ * Import Note Types Modal
+ * Obsidian modal wrapper for the ImportNoteTypesModal Svelte component
+ */
+
+import { App, Modal, Notice, TFile } from "obsidian";
+import { mount, unmount } from "svelte";
+import ImportNoteTypesModalSvelte from "../components/ImportNoteTypesModal.svelte";
+import type { NoteKit } from "../core/note-kit/NoteKit";
+import type { NoteType } from "../core/note-kit/types";
+import {
+  NOTE_TYPES_FILE_EXTENSION,
+  applyNoteTypeImport,
+  type NoteTypeImportMode,
+} from "../core/note-kit/type-exchange";
+
+export class ImportNoteTypesModal extends Modal {
+  private component: any = null;
+
+  constructor(
+    app: App,
+    private typeNote: NoteKit,
+    private onImported: () => void
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const vaultFiles = this.app.vault
+      .getFiles()
+      .filter((file) => file.path.endsWith(NOTE_TYPES_FILE_EXTENSION))
+      .map((file) => file.path);
+
+    try {
+      this.component = mount(ImportNoteTypesModalSvelte, {
+        target: contentEl,
+        props: {
+          registry: this.typeNote.registry,
+          vaultFiles,
+          readVaultFile: (path: string) => this.readVaultFile(path),
+          onimport: (noteTypes: NoteType[], mode: NoteTypeImportMode) =>
+            this.importNoteTypes(noteTypes, mode),
+          onclose: () => {
+            this.close();
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Failed to mount ImportNoteTypesModal component:", error);
+      contentEl.createEl("div", {
+        text: "Failed to load note type import: " + error.message,
+      });
+    }
+  }
+
+  onClose() {
+    if (this.component) {
+      try {
+        void unmount(this.component);
+        this.component = null;
+      } catch (error) {
+        console.error(
+          "Failed to unmount ImportNoteTypesModal component:",
+          error
+        );
+      }
+    }
+
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  private async readVaultFile(path: string): Promise<string> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return this.app.vault.read(file);
+  }
+
+  private async importNoteTypes(
+    noteTypes: NoteType[],
+    mode: NoteTypeImportMode
+  ): Promise<void> {
+    const registry = this.typeNote.registry;
+    const result = applyNoteTypeImport(registry, noteTypes, mode);
+
+    // Wait for persistence to complete before reporting the outcome
+    if (typeof (registry as any).waitForPersistence === "function") {
+      await (registry as any).waitForPersistence();
+    }
+
+    this.onImported();
+
+    if (result.errors.length > 0) {
+      throw new Error(result.errors.map((e) => e.message).join(", "));
+    }
+
+    new Notice(
+      `Imported note types: ${result.added.length} added, ${result.updated.length} updated, ${result.unchanged.length} unchanged`
+    );
+  }
+}
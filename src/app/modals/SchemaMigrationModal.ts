@@ -0,0 +1,66 @@
+/**
+ * Schema Migration Modal
+ * Obsidian modal wrapper for the SchemaMigrationModal Svelte component
+ */
+
+import { App, Modal } from "obsidian";
+import { mount, unmount } from "svelte";
+import SchemaMigrationModalSvelte from "../components/SchemaMigrationModal.svelte";
+import type {
+  DeclarativeMigrationDefinition,
+  FileMigrationPreview,
+} from "../core/note-kit";
+
+export class SchemaMigrationModal extends Modal {
+  private component: any = null;
+
+  constructor(
+    app: App,
+    private definition: DeclarativeMigrationDefinition,
+    private previews: FileMigrationPreview[],
+    private onconfirm: (migrate: boolean) => Promise<void>
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    try {
+      this.component = mount(SchemaMigrationModalSvelte, {
+        target: contentEl,
+        props: {
+          definition: this.definition,
+          previews: this.previews,
+          onconfirm: this.onconfirm,
+          onclose: () => {
+            this.close();
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Failed to mount SchemaMigrationModal component:", error);
+      contentEl.createEl("div", {
+        text: "Failed to load migration preview: " + error.message,
+      });
+    }
+  }
+
+  onClose() {
+    if (this.component) {
+      try {
+        void unmount(this.component);
+        this.component = null;
+      } catch (error) {
+        console.error(
+          "Failed to unmount SchemaMigrationModal component:",
+          error
+        );
+      }
+    }
+
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Sync Conflict Modal
+ * Obsidian modal wrapper for the SyncConflictModal Svelte component
+ */
+
+import { App, Modal } from "obsidian";
+import { mount, unmount } from "svelte";
+import SyncConflictModalSvelte from "../components/SyncConflictModal.svelte";
+import { syncManager } from "../core/SyncManager";
+
+export class SyncConflictModal extends Modal {
+  private component: any = null;
+
+  constructor(app: App) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    try {
+      this.component = mount(SyncConflictModalSvelte, {
+        target: contentEl,
+        props: {
+          onresolve: (conflictId: string, value: unknown) =>
+            syncManager.resolveConflict(conflictId, value),
+          onclose: () => {
+            this.close();
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Failed to mount SyncConflictModal component:", error);
+      contentEl.createEl("div", {
+        text: "Failed to load sync conflicts: " + error.message,
+      });
+    }
+  }
+
+  onClose() {
+    if (this.component) {
+      try {
+        void unmount(this.component);
+        this.component = null;
+      } catch (error) {
+        console.error("Failed to unmount SyncConflictModal component:", error);
+      }
+    }
+
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
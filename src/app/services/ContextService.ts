@@ -7,7 +7,7 @@
 import { App } from "obsidian";
 import type { FileContext } from "../types/context";
 import type { TaskSyncSettings } from "../types/settings";
-import type { Task, Project, Area } from "../core/entities";
+import type { Task, Project, Area, TaskDefaults } from "../core/entities";
 import { TaskQueryService } from "./TaskQueryService";
 import { ProjectQueryService } from "./ProjectQueryService";
 import { AreaQueryService } from "./AreaQueryService";
@@ -15,6 +15,7 @@ import { taskStore } from "../stores/taskStore";
 import { projectStore } from "../stores/projectStore";
 import { areaStore } from "../stores/areaStore";
 import { get } from "svelte/store";
+import { resolveTaskDefaults } from "../utils/taskDefaults";
 
 export class ContextService {
   private app: App;
@@ -71,12 +72,32 @@ export class ContextService {
       }
     }
 
+    const context: FileContext = { ...baseContext, entity };
+
     return {
-      ...baseContext,
-      entity,
+      ...context,
+      taskDefaults: this.getTaskDefaults(context),
     };
   }
 
+  /**
+   * Get the defaults for tasks created in a project or area context
+   * Defaults are configured in the project or area note's front-matter.
+   */
+  getTaskDefaults(context: FileContext): TaskDefaults | undefined {
+    if (
+      !context.entity ||
+      (context.type !== "project" && context.type !== "area")
+    ) {
+      return undefined;
+    }
+
+    return resolveTaskDefaults(
+      context.entity as Project | Area,
+      get(areaStore).areas
+    );
+  }
+
   /**
    * Detect the context of the currently active file (without entity resolution)
    */
@@ -0,0 +1,612 @@
+/**
+ * TaskQueryLanguage - Textual query language for tasks
+ *
+ * Parses queries such as `status:"In Progress" area:Work due<7d -tag:someday
+ * priority>=High` into an AST and evaluates it against Task entities.
+ *
+ * Syntax:
+ * - Terms are combined with AND (implicit or explicit) and OR; parentheses group
+ * - `-term` or `NOT term` negates a term
+ * - `field:value`, `field=value`, `field!=value` match a field
+ * - `field<value`, `<=`, `>`, `>=` compare dates and priorities
+ * - Bare words and "quoted phrases" search title, description, project and areas
+ *
+ * Date values are `today`, `tomorrow`, `yesterday`, relative offsets from today
+ * (`7d`, `-2w`, `1m`, `1y`) or ISO dates (`2025-01-31`).
+ */
+
+import type { Task } from "../core/entities";
+
+export type TaskQueryOperator = ":" | "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+export type TaskQueryField =
+  | "title"
+  | "description"
+  | "status"
+  | "priority"
+  | "category"
+  | "project"
+  | "area"
+  | "tag"
+  | "source"
+  | "parent"
+  | "due"
+  | "do"
+  | "created"
+  | "updated"
+  | "is"
+  | "has";
+
+export type TaskQueryNode =
+  | { type: "and"; children: TaskQueryNode[] }
+  | { type: "or"; children: TaskQueryNode[] }
+  | { type: "not"; child: TaskQueryNode }
+  | { type: "text"; value: string }
+  | {
+      type: "field";
+      field: TaskQueryField;
+      operator: TaskQueryOperator;
+      value: string;
+    };
+
+/**
+ * Evaluation context for values that depend on settings or the current time
+ */
+export interface TaskQueryContext {
+  /** Priority names from lowest to highest, used for priority comparisons */
+  priorities?: string[];
+
+  /** Reference time for relative dates (defaults to now) */
+  now?: Date;
+}
+
+export class TaskQueryError extends Error {
+  constructor(
+    message: string,
+    public position: number
+  ) {
+    super(message);
+    this.name = "TaskQueryError";
+  }
+}
+
+const DEFAULT_PRIORITIES = ["Low", "Medium", "High", "Urgent"];
+
+const FIELD_ALIASES: Record<string, TaskQueryField> = {
+  title: "title",
+  description: "description",
+  desc: "description",
+  status: "status",
+  priority: "priority",
+  category: "category",
+  project: "project",
+  area: "area",
+  areas: "area",
+  tag: "tag",
+  tags: "tag",
+  source: "source",
+  parent: "parent",
+  due: "due",
+  do: "do",
+  scheduled: "do",
+  created: "created",
+  updated: "updated",
+  is: "is",
+  has: "has",
+};
+
+const DATE_FIELDS: TaskQueryField[] = ["due", "do", "created", "updated"];
+const IS_VALUES = ["done", "open", "recurring", "overdue", "scheduled"];
+const HAS_VALUES = [
+  "due",
+  "do",
+  "project",
+  "area",
+  "tag",
+  "description",
+  "parent",
+  "recurrence",
+];
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type Token =
+  | { type: "lparen" | "rparen" | "not" | "and" | "or"; position: number }
+  | { type: "text"; value: string; position: number }
+  | {
+      type: "field";
+      field: TaskQueryField;
+      operator: TaskQueryOperator;
+      value: string;
+      position: number;
+    };
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const isDelimiter = (char: string | undefined) =>
+    char === undefined || /\s/.test(char) || char === "(" || char === ")";
+
+  const readQuoted = (): string => {
+    const start = i;
+    let value = "";
+    i++; // opening quote
+    while (i < query.length && query[i] !== '"') {
+      if (query[i] === "\\" && i + 1 < query.length) {
+        i++;
+      }
+      value += query[i];
+      i++;
+    }
+    if (i >= query.length) {
+      throw new TaskQueryError("Unterminated quoted value", start);
+    }
+    i++; // closing quote
+    return value;
+  };
+
+  const readBare = (): string => {
+    const start = i;
+    while (!isDelimiter(query[i])) {
+      i++;
+    }
+    return query.slice(start, i);
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+    const position = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(") {
+      tokens.push({ type: "lparen", position });
+      i++;
+    } else if (char === ")") {
+      tokens.push({ type: "rparen", position });
+      i++;
+    } else if (char === "-" && !isDelimiter(query[i + 1])) {
+      tokens.push({ type: "not", position });
+      i++;
+    } else if (char === '"') {
+      tokens.push({ type: "text", value: readQuoted(), position });
+    } else {
+      const field = /^([A-Za-z]+)(!=|<=|>=|:|=|<|>)/.exec(query.slice(i));
+      const alias = field ? FIELD_ALIASES[field[1].toLowerCase()] : undefined;
+
+      if (field && alias) {
+        i += field[0].length;
+        const value = query[i] === '"' ? readQuoted() : readBare();
+        if (!value) {
+          throw new TaskQueryError(
+            `Missing value for "${field[1]}"`,
+            position
+          );
+        }
+        tokens.push({
+          type: "field",
+          field: alias,
+          operator: field[2] as TaskQueryOperator,
+          value,
+          position,
+        });
+      } else {
+        const word = readBare();
+        if (word === "OR" || word === "AND" || word === "NOT") {
+          tokens.push({
+            type: word.toLowerCase() as "or" | "and" | "not",
+            position,
+          });
+        } else {
+          tokens.push({ type: "text", value: word, position });
+        }
+      }
+    }
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+/**
+ * Parse a query string into an AST
+ * Returns null for empty queries; throws TaskQueryError for invalid ones
+ */
+export function parseTaskQuery(query: string): TaskQueryNode | null {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  let index = 0;
+  const peek = () => tokens[index];
+  const end = () => query.length;
+
+  const parseOr = (): TaskQueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.type === "or") {
+      index++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  };
+
+  const parseAnd = (): TaskQueryNode => {
+    const children = [parseUnary()];
+    for (;;) {
+      const token = peek();
+      if (!token || token.type === "or" || token.type === "rparen") {
+        break;
+      }
+      if (token.type === "and") {
+        index++;
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  };
+
+  const parseUnary = (): TaskQueryNode => {
+    const token = peek();
+    if (!token) {
+      throw new TaskQueryError("Unexpected end of query", end());
+    }
+
+    switch (token.type) {
+      case "not":
+        index++;
+        return { type: "not", child: parseUnary() };
+      case "lparen": {
+        index++;
+        const node = parseOr();
+        if (peek()?.type !== "rparen") {
+          throw new TaskQueryError('Missing closing ")"', token.position);
+        }
+        index++;
+        return node;
+      }
+      case "text":
+        index++;
+        return { type: "text", value: token.value };
+      case "field":
+        index++;
+        validateFieldTerm(
+          token.field,
+          token.operator,
+          token.value,
+          token.position
+        );
+        return {
+          type: "field",
+          field: token.field,
+          operator: token.operator,
+          value: token.value,
+        };
+      default:
+        throw new TaskQueryError(
+          `Unexpected "${query.slice(token.position).split(/\s/)[0]}"`,
+          token.position
+        );
+    }
+  };
+
+  const node = parseOr();
+  const rest = peek();
+  if (rest) {
+    throw new TaskQueryError(
+      rest.type === "rparen" ? 'Unexpected ")"' : "Unexpected token",
+      rest.position
+    );
+  }
+  return node;
+}
+
+function validateFieldTerm(
+  field: TaskQueryField,
+  operator: TaskQueryOperator,
+  value: string,
+  position: number
+): void {
+  const comparison = ["<", "<=", ">", ">="].includes(operator);
+
+  if (DATE_FIELDS.includes(field)) {
+    if (!resolveQueryDate(value, new Date())) {
+      throw new TaskQueryError(
+        `Invalid date "${value}" for ${field}`,
+        position
+      );
+    }
+    return;
+  }
+
+  if (comparison && field !== "priority") {
+    throw new TaskQueryError(
+      `Operator ${operator} isn't supported for ${field}`,
+      position
+    );
+  }
+
+  if (field === "is" && !IS_VALUES.includes(value.toLowerCase())) {
+    throw new TaskQueryError(
+      `Unknown value "${value}" for is, expected one of ${IS_VALUES.join(", ")}`,
+      position
+    );
+  }
+
+  if (field === "has" && !HAS_VALUES.includes(value.toLowerCase())) {
+    throw new TaskQueryError(
+      `Unknown value "${value}" for has, expected one of ${HAS_VALUES.join(", ")}`,
+      position
+    );
+  }
+}
+
+/**
+ * Resolve a query date value to the start of that day
+ * Returns null for unrecognized values
+ */
+export function resolveQueryDate(value: string, now: Date): Date | null {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const lower = value.toLowerCase();
+
+  if (lower === "today") {
+    return today;
+  }
+  if (lower === "tomorrow" || lower === "yesterday") {
+    today.setDate(today.getDate() + (lower === "tomorrow" ? 1 : -1));
+    return today;
+  }
+
+  const relative = /^([+-]?\d+)([dwmy])$/.exec(lower);
+  if (relative) {
+    const amount = Number(relative[1]);
+    switch (relative[2]) {
+      case "d":
+        today.setDate(today.getDate() + amount);
+        break;
+      case "w":
+        today.setDate(today.getDate() + amount * 7);
+        break;
+      case "m":
+        today.setMonth(today.getMonth() + amount);
+        break;
+      case "y":
+        today.setFullYear(today.getFullYear() + amount);
+        break;
+    }
+    return today;
+  }
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (iso) {
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// EVALUATOR
+// ============================================================================
+
+/**
+ * Check if a task matches a parsed query
+ */
+export function evaluateTaskQuery(
+  node: TaskQueryNode,
+  task: Task,
+  context: TaskQueryContext = {}
+): boolean {
+  switch (node.type) {
+    case "and":
+      return node.children.every((child) =>
+        evaluateTaskQuery(child, task, context)
+      );
+    case "or":
+      return node.children.some((child) =>
+        evaluateTaskQuery(child, task, context)
+      );
+    case "not":
+      return !evaluateTaskQuery(node.child, task, context);
+    case "text":
+      return matchesText(task, node.value.toLowerCase());
+    case "field":
+      return matchesField(task, node, context);
+  }
+}
+
+function matchesText(task: Task, value: string): boolean {
+  return (
+    task.title.toLowerCase().includes(value) ||
+    !!task.description?.toLowerCase().includes(value) ||
+    !!task.project?.toLowerCase().includes(value) ||
+    task.areas.some((area) => area.toLowerCase().includes(value))
+  );
+}
+
+function matchesField(
+  task: Task,
+  node: Extract<TaskQueryNode, { type: "field" }>,
+  context: TaskQueryContext
+): boolean {
+  const { field, operator, value } = node;
+  const now = context.now ?? new Date();
+
+  switch (field) {
+    case "title":
+      return matchesString(task.title, operator, value, true);
+    case "description":
+      return matchesString(task.description, operator, value, true);
+    case "parent":
+      return matchesString(task.parentTask, operator, value, true);
+    case "status":
+      return matchesString(task.status, operator, value);
+    case "category":
+      return matchesString(task.category, operator, value);
+    case "project":
+      return matchesString(task.project, operator, value);
+    case "source":
+      return matchesString(task.source.extension, operator, value);
+    case "area":
+      return matchesList(task.areas, operator, value);
+    case "tag":
+      return matchesList(
+        task.tags.map((tag) => tag.replace(/^#/, "")),
+        operator,
+        value.replace(/^#/, "")
+      );
+    case "priority":
+      return matchesPriority(task.priority, operator, value, context);
+    case "due":
+      return matchesDate(task.dueDate, operator, value, now);
+    case "do":
+      return matchesDate(task.doDate, operator, value, now);
+    case "created":
+      return matchesDate(task.createdAt, operator, value, now);
+    case "updated":
+      return matchesDate(task.updatedAt, operator, value, now);
+    case "is":
+      return negateFor(operator, matchesIs(task, value.toLowerCase(), now));
+    case "has":
+      return negateFor(operator, matchesHas(task, value.toLowerCase()));
+  }
+}
+
+function negateFor(operator: TaskQueryOperator, result: boolean): boolean {
+  return operator === "!=" ? !result : result;
+}
+
+function matchesString(
+  actual: string | undefined,
+  operator: TaskQueryOperator,
+  value: string,
+  contains = false
+): boolean {
+  const lowerActual = (actual ?? "").toLowerCase();
+  const lowerValue = value.toLowerCase();
+
+  switch (operator) {
+    case ":":
+      return contains
+        ? lowerActual.includes(lowerValue)
+        : lowerActual === lowerValue;
+    case "=":
+      return lowerActual === lowerValue;
+    case "!=":
+      return lowerActual !== lowerValue;
+    default:
+      return false;
+  }
+}
+
+function matchesList(
+  items: string[],
+  operator: TaskQueryOperator,
+  value: string
+): boolean {
+  const lowerValue = value.toLowerCase();
+  const found = items.some((item) => item.toLowerCase() === lowerValue);
+  return operator === "!=" ? !found : found;
+}
+
+function matchesPriority(
+  priority: string | undefined,
+  operator: TaskQueryOperator,
+  value: string,
+  context: TaskQueryContext
+): boolean {
+  if (operator === ":" || operator === "=" || operator === "!=") {
+    return matchesString(priority, operator, value);
+  }
+
+  const priorities = (context.priorities ?? DEFAULT_PRIORITIES).map((p) =>
+    p.toLowerCase()
+  );
+  const actual = priority ? priorities.indexOf(priority.toLowerCase()) : -1;
+  const expected = priorities.indexOf(value.toLowerCase());
+  if (actual === -1 || expected === -1) {
+    return false;
+  }
+
+  return compare(actual - expected, operator);
+}
+
+function matchesDate(
+  date: Date | undefined | null,
+  operator: TaskQueryOperator,
+  value: string,
+  now: Date
+): boolean {
+  const target = resolveQueryDate(value, now);
+  if (!(date instanceof Date) || isNaN(date.getTime()) || !target) {
+    return operator === "!=";
+  }
+
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return compare(day.getTime() - target.getTime(), operator);
+}
+
+function compare(difference: number, operator: TaskQueryOperator): boolean {
+  switch (operator) {
+    case ":":
+    case "=":
+      return difference === 0;
+    case "!=":
+      return difference !== 0;
+    case "<":
+      return difference < 0;
+    case "<=":
+      return difference <= 0;
+    case ">":
+      return difference > 0;
+    case ">=":
+      return difference >= 0;
+  }
+}
+
+function matchesIs(task: Task, value: string, now: Date): boolean {
+  switch (value) {
+    case "done":
+      return task.done;
+    case "open":
+      return !task.done;
+    case "recurring":
+      return !!task.recurrence;
+    case "scheduled":
+      return !!task.doDate;
+    case "overdue":
+      return !task.done && matchesDate(task.dueDate, "<", "today", now);
+    default:
+      return false;
+  }
+}
+
+function matchesHas(task: Task, value: string): boolean {
+  switch (value) {
+    case "due":
+      return !!task.dueDate;
+    case "do":
+      return !!task.doDate;
+    case "project":
+      return !!task.project;
+    case "area":
+      return task.areas.length > 0;
+    case "tag":
+      return task.tags.length > 0;
+    case "description":
+      return !!task.description?.trim();
+    case "parent":
+      return !!task.parentTask;
+    case "recurrence":
+      return !!task.recurrence;
+    default:
+      return false;
+  }
+}
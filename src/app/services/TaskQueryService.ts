@@ -9,6 +9,12 @@
  */
 
 import type { Task } from "../core/entities";
+import {
+  parseTaskQuery,
+  evaluateTaskQuery,
+  type TaskQueryNode,
+  type TaskQueryContext,
+} from "./TaskQueryLanguage";
 
 /**
  * Filter criteria for tasks
@@ -72,6 +78,29 @@ export class TaskQueryService {
     );
   }
 
+  /**
+   * Filter tasks with the task query language
+   * (e.g. `status:"In Progress" area:Work due<7d -tag:someday priority>=High`)
+   *
+   * @param tasks - Array of tasks to filter
+   * @param query - Query string or a parsed query AST
+   * @param context - Priority order and reference time for evaluation
+   * @returns Filtered array of tasks matching the query
+   * @throws TaskQueryError when a query string can't be parsed
+   */
+  static query(
+    tasks: readonly Task[],
+    query: string | TaskQueryNode | null,
+    context: TaskQueryContext = {}
+  ): readonly Task[] {
+    const node = typeof query === "string" ? parseTaskQuery(query) : query;
+    if (!node) {
+      return tasks;
+    }
+
+    return tasks.filter((task) => evaluateTaskQuery(node, task, context));
+  }
+
   /**
    * Filter tasks by various criteria
    *
@@ -7,6 +7,7 @@
  */
 
 import type { Task, Project, Area } from "../core/entities";
+import type { SyncConflict, SyncJournalEntry } from "../core/SyncManager";
 
 /**
  * Task-related actions
@@ -68,3 +69,37 @@ export type AreaAction =
   | { type: "REMOVE_AREA"; areaId: string }
   | { type: "SET_LOADING"; loading: boolean }
   | { type: "SET_ERROR"; error: string | null };
+
+/**
+ * Sync conflict actions
+ *
+ * Action types:
+ * - LOAD_CONFLICTS - For restoring persisted conflicts on startup
+ * - QUEUE_CONFLICT - For adding a conflict (replaces one for the same entity field)
+ * - RESOLVE_CONFLICT - For removing a conflict once a value was picked
+ * - CLEAR_ENTITY_CONFLICTS - For dropping an entity's conflicts, except keepFields
+ */
+export type SyncConflictAction =
+  | { type: "LOAD_CONFLICTS"; conflicts: readonly SyncConflict[] }
+  | { type: "QUEUE_CONFLICT"; conflict: SyncConflict }
+  | { type: "RESOLVE_CONFLICT"; conflictId: string }
+  | {
+      type: "CLEAR_ENTITY_CONFLICTS";
+      entityId: string;
+      keepFields?: readonly string[];
+    };
+
+/**
+ * Sync journal actions
+ *
+ * Action types:
+ * - LOAD_JOURNAL - For restoring the persisted journal on startup
+ * - RECORD_SYNC_CHANGES - For appending the changes of a sync run
+ * - MARK_SYNC_UNDONE - For flagging the changes of a sync run as reverted
+ * - CLEAR_JOURNAL - For removing all entries
+ */
+export type SyncJournalAction =
+  | { type: "LOAD_JOURNAL"; entries: readonly SyncJournalEntry[] }
+  | { type: "RECORD_SYNC_CHANGES"; entries: readonly SyncJournalEntry[] }
+  | { type: "MARK_SYNC_UNDONE"; syncId: string }
+  | { type: "CLEAR_JOURNAL" };
@@ -0,0 +1,77 @@
+/**
+ * Sync conflict store reducer
+ * Handles the queue of unresolved field-level conflicts between providers
+ */
+
+import type { SyncConflict } from "../../core/SyncManager";
+import type { SyncConflictAction } from "../actions";
+
+export interface SyncConflictStoreState {
+  conflicts: readonly SyncConflict[];
+}
+
+export const initialSyncConflictStoreState: SyncConflictStoreState = {
+  conflicts: [],
+};
+
+export function syncConflictReducer(
+  state: SyncConflictStoreState,
+  action: SyncConflictAction
+): SyncConflictStoreState {
+  switch (action.type) {
+    case "LOAD_CONFLICTS":
+      return {
+        ...state,
+        conflicts: [...action.conflicts],
+      };
+
+    case "QUEUE_CONFLICT": {
+      // Only one conflict per entity field - a newer detection keeps the
+      // original ID and detection time but carries the latest values
+      const existing = state.conflicts.find(
+        (c) =>
+          c.entityId === action.conflict.entityId &&
+          c.field === action.conflict.field
+      );
+
+      if (existing) {
+        return {
+          ...state,
+          conflicts: state.conflicts.map((c) =>
+            c === existing
+              ? {
+                  ...action.conflict,
+                  id: existing.id,
+                  detectedAt: existing.detectedAt,
+                }
+              : c
+          ),
+        };
+      }
+
+      return {
+        ...state,
+        conflicts: [...state.conflicts, action.conflict],
+      };
+    }
+
+    case "RESOLVE_CONFLICT":
+      return {
+        ...state,
+        conflicts: state.conflicts.filter((c) => c.id !== action.conflictId),
+      };
+
+    case "CLEAR_ENTITY_CONFLICTS": {
+      const keepFields = new Set<string>(action.keepFields || []);
+      return {
+        ...state,
+        conflicts: state.conflicts.filter(
+          (c) => c.entityId !== action.entityId || keepFields.has(c.field)
+        ),
+      };
+    }
+
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Sync journal store reducer
+ * Handles the bounded history of field changes applied by cross-source syncs
+ */
+
+import type { SyncJournalEntry } from "../../core/SyncManager";
+import type { SyncJournalAction } from "../actions";
+
+/**
+ * Maximum number of journal entries kept, older entries are dropped first
+ */
+export const MAX_SYNC_JOURNAL_ENTRIES = 500;
+
+export interface SyncJournalStoreState {
+  /** Journal entries in chronological order */
+  entries: readonly SyncJournalEntry[];
+}
+
+export const initialSyncJournalStoreState: SyncJournalStoreState = {
+  entries: [],
+};
+
+export function syncJournalReducer(
+  state: SyncJournalStoreState,
+  action: SyncJournalAction
+): SyncJournalStoreState {
+  switch (action.type) {
+    case "LOAD_JOURNAL":
+      return {
+        ...state,
+        entries: action.entries.slice(-MAX_SYNC_JOURNAL_ENTRIES),
+      };
+
+    case "RECORD_SYNC_CHANGES":
+      return {
+        ...state,
+        entries: [...state.entries, ...action.entries].slice(
+          -MAX_SYNC_JOURNAL_ENTRIES
+        ),
+      };
+
+    case "MARK_SYNC_UNDONE":
+      return {
+        ...state,
+        entries: state.entries.map((e) =>
+          e.syncId === action.syncId ? { ...e, undone: true } : e
+        ),
+      };
+
+    case "CLEAR_JOURNAL":
+      return {
+        ...state,
+        entries: [],
+      };
+
+    default:
+      return state;
+  }
+}
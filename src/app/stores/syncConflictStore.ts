@@ -0,0 +1,39 @@
+/**
+ * Sync conflict store - Action-based architecture
+ *
+ * Holds field-level conflicts detected by SyncManager's "manual-resolve" and
+ * "three-way" strategies until the user resolves them. The queue is persisted through the
+ * Host so unresolved conflicts survive plugin reloads.
+ */
+
+import { writable, type Readable } from "svelte/store";
+import {
+  syncConflictReducer,
+  initialSyncConflictStoreState,
+  type SyncConflictStoreState,
+} from "./reducers/syncConflictReducer";
+import type { SyncConflictAction } from "./actions";
+
+export interface SyncConflictStore extends Readable<SyncConflictStoreState> {
+  // Action dispatcher
+  dispatch: (action: SyncConflictAction) => void;
+}
+
+export function createSyncConflictStore(): SyncConflictStore {
+  const { subscribe, update } = writable<SyncConflictStoreState>(
+    initialSyncConflictStoreState
+  );
+
+  // Action dispatcher - all mutations go through reducer
+  const dispatch = (action: SyncConflictAction) => {
+    update((state) => syncConflictReducer(state, action));
+  };
+
+  return {
+    subscribe,
+    dispatch,
+  };
+}
+
+// Global sync conflict store instance
+export const syncConflictStore = createSyncConflictStore();
@@ -0,0 +1,39 @@
+/**
+ * Sync journal store - Action-based architecture
+ *
+ * Holds the field changes SyncManager applied to providers during
+ * cross-source syncs, so they can be reviewed in the Sync History view and
+ * undone. The journal is bounded and persisted through the Host.
+ */
+
+import { writable, type Readable } from "svelte/store";
+import {
+  syncJournalReducer,
+  initialSyncJournalStoreState,
+  type SyncJournalStoreState,
+} from "./reducers/syncJournalReducer";
+import type { SyncJournalAction } from "./actions";
+
+export interface SyncJournalStore extends Readable<SyncJournalStoreState> {
+  // Action dispatcher
+  dispatch: (action: SyncJournalAction) => void;
+}
+
+export function createSyncJournalStore(): SyncJournalStore {
+  const { subscribe, update } = writable<SyncJournalStoreState>(
+    initialSyncJournalStoreState
+  );
+
+  // Action dispatcher - all mutations go through reducer
+  const dispatch = (action: SyncJournalAction) => {
+    update((state) => syncJournalReducer(state, action));
+  };
+
+  return {
+    subscribe,
+    dispatch,
+  };
+}
+
+// Global sync journal store instance
+export const syncJournalStore = createSyncJournalStore();
@@ -114,6 +114,12 @@ export interface CalendarEventCreateResult {
 
   /** URL to the created event */
   eventUrl?: string;
+
+  /** Whether the event was changed in the calendar since it was loaded */
+  conflict?: boolean;
+
+  /** Whether the event to update doesn't exist in the calendar anymore */
+  notFound?: boolean;
 }
 
 /**
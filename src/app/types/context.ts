@@ -3,7 +3,7 @@
  * Defines file context interface and related types
  */
 
-import type { Task, Project, Area } from "../core/entities";
+import type { Task, Project, Area, TaskDefaults } from "../core/entities";
 
 /**
  * File context interface for context-aware functionality
@@ -14,6 +14,7 @@ export interface FileContext {
   name?: string;
   path?: string;
   entity?: Task | Project | Area; // Resolved entity for the current context
+  taskDefaults?: TaskDefaults; // Defaults for tasks created in a project or area
   dailyPlanningMode?: boolean; // Whether Daily Planning wizard is currently active
 }
 
@@ -3,6 +3,9 @@
  * Comprehensive settings including all integrations and task configuration
  */
 
+import type { SyncStrategy } from "../core/SyncManager";
+import type { BackupRetentionPolicy } from "../core/note-kit/backup-retention";
+
 // Legacy task type interfaces (for backward compatibility - will be removed in future)
 export interface TaskType {
   name: string;
@@ -50,6 +53,8 @@ export interface GitHubIntegrationSettings {
   issueFilters: GitHubIssueFilters;
   labelTypeMapping: Record<string, string>; // Map GitHub labels to task types
   orgRepoMappings: GitHubOrgRepoMapping[]; // Map organizations/repositories to areas/projects
+  writeBackRepositories: string[]; // Repositories ('owner/repo') where task changes are pushed back to issues
+  statusLabelMapping: Record<string, string>; // Map task statuses to labels written back to issues
 }
 
 // Apple Reminders integration interfaces
@@ -64,6 +69,59 @@ export interface AppleRemindersIntegrationSettings {
   preservePriority: boolean;
 }
 
+// HTTP JSON source integration interfaces
+export interface HttpJsonEndpoint {
+  /** Stable identifier, used as prefix of task source keys */
+  id: string;
+  name: string;
+  url: string;
+  /** Request headers, e.g. { Authorization: "Bearer ..." } */
+  headers: Record<string, string>;
+  /** Path to the array of items in the response (empty when the response is the array) */
+  itemsPath: string;
+  /** Task field name -> JSONPath-like path into an item, e.g. { title: "$.fields.summary" } */
+  fieldMapping: Record<string, string>;
+  /** Task field name -> map of raw values to task values, e.g. { status: { open: "Backlog" } } */
+  valueMapping: Record<string, Record<string, string>>;
+}
+
+export interface HttpJsonIntegrationSettings {
+  enabled: boolean;
+  endpoints: HttpJsonEndpoint[];
+  pollInterval: number; // Poll interval in minutes, 0 disables polling
+}
+
+// Linear integration interfaces
+export interface LinearIssueFilters {
+  state: "open" | "closed" | "all";
+  assignedToMe: boolean;
+  labels: string[];
+}
+
+// Team/Project mapping configuration
+export interface LinearTeamProjectMapping {
+  /** Team key (e.g., 'ENG') */
+  team?: string;
+  /** Linear project name (e.g., 'Mobile App') */
+  project?: string;
+  /** Target area to assign to imported tasks */
+  targetArea?: string;
+  /** Target project to assign to imported tasks */
+  targetProject?: string;
+  /** Priority of this mapping (higher numbers take precedence) */
+  priority?: number;
+}
+
+export interface LinearIntegrationSettings {
+  enabled: boolean;
+  apiKey: string;
+  apiUrl: string; // GraphQL endpoint, can point at a self-hosted or mock server
+  defaultTeam: string; // Default team key
+  issueFilters: LinearIssueFilters;
+  teamProjectMappings: LinearTeamProjectMapping[]; // Map teams/projects to areas/projects
+  writeBack: boolean; // Push task changes back to linked issues
+}
+
 // Apple Calendar integration interfaces
 export interface AppleCalendarIntegrationSettings {
   enabled: boolean;
@@ -119,6 +177,36 @@ export interface GoogleCalendarIntegrationSettings {
   includeTaskDetailsInEvent: boolean; // Whether to include task details in event description
 }
 
+// Generic CalDAV integration interfaces
+export interface CalDAVCalendarIntegrationSettings {
+  enabled: boolean;
+  serverUrl: string; // CalDAV server URL, e.g. https://cloud.example.com/remote.php/dav
+  username: string;
+  password: string;
+  selectedCalendars: string[]; // Array of calendar names to include
+  // Task scheduling configuration
+  schedulingEnabled: boolean; // Whether task scheduling is enabled
+  defaultSchedulingCalendar: string; // Default calendar for scheduling tasks
+  defaultEventDuration: number; // Default event duration in minutes
+  defaultReminders: number[]; // Default reminders (in minutes before event)
+  includeTaskDetailsInEvent: boolean; // Whether to include task details in event description
+}
+
+// ICS subscription integration interfaces
+export interface IcsCalendarSubscription {
+  id: string;
+  name: string;
+  url: string; // https:// or webcal:// URL of the .ics feed
+  color?: string;
+}
+
+export interface IcsCalendarIntegrationSettings {
+  enabled: boolean;
+  subscriptions: IcsCalendarSubscription[];
+  selectedCalendars: string[]; // Array of subscription names to include
+  refreshInterval: number; // Minutes before feeds are fetched again
+}
+
 export interface TaskSyncSettings {
   tasksFolder: string;
   projectsFolder: string;
@@ -143,13 +231,25 @@ export interface TaskSyncSettings {
   areaBasesEnabled: boolean;
   projectBasesEnabled: boolean;
   autoSyncAreaProjectBases: boolean;
+  // How SyncManager resolves differences between sources of the same task
+  syncStrategy: SyncStrategy;
+  // Mark a parent task done once all of its subtasks are done
+  autoCompleteParentTasks: boolean;
   // Integrations
   integrations: {
     github: GitHubIntegrationSettings;
     appleReminders: AppleRemindersIntegrationSettings;
+    httpJson: HttpJsonIntegrationSettings;
+    linear: LinearIntegrationSettings;
     appleCalendar: AppleCalendarIntegrationSettings;
     googleCalendar: GoogleCalendarIntegrationSettings;
+    caldavCalendar: CalDAVCalendarIntegrationSettings;
+    icsCalendar: IcsCalendarIntegrationSettings;
   };
+  // Which note type, file and registry backups are kept
+  backupRetention: BackupRetentionPolicy;
+  // Reusable template partials by name, included with {{> name}}
+  templatePartials: Record<string, string>;
   // Schema migrations tracking
   executedMigrations?: Array<{
     id: string;
@@ -158,6 +258,7 @@ export interface TaskSyncSettings {
     filesAffected: number;
     success: boolean;
     version: string;
+    rolledBack?: boolean;
   }>;
 }
 
@@ -231,6 +332,15 @@ export const DEFAULT_SETTINGS: TaskSyncSettings = {
   areaBasesEnabled: true,
   projectBasesEnabled: true,
   autoSyncAreaProjectBases: true,
+  syncStrategy: "source-wins",
+  autoCompleteParentTasks: false,
+  // No limits, so existing backups are only pruned once a policy is set
+  backupRetention: {
+    keepLast: 0,
+    maxAgeDays: 0,
+    maxTotalSizeMB: 0,
+  },
+  templatePartials: {},
   // Integration defaults
   integrations: {
     github: {
@@ -252,6 +362,8 @@ export const DEFAULT_SETTINGS: TaskSyncSettings = {
         documentation: "Chore",
       },
       orgRepoMappings: [],
+      writeBackRepositories: [],
+      statusLabelMapping: {},
     },
     appleReminders: {
       enabled: false,
@@ -263,6 +375,24 @@ export const DEFAULT_SETTINGS: TaskSyncSettings = {
       importNotesAsDescription: true,
       preservePriority: true,
     },
+    httpJson: {
+      enabled: false,
+      endpoints: [],
+      pollInterval: 15, // 15 minutes
+    },
+    linear: {
+      enabled: false,
+      apiKey: "",
+      apiUrl: "https://api.linear.app/graphql",
+      defaultTeam: "",
+      issueFilters: {
+        state: "open",
+        assignedToMe: false,
+        labels: [],
+      },
+      teamProjectMappings: [],
+      writeBack: false,
+    },
     appleCalendar: {
       enabled: false,
       username: "", // Apple ID
@@ -314,6 +444,25 @@ export const DEFAULT_SETTINGS: TaskSyncSettings = {
       defaultReminders: [15], // 15 minutes before event
       includeTaskDetailsInEvent: true, // Include task details by default
     },
+    caldavCalendar: {
+      enabled: false,
+      serverUrl: "",
+      username: "",
+      password: "",
+      selectedCalendars: [], // Empty array means include all calendars
+      // Task scheduling defaults
+      schedulingEnabled: false, // Disabled by default
+      defaultSchedulingCalendar: "", // No default calendar
+      defaultEventDuration: 60, // 1 hour default duration
+      defaultReminders: [15], // 15 minutes before event
+      includeTaskDetailsInEvent: true, // Include task details by default
+    },
+    icsCalendar: {
+      enabled: false,
+      subscriptions: [],
+      selectedCalendars: [], // Empty array means include all subscriptions
+      refreshInterval: 15, // Fetch feeds again after 15 minutes
+    },
   },
   // Schema migrations tracking - initially empty
   executedMigrations: [],
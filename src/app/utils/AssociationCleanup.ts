@@ -1,6 +1,7 @@
 /**
  * AssociationCleanup - Cascading cleanup for association properties
  * Automatically removes references to deleted entities from association properties
+ * and points references to renamed tasks at their new title
  */
 
 import { eventBus } from "../core/events";
@@ -9,6 +10,8 @@ import { projectStore } from "../stores/projectStore";
 import { areaStore } from "../stores/areaStore";
 import { get } from "svelte/store";
 import type { Task, Project } from "../core/entities";
+import { releaseBlockedTasks } from "./taskDependencies";
+import { renameTaskReferences } from "./taskHierarchy";
 
 /**
  * Configuration for association cleanup
@@ -50,10 +53,16 @@ export class AssociationCleanup {
 
     // Listen for task deletions
     const taskHandler = eventBus.on("tasks.deleted", (event) => {
-      this.cleanupTaskReferences(event.taskId);
+      this.cleanupTaskReferences(event.taskId, event.task);
     });
     this.eventHandlers.push(taskHandler);
 
+    // Listen for task renames
+    const renameHandler = eventBus.on("tasks.renamed", (event) => {
+      this.renameTaskReferences(event.oldTitle, event.newTitle);
+    });
+    this.eventHandlers.push(renameHandler);
+
     // Listen for project deletions
     const projectHandler = eventBus.on("projects.deleted", (event) => {
       this.cleanupProjectReferences(event.project.name);
@@ -89,13 +98,54 @@ export class AssociationCleanup {
   /**
    * Clean up references to a deleted task
    */
-  private cleanupTaskReferences(taskId: string): void {
+  private cleanupTaskReferences(taskId: string, deletedTask?: Task): void {
     if (this.config.verbose) {
       console.log(`[AssociationCleanup] Cleaning up references to task: ${taskId}`);
     }
 
-    // Tasks currently don't reference other tasks via association properties
-    // This is here for future extensibility if task-to-task associations are added
+    if (!deletedTask) {
+      return;
+    }
+
+    // Drop the deleted task from the "blocked by" lists of other tasks
+    const tasksToUpdate = releaseBlockedTasks(
+      deletedTask,
+      get(taskStore).tasks
+    ).map((task) => ({ ...task, updatedAt: new Date() }));
+
+    for (const task of tasksToUpdate) {
+      taskStore.dispatch({ type: "UPDATE_TASK", task });
+    }
+
+    if (this.config.verbose && tasksToUpdate.length > 0) {
+      console.log(`[AssociationCleanup] Cleared blocked-by reference from ${tasksToUpdate.length} task(s)`);
+    }
+  }
+
+  /**
+   * Point subtasks and dependents of a renamed task at its new title
+   * Unlike deletions, renames are also written back to the affected notes,
+   * otherwise the old title would be read again on the next sync.
+   */
+  private renameTaskReferences(oldTitle: string, newTitle: string): void {
+    if (this.config.verbose) {
+      console.log(`[AssociationCleanup] Renaming references to task: ${oldTitle} -> ${newTitle}`);
+    }
+
+    const tasksToUpdate = renameTaskReferences(
+      oldTitle,
+      newTitle,
+      get(taskStore).tasks
+    ).map((task) => ({ ...task, updatedAt: new Date() }));
+
+    for (const task of tasksToUpdate) {
+      taskStore.dispatch({ type: "UPDATE_TASK", task });
+      eventBus.trigger({ type: "tasks.updated", task });
+    }
+
+    if (this.config.verbose && tasksToUpdate.length > 0) {
+      console.log(`[AssociationCleanup] Renamed task reference in ${tasksToUpdate.length} task(s)`);
+    }
   }
 
   /**
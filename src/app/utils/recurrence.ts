@@ -0,0 +1,537 @@
+/**
+ * Recurrence utilities for tasks
+ * Supports a subset of RFC 5545 RRULE: FREQ, INTERVAL, BYDAY, BYMONTHDAY,
+ * BYMONTH, COUNT and UNTIL. Occurrences are whole local days.
+ */
+
+import type { Task } from "../core/entities";
+import { getDateString } from "./dateFiltering";
+import { DEFAULT_TASK_STATUS } from "../constants/defaults";
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RecurrenceWeekday {
+  day: number; // 0 = Sunday ... 6 = Saturday (same as Date.getDay())
+  ordinal?: number; // e.g. 1 for the first Monday, -1 for the last Friday
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: RecurrenceWeekday[];
+  byMonthDay?: number[];
+  byMonth?: number[]; // 1-12
+  count?: number;
+  until?: Date;
+}
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const FREQUENCIES: RecurrenceFrequency[] = [
+  "DAILY",
+  "WEEKLY",
+  "MONTHLY",
+  "YEARLY",
+];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIODS_PER_YEAR: Record<RecurrenceFrequency, number> = {
+  DAILY: 366,
+  WEEKLY: 53,
+  MONTHLY: 12,
+  YEARLY: 1,
+};
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix)
+ * Throws an error describing the first unsupported or invalid part
+ */
+export function parseRecurrence(value: string): RecurrenceRule {
+  const source = value.trim().replace(/^RRULE:/i, "");
+  if (!source) {
+    throw new Error("Recurrence rule is empty");
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of source.split(";").filter(Boolean)) {
+    const [key, partValue] = part.split("=");
+    if (!key || partValue === undefined || partValue === "") {
+      throw new Error(`Invalid recurrence rule part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), partValue.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error(
+      `Recurrence rule must have FREQ set to one of ${FREQUENCIES.join(", ")}`
+    );
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, partValue] of parts) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = parsePositiveInteger(key, partValue);
+        break;
+      case "COUNT":
+        rule.count = parsePositiveInteger(key, partValue);
+        break;
+      case "UNTIL":
+        rule.until = parseUntil(partValue);
+        break;
+      case "BYDAY":
+        rule.byDay = partValue.split(",").map(parseWeekday);
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = partValue
+          .split(",")
+          .map((day) => parseInteger(key, day, -31, 31));
+        break;
+      case "BYMONTH":
+        rule.byMonth = partValue
+          .split(",")
+          .map((month) => parseInteger(key, month, 1, 12));
+        break;
+      case "WKST":
+        if (partValue !== "MO") {
+          throw new Error("Only WKST=MO is supported");
+        }
+        break;
+      default:
+        throw new Error(`Unsupported recurrence rule part "${key}"`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until) {
+    throw new Error("Recurrence rule can't have both COUNT and UNTIL");
+  }
+
+  if (
+    rule.byDay?.some((weekday) => weekday.ordinal !== undefined) &&
+    rule.freq !== "MONTHLY"
+  ) {
+    throw new Error("Ordinal BYDAY values are only supported for MONTHLY");
+  }
+
+  return rule;
+}
+
+/**
+ * Check if a string is a supported recurrence rule
+ */
+export function isValidRecurrence(value: string): boolean {
+  try {
+    parseRecurrence(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Serialize a recurrence rule back to an RRULE string (without prefix)
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map(
+      (weekday) => `${weekday.ordinal ?? ""}${WEEKDAYS[weekday.day]}`
+    );
+    parts.push(`BYDAY=${days.join(",")}`);
+  }
+  if (rule.byMonthDay?.length) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+  if (rule.byMonth?.length) {
+    parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${getDateString(rule.until).replace(/-/g, "")}`);
+  }
+
+  return parts.join(";");
+}
+
+/**
+ * Get the first occurrence strictly after the given date
+ * The anchor is the first occurrence of the series (usually the task's Do Date)
+ * Returns null when the series has ended
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  anchor: Date,
+  after: Date
+): Date | null {
+  const start = startOfDay(anchor);
+  const from = startOfDay(after);
+  const until = rule.until ? startOfDay(rule.until) : undefined;
+  let occurrences = 0;
+
+  // Without COUNT earlier occurrences don't matter, so the walk can start at
+  // the period of the given date
+  let period = 0;
+  if (rule.count === undefined) {
+    const periods = periodsBetween(rule.freq, start, from);
+    period = Math.max(periods - (periods % rule.interval), 0);
+  }
+
+  // Walk the periods the rule recurs in; a leap-day yearly rule can skip up
+  // to 8 years
+  const limit = PERIODS_PER_YEAR[rule.freq] * 8;
+  for (let step = 0; step <= limit; step++, period += rule.interval) {
+    const periodStart = getPeriodStart(rule.freq, start, period);
+    const periodEnd = getPeriodStart(rule.freq, start, period + 1);
+
+    for (
+      let day = periodStart < start ? start : periodStart;
+      day < periodEnd;
+      day = addDays(day, 1)
+    ) {
+      if (until && day > until) {
+        return null;
+      }
+      if (!matchesRule(rule, start, day)) {
+        continue;
+      }
+
+      occurrences++;
+      if (rule.count !== undefined && occurrences > rule.count) {
+        return null;
+      }
+      if (day > from) {
+        return day;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check if the series has an occurrence on the given day
+ */
+export function occursOn(
+  rule: RecurrenceRule,
+  anchor: Date,
+  date: Date
+): boolean {
+  const day = startOfDay(date);
+  const next = getNextOccurrence(rule, anchor, addDays(day, -1));
+  return next !== null && next.getTime() === day.getTime();
+}
+
+/**
+ * Build the task data for the occurrence following a completed recurring task
+ * Do/due dates are shifted to the first occurrence after today (or after the
+ * current Do Date when completed early) and COUNT is decremented. The time
+ * log and dependencies are not carried over.
+ * Returns null when the task doesn't recur or the series has ended.
+ */
+export function buildNextOccurrence(
+  task: Task,
+  today: Date
+): Omit<Task, "id" | "createdAt" | "updatedAt"> | null {
+  if (!task.recurrence) {
+    return null;
+  }
+
+  const rule = parseRecurrence(task.recurrence);
+  if (rule.count !== undefined && rule.count <= 1) {
+    return null;
+  }
+
+  const anchor = task.doDate ?? task.dueDate ?? today;
+  const next = getNextOccurrence(rule, anchor, anchor > today ? anchor : today);
+  if (!next) {
+    return null;
+  }
+
+  const {
+    id: _id,
+    createdAt: _createdAt,
+    updatedAt: _updatedAt,
+    ...taskData
+  } = task;
+
+  return {
+    ...taskData,
+    title: getOccurrenceTitle(task.title, next),
+    status: DEFAULT_TASK_STATUS,
+    done: false,
+    doDate: task.doDate
+      ? shiftDate(task.doDate, anchor, next)
+      : task.dueDate
+        ? undefined
+        : next,
+    dueDate: task.dueDate ? shiftDate(task.dueDate, anchor, next) : undefined,
+    recurrence: formatRecurrence(
+      rule.count !== undefined ? { ...rule, count: rule.count - 1 } : rule
+    ),
+    // Each occurrence tracks its own time
+    timeLog: undefined,
+    // Blockers were resolved for this occurrence; the next one starts
+    // unblocked since dependencies name one-off tasks by title
+    blockedBy: undefined,
+    // Occurrences are always local notes, even for imported tasks
+    source: { extension: "obsidian", keys: {} },
+  };
+}
+
+/**
+ * Filter pending recurring tasks whose series has an occurrence on the given day
+ * The series starts at the task's Do Date, Due Date or creation date
+ */
+export function filterRecurringTasksDueOn(tasks: Task[], date: Date): Task[] {
+  return tasks.filter((task) => {
+    if (task.done || !task.recurrence) {
+      return false;
+    }
+
+    try {
+      const rule = parseRecurrence(task.recurrence);
+      const anchor = task.doDate ?? task.dueDate ?? task.createdAt;
+      return occursOn(rule, anchor, date);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Build the title for an occurrence spawned on the given date
+ * Task notes are named after their titles, so each occurrence gets a dated
+ * title; a date suffix from a previous occurrence is replaced
+ */
+export function getOccurrenceTitle(title: string, date: Date): string {
+  const baseTitle = title.replace(/\s+\(\d{4}-\d{2}-\d{2}\)$/, "");
+  return `${baseTitle} (${getDateString(date)})`;
+}
+
+/**
+ * Shift a date by the whole number of days between two dates
+ */
+export function shiftDate(date: Date, from: Date, to: Date): Date {
+  const shifted = new Date(date);
+  shifted.setDate(shifted.getDate() + daysBetween(from, to));
+  return shifted;
+}
+
+function matchesRule(rule: RecurrenceRule, anchor: Date, day: Date): boolean {
+  switch (rule.freq) {
+    case "DAILY": {
+      const days = daysBetween(anchor, day);
+      return days % rule.interval === 0 && matchesFilters(rule, day);
+    }
+    case "WEEKLY": {
+      const weeks = Math.floor(
+        daysBetween(startOfWeek(anchor), startOfWeek(day)) / 7
+      );
+      const weekdays = rule.byDay?.map((weekday) => weekday.day) ?? [
+        anchor.getDay(),
+      ];
+      return (
+        weeks % rule.interval === 0 &&
+        weekdays.includes(day.getDay()) &&
+        matchesMonth(rule, day)
+      );
+    }
+    case "MONTHLY": {
+      const months = monthsBetween(anchor, day);
+      if (months % rule.interval !== 0 || !matchesMonth(rule, day)) {
+        return false;
+      }
+      if (rule.byDay?.length) {
+        return (
+          rule.byDay.some((weekday) => matchesWeekdayInMonth(weekday, day)) &&
+          (!rule.byMonthDay || matchesMonthDay(rule.byMonthDay, day))
+        );
+      }
+      return matchesMonthDay(rule.byMonthDay ?? [anchor.getDate()], day);
+    }
+    case "YEARLY": {
+      const years = day.getFullYear() - anchor.getFullYear();
+      const months = rule.byMonth ?? [anchor.getMonth() + 1];
+      return (
+        years % rule.interval === 0 &&
+        months.includes(day.getMonth() + 1) &&
+        (rule.byDay?.length
+          ? rule.byDay.some((weekday) => weekday.day === day.getDay())
+          : matchesMonthDay(rule.byMonthDay ?? [anchor.getDate()], day))
+      );
+    }
+  }
+}
+
+/**
+ * BYDAY/BYMONTHDAY/BYMONTH narrow DAILY rules to matching days
+ */
+function matchesFilters(rule: RecurrenceRule, day: Date): boolean {
+  return (
+    (!rule.byDay ||
+      rule.byDay.some((weekday) => weekday.day === day.getDay())) &&
+    (!rule.byMonthDay || matchesMonthDay(rule.byMonthDay, day)) &&
+    matchesMonth(rule, day)
+  );
+}
+
+function matchesMonth(rule: RecurrenceRule, day: Date): boolean {
+  return !rule.byMonth || rule.byMonth.includes(day.getMonth() + 1);
+}
+
+function matchesMonthDay(monthDays: number[], day: Date): boolean {
+  const daysInMonth = new Date(
+    day.getFullYear(),
+    day.getMonth() + 1,
+    0
+  ).getDate();
+  return monthDays.some((monthDay) =>
+    monthDay > 0
+      ? monthDay === day.getDate()
+      : daysInMonth + monthDay + 1 === day.getDate()
+  );
+}
+
+function matchesWeekdayInMonth(weekday: RecurrenceWeekday, day: Date): boolean {
+  if (weekday.day !== day.getDay()) {
+    return false;
+  }
+  if (weekday.ordinal === undefined) {
+    return true;
+  }
+
+  const daysInMonth = new Date(
+    day.getFullYear(),
+    day.getMonth() + 1,
+    0
+  ).getDate();
+  const ordinal =
+    weekday.ordinal > 0
+      ? Math.ceil(day.getDate() / 7)
+      : -Math.ceil((daysInMonth - day.getDate() + 1) / 7);
+  return ordinal === weekday.ordinal;
+}
+
+function parseWeekday(value: string): RecurrenceWeekday {
+  const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid BYDAY value "${value}"`);
+  }
+
+  const weekday: RecurrenceWeekday = { day: WEEKDAYS.indexOf(match[2]) };
+  if (match[1]) {
+    const ordinal = Number(match[1]);
+    if (ordinal === 0 || ordinal < -5 || ordinal > 5) {
+      throw new Error(`Invalid BYDAY value "${value}"`);
+    }
+    weekday.ordinal = ordinal;
+  }
+  return weekday;
+}
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value "${value}"`);
+  }
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function parsePositiveInteger(key: string, value: string): number {
+  return parseInteger(key, value, 1, Number.MAX_SAFE_INTEGER);
+}
+
+function parseInteger(
+  key: string,
+  value: string,
+  min: number,
+  max: number
+): number {
+  const number = Number(value);
+  if (
+    !/^[+-]?\d+$/.test(value) ||
+    number < min ||
+    number > max ||
+    number === 0
+  ) {
+    throw new Error(`Invalid ${key} value "${value}"`);
+  }
+  return number;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function startOfWeek(date: Date): Date {
+  const day = startOfDay(date);
+  // Weeks start on Monday (WKST=MO)
+  return addDays(day, -((day.getDay() + 6) % 7));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round(
+    (startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS
+  );
+}
+
+/**
+ * First day of the nth day, week, month or year of a series
+ */
+function getPeriodStart(
+  freq: RecurrenceFrequency,
+  anchor: Date,
+  period: number
+): Date {
+  switch (freq) {
+    case "DAILY":
+      return addDays(anchor, period);
+    case "WEEKLY":
+      return addDays(startOfWeek(anchor), period * 7);
+    case "MONTHLY":
+      return new Date(anchor.getFullYear(), anchor.getMonth() + period, 1);
+    case "YEARLY":
+      return new Date(anchor.getFullYear() + period, 0, 1);
+  }
+}
+
+/**
+ * Number of days, weeks, months or years from the period of one date to the
+ * period of another
+ */
+function periodsBetween(
+  freq: RecurrenceFrequency,
+  from: Date,
+  to: Date
+): number {
+  switch (freq) {
+    case "DAILY":
+      return daysBetween(from, to);
+    case "WEEKLY":
+      return Math.floor(daysBetween(startOfWeek(from), startOfWeek(to)) / 7);
+    case "MONTHLY":
+      return monthsBetween(from, to);
+    case "YEARLY":
+      return to.getFullYear() - from.getFullYear();
+  }
+}
+
+function monthsBetween(from: Date, to: Date): number {
+  return (
+    (to.getFullYear() - from.getFullYear()) * 12 +
+    to.getMonth() -
+    from.getMonth()
+  );
+}
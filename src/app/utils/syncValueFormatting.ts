@@ -0,0 +1,23 @@
+/**
+ * Formatting helpers for entity field values shown in sync related UI
+ * (conflict resolution, sync history)
+ */
+
+/**
+ * Format a task field value for display
+ */
+export function formatSyncValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") {
+    return "(empty)";
+  }
+  if (value instanceof Date) {
+    return value.toLocaleDateString();
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(", ") : "(empty)";
+  }
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+  return String(value);
+}
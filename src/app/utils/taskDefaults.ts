@@ -0,0 +1,74 @@
+/**
+ * Task creation defaults
+ * Projects and areas can define defaults (template, priority, category,
+ * tags) for tasks created from their notes.
+ */
+
+import type { Area, Project, TaskDefaults } from "../core/entities";
+
+interface DefaultableTaskValues {
+  priority?: string;
+  category?: string;
+  tags?: string[];
+}
+
+/**
+ * Merge task defaults, later layers winning per field
+ * Tags accumulate across layers instead of being replaced.
+ */
+export function mergeTaskDefaults(
+  ...layers: Array<TaskDefaults | undefined>
+): TaskDefaults {
+  return layers.reduce<TaskDefaults>((merged, layer) => {
+    if (!layer) return merged;
+
+    const tags = [...(merged.tags ?? []), ...(layer.tags ?? [])];
+    return {
+      template: layer.template || merged.template,
+      priority: layer.priority || merged.priority,
+      category: layer.category || merged.category,
+      tags: tags.length > 0 ? [...new Set(tags)] : undefined,
+    };
+  }, {});
+}
+
+/**
+ * Resolve the defaults for tasks created from a project or area
+ * A project inherits the defaults of its areas and overrides them with its
+ * own.
+ */
+export function resolveTaskDefaults(
+  entity: Project | Area,
+  areas: readonly Area[] = []
+): TaskDefaults {
+  const areaDefaults =
+    "areas" in entity
+      ? entity.areas.map(
+          (name) => areas.find((area) => area.name === name)?.taskDefaults
+        )
+      : [];
+
+  return mergeTaskDefaults(...areaDefaults, entity.taskDefaults);
+}
+
+/**
+ * Fill in task values the user hasn't set from the defaults
+ */
+export function applyTaskDefaults<T extends DefaultableTaskValues>(
+  values: T,
+  defaults: TaskDefaults
+): T {
+  const applied = { ...values };
+
+  if (!applied.priority && defaults.priority) {
+    applied.priority = defaults.priority;
+  }
+  if (!applied.category && defaults.category) {
+    applied.category = defaults.category;
+  }
+  if (defaults.tags?.length) {
+    applied.tags = [...new Set([...(applied.tags ?? []), ...defaults.tags])];
+  }
+
+  return applied;
+}
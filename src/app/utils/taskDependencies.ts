@@ -0,0 +1,114 @@
+/**
+ * Task dependency utilities
+ * Tasks reference the tasks blocking them by title in `blockedBy`; the
+ * inverse "blocks" relation is derived from those references.
+ */
+
+import type { Task } from "../core/entities";
+
+/**
+ * Raised when a dependency would make a task (indirectly) block itself
+ */
+export class TaskDependencyCycleError extends Error {
+  constructor(public cycle: string[]) {
+    super(`Dependency cycle: ${cycle.join(" → ")}`);
+    this.name = "TaskDependencyCycleError";
+  }
+}
+
+/**
+ * Pending tasks that currently block the given task
+ * References to unknown or completed tasks don't block.
+ */
+export function getBlockers(task: Task, tasks: readonly Task[]): Task[] {
+  if (!task.blockedBy?.length) return [];
+
+  const byTitle = indexByTitle(tasks);
+  return task.blockedBy
+    .map((title) => byTitle.get(title))
+    .filter((blocker): blocker is Task => !!blocker && !blocker.done);
+}
+
+/**
+ * Check whether a task is blocked by at least one pending task
+ */
+export function isBlocked(task: Task, tasks: readonly Task[]): boolean {
+  return getBlockers(task, tasks).length > 0;
+}
+
+/**
+ * Tasks that list the given task in their `blockedBy`
+ */
+export function getBlockedTasks(
+  blocker: Task,
+  tasks: readonly Task[]
+): Task[] {
+  return tasks.filter(
+    (task) => task.id !== blocker.id && task.blockedBy?.includes(blocker.title)
+  );
+}
+
+/**
+ * Find a dependency cycle that includes the given task
+ * The task's own `blockedBy` wins over the version in `tasks`, so a pending
+ * change can be checked before it is saved.
+ * @returns Titles along the cycle, starting and ending with the task, or null
+ */
+export function findDependencyCycle(
+  task: Task,
+  tasks: readonly Task[]
+): string[] | null {
+  const byTitle = indexByTitle(tasks);
+  byTitle.set(task.title, task);
+
+  const visited = new Set<string>();
+
+  const visit = (title: string, path: string[]): string[] | null => {
+    if (title === task.title && path.length > 0) {
+      return [...path, title];
+    }
+    if (visited.has(title)) return null;
+    visited.add(title);
+
+    for (const next of byTitle.get(title)?.blockedBy ?? []) {
+      const cycle = visit(next, [...path, title]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  return visit(task.title, []);
+}
+
+/**
+ * Throw if the task's dependencies form a cycle
+ * @throws {TaskDependencyCycleError}
+ */
+export function assertNoDependencyCycle(
+  task: Task,
+  tasks: readonly Task[]
+): void {
+  const cycle = findDependencyCycle(task, tasks);
+  if (cycle) {
+    throw new TaskDependencyCycleError(cycle);
+  }
+}
+
+/**
+ * Remove a deleted task from the `blockedBy` lists of the tasks it was
+ * blocking, returning the updated tasks
+ * Completed tasks are kept, they stop blocking through their done status.
+ */
+export function releaseBlockedTasks(
+  blocker: Task,
+  tasks: readonly Task[]
+): Task[] {
+  return getBlockedTasks(blocker, tasks).map((task) => ({
+    ...task,
+    blockedBy: task.blockedBy?.filter((title) => title !== blocker.title),
+  }));
+}
+
+function indexByTitle(tasks: readonly Task[]): Map<string, Task> {
+  return new Map(tasks.map((task) => [task.title, task]));
+}
@@ -0,0 +1,150 @@
+/**
+ * Task hierarchy utilities
+ * Subtasks reference their parent by title in `parentTask`; the tree is
+ * derived from those references.
+ */
+
+import type { Task } from "../core/entities";
+
+/**
+ * Completion rollup over all descendants of a task
+ */
+export interface TaskRollup {
+  done: number;
+  total: number;
+}
+
+export interface TaskTreeNode {
+  task: Task;
+  children: TaskTreeNode[];
+  depth: number;
+  rollup: TaskRollup;
+}
+
+/**
+ * Build a task tree preserving the order of the given tasks
+ * Tasks whose parent is missing from the list become roots, so filtering
+ * out a parent doesn't hide its subtasks. Tasks in a parent cycle are roots
+ * too.
+ * @param rollupTasks - Tasks to count in rollups, so subtasks hidden by
+ * filters (e.g. completed ones) still count
+ */
+export function buildTaskTree(
+  tasks: readonly Task[],
+  rollupTasks: readonly Task[] = tasks
+): TaskTreeNode[] {
+  const byTitle = new Map(tasks.map((task) => [task.title, task]));
+  const childrenOf = new Map<string, Task[]>();
+  const roots: Task[] = [];
+
+  for (const task of tasks) {
+    const parent = task.parentTask ? byTitle.get(task.parentTask) : undefined;
+    if (!parent || parent.id === task.id || hasAncestor(parent, task, byTitle)) {
+      roots.push(task);
+      continue;
+    }
+    const siblings = childrenOf.get(parent.title) ?? [];
+    siblings.push(task);
+    childrenOf.set(parent.title, siblings);
+  }
+
+  const build = (task: Task, depth: number): TaskTreeNode => {
+    const children = (childrenOf.get(task.title) ?? []).map((child) =>
+      build(child, depth + 1)
+    );
+    return { task, children, depth, rollup: getTaskRollup(task, rollupTasks) };
+  };
+
+  return roots.map((task) => build(task, 0));
+}
+
+/**
+ * Count done and total subtasks of a task at any depth
+ */
+export function getTaskRollup(task: Task, tasks: readonly Task[]): TaskRollup {
+  const rollup = { done: 0, total: 0 };
+  const seen = new Set([task.title]);
+  const queue = [task];
+
+  while (queue.length > 0) {
+    for (const subtask of getSubtasks(queue.shift()!, tasks)) {
+      if (seen.has(subtask.title)) continue;
+      seen.add(subtask.title);
+      rollup.total++;
+      if (subtask.done) rollup.done++;
+      queue.push(subtask);
+    }
+  }
+  return rollup;
+}
+
+/**
+ * Flatten a task tree in display order, skipping children of collapsed nodes
+ */
+export function flattenTaskTree(
+  nodes: readonly TaskTreeNode[],
+  collapsed: ReadonlySet<string> = new Set()
+): TaskTreeNode[] {
+  return nodes.flatMap((node) => [
+    node,
+    ...(collapsed.has(node.task.id)
+      ? []
+      : flattenTaskTree(node.children, collapsed)),
+  ]);
+}
+
+/**
+ * Direct subtasks of the given task
+ */
+export function getSubtasks(parent: Task, tasks: readonly Task[]): Task[] {
+  return tasks.filter(
+    (task) => task.id !== parent.id && task.parentTask === parent.title
+  );
+}
+
+/**
+ * Check whether a task has subtasks and all of them are done
+ */
+export function allSubtasksDone(parent: Task, tasks: readonly Task[]): boolean {
+  const subtasks = getSubtasks(parent, tasks);
+  return subtasks.length > 0 && subtasks.every((task) => task.done);
+}
+
+/**
+ * Point references to a renamed task at its new title, returning the
+ * updated tasks
+ */
+export function renameTaskReferences(
+  oldTitle: string,
+  newTitle: string,
+  tasks: readonly Task[]
+): Task[] {
+  return tasks
+    .filter(
+      (task) =>
+        task.parentTask === oldTitle || task.blockedBy?.includes(oldTitle)
+    )
+    .map((task) => ({
+      ...task,
+      parentTask: task.parentTask === oldTitle ? newTitle : task.parentTask,
+      blockedBy: task.blockedBy?.map((title) =>
+        title === oldTitle ? newTitle : title
+      ),
+    }));
+}
+
+function hasAncestor(
+  task: Task,
+  ancestor: Task,
+  byTitle: Map<string, Task>
+): boolean {
+  const seen = new Set<string>();
+  let current: Task | undefined = task;
+
+  while (current?.parentTask && !seen.has(current.title)) {
+    seen.add(current.title);
+    if (current.parentTask === ancestor.title) return true;
+    current = byTitle.get(current.parentTask);
+  }
+  return false;
+}
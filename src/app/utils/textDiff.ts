@@ -0,0 +1,105 @@
+/**
+ * Line-based text diff
+ * Used to show how a backup differs from the current state of what it backed up
+ */
+
+export interface DiffLine {
+  type: "added" | "removed" | "unchanged";
+  text: string;
+}
+
+/**
+ * Largest number of line pairs compared when looking for common lines.
+ * Beyond that the changed region is shown as removed and added as a whole.
+ */
+const MAX_COMPARISONS = 1_000_000;
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText === "" ? [] : oldText.split("\n");
+  const newLines = newText === "" ? [] : newText.split("\n");
+
+  // Lines both texts start and end with don't need to be compared
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    oldLines[oldEnd - 1] === newLines[newEnd - 1]
+  ) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const unchanged = (text: string): DiffLine => ({ type: "unchanged", text });
+
+  return [
+    ...oldLines.slice(0, start).map(unchanged),
+    ...diffChangedLines(
+      oldLines.slice(start, oldEnd),
+      newLines.slice(start, newEnd)
+    ),
+    ...oldLines.slice(oldEnd).map(unchanged),
+  ];
+}
+
+/**
+ * Diff two lists of lines using their longest common subsequence
+ */
+function diffChangedLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const removed = (text: string): DiffLine => ({ type: "removed", text });
+  const added = (text: string): DiffLine => ({ type: "added", text });
+
+  if (
+    oldLines.length === 0 ||
+    newLines.length === 0 ||
+    oldLines.length * newLines.length > MAX_COMPARISONS
+  ) {
+    return [...oldLines.map(removed), ...newLines.map(added)];
+  }
+
+  // lengths[i][j] is the length of the LCS of oldLines[i..] and newLines[j..]
+  const lengths: number[][] = Array.from({ length: oldLines.length + 1 }, () =>
+    new Array(newLines.length + 1).fill(0)
+  );
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldLines[i] === newLines[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: "unchanged", text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push(removed(oldLines[i++]));
+    } else {
+      result.push(added(newLines[j++]));
+    }
+  }
+
+  return [
+    ...result,
+    ...oldLines.slice(i).map(removed),
+    ...newLines.slice(j).map(added),
+  ];
+}
@@ -0,0 +1,113 @@
+/**
+ * Time blocking utilities for the day grid
+ * Converts drag positions into snapped times and builds the calendar events
+ * created when a task is dropped onto a time slot.
+ */
+
+import type { Task } from "../core/entities";
+import type { CalendarEventCreateData } from "../types/calendar";
+
+/** Drag data type carrying a task ID */
+export const TASK_DRAG_TYPE = "application/x-task-sync-task";
+
+/** Drag data type carrying a calendar event ID */
+export const EVENT_DRAG_TYPE = "application/x-task-sync-event";
+
+/** Granularity of dropped and resized times, in minutes */
+export const SNAP_MINUTES = 15;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface TaskEventOptions {
+  calendarId: string;
+  durationMinutes: number;
+  reminders?: number[];
+  includeTaskDetails?: boolean;
+  /** Link back to the task note, e.g. an obsidian:// URL */
+  noteUrl?: string;
+}
+
+/**
+ * Get the time at a vertical offset within an hour slot of the grid,
+ * snapped to SNAP_MINUTES
+ */
+export function getSlotTime(
+  date: Date,
+  hour: number,
+  offsetY: number,
+  hourHeight: number
+): Date {
+  const minutes = snapMinutes((offsetY / hourHeight) * 60);
+  const time = new Date(date);
+  time.setHours(hour, Math.min(Math.max(minutes, 0), 60 - SNAP_MINUTES), 0, 0);
+  return time;
+}
+
+/**
+ * Move an event to a new start, keeping its duration
+ */
+export function moveEvent(
+  event: { startDate: Date; endDate: Date },
+  start: Date
+): { startDate: Date; endDate: Date } {
+  const duration = event.endDate.getTime() - event.startDate.getTime();
+  return { startDate: start, endDate: new Date(start.getTime() + duration) };
+}
+
+/**
+ * Get the end of an event after dragging its bottom edge by deltaY pixels
+ * Events never get shorter than SNAP_MINUTES.
+ */
+export function resizeEvent(
+  event: { startDate: Date; endDate: Date },
+  deltaY: number,
+  hourHeight: number
+): Date {
+  const end = new Date(
+    event.endDate.getTime() + snapMinutes((deltaY / hourHeight) * 60) * MINUTE_MS
+  );
+  const minimumEnd = new Date(
+    event.startDate.getTime() + SNAP_MINUTES * MINUTE_MS
+  );
+  return end < minimumEnd ? minimumEnd : end;
+}
+
+/**
+ * Build the calendar event for a task dropped at the given start
+ */
+export function buildTaskEvent(
+  task: Task,
+  start: Date,
+  options: TaskEventOptions
+): CalendarEventCreateData {
+  const lines: string[] = [];
+
+  if (options.noteUrl) {
+    lines.push(options.noteUrl);
+  }
+
+  if (options.includeTaskDetails) {
+    const details = [
+      task.priority && `Priority: ${task.priority}`,
+      task.project && `Project: ${task.project}`,
+      task.areas.length > 0 && `Areas: ${task.areas.join(", ")}`,
+      task.description,
+    ].filter(Boolean) as string[];
+    lines.push(...details);
+  }
+
+  return {
+    title: task.title,
+    description: lines.length > 0 ? lines.join("\n\n") : undefined,
+    startDate: start,
+    endDate: new Date(start.getTime() + options.durationMinutes * MINUTE_MS),
+    allDay: false,
+    calendarId: options.calendarId,
+    reminders: options.reminders,
+    metadata: { taskId: task.id },
+  };
+}
+
+function snapMinutes(minutes: number): number {
+  return Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+}
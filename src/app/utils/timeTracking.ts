@@ -0,0 +1,218 @@
+/**
+ * Time tracking utilities for tasks
+ * Time entries are stored as ISO 8601 intervals in local time
+ * ("2024-03-01T09:00:00/2024-03-01T10:30:00"). A running timer is an entry
+ * without an end ("2024-03-01T09:00:00/").
+ */
+
+import type { Task, CalendarEvent } from "../core/entities";
+
+export interface TimeEntry {
+  start: Date;
+  end?: Date; // Missing while the timer is running
+}
+
+/**
+ * Tracked time of a task compared with the calendar blocks planned for it
+ */
+export interface TimeComparison {
+  task: Task;
+  plannedMinutes: number;
+  trackedMinutes: number;
+  differenceMinutes: number; // tracked - planned
+}
+
+type TimeBlock = Pick<
+  CalendarEvent,
+  "title" | "startDate" | "endDate" | "allDay"
+>;
+
+const MINUTE_MS = 60 * 1000;
+const ENTRY_PATTERN =
+  /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2})?)\/(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2})?)?$/;
+
+/**
+ * Parse a single time entry, returning null for malformed values
+ */
+export function parseTimeEntry(value: string): TimeEntry | null {
+  const match = ENTRY_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const start = new Date(match[1]);
+  const end = match[2] ? new Date(match[2]) : undefined;
+
+  if (isNaN(start.getTime()) || (end && isNaN(end.getTime()))) return null;
+  if (end && end < start) return null;
+
+  return end ? { start, end } : { start };
+}
+
+/**
+ * Format a time entry for storage in front-matter
+ */
+export function formatTimeEntry(entry: TimeEntry): string {
+  return `${formatLocalDateTime(entry.start)}/${
+    entry.end ? formatLocalDateTime(entry.end) : ""
+  }`;
+}
+
+/**
+ * Parse a task's time log, skipping malformed entries
+ */
+export function parseTimeLog(log: readonly string[] = []): TimeEntry[] {
+  return log
+    .map((value) => parseTimeEntry(value))
+    .filter((entry): entry is TimeEntry => entry !== null);
+}
+
+/**
+ * Check whether the time log has a running timer
+ */
+export function isTimerRunning(log: readonly string[] = []): boolean {
+  return parseTimeLog(log).some((entry) => !entry.end);
+}
+
+/**
+ * Start a timer, returning the updated log
+ * The log is returned unchanged when a timer is already running.
+ */
+export function startTimeEntry(
+  log: readonly string[] = [],
+  now: Date = new Date()
+): string[] {
+  if (isTimerRunning(log)) return [...log];
+  return [...log, formatTimeEntry({ start: now })];
+}
+
+/**
+ * Stop the running timer, returning the updated log
+ */
+export function stopTimeEntry(
+  log: readonly string[] = [],
+  now: Date = new Date()
+): string[] {
+  return log.map((value) => {
+    const entry = parseTimeEntry(value);
+    if (!entry || entry.end) return value;
+    // Guard against clock changes producing a negative entry
+    const end = now < entry.start ? entry.start : now;
+    return formatTimeEntry({ start: entry.start, end });
+  });
+}
+
+/**
+ * Total tracked minutes, counting a running timer up to now
+ */
+export function getTrackedMinutes(
+  log: readonly string[] = [],
+  now: Date = new Date()
+): number {
+  return parseTimeLog(log).reduce(
+    (total, entry) => total + minutesBetween(entry.start, entry.end ?? now),
+    0
+  );
+}
+
+/**
+ * Tracked minutes that fall on the given local day
+ */
+export function getTrackedMinutesOn(
+  log: readonly string[] | undefined,
+  date: Date,
+  now: Date = new Date()
+): number {
+  const [dayStart, dayEnd] = dayBounds(date);
+
+  return parseTimeLog(log).reduce(
+    (total, entry) =>
+      total + overlapMinutes(entry.start, entry.end ?? now, dayStart, dayEnd),
+    0
+  );
+}
+
+/**
+ * Minutes of calendar blocks for a task on the given local day
+ * A block belongs to a task when its title matches the task title.
+ */
+export function getPlannedMinutesOn(
+  task: Task,
+  blocks: readonly TimeBlock[],
+  date: Date
+): number {
+  const [dayStart, dayEnd] = dayBounds(date);
+  const title = normalizeTitle(task.title);
+
+  return blocks
+    .filter((block) => !block.allDay && normalizeTitle(block.title) === title)
+    .reduce(
+      (total, block) =>
+        total +
+        overlapMinutes(
+          new Date(block.startDate),
+          new Date(block.endDate),
+          dayStart,
+          dayEnd
+        ),
+      0
+    );
+}
+
+/**
+ * Compare tracked time with planned calendar blocks for a day
+ * Only tasks that were planned or tracked on that day are included.
+ */
+export function compareTrackedTime(
+  tasks: readonly Task[],
+  blocks: readonly TimeBlock[],
+  date: Date,
+  now: Date = new Date()
+): TimeComparison[] {
+  return tasks
+    .map((task) => {
+      const plannedMinutes = getPlannedMinutesOn(task, blocks, date);
+      const trackedMinutes = getTrackedMinutesOn(task.timeLog, date, now);
+      return {
+        task,
+        plannedMinutes,
+        trackedMinutes,
+        differenceMinutes: trackedMinutes - plannedMinutes,
+      };
+    })
+    .filter(
+      (comparison) =>
+        comparison.plannedMinutes > 0 || comparison.trackedMinutes > 0
+    );
+}
+
+function minutesBetween(start: Date, end: Date): number {
+  return Math.max(0, (end.getTime() - start.getTime()) / MINUTE_MS);
+}
+
+function overlapMinutes(
+  start: Date,
+  end: Date,
+  rangeStart: Date,
+  rangeEnd: Date
+): number {
+  const from = start > rangeStart ? start : rangeStart;
+  const to = end < rangeEnd ? end : rangeEnd;
+  return minutesBetween(from, to);
+}
+
+function dayBounds(date: Date): [Date, Date] {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return [start, end];
+}
+
+function normalizeTitle(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+function formatLocalDateTime(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  return `${day}T${time}`;
+}
@@ -0,0 +1,67 @@
+/**
+ * Backups View Component
+ * Custom ItemView wrapper for the Svelte BackupsView component
+ * Browses NoteKit backups, compares them with the current state and restores them
+ */
+
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import BackupsViewSvelte from "../components/BackupsView.svelte";
+import { mount, unmount } from "svelte";
+import type { BackupManager, BackupRetentionPolicy } from "../core/note-kit";
+
+export const BACKUPS_VIEW_TYPE = "task-sync-backups";
+
+export class BackupsView extends ItemView {
+  private svelteComponent: any = null;
+  private backupManager: BackupManager;
+  private getRetentionPolicy: () => BackupRetentionPolicy;
+  private onsaveretention: (policy: BackupRetentionPolicy) => Promise<void>;
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    backupManager: BackupManager,
+    getRetentionPolicy: () => BackupRetentionPolicy,
+    onsaveretention: (policy: BackupRetentionPolicy) => Promise<void>
+  ) {
+    super(leaf);
+    this.backupManager = backupManager;
+    this.getRetentionPolicy = getRetentionPolicy;
+    this.onsaveretention = onsaveretention;
+  }
+
+  getViewType(): string {
+    return BACKUPS_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Backups";
+  }
+
+  getIcon(): string {
+    return "archive-restore";
+  }
+
+  async onOpen(): Promise<void> {
+    this.containerEl.empty();
+    this.containerEl.addClass("backups-view-container");
+    this.containerEl.setAttribute("data-type", BACKUPS_VIEW_TYPE);
+
+    // Mount Svelte 5 component
+    this.svelteComponent = mount(BackupsViewSvelte, {
+      target: this.containerEl,
+      props: {
+        backupManager: this.backupManager,
+        retention: { ...this.getRetentionPolicy() },
+        onsaveretention: this.onsaveretention,
+      },
+    });
+  }
+
+  async onClose(): Promise<void> {
+    // Unmount Svelte 5 component
+    if (this.svelteComponent) {
+      await unmount(this.svelteComponent);
+      this.svelteComponent = null;
+    }
+  }
+}
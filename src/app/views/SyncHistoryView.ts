@@ -0,0 +1,55 @@
+/**
+ * Sync History View Component
+ * Custom ItemView wrapper for the Svelte SyncHistoryView component
+ * Displays the journal of changes applied by cross-source syncs
+ */
+
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import SyncHistoryViewSvelte from "../components/SyncHistoryView.svelte";
+import { mount, unmount } from "svelte";
+
+export const SYNC_HISTORY_VIEW_TYPE = "task-sync-sync-history";
+
+export class SyncHistoryView extends ItemView {
+  private svelteComponent: any = null;
+  private onundo: () => Promise<void>;
+
+  constructor(leaf: WorkspaceLeaf, onundo: () => Promise<void>) {
+    super(leaf);
+    this.onundo = onundo;
+  }
+
+  getViewType(): string {
+    return SYNC_HISTORY_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Sync History";
+  }
+
+  getIcon(): string {
+    return "history";
+  }
+
+  async onOpen(): Promise<void> {
+    this.containerEl.empty();
+    this.containerEl.addClass("sync-history-view-container");
+    this.containerEl.setAttribute("data-type", SYNC_HISTORY_VIEW_TYPE);
+
+    // Mount Svelte 5 component
+    this.svelteComponent = mount(SyncHistoryViewSvelte, {
+      target: this.containerEl,
+      props: {
+        onundo: this.onundo,
+      },
+    });
+  }
+
+  async onClose(): Promise<void> {
+    // Unmount Svelte 5 component
+    if (this.svelteComponent) {
+      await unmount(this.svelteComponent);
+      this.svelteComponent = null;
+    }
+  }
+}
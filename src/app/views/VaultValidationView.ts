@@ -0,0 +1,172 @@
+/**
+ * Vault Validation View Component
+ * Custom ItemView wrapper for the Svelte VaultValidationView component
+ * Validates every typed note in the vault and applies fixes to their front-matter
+ */
+
+import { ItemView, TFile, WorkspaceLeaf } from "obsidian";
+import { writable, type Writable } from "svelte/store";
+import { mount, unmount } from "svelte";
+import VaultValidationViewSvelte from "../components/VaultValidationView.svelte";
+import {
+  VaultValidator,
+  buildValidationReport,
+  applyValidationFix,
+  getReferenceLinkpath,
+  type AssociationLinkResolver,
+  type NoteKit,
+  type NoteValidationResult,
+  type VaultValidationIssue,
+  type VaultValidationReport,
+} from "../core/note-kit";
+
+export const VAULT_VALIDATION_VIEW_TYPE = "task-sync-vault-validation";
+
+/** Most notes suggested for re-linking a broken association */
+const MAX_LINK_CANDIDATES = 10;
+
+export class VaultValidationView extends ItemView {
+  private svelteComponent: any = null;
+  private validator: VaultValidator;
+  private results: NoteValidationResult[] = [];
+  private report: Writable<VaultValidationReport | null> = writable(null);
+  private validating: Writable<boolean> = writable(false);
+
+  constructor(leaf: WorkspaceLeaf, typeNote: NoteKit) {
+    super(leaf);
+    this.validator = new VaultValidator(
+      typeNote.noteProcessor,
+      typeNote.propertyProcessor,
+      this.createLinkResolver()
+    );
+  }
+
+  getViewType(): string {
+    return VAULT_VALIDATION_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Typed Note Validation";
+  }
+
+  getIcon(): string {
+    return "list-checks";
+  }
+
+  async onOpen(): Promise<void> {
+    this.containerEl.empty();
+    this.containerEl.addClass("vault-validation-view-container");
+    this.containerEl.setAttribute("data-type", VAULT_VALIDATION_VIEW_TYPE);
+
+    // Mount Svelte 5 component
+    this.svelteComponent = mount(VaultValidationViewSvelte, {
+      target: this.containerEl,
+      props: {
+        report: this.report,
+        validating: this.validating,
+        onvalidate: () => this.validate(),
+        onfix: (issue: VaultValidationIssue, choice?: string) =>
+          this.applyFix(issue, choice),
+        onopen: (filePath: string) => this.openNote(filePath),
+      },
+    });
+
+    await this.validate();
+  }
+
+  async onClose(): Promise<void> {
+    // Unmount Svelte 5 component
+    if (this.svelteComponent) {
+      await unmount(this.svelteComponent);
+      this.svelteComponent = null;
+    }
+  }
+
+  /**
+   * Validate every typed note in the vault
+   */
+  async validate(): Promise<void> {
+    this.validating.set(true);
+
+    try {
+      const notes = this.app.vault.getMarkdownFiles().map((file) => ({
+        filePath: file.path,
+        frontMatter: {
+          ...(this.app.metadataCache.getFileCache(file)?.frontmatter ?? {}),
+        },
+      }));
+
+      this.results = await this.validator.validateNotes(notes);
+      this.report.set(buildValidationReport(this.results));
+    } finally {
+      this.validating.set(false);
+    }
+  }
+
+  /**
+   * Apply an issue's fix and validate the note again
+   */
+  async applyFix(issue: VaultValidationIssue, choice?: string): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(issue.filePath);
+    if (!(file instanceof TFile)) {
+      throw new Error(`File not found: ${issue.filePath}`);
+    }
+
+    let frontMatter: Record<string, unknown> = {};
+    await this.app.fileManager.processFrontMatter(file, (fm) => {
+      applyValidationFix(fm, issue, choice);
+      frontMatter = { ...fm };
+    });
+
+    const result = await this.validator.validateNote(file.path, frontMatter);
+    this.results = this.results
+      .filter((existing) => existing.filePath !== file.path)
+      .concat(result ? [result] : []);
+    this.report.set(buildValidationReport(this.results));
+  }
+
+  private async openNote(filePath: string): Promise<void> {
+    await this.app.workspace.openLinkText(filePath, "", false);
+  }
+
+  private createLinkResolver(): AssociationLinkResolver {
+    return {
+      exists: (reference, sourcePath) =>
+        this.app.metadataCache.getFirstLinkpathDest(
+          getReferenceLinkpath(reference),
+          sourcePath
+        ) !== null,
+
+      suggest: (reference, association) => {
+        const name = getReferenceLinkpath(reference)
+          .split("/")
+          .pop()!
+          .toLowerCase();
+        const folder = association.folder
+          ? `${association.folder.replace(/\/$/, "")}/`
+          : null;
+
+        // Notes with a similar name first, then the rest of the folder
+        return this.app.vault
+          .getMarkdownFiles()
+          .filter((file) => !folder || file.path.startsWith(folder))
+          .map((file) => {
+            const basename = file.basename.toLowerCase();
+            if (basename === name) return { file, score: 0 };
+            if (basename.includes(name) || name.includes(basename)) {
+              return { file, score: 1 };
+            }
+            return { file, score: 2 };
+          })
+          .filter(({ score }) => folder !== null || score < 2)
+          .sort(
+            (a, b) =>
+              a.score - b.score ||
+              a.file.basename.localeCompare(b.file.basename)
+          )
+          .slice(0, MAX_LINK_CANDIDATES)
+          .map(({ file }) => file.basename);
+      },
+    };
+  }
+}
@@ -3,7 +3,14 @@
  * Refactored to use ObsidianHost abstraction
  */
 
-import { Plugin, ItemView, WorkspaceLeaf, Notice } from "obsidian";
+import {
+  Plugin,
+  ItemView,
+  WorkspaceLeaf,
+  Notice,
+  TFile,
+  getFrontMatterInfo,
+} from "obsidian";
 import { mount, unmount } from "svelte";
 import App from "./app/App.svelte";
 import { TaskSyncSettings } from "./app/types/settings";
@@ -18,6 +25,16 @@ import {
   ContextView,
   CONTEXT_VIEW_TYPE,
 } from "./app/views/ContextView";
+import {
+  SyncHistoryView,
+  SYNC_HISTORY_VIEW_TYPE,
+} from "./app/views/SyncHistoryView";
+import {
+  VaultValidationView,
+  VAULT_VALIDATION_VIEW_TYPE,
+} from "./app/views/VaultValidationView";
+import { BackupsView, BACKUPS_VIEW_TYPE } from "./app/views/BackupsView";
+import { syncManager } from "./app/core/SyncManager";
 import { taskStore, type TaskStore } from "./app/stores/taskStore";
 import { projectStore, type ProjectStore } from "./app/stores/projectStore";
 import { areaStore, type AreaStore } from "./app/stores/areaStore";
@@ -26,12 +43,22 @@ import { ObsidianTaskOperations, ObsidianProjectOperations, ObsidianAreaOperatio
 import { get } from "svelte/store";
 import type { Task, Project, Area } from "./app/core/entities";
 import { associationCleanup } from "./app/utils/AssociationCleanup";
+import { applyTaskDefaults } from "./app/utils/taskDefaults";
+import {
+  initializeSmartViewStore,
+  getSmartViewStore,
+} from "./app/core/filters/smartViewStore";
+import type { SmartView } from "./app/core/filters/types";
 // Singleton operations removed - use operations from ObsidianExtension instance
 
 // Commands
 import { RefreshTasksCommand } from "./app/commands/core/RefreshTasksCommand";
+import { StartTaskTimerCommand } from "./app/commands/core/StartTaskTimerCommand";
+import { StopTaskTimerCommand } from "./app/commands/core/StopTaskTimerCommand";
 import { CheckAppleRemindersPermissionsCommand } from "./app/commands/apple-reminders/CheckAppleRemindersPermissionsCommand";
 import { ImportAppleRemindersCommand } from "./app/commands/apple-reminders/ImportAppleRemindersCommand";
+import { RefreshHttpJsonSourcesCommand } from "./app/commands/http-json/RefreshHttpJsonSourcesCommand";
+import { ImportNoteTypesModal } from "./app/modals/ImportNoteTypesModal";
 
 // NoteKit imports
 import {
@@ -41,6 +68,11 @@ import {
   BackupManager,
   SchemaMigrationManager,
   type MigrationRecord,
+  FileCheckpointStore,
+  type DeclarativeMigrationDefinition,
+  type FileMigrationPreview,
+  NOTE_TYPES_FILE_EXTENSION,
+  exportNoteTypes,
 } from "./app/core/note-kit";
 
 export default class TaskSyncPlugin extends Plugin {
@@ -57,6 +89,9 @@ export default class TaskSyncPlugin extends Plugin {
   // Track registered note type commands for cleanup
   private registeredNoteTypeCommands: string[] = [];
 
+  // Track registered smart view commands for cleanup
+  private registeredSmartViewCommands: string[] = [];
+
   // Expose stores for testing (like in the old implementation)
   public get stores(): {
     taskStore: TaskStore;
@@ -172,6 +207,10 @@ export default class TaskSyncPlugin extends Plugin {
     // Load settings through host
     this.settings = await this.host.loadSettings();
 
+    // Load saved smart views before any view reads them
+    const smartViewStore = initializeSmartViewStore(this.host);
+    await smartViewStore.initialize();
+
     // Initialize NoteKit API with persistence BEFORE taskSyncApp.initialize
     // This is critical because ObsidianExtension needs to use this NoteKit instance
     this.typeNote = await this.createTypeNoteWithPersistence();
@@ -207,6 +246,29 @@ export default class TaskSyncPlugin extends Plugin {
       return new ContextView(leaf, this.host, this.settings);
     });
 
+    // Register the Sync History View
+    this.registerView(SYNC_HISTORY_VIEW_TYPE, (leaf) => {
+      return new SyncHistoryView(leaf, () => this.undoLastSync());
+    });
+
+    // Register the Vault Validation View
+    this.registerView(VAULT_VALIDATION_VIEW_TYPE, (leaf) => {
+      return new VaultValidationView(leaf, this.typeNote);
+    });
+
+    // Register the Backups View
+    this.registerView(BACKUPS_VIEW_TYPE, (leaf) => {
+      return new BackupsView(
+        leaf,
+        this.backupManager,
+        () => this.settings.backupRetention,
+        async (policy) => {
+          this.settings.backupRetention = policy;
+          await this.saveSettings();
+        }
+      );
+    });
+
     // Add ribbon icon for main view (use valid Obsidian icon)
     this.addRibbonIcon("list-todo", "Task Sync", () => {
       void this.activateView();
@@ -239,6 +301,113 @@ export default class TaskSyncPlugin extends Plugin {
       },
     });
 
+    // Add command to resolve queued sync conflicts
+    this.addCommand({
+      id: "resolve-sync-conflicts",
+      name: "Resolve Sync Conflicts",
+      callback: () => {
+        void this.openSyncConflictModal();
+      },
+    });
+
+    // Add command to browse the sync journal
+    this.addCommand({
+      id: "open-sync-history",
+      name: "Open Sync History",
+      callback: () => {
+        void this.openSyncHistoryView();
+      },
+    });
+
+    // Add command to revert the changes of the last sync
+    this.addCommand({
+      id: "undo-last-sync",
+      name: "Undo Last Sync",
+      callback: () => {
+        void this.undoLastSync();
+      },
+    });
+
+    // Add command to validate every typed note in the vault
+    this.addCommand({
+      id: "validate-all-typed-notes",
+      name: "Validate All Typed Notes",
+      callback: () => {
+        void this.openVaultValidationView();
+      },
+    });
+
+    // Add command to browse note type, file and registry backups
+    this.addCommand({
+      id: "open-backups",
+      name: "Open Backups",
+      callback: () => {
+        void this.openBackupsView();
+      },
+    });
+
+    // Add commands to control declarative schema migrations
+    this.addCommand({
+      id: "pause-schema-migration",
+      name: "Pause Schema Migration",
+      callback: () => {
+        if (!this.migrationManager.pauseRunningMigration()) {
+          new Notice("No schema migration is running");
+        }
+      },
+    });
+
+    this.addCommand({
+      id: "resume-schema-migrations",
+      name: "Resume Interrupted Schema Migrations",
+      callback: () => {
+        void this.resumeSchemaMigrations();
+      },
+    });
+
+    this.addCommand({
+      id: "roll-back-schema-migrations",
+      name: "Roll Back Interrupted Schema Migrations",
+      callback: () => {
+        void this.rollbackSchemaMigrations();
+      },
+    });
+
+    // Add command to export saved smart views
+    this.addCommand({
+      id: "export-smart-views",
+      name: "Export Smart Views",
+      callback: () => {
+        void this.exportSmartViews();
+      },
+    });
+
+    // Add commands to share note type definitions between vaults
+    this.addCommand({
+      id: "export-note-types",
+      name: "Export Note Types",
+      callback: () => {
+        void this.exportNoteTypes();
+      },
+    });
+
+    this.addCommand({
+      id: "import-note-types",
+      name: "Import Note Types",
+      callback: () => {
+        new ImportNoteTypesModal(this.app, this.typeNote, () =>
+          this.registerNoteTypeCommands()
+        ).open();
+      },
+    });
+
+    // Register a command for each saved smart view and keep them in sync
+    this.register(
+      smartViewStore.views.subscribe((views) => {
+        this.registerSmartViewCommands(views);
+      })
+    );
+
     // Register Refresh Tasks command
     const refreshTasksCommand = new RefreshTasksCommand({
       plugin: this,
@@ -247,6 +416,21 @@ export default class TaskSyncPlugin extends Plugin {
     });
     refreshTasksCommand.register();
 
+    // Register time tracking commands
+    const startTaskTimerCommand = new StartTaskTimerCommand({
+      plugin: this,
+      app: this.app,
+      settings: this.settings,
+    });
+    startTaskTimerCommand.register();
+
+    const stopTaskTimerCommand = new StopTaskTimerCommand({
+      plugin: this,
+      app: this.app,
+      settings: this.settings,
+    });
+    stopTaskTimerCommand.register();
+
     // Register Apple Reminders commands
     const checkAppleRemindersPermissionsCommand =
       new CheckAppleRemindersPermissionsCommand({
@@ -263,6 +447,14 @@ export default class TaskSyncPlugin extends Plugin {
     });
     importAppleRemindersCommand.register();
 
+    // Register HTTP JSON commands
+    const refreshHttpJsonSourcesCommand = new RefreshHttpJsonSourcesCommand({
+      plugin: this,
+      app: this.app,
+      settings: this.settings,
+    });
+    refreshHttpJsonSourcesCommand.register();
+
     // Add command to start daily planning
     this.addCommand({
       id: "start-daily-planning",
@@ -351,6 +543,9 @@ export default class TaskSyncPlugin extends Plugin {
     // Create NoteKit instance
     const typeNote = new NoteKit(this.app);
 
+    // Register the partials shared by note type templates
+    typeNote.templateEngine.setPartials(this.settings.templatePartials);
+
     // Connect the cache to the registry
     await this.connectCacheToRegistry(typeNote, typeCache);
 
@@ -450,6 +645,9 @@ export default class TaskSyncPlugin extends Plugin {
     );
     await this.backupManager.initialize();
 
+    // Drop the backups the retention policy doesn't keep
+    await this.backupManager.applyRetentionPolicy(this.settings.backupRetention);
+
     // Load executed migrations from settings
     const executedMigrations: MigrationRecord[] = (
       this.settings.executedMigrations || []
@@ -462,7 +660,8 @@ export default class TaskSyncPlugin extends Plugin {
     this.migrationManager = new SchemaMigrationManager(
       this.app,
       typeNote.registry,
-      this.backupManager
+      this.backupManager,
+      new FileCheckpointStore(this.app, ".obsidian/note-kit-migrations")
     );
     await this.migrationManager.initialize(executedMigrations);
   }
@@ -484,12 +683,108 @@ export default class TaskSyncPlugin extends Plugin {
 
         console.log(`TaskSync: Executed ${records.length} schema migrations`);
       }
+
+      const interrupted = await this.migrationManager.getInterruptedMigrations();
+      if (interrupted.length > 0) {
+        new Notice(
+          `${interrupted.length} schema migration(s) didn't finish. Use "Resume Interrupted Schema Migrations" or "Roll Back Interrupted Schema Migrations" to complete or undo them.`,
+          10000
+        );
+      }
     } catch (error) {
       console.error("TaskSync: Failed to run schema migrations:", error);
       new Notice(`Failed to run schema migrations: ${error.message}`, 10000);
     }
   }
 
+  /**
+   * Preview the files a declarative schema migration changes
+   */
+  async previewSchemaMigration(
+    definition: DeclarativeMigrationDefinition
+  ): Promise<FileMigrationPreview[]> {
+    return this.migrationManager.previewDeclarativeMigration(definition);
+  }
+
+  /**
+   * Run a declarative schema migration and record it
+   */
+  async runSchemaMigration(
+    definition: DeclarativeMigrationDefinition
+  ): Promise<MigrationRecord> {
+    const notice = new Notice(`Running migration: ${definition.description}...`, 0);
+
+    try {
+      return await this.migrationManager.executeDeclarativeMigration(
+        definition,
+        (processed, total) => {
+          notice.setMessage(`${definition.description}: ${processed}/${total} files`);
+        }
+      );
+    } finally {
+      notice.hide();
+      // Failed migrations are recorded as well
+      await this.saveMigrationRecords(this.migrationManager.exportMigrationRecords());
+    }
+  }
+
+  /**
+   * Resume schema migrations that were paused or interrupted by a reload
+   */
+  private async resumeSchemaMigrations(): Promise<void> {
+    const interrupted = await this.migrationManager.getInterruptedMigrations();
+    if (interrupted.length === 0) {
+      new Notice("No interrupted schema migrations");
+      return;
+    }
+
+    const notice = new Notice("Resuming schema migrations...", 0);
+    try {
+      for (const checkpoint of interrupted) {
+        const record = await this.migrationManager.resumeMigration(
+          checkpoint.id,
+          (processed, total) => {
+            notice.setMessage(
+              `${checkpoint.plan.description}: ${processed}/${total} files`
+            );
+          }
+        );
+        if (!record.success) {
+          new Notice(`Schema migration didn't complete: ${record.description}`);
+        }
+      }
+    } catch (error) {
+      console.error("TaskSync: Failed to resume schema migrations:", error);
+      new Notice(`Failed to resume schema migrations: ${error.message}`);
+    } finally {
+      notice.hide();
+      await this.saveMigrationRecords(this.migrationManager.exportMigrationRecords());
+    }
+  }
+
+  /**
+   * Restore the files changed by interrupted schema migrations from their backups
+   */
+  private async rollbackSchemaMigrations(): Promise<void> {
+    const interrupted = await this.migrationManager.getInterruptedMigrations();
+    if (interrupted.length === 0) {
+      new Notice("No interrupted schema migrations");
+      return;
+    }
+
+    try {
+      for (const checkpoint of interrupted) {
+        await this.migrationManager.rollbackMigration(checkpoint.id);
+      }
+      new Notice(`Rolled back ${interrupted.length} schema migration(s)`);
+    } catch (error) {
+      console.error("TaskSync: Failed to roll back schema migrations:", error);
+      new Notice(`Failed to roll back schema migrations: ${error.message}`);
+    } finally {
+      await this.saveMigrationRecords(this.migrationManager.exportMigrationRecords());
+    }
+  }
+
   /**
    * Save migration records to settings
    */
@@ -505,11 +800,21 @@ export default class TaskSyncPlugin extends Plugin {
       filesAffected: record.filesAffected,
       success: record.success,
       version: record.version,
+      rolledBack: record.rolledBack,
     }));
 
     await this.saveSettings();
   }
 
+  /**
+   * Save the partials shared by note type templates
+   */
+  async saveTemplatePartials(partials: Record<string, string>): Promise<void> {
+    this.typeNote.templateEngine.setPartials(partials);
+    this.settings.templatePartials = partials;
+    await this.saveSettings();
+  }
+
   onunload() {
     console.log("TaskSync plugin unloading...");
 
@@ -716,6 +1021,76 @@ export default class TaskSyncPlugin extends Plugin {
     }
   }
 
+  async openSyncHistoryView() {
+    const { workspace } = this.app;
+
+    const existingLeaves = workspace.getLeavesOfType(SYNC_HISTORY_VIEW_TYPE);
+
+    if (existingLeaves.length > 0) {
+      await workspace.revealLeaf(existingLeaves[0]);
+    } else {
+      const leaf = workspace.getLeaf("tab");
+      await leaf.setViewState({
+        type: SYNC_HISTORY_VIEW_TYPE,
+        active: true,
+      });
+    }
+  }
+
+  async openVaultValidationView() {
+    const { workspace } = this.app;
+
+    const existingLeaves = workspace.getLeavesOfType(
+      VAULT_VALIDATION_VIEW_TYPE
+    );
+
+    if (existingLeaves.length > 0) {
+      await workspace.revealLeaf(existingLeaves[0]);
+      await (existingLeaves[0].view as VaultValidationView).validate();
+    } else {
+      const leaf = workspace.getLeaf("tab");
+      await leaf.setViewState({
+        type: VAULT_VALIDATION_VIEW_TYPE,
+        active: true,
+      });
+    }
+  }
+
+  async openBackupsView() {
+    const { workspace } = this.app;
+
+    const existingLeaves = workspace.getLeavesOfType(BACKUPS_VIEW_TYPE);
+
+    if (existingLeaves.length > 0) {
+      await workspace.revealLeaf(existingLeaves[0]);
+    } else {
+      const leaf = workspace.getLeaf("tab");
+      await leaf.setViewState({
+        type: BACKUPS_VIEW_TYPE,
+        active: true,
+      });
+    }
+  }
+
+  async undoLastSync() {
+    try {
+      const revertedChanges = await syncManager.undoLastSync();
+
+      if (revertedChanges === 0) {
+        new Notice("Nothing to undo");
+      } else {
+        new Notice(
+          `Reverted ${revertedChanges} ${
+            revertedChanges === 1 ? "change" : "changes"
+          } from the last sync`
+        );
+      }
+    } catch (error) {
+      console.error("Failed to undo last sync:", error);
+      new Notice(`Failed to undo last sync: ${error.message}`);
+    }
+  }
+
   async openCreateAreaModal() {
     const { AreaCreateModal } = await import("./app/modals/AreaCreateModal");
     new AreaCreateModal(this.app, this).open();
@@ -728,6 +1103,10 @@ export default class TaskSyncPlugin extends Plugin {
     new ProjectCreateModal(this.app, this).open();
   }
 
+  async openSyncConflictModal() {
+    await this.host.openSyncConflicts();
+  }
+
   async openCreateNoteModal(noteTypeId?: string) {
     const { CreateEntityModal } = await import(
       "./app/modals/CreateEntityModal"
@@ -736,6 +1115,7 @@ export default class TaskSyncPlugin extends Plugin {
     // Derive contextual defaults for Task creation
     let initialPropertyValues: Record<string, unknown> | undefined;
     let contextualTitle: string | undefined;
+    let templateContent: string | undefined;
 
     try {
       // Only attempt context for tasks
@@ -768,6 +1148,19 @@ export default class TaskSyncPlugin extends Plugin {
             contextualTitle = `Create Subtask of: ${task.title}`;
           }
         }
+
+        // Project and area notes can configure defaults for their tasks
+        if (context.taskDefaults) {
+          initialPropertyValues = applyTaskDefaults(
+            initialPropertyValues || {},
+            context.taskDefaults
+          );
+          if (context.taskDefaults.template) {
+            templateContent = await this.readTaskTemplate(
+              context.taskDefaults.template
+            );
+          }
+        }
       }
     } catch (_) {
       // Best-effort context; ignore errors
@@ -776,9 +1169,30 @@ export default class TaskSyncPlugin extends Plugin {
     new CreateEntityModal(this.app, this, noteTypeId, {
       initialPropertyValues,
       contextualTitle,
+      templateContent,
     }).open();
   }
 
+  /**
+   * Read the body of a task template from the templates folder
+   * Front-matter is dropped since task properties come from the form.
+   */
+  private async readTaskTemplate(name: string): Promise<string | undefined> {
+    const fileName = name.endsWith(".md") ? name : `${name}.md`;
+    const path = fileName.includes("/")
+      ? fileName
+      : `${this.settings.templateFolder}/${fileName}`;
+
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      new Notice(`Task template not found: ${path}`);
+      return undefined;
+    }
+
+    const content = await this.app.vault.read(file);
+    return content.slice(getFrontMatterInfo(content).contentStart).trimStart();
+  }
+
   /**
    * Register dynamic commands for each note type
    * This allows users to create notes of specific types directly from the command palette
@@ -814,6 +1228,80 @@ export default class TaskSyncPlugin extends Plugin {
     );
   }
 
+  /**
+   * Register dynamic commands for each saved smart view
+   * Each command opens the main view with the smart view applied, pinning
+   * it as a tab again if its tab was closed
+   */
+  registerSmartViewCommands(views: SmartView[]) {
+    // Clear any previously registered commands
+    this.registeredSmartViewCommands.forEach((commandId) => {
+      this.removeCommand(commandId);
+    });
+    this.registeredSmartViewCommands = [];
+
+    views.forEach((view) => {
+      const commandId = `open-smart-view-${view.id}`;
+
+      this.addCommand({
+        id: commandId,
+        name: `Open Smart View: ${view.name}`,
+        callback: async () => {
+          await this.activateView();
+          const smartViewStore = getSmartViewStore();
+          if (!smartViewStore.getView(view.id)?.pinned) {
+            await smartViewStore.setPinned(view.id, true);
+          }
+          smartViewStore.activateView(view.id);
+        },
+      });
+
+      this.registeredSmartViewCommands.push(commandId);
+    });
+  }
+
+  /**
+   * Export all saved smart views to a JSON file in the vault root
+   */
+  async exportSmartViews() {
+    try {
+      const path = "smart-views.json";
+      await this.writeVaultFile(path, getSmartViewStore().exportViews());
+      new Notice(`Smart views exported to ${path}`);
+    } catch (error) {
+      console.error("Failed to export smart views:", error);
+      new Notice(`Error exporting smart views: ${error.message}`);
+    }
+  }
+
+  /**
+   * Export all note types to a shareable file in the vault root
+   */
+  async exportNoteTypes() {
+    try {
+      const path = `note-types${NOTE_TYPES_FILE_EXTENSION}`;
+      const json = exportNoteTypes(this.typeNote.registry);
+      await this.writeVaultFile(path, json);
+      new Notice(`Note types exported to ${path}`);
+    } catch (error) {
+      console.error("Failed to export note types:", error);
+      new Notice(`Error exporting note types: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create or overwrite a file in the vault
+   */
+  private async writeVaultFile(path: string, content: string): Promise<void> {
+    const existing = this.app.vault.getAbstractFileByPath(path);
+
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, content);
+    } else {
+      await this.app.vault.create(path, content);
+    }
+  }
+
   /**
    * Refresh bases - adds missing bases and updates existing ones according to current settings
    */
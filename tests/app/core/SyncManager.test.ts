@@ -0,0 +1,415 @@
+/**
+ * Unit tests for SyncManager
+ * Tests conflict detection and resolution for the "manual-resolve" strategy
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { get } from "svelte/store";
+import {
+  SyncManager,
+  type EntityDataProvider,
+} from "../../../src/app/core/SyncManager";
+import { taskStore } from "../../../src/app/stores/taskStore";
+import { createSyncConflictStore } from "../../../src/app/stores/syncConflictStore";
+import { createSyncJournalStore } from "../../../src/app/stores/syncJournalStore";
+import type { Task } from "../../../src/app/core/entities";
+
+function buildTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: "task-1",
+    title: "Fix login bug",
+    description: "Login fails",
+    status: "Backlog",
+    done: false,
+    areas: [],
+    tags: [],
+    source: {
+      extension: "github",
+      keys: {
+        github: "https://github.com/acme/app/issues/1",
+        obsidian: "Tasks/Fix login bug.md",
+      },
+    },
+    createdAt: new Date("2024-01-01"),
+    updatedAt: new Date("2024-01-01"),
+    ...overrides,
+  };
+}
+
+class FakeProvider implements EntityDataProvider {
+  writes: Array<Partial<Task>> = [];
+  writeError?: Error;
+  writeBack = false;
+
+  constructor(
+    public extensionId: string,
+    public data: Partial<Task>,
+    private syncable?: Array<keyof Task>
+  ) {}
+
+  async readEntityData(): Promise<Partial<Task> | null> {
+    return this.data;
+  }
+
+  async writeEntityData(_entityId: string, data: Partial<Task>): Promise<void> {
+    if (this.writeError) {
+      throw this.writeError;
+    }
+    this.writes.push(data);
+    this.data = { ...this.data, ...data };
+  }
+
+  canHandle(): boolean {
+    return true;
+  }
+
+  isWriteBackEnabled(): boolean {
+    return this.writeBack;
+  }
+
+  getSyncableProperties(): Array<keyof Task> | undefined {
+    return this.syncable;
+  }
+}
+
+describe("SyncManager", () => {
+  let conflictStore: ReturnType<typeof createSyncConflictStore>;
+  let journalStore: ReturnType<typeof createSyncJournalStore>;
+  let manager: SyncManager;
+  let github: FakeProvider;
+  let obsidian: FakeProvider;
+
+  beforeEach(() => {
+    taskStore.dispatch({ type: "CLEAR_ALL_TASKS" });
+    conflictStore = createSyncConflictStore();
+    journalStore = createSyncJournalStore();
+    manager = new SyncManager(taskStore, conflictStore, journalStore, {
+      strategy: "manual-resolve",
+    });
+
+    taskStore.dispatch({ type: "ADD_TASK", task: buildTask() });
+
+    github = new FakeProvider(
+      "github",
+      { title: "Fix login bug", status: "Backlog", done: false },
+      ["title", "status", "done"]
+    );
+    obsidian = new FakeProvider("obsidian", {
+      title: "Fix login bug (renamed)",
+      status: "In Progress",
+      done: false,
+      priority: "High",
+    });
+
+    manager.registerProvider(github);
+    manager.registerProvider(obsidian);
+  });
+
+  describe("manual-resolve strategy", () => {
+    it("queues a conflict for each field the providers disagree on", async () => {
+      await manager.syncEntity(buildTask());
+
+      const conflicts = get(conflictStore).conflicts;
+      expect(conflicts.map((c) => c.field).sort()).toEqual(["status", "title"]);
+
+      const titleConflict = conflicts.find((c) => c.field === "title")!;
+      expect(titleConflict.entityId).toBe("task-1");
+      expect(titleConflict.values).toEqual([
+        { source: "github", value: "Fix login bug" },
+        { source: "obsidian", value: "Fix login bug (renamed)" },
+      ]);
+    });
+
+    it("does not write conflicting fields to any provider", async () => {
+      await manager.syncEntity(buildTask());
+
+      for (const write of [...github.writes, ...obsidian.writes]) {
+        expect(write).not.toHaveProperty("title");
+        expect(write).not.toHaveProperty("status");
+      }
+      expect(obsidian.writes[0]).toMatchObject({ priority: "High" });
+    });
+
+    it("keeps a single conflict per field across repeated syncs", async () => {
+      await manager.syncEntity(buildTask());
+      const [first] = get(conflictStore).conflicts;
+
+      await manager.syncEntity(buildTask());
+
+      const conflicts = get(conflictStore).conflicts;
+      expect(conflicts).toHaveLength(2);
+      expect(conflicts.find((c) => c.field === first.field)!.id).toBe(first.id);
+    });
+
+    it("drops conflicts once the providers agree again", async () => {
+      await manager.syncEntity(buildTask());
+
+      obsidian.data = { ...obsidian.data, status: "Backlog" };
+      await manager.syncEntity(buildTask());
+
+      const conflicts = get(conflictStore).conflicts;
+      expect(conflicts.map((c) => c.field)).toEqual(["title"]);
+    });
+
+    it("applies the chosen value when a conflict is resolved", async () => {
+      await manager.syncEntity(buildTask());
+      const titleConflict = get(conflictStore).conflicts.find(
+        (c) => c.field === "title"
+      )!;
+
+      await manager.resolveConflict(
+        titleConflict.id,
+        "Fix login bug (renamed)"
+      );
+
+      expect(github.data.title).toBe("Fix login bug (renamed)");
+      expect(obsidian.data.title).toBe("Fix login bug (renamed)");
+      expect(get(taskStore).tasks[0].title).toBe("Fix login bug (renamed)");
+      expect(
+        get(conflictStore).conflicts.find((c) => c.id === titleConflict.id)
+      ).toBeUndefined();
+    });
+
+    it("only writes the resolved value to providers that sync the field", async () => {
+      await manager.syncEntity(buildTask());
+      github.writes = [];
+
+      conflictStore.dispatch({
+        type: "QUEUE_CONFLICT",
+        conflict: {
+          id: "conflict-priority",
+          entityId: "task-1",
+          entityTitle: "Fix login bug",
+          field: "priority",
+          values: [],
+          detectedAt: new Date(),
+        },
+      });
+
+      await manager.resolveConflict("conflict-priority", "Low");
+
+      expect(github.writes).toEqual([]);
+      expect(obsidian.data.priority).toBe("Low");
+    });
+
+    it("throws for unknown conflicts", async () => {
+      await expect(manager.resolveConflict("missing", "x")).rejects.toThrow(
+        "Sync conflict not found: missing"
+      );
+    });
+  });
+
+  describe("source-wins strategy", () => {
+    beforeEach(async () => {
+      manager.updateConfig({ strategy: "source-wins" });
+
+      github.data = { title: "Fix login bug", status: "Backlog", done: false };
+      obsidian.data = {
+        title: "Fix login bug",
+        status: "Backlog",
+        done: false,
+      };
+
+      await manager.syncEntity(buildTask());
+      github.writes = [];
+      obsidian.writes = [];
+    });
+
+    it("overwrites local changes with the authoritative source", async () => {
+      obsidian.data = { ...obsidian.data, title: "Fix Safari login" };
+
+      await manager.syncEntity(buildTask());
+
+      expect(obsidian.writes[0]).toMatchObject({ title: "Fix login bug" });
+    });
+
+    it("writes local changes back to sources with write-back enabled", async () => {
+      github.writeBack = true;
+      obsidian.data = { ...obsidian.data, title: "Fix Safari login" };
+
+      await manager.syncEntity(buildTask());
+
+      expect(github.writes[0]).toMatchObject({ title: "Fix Safari login" });
+      expect(get(taskStore).tasks[0].title).toBe("Fix Safari login");
+    });
+  });
+
+  describe("three-way strategy", () => {
+    beforeEach(async () => {
+      manager.updateConfig({ strategy: "three-way" });
+
+      github.data = { title: "Fix login bug", status: "Backlog", done: false };
+      obsidian.data = { title: "Fix login bug", status: "Backlog", done: false };
+
+      // First sync establishes the base snapshots
+      await manager.syncEntity(buildTask());
+      github.writes = [];
+      obsidian.writes = [];
+    });
+
+    it("takes each field from the side that changed it", async () => {
+      github.data = { ...github.data, title: "Fix login bug on Safari" };
+      obsidian.data = { ...obsidian.data, status: "In Progress" };
+
+      const result = await manager.syncEntity(buildTask());
+
+      expect(obsidian.writes[0]).toMatchObject({
+        title: "Fix login bug on Safari",
+        status: "In Progress",
+      });
+      expect(get(taskStore).tasks[0]).toMatchObject({
+        title: "Fix login bug on Safari",
+        status: "In Progress",
+      });
+      expect(get(conflictStore).conflicts).toEqual([]);
+
+      expect(result.changes).toContainEqual({
+        field: "title",
+        oldValue: "Fix login bug",
+        newValue: "Fix login bug on Safari",
+        source: "obsidian",
+        rule: "changed-one-side",
+      });
+      expect(result.changes).toContainEqual({
+        field: "status",
+        oldValue: "Backlog",
+        newValue: "In Progress",
+        source: "github",
+        rule: "changed-one-side",
+      });
+    });
+
+    it("reports failed writes and writes them again on the next sync", async () => {
+      obsidian.data = { ...obsidian.data, status: "In Progress" };
+      github.writeError = new Error("Validation Failed");
+
+      const result = await manager.syncEntity(buildTask());
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([
+        "Failed to write to github: Validation Failed",
+      ]);
+      expect(obsidian.writes).toHaveLength(1);
+
+      github.writeError = undefined;
+      await manager.syncEntity(buildTask());
+
+      expect(github.writes[0]).toMatchObject({ status: "In Progress" });
+    });
+
+    it("flags a conflict only when both sides changed the same field", async () => {
+      github.data = { ...github.data, title: "GitHub title" };
+      obsidian.data = {
+        ...obsidian.data,
+        title: "Obsidian title",
+        done: true,
+      };
+
+      const result = await manager.syncEntity(buildTask());
+
+      const conflicts = get(conflictStore).conflicts;
+      expect(conflicts.map((c) => c.field)).toEqual(["title"]);
+      expect(obsidian.writes[0]).not.toHaveProperty("title");
+      expect(obsidian.writes[0]).toMatchObject({ done: true });
+      expect(
+        result.changes.find((c) => c.field === "done" && c.source === "github")
+          ?.rule
+      ).toBe("changed-one-side");
+    });
+
+    it("keeps the conflict until it is resolved", async () => {
+      github.data = { ...github.data, title: "GitHub title" };
+      obsidian.data = { ...obsidian.data, title: "Obsidian title" };
+
+      await manager.syncEntity(buildTask());
+      await manager.syncEntity(buildTask());
+
+      const [conflict] = get(conflictStore).conflicts;
+      expect(conflict.field).toBe("title");
+
+      await manager.resolveConflict(conflict.id, "Obsidian title");
+      await manager.syncEntity(buildTask());
+
+      expect(get(conflictStore).conflicts).toEqual([]);
+      expect(github.data.title).toBe("Obsidian title");
+    });
+
+    it("treats identical changes on both sides as agreement", async () => {
+      github.data = { ...github.data, status: "Done", done: true };
+      obsidian.data = { ...obsidian.data, status: "Done", done: true };
+
+      const result = await manager.syncEntity(buildTask());
+
+      expect(get(conflictStore).conflicts).toEqual([]);
+      expect(result.changes).toEqual([]);
+    });
+
+    it("falls back to source-wins for fields without a snapshot", async () => {
+      manager.loadSnapshots({});
+      github.data = { ...github.data, title: "GitHub title" };
+      obsidian.data = { ...obsidian.data, title: "Obsidian title" };
+
+      const result = await manager.syncEntity(buildTask());
+
+      expect(get(conflictStore).conflicts).toEqual([]);
+      expect(obsidian.data.title).toBe("GitHub title");
+      expect(result.changes).toContainEqual(
+        expect.objectContaining({ field: "title", rule: "no-base" })
+      );
+    });
+  });
+
+  describe("sync journal", () => {
+    beforeEach(() => {
+      manager.updateConfig({ strategy: "source-wins" });
+      github.data = { title: "Fix login bug", status: "Backlog", done: false };
+      obsidian.data = {
+        title: "Fix login bug",
+        status: "In Progress",
+        done: false,
+        description: "My own notes",
+      };
+    });
+
+    it("records the changes applied by a sync run", async () => {
+      await manager.syncAllCrossSourceEntities();
+
+      const entries = get(journalStore).entries;
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        entityId: "task-1",
+        entityTitle: "Fix login bug",
+        field: "status",
+        oldValue: "In Progress",
+        newValue: "Backlog",
+        source: "obsidian",
+        rule: "source-wins",
+      });
+      expect(entries[0].timestamp).toBeInstanceOf(Date);
+    });
+
+    it("does not record runs without changes", async () => {
+      await manager.syncAllCrossSourceEntities();
+      await manager.syncAllCrossSourceEntities();
+
+      const syncIds = new Set(get(journalStore).entries.map((e) => e.syncId));
+      expect(syncIds.size).toBe(1);
+    });
+
+    it("reverts the changes of the last sync", async () => {
+      await manager.syncAllCrossSourceEntities();
+      expect(obsidian.data.status).toBe("Backlog");
+
+      const reverted = await manager.undoLastSync();
+
+      expect(reverted).toBe(1);
+      expect(obsidian.data.status).toBe("In Progress");
+      expect(get(taskStore).tasks[0].status).toBe("In Progress");
+      expect(get(journalStore).entries.every((e) => e.undone)).toBe(true);
+    });
+
+    it("returns 0 when there is nothing to undo", async () => {
+      expect(await manager.undoLastSync()).toBe(0);
+    });
+  });
+});
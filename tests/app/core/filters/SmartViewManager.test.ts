@@ -0,0 +1,96 @@
+/**
+ * Tests for saved smart views
+ */
+
+import { describe, test, expect, beforeEach } from "vitest";
+import { SmartViewManager } from "../../../../src/app/core/filters/SmartViewManager";
+import type { Host } from "../../../../src/app/core/host";
+import type { SmartViewInput } from "../../../../src/app/core/filters/types";
+
+function createHost(initialData: any = null): Host & { data: any } {
+  const host = {
+    data: initialData,
+    async loadData() {
+      return host.data;
+    },
+    async saveData(data: any) {
+      host.data = data;
+    },
+  };
+  return host as unknown as Host & { data: any };
+}
+
+const input: SmartViewInput = {
+  name: "Work this week",
+  serviceId: "local",
+  filters: { area: "Work", showCompleted: false },
+  searchQuery: "due<7d -is:done",
+  sort: [{ field: "dueDate", direction: "asc" }],
+};
+
+describe("SmartViewManager", () => {
+  let host: Host & { data: any };
+  let manager: SmartViewManager;
+
+  beforeEach(() => {
+    host = createHost({ filterManager: { local: { state: {} } } });
+    manager = new SmartViewManager(host);
+  });
+
+  test("persists views next to existing plugin data", async () => {
+    const view = await manager.createView(input);
+
+    expect(view).toMatchObject({ ...input, pinned: true });
+    expect(host.data.filterManager).toEqual({ local: { state: {} } });
+    expect(host.data.smartViews.views).toEqual([view]);
+
+    const reloaded = new SmartViewManager(host);
+    await reloaded.loadPersistedState();
+    expect(reloaded.getViews()).toEqual([view]);
+  });
+
+  test("rejects empty and duplicate names", async () => {
+    const view = await manager.createView(input);
+
+    await expect(manager.createView({ ...input, name: "  " })).rejects.toThrow(
+      "cannot be empty"
+    );
+    await expect(
+      manager.createView({ ...input, name: "work THIS week" })
+    ).rejects.toThrow("already exists");
+
+    // Renaming a view to its own name is allowed
+    await expect(
+      manager.updateView(view.id, { name: "Work this week" })
+    ).resolves.toMatchObject({ name: "Work this week" });
+  });
+
+  test("updates, unpins and deletes views", async () => {
+    const view = await manager.createView(input);
+
+    await manager.updateView(view.id, { searchQuery: "is:overdue" });
+    await manager.setPinned(view.id, false);
+    expect(manager.getView(view.id)).toMatchObject({
+      searchQuery: "is:overdue",
+      pinned: false,
+    });
+
+    await manager.deleteView(view.id);
+    expect(manager.getViews()).toEqual([]);
+    expect(host.data.smartViews.views).toEqual([]);
+    await expect(manager.setPinned(view.id, true)).rejects.toThrow(
+      "not found"
+    );
+  });
+
+  test("exports selected views as JSON", async () => {
+    const first = await manager.createView(input);
+    await manager.createView({ ...input, name: "Home" });
+
+    const exported = JSON.parse(manager.exportViews([first.id]));
+
+    expect(exported.version).toBe(1);
+    expect(exported.views).toEqual([first]);
+    expect(JSON.parse(manager.exportViews()).views).toHaveLength(2);
+  });
+});
@@ -50,6 +50,10 @@ class MockHost extends Host {
     console.log(`Notice: ${message}`);
   }
 
+  async openSyncConflicts(): Promise<void> {
+    console.log("Mock opening sync conflicts");
+  }
+
   getExtensionById(id: string): any {
     return null;
   }
@@ -114,6 +118,10 @@ describe("Host Abstraction", () => {
         areaBasesEnabled: true,
         projectBasesEnabled: true,
         autoSyncAreaProjectBases: true,
+        syncStrategy: "source-wins",
+        autoCompleteParentTasks: false,
+        backupRetention: { keepLast: 0, maxAgeDays: 0, maxTotalSizeMB: 0 },
+        templatePartials: {},
         integrations: {
           github: {
             enabled: true,
@@ -123,6 +131,8 @@ describe("Host Abstraction", () => {
             issueFilters: { state: "open", assignee: "", labels: [] },
             labelTypeMapping: {},
             orgRepoMappings: [],
+            writeBackRepositories: [],
+            statusLabelMapping: {},
           },
           appleReminders: {
             enabled: false,
@@ -134,6 +144,24 @@ describe("Host Abstraction", () => {
             importNotesAsDescription: true,
             preservePriority: true,
           },
+          httpJson: {
+            enabled: false,
+            endpoints: [],
+            pollInterval: 15,
+          },
+          linear: {
+            enabled: false,
+            apiKey: "",
+            apiUrl: "https://api.linear.app/graphql",
+            defaultTeam: "",
+            issueFilters: {
+              state: "open",
+              assignedToMe: false,
+              labels: [],
+            },
+            teamProjectMappings: [],
+            writeBack: false,
+          },
           appleCalendar: {
             enabled: false,
             username: "",
@@ -182,6 +210,24 @@ describe("Host Abstraction", () => {
             defaultReminders: [15],
             includeTaskDetailsInEvent: true,
           },
+          caldavCalendar: {
+            enabled: false,
+            serverUrl: "",
+            username: "",
+            password: "",
+            selectedCalendars: [],
+            schedulingEnabled: false,
+            defaultSchedulingCalendar: "",
+            defaultEventDuration: 60,
+            defaultReminders: [15],
+            includeTaskDetailsInEvent: true,
+          },
+          icsCalendar: {
+            enabled: false,
+            subscriptions: [],
+            selectedCalendars: [],
+            refreshInterval: 15,
+          },
         },
       };
 
@@ -0,0 +1,241 @@
+/**
+ * Tests for AppleRemindersWriter
+ * Uses a fake osascript executor so the generated AppleScript can be verified on any platform
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  AppleRemindersWriter,
+  buildUpdateReminderScript,
+  escapeAppleScriptString,
+  reminderPriorityToLevel,
+  taskPriorityToReminderPriority,
+} from "../../../../src/app/extensions/apple-reminders/services/AppleRemindersWriter";
+import {
+  DEFAULT_SETTINGS,
+  type TaskSyncSettings,
+} from "../../../../src/app/types/settings";
+import type { Task } from "../../../../src/app/core/entities";
+import type { AppleReminder } from "../../../../src/app/types/apple-reminders";
+
+const REMINDER_ID = "x-apple-reminder://ABC-123";
+
+function buildReminder(overrides: Partial<AppleReminder> = {}): AppleReminder {
+  return {
+    id: REMINDER_ID,
+    title: "Buy milk",
+    notes: "Oat milk",
+    completed: false,
+    dueDate: new Date(2025, 8, 15, 9, 30),
+    priority: 0,
+    list: { id: "list-1", name: "Groceries" },
+    allDay: false,
+    ...overrides,
+  };
+}
+
+function buildTask(reminder: AppleReminder): Task {
+  return {
+    id: "task-1",
+    title: reminder.title,
+    description: reminder.notes || "",
+    status: "Backlog",
+    done: reminder.completed,
+    areas: [],
+    tags: [],
+    dueDate: reminder.dueDate,
+    source: {
+      extension: "apple-reminders",
+      keys: {
+        "apple-reminders": reminder.id,
+        obsidian: "Tasks/Buy milk.md",
+      },
+      data: reminder,
+    },
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+  };
+}
+
+describe("AppleRemindersWriter", () => {
+  let settings: TaskSyncSettings;
+  let scripts: string[];
+  let writer: AppleRemindersWriter;
+
+  beforeEach(() => {
+    settings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+    scripts = [];
+    // Fake osascript executor
+    writer = new AppleRemindersWriter(async (script) => {
+      scripts.push(script);
+      return "";
+    }, settings);
+  });
+
+  describe("buildUpdateReminderScript", () => {
+    it("updates the reminder by ID inside a Reminders tell block", () => {
+      const script = buildUpdateReminderScript(REMINDER_ID, {
+        title: "Buy oat milk",
+        completed: true,
+      });
+
+      expect(script).toBe(
+        [
+          `tell application "Reminders"`,
+          `  set theReminder to reminder id "${REMINDER_ID}"`,
+          `  set name of theReminder to "Buy oat milk"`,
+          `  set completed of theReminder to true`,
+          `end tell`,
+        ].join("\n")
+      );
+    });
+
+    it("escapes quotes and backslashes in text", () => {
+      const script = buildUpdateReminderScript(REMINDER_ID, {
+        notes: 'Say "hi" \\ bye',
+      });
+
+      expect(script).toContain(
+        'set body of theReminder to "Say \\"hi\\" \\\\ bye"'
+      );
+    });
+
+    it("builds due dates from components outside the tell block", () => {
+      const script = buildUpdateReminderScript(REMINDER_ID, {
+        dueDate: new Date(2025, 1, 28, 14, 5, 0),
+      });
+
+      const lines = script.split("\n");
+      expect(lines.slice(0, 6)).toEqual([
+        "set dueDateValue to current date",
+        "set day of dueDateValue to 1",
+        "set year of dueDateValue to 2025",
+        "set month of dueDateValue to 2",
+        "set day of dueDateValue to 28",
+        `set time of dueDateValue to ${14 * 3600 + 5 * 60}`,
+      ]);
+      expect(script).toContain("  set due date of theReminder to dueDateValue");
+    });
+
+    it("clears due dates and uses allday due date for all-day reminders", () => {
+      const script = buildUpdateReminderScript(
+        REMINDER_ID,
+        { dueDate: null },
+        true
+      );
+
+      expect(script).toContain(
+        "  set allday due date of theReminder to missing value"
+      );
+    });
+
+    it("sets the priority value", () => {
+      const script = buildUpdateReminderScript(REMINDER_ID, { priority: 5 });
+
+      expect(script).toContain("  set priority of theReminder to 5");
+    });
+  });
+
+  describe("priority mapping", () => {
+    it("maps reminder priority values to levels", () => {
+      expect(reminderPriorityToLevel(0)).toBeNull();
+      expect(reminderPriorityToLevel(1)).toBe("low");
+      expect(reminderPriorityToLevel(3)).toBe("low");
+      expect(reminderPriorityToLevel(4)).toBe("medium");
+      expect(reminderPriorityToLevel(6)).toBe("medium");
+      expect(reminderPriorityToLevel(7)).toBe("high");
+      expect(reminderPriorityToLevel(9)).toBe("high");
+    });
+
+    it("maps task priority names to reminder priority values", () => {
+      expect(taskPriorityToReminderPriority("High")).toBe(9);
+      expect(taskPriorityToReminderPriority("Urgent")).toBe(9);
+      expect(taskPriorityToReminderPriority("Medium")).toBe(5);
+      expect(taskPriorityToReminderPriority("Low")).toBe(1);
+      expect(taskPriorityToReminderPriority("")).toBe(0);
+    });
+  });
+
+  it("escapes AppleScript strings", () => {
+    expect(escapeAppleScriptString('a"b\\c')).toBe('a\\"b\\\\c');
+  });
+
+  describe("writeTask", () => {
+    it("does not run a script when nothing changed", async () => {
+      const reminder = buildReminder();
+
+      const result = await writer.writeTask(buildTask(reminder), {
+        title: "Buy milk",
+        description: "Oat milk",
+        done: false,
+        dueDate: new Date(2025, 8, 15, 9, 30),
+        priority: "",
+      });
+
+      expect(result).toBeNull();
+      expect(scripts).toEqual([]);
+    });
+
+    it("writes completion, title, notes, due date and priority", async () => {
+      const reminder = buildReminder();
+
+      const result = await writer.writeTask(buildTask(reminder), {
+        title: "Buy oat milk",
+        description: "Two cartons",
+        done: true,
+        dueDate: new Date(2025, 8, 16, 9, 30),
+        priority: "High",
+      });
+
+      expect(scripts).toHaveLength(1);
+      expect(scripts[0]).toContain('set name of theReminder to "Buy oat milk"');
+      expect(scripts[0]).toContain('set body of theReminder to "Two cartons"');
+      expect(scripts[0]).toContain("set completed of theReminder to true");
+      expect(scripts[0]).toContain("set due date of theReminder to dueDateValue");
+      expect(scripts[0]).toContain("set priority of theReminder to 9");
+
+      expect(result).toMatchObject({
+        title: "Buy oat milk",
+        notes: "Two cartons",
+        completed: true,
+        priority: 9,
+      });
+    });
+
+    it("compares due dates restored from persisted snapshots", async () => {
+      const reminder = buildReminder({
+        dueDate: new Date(2025, 8, 15, 9, 30).toISOString() as any,
+      });
+
+      const result = await writer.writeTask(buildTask(reminder), {
+        dueDate: new Date(2025, 8, 15, 9, 30),
+      });
+
+      expect(result).toBeNull();
+    });
+
+    it("keeps priorities within the same level unchanged", async () => {
+      const reminder = buildReminder({ priority: 7 });
+
+      const result = await writer.writeTask(buildTask(reminder), {
+        priority: "High",
+      });
+
+      expect(result).toBeNull();
+    });
+
+    it("respects the notes and priority settings", async () => {
+      settings.integrations.appleReminders.importNotesAsDescription = false;
+      settings.integrations.appleReminders.preservePriority = false;
+      const reminder = buildReminder();
+
+      const result = await writer.writeTask(buildTask(reminder), {
+        description: "Something else",
+        priority: "High",
+      });
+
+      expect(result).toBeNull();
+      expect(scripts).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Tests for CalDAVClient
+ * Runs against a local CalDAV stand-in server storing event resources in
+ * memory with ETags
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import ICAL from "ical.js";
+import {
+  CalDAVClient,
+  CalDAVConflictError,
+  CalDAVError,
+  buildEventICal,
+  getEventHref,
+  updateEventICal,
+  type CalDAVTransport,
+} from "../../../../src/app/extensions/calendar/services/CalDAVClient";
+
+const CALENDAR_HREF = "/1234/calendars/work/";
+
+let server: Server;
+let baseUrl: string;
+let resources: Map<string, { data: string; etag: string }>;
+let version: number;
+
+const transport: CalDAVTransport = ({ url, method, headers, body }) =>
+  new Promise((resolve, reject) => {
+    const req = request(url, { method, headers }, (res) => {
+      let text = "";
+      res.on("data", (chunk) => (text += chunk));
+      res.on("end", () =>
+        resolve({
+          status: res.statusCode ?? 0,
+          text,
+          headers: res.headers as Record<string, string>,
+        }),
+      );
+    });
+    req.on("error", reject);
+    req.end(body);
+  });
+
+function createClient(): CalDAVClient {
+  return new CalDAVClient({
+    baseUrl,
+    username: "jane@example.com",
+    password: "app-password",
+    transport,
+  });
+}
+
+function eventData(overrides: Record<string, any> = {}) {
+  return {
+    title: "Write report",
+    startDate: new Date("2025-10-20T09:00:00.000Z"),
+    endDate: new Date("2025-10-20T10:00:00.000Z"),
+    calendarId: "work",
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      if (
+        req.headers.authorization !==
+        `Basic ${btoa("jane@example.com:app-password")}`
+      ) {
+        res.writeHead(401).end("Unauthorized");
+        return;
+      }
+
+      const href = req.url!;
+      const existing = resources.get(href);
+      const ifMatch = req.headers["if-match"];
+      const ifNoneMatch = req.headers["if-none-match"];
+
+      if (
+        (ifMatch &&
+          (!existing || (ifMatch !== "*" && ifMatch !== existing.etag))) ||
+        (ifNoneMatch === "*" && existing)
+      ) {
+        res.writeHead(412).end("Precondition Failed");
+        return;
+      }
+
+      switch (req.method) {
+        case "GET":
+          if (!existing) {
+            res.writeHead(404).end("Not Found");
+            return;
+          }
+          res.writeHead(200, { ETag: existing.etag }).end(existing.data);
+          return;
+        case "PUT": {
+          const etag = `"${++version}"`;
+          resources.set(href, { data: body, etag });
+          res.writeHead(existing ? 204 : 201, { ETag: etag }).end();
+          return;
+        }
+        case "DELETE":
+          if (!resources.delete(href)) {
+            res.writeHead(404).end("Not Found");
+            return;
+          }
+          res.writeHead(204).end();
+          return;
+        case "REPORT": {
+          // Only supports calendar-queries matching a UID
+          const uid = body.match(/<c:text-match[^>]*>([^<]*)</)?.[1];
+          const matches = [...resources].filter(
+            ([path, resource]) =>
+              path.startsWith(href) && resource.data.includes(`UID:${uid}`),
+          );
+          const responses = matches.map(
+            ([path, resource]) =>
+              `<d:response><d:href>${path}</d:href><d:propstat><d:prop>` +
+              `<d:getetag>${resource.etag}</d:getetag>` +
+              `<c:calendar-data>${resource.data}</c:calendar-data>` +
+              `</d:prop></d:propstat></d:response>`,
+          );
+          res
+            .writeHead(207, { "Content-Type": "application/xml" })
+            .end(
+              `<d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">${responses.join("")}</d:multistatus>`,
+            );
+          return;
+        }
+        default:
+          res.writeHead(405).end("Method Not Allowed");
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  resources = new Map();
+  version = 0;
+});
+
+describe("CalDAVClient", () => {
+  it("creates, reads and deletes event resources", async () => {
+    const client = createClient();
+    const href = getEventHref(CALENDAR_HREF, "event-1");
+
+    const etag = await client.putEvent(
+      href,
+      buildEventICal(eventData(), "event-1"),
+      null,
+    );
+    const resource = await client.getEvent(href);
+
+    expect(href).toBe("/1234/calendars/work/event-1.ics");
+    expect(resource).toMatchObject({ href, etag });
+    expect(resource!.data).toContain("SUMMARY:Write report");
+    expect(resource!.data).toContain("DTSTART:20251020T090000Z");
+
+    await expect(client.deleteEvent(href, etag)).resolves.toBe(true);
+    await expect(client.deleteEvent(href)).resolves.toBe(false);
+    await expect(client.getEvent(href)).resolves.toBeNull();
+  });
+
+  it("reports conflicts when the resource changed on the server", async () => {
+    const client = createClient();
+    const href = getEventHref(CALENDAR_HREF, "event-1");
+    const data = buildEventICal(eventData(), "event-1");
+    const loadedEtag = await client.putEvent(href, data, null);
+
+    // Changed elsewhere after it was loaded
+    await client.putEvent(href, data, loadedEtag!);
+
+    await expect(client.putEvent(href, data, null)).rejects.toBeInstanceOf(
+      CalDAVConflictError,
+    );
+    await expect(client.putEvent(href, data, loadedEtag!)).rejects.toThrow(
+      `${href} was changed on the server`,
+    );
+    await expect(client.deleteEvent(href, loadedEtag)).rejects.toBeInstanceOf(
+      CalDAVConflictError,
+    );
+    expect(resources.has(href)).toBe(true);
+  });
+
+  it("finds events by UID whatever their resource is named", async () => {
+    const client = createClient();
+    const href = `${CALENDAR_HREF}3F2A-server-name.ics`;
+    const etag = await client.putEvent(
+      href,
+      buildEventICal(eventData(), "event-1"),
+      null,
+    );
+
+    const resource = await client.findEventByUid(CALENDAR_HREF, "event-1");
+
+    expect(resource).toMatchObject({ href, etag });
+    expect(resource!.data).toContain("SUMMARY:Write report");
+    await expect(
+      client.findEventByUid(CALENDAR_HREF, "event-2"),
+    ).resolves.toBeNull();
+  });
+
+  it("resolves hrefs like the server when the base URL has a path", async () => {
+    const client = new CalDAVClient({
+      baseUrl: `${baseUrl}/remote.php/dav`,
+      username: "jane@example.com",
+      password: "app-password",
+      transport,
+    });
+    const href = getEventHref(CALENDAR_HREF, "event-1");
+
+    await client.putEvent("calendars/event-2.ics", "BEGIN:VCALENDAR", null);
+    await client.putEvent(href, "BEGIN:VCALENDAR", null);
+
+    expect([...resources.keys()]).toEqual([
+      "/remote.php/dav/calendars/event-2.ics",
+      href,
+    ]);
+  });
+
+  it("throws CalDAVError for other error responses", async () => {
+    const client = new CalDAVClient({
+      baseUrl,
+      username: "jane@example.com",
+      password: "wrong",
+      transport,
+    });
+
+    const error = await client
+      .getEvent(getEventHref(CALENDAR_HREF, "event-1"))
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(CalDAVError);
+    expect(error.status).toBe(401);
+  });
+});
+
+describe("updateEventICal", () => {
+  it("changes the given fields and keeps everything else", () => {
+    const original = buildEventICal(
+      eventData({ description: "Quarterly numbers", reminders: [15] }),
+      "event-1",
+    ).replace("END:VEVENT", "ATTENDEE:mailto:bob@example.com\r\nEND:VEVENT");
+
+    const updated = updateEventICal(original, {
+      startDate: new Date("2025-10-20T13:00:00.000Z"),
+      endDate: new Date("2025-10-20T14:30:00.000Z"),
+    });
+    const event = new ICAL.Event(
+      new ICAL.Component(ICAL.parse(updated)).getFirstSubcomponent("vevent")!,
+    );
+
+    expect(event.uid).toBe("event-1");
+    expect(event.summary).toBe("Write report");
+    expect(event.description).toBe("Quarterly numbers");
+    expect(event.startDate.toJSDate().toISOString()).toBe(
+      "2025-10-20T13:00:00.000Z",
+    );
+    expect(event.endDate.toJSDate().toISOString()).toBe(
+      "2025-10-20T14:30:00.000Z",
+    );
+    expect(event.sequence).toBe(1);
+    expect(updated).toContain("ATTENDEE:mailto:bob@example.com");
+    expect(updated).toContain("TRIGGER:-PT15M");
+  });
+});
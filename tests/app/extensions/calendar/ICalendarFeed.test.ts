@@ -0,0 +1,129 @@
+/**
+ * Tests for parsing ICS subscription feeds
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseICalendarEvents } from "../../../../src/app/extensions/calendar/services/ICalendarFeed";
+import type { Calendar } from "../../../../src/app/types/calendar";
+
+const calendar: Calendar = {
+  id: "ics-team",
+  name: "Team",
+  visible: true,
+  provider: "ICS Subscriptions",
+  metadata: { provider: "ics" },
+};
+
+function feed(...events: string[]): string {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Example//EN",
+    ...events,
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+const STANDUP = [
+  "BEGIN:VEVENT",
+  "UID:standup",
+  "DTSTAMP:20251001T000000Z",
+  "DTSTART:20251006T090000Z",
+  "DTEND:20251006T091500Z",
+  "SUMMARY:Standup",
+  "RRULE:FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR",
+  "EXDATE:20251008T090000Z",
+  "END:VEVENT",
+].join("\r\n");
+
+const MOVED_STANDUP = [
+  "BEGIN:VEVENT",
+  "UID:standup",
+  "DTSTAMP:20251001T000000Z",
+  "RECURRENCE-ID:20251009T090000Z",
+  "DTSTART:20251009T100000Z",
+  "DTEND:20251009T101500Z",
+  "SUMMARY:Standup (moved)",
+  "END:VEVENT",
+].join("\r\n");
+
+const OFFSITE = [
+  "BEGIN:VEVENT",
+  "UID:offsite",
+  "DTSTAMP:20251001T000000Z",
+  "DTSTART;VALUE=DATE:20251010",
+  "DTEND;VALUE=DATE:20251011",
+  "SUMMARY:Offsite",
+  "LOCATION:Berlin",
+  "END:VEVENT",
+].join("\r\n");
+
+describe("parseICalendarEvents", () => {
+  it("expands recurring events within the range", () => {
+    const events = parseICalendarEvents(
+      feed(STANDUP, MOVED_STANDUP),
+      calendar,
+      new Date("2025-10-06T00:00:00.000Z"),
+      new Date("2025-10-12T23:59:59.000Z")
+    );
+
+    expect(
+      events.map((event) => [event.title, event.startDate.toISOString()])
+    ).toEqual([
+      ["Standup", "2025-10-06T09:00:00.000Z"],
+      ["Standup", "2025-10-07T09:00:00.000Z"],
+      ["Standup (moved)", "2025-10-09T10:00:00.000Z"],
+      ["Standup", "2025-10-10T09:00:00.000Z"],
+    ]);
+    expect(new Set(events.map((event) => event.id)).size).toBe(4);
+    expect(events[0].calendar).toBe(calendar);
+  });
+
+  it("expands series that started long before the range", () => {
+    const events = parseICalendarEvents(
+      feed(
+        STANDUP.replace("DTSTART:20251006T090000Z", "DTSTART:20000103T090000Z")
+          .replace("DTEND:20251006T091500Z", "DTEND:20000103T091500Z")
+          .replace("FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR", "FREQ=DAILY")
+      ),
+      calendar,
+      new Date("2025-10-06T00:00:00.000Z"),
+      new Date("2025-10-07T23:59:59.000Z")
+    );
+
+    expect(events.map((event) => event.startDate.toISOString())).toEqual([
+      "2025-10-06T09:00:00.000Z",
+      "2025-10-07T09:00:00.000Z",
+    ]);
+  });
+
+  it("only returns events overlapping the range", () => {
+    const events = parseICalendarEvents(
+      feed(STANDUP, OFFSITE),
+      calendar,
+      new Date(2025, 9, 10, 0, 0, 0),
+      new Date(2025, 9, 10, 23, 59, 59)
+    );
+
+    expect(events.map((event) => event.title).sort()).toEqual([
+      "Offsite",
+      "Standup",
+    ]);
+    expect(events.find((event) => event.title === "Offsite")).toMatchObject({
+      id: "offsite",
+      allDay: true,
+      location: "Berlin",
+    });
+  });
+
+  it("skips cancelled events", () => {
+    const events = parseICalendarEvents(
+      feed(OFFSITE.replace("END:VEVENT", "STATUS:CANCELLED\r\nEND:VEVENT")),
+      calendar,
+      new Date(2025, 9, 1),
+      new Date(2025, 9, 31)
+    );
+
+    expect(events).toEqual([]);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tests for GitHubIssueWriter
+ * Uses a local Octokit stand-in to verify what gets pushed back to GitHub issues
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  GitHubIssueWriter,
+  type GitHubIssuesClient,
+} from "../../../../src/app/extensions/github/services/GitHubIssueWriter";
+import {
+  DEFAULT_SETTINGS,
+  type TaskSyncSettings,
+} from "../../../../src/app/types/settings";
+import type { Task } from "../../../../src/app/core/entities";
+import type { GitHubIssue } from "../../../../src/app/cache/schemas/github";
+
+const ISSUE_URL = "https://github.com/acme/app/issues/42";
+
+function buildIssue(overrides: Partial<GitHubIssue> = {}): GitHubIssue {
+  return {
+    id: 1042,
+    number: 42,
+    title: "Fix login bug",
+    body: "Login fails on Safari",
+    state: "open",
+    assignee: null,
+    labels: [{ name: "bug" }],
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    html_url: ISSUE_URL,
+    ...overrides,
+  };
+}
+
+function buildTask(issue: GitHubIssue, url = ISSUE_URL): Task {
+  return {
+    id: "task-1",
+    title: issue.title,
+    description: issue.body || "",
+    status: "Backlog",
+    done: false,
+    areas: [],
+    tags: [],
+    source: {
+      extension: "github",
+      keys: { github: url, obsidian: "Tasks/Fix login bug.md" },
+      data: issue,
+    },
+    createdAt: new Date("2024-01-01"),
+    updatedAt: new Date("2024-01-01"),
+  };
+}
+
+/**
+ * Local Octokit stand-in that records update calls and applies them to
+ * an in-memory issue
+ */
+class FakeOctokit implements GitHubIssuesClient {
+  calls: any[] = [];
+
+  constructor(public issue: GitHubIssue) {}
+
+  rest = {
+    issues: {
+      update: async (params: any) => {
+        this.calls.push(params);
+        const { owner: _o, repo: _r, issue_number: _n, labels, ...rest } =
+          params;
+        this.issue = {
+          ...this.issue,
+          ...rest,
+          ...(labels
+            ? { labels: labels.map((name: string) => ({ name })) }
+            : {}),
+        };
+        return { data: this.issue };
+      },
+    },
+  };
+}
+
+describe("GitHubIssueWriter", () => {
+  let settings: TaskSyncSettings;
+  let issue: GitHubIssue;
+  let octokit: FakeOctokit;
+  let writer: GitHubIssueWriter;
+
+  beforeEach(() => {
+    settings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+    settings.integrations.github.writeBackRepositories = ["acme/app"];
+    settings.integrations.github.statusLabelMapping = {
+      "In Progress": "in progress",
+    };
+
+    issue = buildIssue();
+    octokit = new FakeOctokit(issue);
+    writer = new GitHubIssueWriter(octokit, settings);
+  });
+
+  it("does not write to repositories that haven't opted in", async () => {
+    settings.integrations.github.writeBackRepositories = [];
+
+    const result = await writer.writeTask(buildTask(issue), {
+      title: "Renamed",
+    });
+
+    expect(result).toBeNull();
+    expect(octokit.calls).toEqual([]);
+  });
+
+  it("does not write when nothing changed", async () => {
+    const result = await writer.writeTask(buildTask(issue), {
+      title: issue.title,
+      description: "Login fails on Safari",
+      done: false,
+      status: "Backlog",
+    });
+
+    expect(result).toBeNull();
+    expect(octokit.calls).toEqual([]);
+  });
+
+  it("updates title and body", async () => {
+    const result = await writer.writeTask(buildTask(issue), {
+      title: "Fix login bug on Safari",
+      description: "Updated description",
+    });
+
+    expect(octokit.calls).toEqual([
+      {
+        owner: "acme",
+        repo: "app",
+        issue_number: 42,
+        title: "Fix login bug on Safari",
+        body: "Updated description",
+      },
+    ]);
+    expect(result?.title).toBe("Fix login bug on Safari");
+  });
+
+  it("closes the issue when the task is done", async () => {
+    await writer.writeTask(buildTask(issue), { done: true, status: "Done" });
+
+    expect(octokit.calls[0]).toMatchObject({ state: "closed" });
+  });
+
+  it("reopens a closed issue when the task is no longer done", async () => {
+    issue = buildIssue({ state: "closed" });
+    octokit = new FakeOctokit(issue);
+    writer = new GitHubIssueWriter(octokit, settings);
+
+    await writer.writeTask(buildTask(issue), { done: false });
+
+    expect(octokit.calls[0]).toMatchObject({ state: "open" });
+  });
+
+  it("derives the issue state from the status when done is missing", async () => {
+    await writer.writeTask(buildTask(issue), { status: "Done" });
+
+    expect(octokit.calls[0]).toMatchObject({ state: "closed" });
+  });
+
+  it("maps status to labels through statusLabelMapping", async () => {
+    await writer.writeTask(buildTask(issue), { status: "In Progress" });
+
+    expect(octokit.calls[0].labels).toEqual(["bug", "in progress"]);
+  });
+
+  it("leaves labels alone without a status label mapping", async () => {
+    settings.integrations.github.statusLabelMapping = {};
+
+    const result = await writer.writeTask(buildTask(issue), {
+      status: "In Progress",
+    });
+
+    expect(result).toBeNull();
+  });
+
+  it("removes status labels that no longer apply", async () => {
+    issue = buildIssue({ labels: [{ name: "bug" }, { name: "In Progress" }] });
+    octokit = new FakeOctokit(issue);
+    writer = new GitHubIssueWriter(octokit, settings);
+
+    await writer.writeTask(buildTask(issue), { status: "Backlog" });
+
+    expect(octokit.calls[0].labels).toEqual(["bug"]);
+  });
+
+  it("ignores status label casing when nothing changed", async () => {
+    issue = buildIssue({ labels: [{ name: "In Progress" }] });
+    octokit = new FakeOctokit(issue);
+    writer = new GitHubIssueWriter(octokit, settings);
+
+    const result = await writer.writeTask(buildTask(issue), {
+      status: "In Progress",
+    });
+
+    expect(result).toBeNull();
+  });
+
+  it("skips tasks linked to pull requests", async () => {
+    const result = await writer.writeTask(
+      buildTask(issue, "https://github.com/acme/app/pull/7"),
+      { title: "Renamed" }
+    );
+
+    expect(result).toBeNull();
+    expect(octokit.calls).toEqual([]);
+  });
+});
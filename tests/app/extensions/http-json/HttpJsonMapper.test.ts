@@ -0,0 +1,196 @@
+/**
+ * Tests for HttpJsonMapper
+ * Covers JSONPath-like path resolution and mapping endpoint items to task data
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  HttpJsonMapper,
+  extractItems,
+  parseJsonPath,
+  resolveJsonPath,
+} from "../../../../src/app/extensions/http-json/services/HttpJsonMapper";
+import {
+  DEFAULT_SETTINGS,
+  type HttpJsonEndpoint,
+} from "../../../../src/app/types/settings";
+
+const ISSUE = {
+  key: "OPS-42",
+  fields: {
+    summary: "Rotate certificates",
+    "due date": "2025-09-15",
+    state: { name: "in progress" },
+    labels: [{ name: "infra" }, { name: "security" }],
+  },
+  assignees: ["alice", "bob"],
+};
+
+function buildEndpoint(
+  overrides: Partial<HttpJsonEndpoint> = {}
+): HttpJsonEndpoint {
+  return {
+    id: "tracker",
+    name: "Internal Tracker",
+    url: "https://tracker.example.com/api/issues",
+    headers: {},
+    itemsPath: "$.data.issues",
+    fieldMapping: {
+      id: "$.key",
+      title: "$.fields.summary",
+      status: "$.fields.state.name",
+      tags: "$.fields.labels[*].name",
+      dueDate: "$.fields['due date']",
+    },
+    valueMapping: {},
+    ...overrides,
+  };
+}
+
+describe("resolveJsonPath", () => {
+  it("resolves nested keys with and without the root marker", () => {
+    expect(resolveJsonPath(ISSUE, "$.fields.summary")).toBe(
+      "Rotate certificates"
+    );
+    expect(resolveJsonPath(ISSUE, "fields.summary")).toBe(
+      "Rotate certificates"
+    );
+  });
+
+  it("resolves array indexes and quoted keys", () => {
+    expect(resolveJsonPath(ISSUE, "$.assignees[1]")).toBe("bob");
+    expect(resolveJsonPath(ISSUE, `$.fields["due date"]`)).toBe("2025-09-15");
+  });
+
+  it("returns a list for wildcard paths", () => {
+    expect(resolveJsonPath(ISSUE, "$.fields.labels[*].name")).toEqual([
+      "infra",
+      "security",
+    ]);
+    expect(resolveJsonPath(ISSUE, "$.assignees.*")).toEqual(["alice", "bob"]);
+  });
+
+  it("returns undefined for missing values", () => {
+    expect(resolveJsonPath(ISSUE, "$.fields.missing.name")).toBeUndefined();
+    expect(resolveJsonPath(ISSUE, "$.assignees[5]")).toBeUndefined();
+  });
+
+  it("returns the value itself for the root path", () => {
+    expect(resolveJsonPath(ISSUE, "$")).toBe(ISSUE);
+  });
+
+  it("rejects malformed paths", () => {
+    expect(() => parseJsonPath("$.fields..summary")).toThrow(
+      /Invalid JSON path/
+    );
+    expect(() => parseJsonPath("$.fields[summary")).toThrow(
+      /Invalid JSON path/
+    );
+  });
+});
+
+describe("extractItems", () => {
+  it("extracts items at the items path", () => {
+    const response = { data: { issues: [ISSUE, "not an item", null] } };
+    expect(extractItems(response, "$.data.issues")).toEqual([ISSUE]);
+  });
+
+  it("uses the response itself when the items path is empty", () => {
+    expect(extractItems([ISSUE], "")).toEqual([ISSUE]);
+  });
+
+  it("throws when the items path doesn't point to a list", () => {
+    expect(() => extractItems({ data: {} }, "$.data.issues")).toThrow(
+      /Expected a list of items/
+    );
+  });
+});
+
+describe("HttpJsonMapper", () => {
+  const statuses = DEFAULT_SETTINGS.taskStatuses;
+
+  it("maps an item to task data", () => {
+    const mapper = new HttpJsonMapper(buildEndpoint(), statuses);
+    const task = mapper.mapItem(ISSUE);
+
+    expect(task).toMatchObject({
+      title: "Rotate certificates",
+      status: "In Progress",
+      done: false,
+      tags: ["infra", "security"],
+      areas: [],
+      source: {
+        extension: "http-json",
+        keys: { "http-json": "tracker:OPS-42" },
+        data: ISSUE,
+      },
+    });
+    expect(task?.dueDate).toEqual(new Date(2025, 8, 15));
+  });
+
+  it("applies value mappings and derives done from the status", () => {
+    const mapper = new HttpJsonMapper(
+      buildEndpoint({
+        valueMapping: { status: { "in progress": "Done" } },
+      }),
+      statuses
+    );
+
+    expect(mapper.mapItem(ISSUE)).toMatchObject({
+      status: "Done",
+      done: true,
+    });
+  });
+
+  it("uses an explicitly mapped done value", () => {
+    const mapper = new HttpJsonMapper(
+      buildEndpoint({
+        fieldMapping: { ...buildEndpoint().fieldMapping, done: "$.closed" },
+      }),
+      statuses
+    );
+
+    expect(mapper.mapItem({ ...ISSUE, closed: "true" })?.done).toBe(true);
+    expect(mapper.mapItem({ ...ISSUE, closed: 0 })?.done).toBe(false);
+  });
+
+  it("splits comma-separated values for list fields", () => {
+    const mapper = new HttpJsonMapper(
+      buildEndpoint({
+        fieldMapping: {
+          id: "$.key",
+          title: "$.fields.summary",
+          areas: "$.teams",
+        },
+      }),
+      statuses
+    );
+
+    expect(
+      mapper.mapItem({ ...ISSUE, teams: "Ops, Security" })?.areas
+    ).toEqual(["Ops", "Security"]);
+  });
+
+  it("falls back to the default status when none is mapped", () => {
+    const mapper = new HttpJsonMapper(
+      buildEndpoint({
+        fieldMapping: { id: "$.key", title: "$.fields.summary" },
+      }),
+      statuses
+    );
+
+    expect(mapper.mapItem(ISSUE)).toMatchObject({
+      status: "Backlog",
+      done: false,
+      description: undefined,
+      dueDate: undefined,
+    });
+  });
+
+  it("skips items without an id or title", () => {
+    const mapper = new HttpJsonMapper(buildEndpoint(), statuses);
+
+    expect(mapper.mapItem({ fields: { summary: "No key" } })).toBeNull();
+    expect(mapper.mapItem({ key: "OPS-1", fields: {} })).toBeNull();
+  });
+});
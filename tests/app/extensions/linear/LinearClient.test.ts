@@ -0,0 +1,339 @@
+/**
+ * Tests for LinearClient and LinearIssueWriter
+ * Runs against a local mock GraphQL server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  LinearApiError,
+  LinearClient,
+  type LinearTransport,
+} from "../../../../src/app/extensions/linear/services/LinearClient";
+import { LinearIssueWriter } from "../../../../src/app/extensions/linear/services/LinearIssueWriter";
+import { DEFAULT_SETTINGS } from "../../../../src/app/types/settings";
+import type { Task } from "../../../../src/app/core/entities";
+
+const STATES = [
+  { id: "state-todo", name: "Todo", type: "unstarted", position: 1 },
+  { id: "state-backlog", name: "Backlog", type: "backlog", position: 0 },
+  { id: "state-doing", name: "In Progress", type: "started", position: 2 },
+  { id: "state-done", name: "Done", type: "completed", position: 3 },
+];
+
+function buildIssue(
+  number: number,
+  overrides: Record<string, any> = {}
+): Record<string, any> {
+  return {
+    id: `issue-${number}`,
+    identifier: `ENG-${number}`,
+    title: `Issue ${number}`,
+    description: null,
+    url: `https://linear.app/acme/issue/ENG-${number}`,
+    priority: 2,
+    createdAt: "2025-09-01T10:00:00.000Z",
+    updatedAt: "2025-09-02T10:00:00.000Z",
+    completedAt: null,
+    dueDate: null,
+    state: STATES[0],
+    team: { id: "team-eng", key: "ENG", name: "Engineering" },
+    project: null,
+    assignee: null,
+    labels: { nodes: [{ id: "label-bug", name: "Bug", color: "#eb5757" }] },
+    ...overrides,
+  };
+}
+
+/**
+ * Minimal GraphQL server answering the operations used by LinearClient
+ */
+interface ReceivedRequest {
+  authorization?: string;
+  operation: string;
+  variables: Record<string, any>;
+}
+
+let server: Server;
+let apiUrl: string;
+let requests: ReceivedRequest[];
+let issues: ReturnType<typeof buildIssue>[];
+let errors: Array<{ message: string }> | null;
+
+function handleOperation(operation: string, variables: Record<string, any>) {
+  switch (operation) {
+    case "Viewer":
+      return { viewer: { id: "user-1", name: "Jane" } };
+    case "Teams":
+      return {
+        teams: {
+          nodes: [{ id: "team-eng", key: "ENG", name: "Engineering" }],
+        },
+      };
+    case "TeamDetails":
+      return {
+        teams: {
+          nodes:
+            variables.key === "ENG"
+              ? [
+                  {
+                    labels: { nodes: [{ id: "label-bug", name: "Bug" }] },
+                    states: { nodes: STATES },
+                  },
+                ]
+              : [],
+        },
+      };
+    case "Issues": {
+      // Two issues per page to exercise pagination
+      const start = variables.after ? Number(variables.after) : 0;
+      const ids: string[] | undefined = variables.filter?.id?.in;
+      const matching = ids
+        ? issues.filter((issue) => ids.includes(issue.id))
+        : issues;
+      return {
+        issues: {
+          nodes: matching.slice(start, start + 2),
+          pageInfo: {
+            hasNextPage: start + 2 < matching.length,
+            endCursor: String(start + 2),
+          },
+        },
+      };
+    }
+    case "IssueUpdate": {
+      const issue = issues.find((i) => i.id === variables.id)!;
+      const { stateId, ...fields } = variables.input;
+      Object.assign(issue, fields);
+      if (stateId) {
+        issue.state = STATES.find((state) => state.id === stateId)!;
+      }
+      return { issueUpdate: { success: true, issue } };
+    }
+    default:
+      throw new Error(`Unexpected operation ${operation}`);
+  }
+}
+
+const transport: LinearTransport = ({ url, headers, body }) =>
+  new Promise((resolve, reject) => {
+    const req = request(url, { method: "POST", headers }, (res) => {
+      let text = "";
+      res.on("data", (chunk) => (text += chunk));
+      res.on("end", () => resolve({ status: res.statusCode ?? 0, text }));
+    });
+    req.on("error", reject);
+    req.end(body);
+  });
+
+function createClient(apiKey = "lin_api_test"): LinearClient {
+  return new LinearClient({ apiKey, apiUrl, transport });
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const { query, variables } = JSON.parse(body);
+      const operation = /(?:query|mutation)\s+(\w+)/.exec(query)![1];
+      requests.push({
+        authorization: req.headers.authorization,
+        operation,
+        variables,
+      });
+
+      res.setHeader("Content-Type", "application/json");
+
+      if (req.headers.authorization !== "lin_api_test") {
+        res.statusCode = 401;
+        res.end(
+          JSON.stringify({ errors: [{ message: "Authentication required" }] })
+        );
+        return;
+      }
+
+      if (errors) {
+        res.end(JSON.stringify({ data: null, errors }));
+        return;
+      }
+
+      res.end(JSON.stringify({ data: handleOperation(operation, variables) }));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  apiUrl = `http://127.0.0.1:${port}/graphql`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  issues = [1, 2, 3].map((number) => buildIssue(number));
+  errors = null;
+});
+
+describe("LinearClient", () => {
+  it("sends the API key and returns the viewer", async () => {
+    const viewer = await createClient().getViewer();
+
+    expect(viewer).toEqual({ id: "user-1", name: "Jane" });
+    expect(requests[0].authorization).toBe("lin_api_test");
+  });
+
+  it("fetches all pages of issues and flattens labels", async () => {
+    const result = await createClient().fetchIssues("ENG", { state: "open" });
+
+    expect(result.map((issue) => issue.identifier)).toEqual([
+      "ENG-1",
+      "ENG-2",
+      "ENG-3",
+    ]);
+    expect(result[0].labels).toEqual([
+      { id: "label-bug", name: "Bug", color: "#eb5757" },
+    ]);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].variables.after).toBe("2");
+  });
+
+  it("builds issue filters from the team and filter options", async () => {
+    await createClient().fetchIssues("ENG", {
+      state: "closed",
+      assignedToMe: true,
+      labels: ["Bug"],
+    });
+
+    expect(requests[0].variables.filter).toEqual({
+      team: { key: { eq: "ENG" } },
+      state: { type: { in: ["completed", "canceled"] } },
+      assignee: { isMe: { eq: true } },
+      labels: { name: { in: ["Bug"] } },
+    });
+  });
+
+  it("fetches issues by ID", async () => {
+    const result = await createClient().fetchIssuesByIds(["issue-3"]);
+
+    expect(result.map((issue) => issue.id)).toEqual(["issue-3"]);
+    expect(requests[0].variables.filter).toEqual({ id: { in: ["issue-3"] } });
+  });
+
+  it("fetches team labels and workflow states", async () => {
+    const { labels, states } = await createClient().fetchTeamDetails("ENG");
+
+    expect(labels.map((label) => label.name)).toEqual(["Bug"]);
+    expect(states).toHaveLength(4);
+
+    await expect(createClient().fetchTeamDetails("OPS")).rejects.toThrow(
+      /Team OPS not found/
+    );
+  });
+
+  it("throws LinearApiError for GraphQL and HTTP errors", async () => {
+    errors = [{ message: "Entity not found" }];
+    await expect(createClient().fetchTeams()).rejects.toThrow(
+      "Entity not found"
+    );
+
+    errors = null;
+    const error = await createClient("invalid")
+      .fetchTeams()
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(LinearApiError);
+    expect(error.status).toBe(401);
+  });
+});
+
+describe("LinearIssueWriter", () => {
+  function buildSettings(writeBack = true) {
+    return {
+      ...DEFAULT_SETTINGS,
+      integrations: {
+        ...DEFAULT_SETTINGS.integrations,
+        linear: { ...DEFAULT_SETTINGS.integrations.linear, writeBack },
+      },
+    };
+  }
+
+  async function buildTask(number: number): Promise<Task> {
+    const [issue] = await createClient().fetchIssuesByIds([`issue-${number}`]);
+    requests = [];
+
+    return {
+      id: `task-${number}`,
+      title: issue.title,
+      description: "",
+      status: "Backlog",
+      done: false,
+      areas: [],
+      tags: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      source: {
+        extension: "linear",
+        keys: { linear: issue.url },
+        data: issue,
+      },
+    } as Task;
+  }
+
+  it("updates changed fields and moves done tasks to the first completed state", async () => {
+    const writer = new LinearIssueWriter(createClient(), buildSettings());
+    const task = await buildTask(1);
+
+    const updated = await writer.writeTask(task, {
+      title: "Renamed",
+      description: "",
+      done: true,
+    });
+
+    expect(requests.map((r) => r.operation)).toEqual([
+      "TeamDetails",
+      "IssueUpdate",
+    ]);
+    expect(requests[1].variables.input).toEqual({
+      title: "Renamed",
+      stateId: "state-done",
+    });
+    expect(updated?.state.type).toBe("completed");
+  });
+
+  it("starts the issue for in-progress statuses", async () => {
+    const writer = new LinearIssueWriter(createClient(), buildSettings());
+    const task = await buildTask(2);
+
+    await writer.writeTask(task, { status: "In Progress" });
+
+    expect(requests[1].variables.input).toEqual({ stateId: "state-doing" });
+  });
+
+  it("reopens completed issues in the first unstarted state", async () => {
+    issues[2].state = STATES[3];
+    const writer = new LinearIssueWriter(createClient(), buildSettings());
+    const task = await buildTask(3);
+
+    await writer.writeTask(task, { done: false });
+
+    expect(requests[1].variables.input).toEqual({ stateId: "state-todo" });
+  });
+
+  it("doesn't write when nothing changed or two-way sync is disabled", async () => {
+    const task = await buildTask(1);
+
+    await new LinearIssueWriter(createClient(), buildSettings()).writeTask(
+      task,
+      { title: "Issue 1", done: false }
+    );
+    await new LinearIssueWriter(
+      createClient(),
+      buildSettings(false)
+    ).writeTask(task, { title: "Renamed" });
+
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for LinearTeamProjectMapper
+ * Covers resolving team/project mappings to areas and projects
+ */
+
+import { describe, it, expect } from "vitest";
+import { LinearTeamProjectMapper } from "../../../../src/app/extensions/linear/services/LinearTeamProjectMapper";
+
+describe("LinearTeamProjectMapper", () => {
+  const mapper = new LinearTeamProjectMapper([
+    { team: "ENG", targetArea: "Engineering" },
+    { project: "Mobile App", targetProject: "Mobile" },
+    {
+      team: "ENG",
+      project: "Mobile App",
+      targetArea: "Engineering",
+      targetProject: "Mobile (Engineering)",
+    },
+    { team: "OPS", targetArea: "Operations", priority: 1 },
+    { team: "OPS", project: "Migration", targetProject: "Migration" },
+  ]);
+
+  it("prefers project mappings scoped to the team", () => {
+    expect(mapper.resolveMapping("ENG", "Mobile App")).toMatchObject({
+      matchType: "project",
+      targetArea: "Engineering",
+      targetProject: "Mobile (Engineering)",
+    });
+  });
+
+  it("uses unscoped project mappings for other teams", () => {
+    expect(mapper.resolveMapping("DESIGN", "Mobile App")).toMatchObject({
+      matchType: "project",
+      targetProject: "Mobile",
+    });
+  });
+
+  it("falls back to team mappings", () => {
+    expect(mapper.resolveMapping("ENG", "Website")).toMatchObject({
+      matchType: "team",
+      targetArea: "Engineering",
+    });
+    expect(mapper.resolveMapping("ENG")).toMatchObject({ matchType: "team" });
+    expect(mapper.resolveMapping("DESIGN")).toEqual({ matchType: "none" });
+  });
+
+  it("checks project mappings before team mappings regardless of priority", () => {
+    expect(mapper.resolveMapping("OPS", "Migration")).toMatchObject({
+      matchType: "project",
+      targetProject: "Migration",
+    });
+  });
+
+  it("applies the mapping to task data", () => {
+    expect(
+      mapper.enhanceTaskData("ENG", "Website", {
+        project: "Website",
+        areas: [],
+      })
+    ).toEqual({ project: "Website", areas: ["Engineering"] });
+
+    expect(
+      mapper.enhanceTaskData("DESIGN", null, { project: "", areas: [] })
+    ).toEqual({ project: "", areas: [] });
+  });
+
+  it("validates mappings", () => {
+    expect(
+      mapper.validateMapping({ team: "ENG", targetArea: "Engineering" })
+    ).toEqual({ isValid: true, errors: [] });
+
+    expect(mapper.validateMapping({ team: "eng team" }).errors).toEqual([
+      "Team must be a team key (e.g., 'ENG')",
+      "Must specify at least one target (area or project)",
+    ]);
+  });
+});
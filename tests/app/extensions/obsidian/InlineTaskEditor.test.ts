@@ -0,0 +1,84 @@
+/**
+ * Tests for InlineTaskEditor.writeSchedule
+ */
+
+import { describe, test, expect } from "vitest";
+import { InlineTaskEditor } from "../../../../src/app/extensions/obsidian/services/InlineTaskEditor";
+import { buildTask } from "../../helpers/entity-helpers";
+
+function buildNoteTask(title: string) {
+  return buildTask(title, {
+    source: { extension: "obsidian", keys: { obsidian: `Tasks/${title}.md` } },
+  });
+}
+
+describe("InlineTaskEditor.writeSchedule", () => {
+  const editor = new InlineTaskEditor("Tasks");
+  const [write, review, plan] = ["Write", "Review", "Plan"].map(buildNoteTask);
+
+  test("reorders task lines within the lines they occupy", () => {
+    const content = [
+      "## Tasks",
+      "- [ ] [[Tasks/Write|Write]] #work",
+      "Some notes",
+      "- [x] Follow up on [[Review]] with the team",
+    ].join("\n");
+
+    expect(editor.writeSchedule(content, [review, write])).toBe(
+      [
+        "## Tasks",
+        "- [x] Follow up on [[Review]] with the team",
+        "Some notes",
+        "- [ ] [[Tasks/Write|Write]] #work",
+      ].join("\n")
+    );
+  });
+
+  test("changes only the time box of a line", () => {
+    const content = [
+      "## Tasks",
+      "- [ ] 09:00-10:00 [[Tasks/Write|Write]] #work",
+      "- [ ] Follow up on [[Review]]",
+    ].join("\n");
+
+    expect(
+      editor.writeSchedule(
+        content,
+        [write, review],
+        [
+          { taskId: "Write", start: "10:00", end: "11:30" },
+          { taskId: "Review", start: "14:00", end: "14:30" },
+        ]
+      )
+    ).toBe(
+      [
+        "## Tasks",
+        "- [ ] 10:00-11:30 [[Tasks/Write|Write]] #work",
+        "- [ ] 14:00-14:30 Follow up on [[Review]]",
+      ].join("\n")
+    );
+  });
+
+  test("keeps unrelated lines and doesn't duplicate linked tasks", () => {
+    const content = [
+      "# Today",
+      "- [ ] Call [[John]] about [[Tasks/Write|the report]]",
+      "- [ ] Buy milk",
+      "## Tasks",
+      "- [ ] Draft [[Tasks/Write|Write]] before lunch",
+      "![[Tasks/Plan]]",
+    ].join("\n");
+
+    expect(editor.writeSchedule(content, [write, plan])).toBe(
+      [
+        "# Today",
+        "- [ ] Call [[John]] about [[Tasks/Write|the report]]",
+        "- [ ] Buy milk",
+        "## Tasks",
+        "- [ ] Draft [[Tasks/Write|Write]] before lunch",
+        "- [ ] [[Tasks/Plan.md|Plan]]",
+        "![[Tasks/Plan]]",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for the daily note schedule format
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  parseScheduleLine,
+  formatScheduleLine,
+  parseTimeBox,
+} from "../../../../src/app/extensions/obsidian/services/ScheduleLineFormat";
+import { InlineTaskEditor } from "../../../../src/app/extensions/obsidian/services/InlineTaskEditor";
+import { TaskSchema } from "../../../../src/app/core/entities";
+
+function buildTask(title: string) {
+  return TaskSchema.parse({
+    id: title,
+    title,
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    source: { extension: "obsidian", keys: { obsidian: `Tasks/${title}.md` } },
+  });
+}
+
+describe("ScheduleLineFormat", () => {
+  test("round-trips schedule lines", () => {
+    const lines = [
+      "- [ ] 09:00-10:30 [[Tasks/Write report.md|Write report]]",
+      "  * [x] [[Tasks/Review PRs]]",
+    ];
+
+    for (const [lineNumber, line] of lines.entries()) {
+      const parsed = parseScheduleLine(line, lineNumber);
+      expect(parsed).not.toBeNull();
+      expect(formatScheduleLine(parsed!)).toBe(line);
+    }
+
+    expect(parseScheduleLine(lines[0], 0)).toMatchObject({
+      completed: false,
+      linkPath: "Tasks/Write report.md",
+      displayText: "Write report",
+      timeBox: { start: "09:00", end: "10:30" },
+    });
+    expect(parseScheduleLine("- [ ] Buy milk", 0)).toBeNull();
+  });
+
+  test("only treats valid ranges as time boxes", () => {
+    expect(parseTimeBox("9:05 - 10:00 [[Task]]")).toEqual({
+      timeBox: { start: "09:05", end: "10:00" },
+      text: "[[Task]]",
+    });
+    expect(parseTimeBox("10:00-09:00 [[Task]]").timeBox).toBeUndefined();
+    expect(parseTimeBox("25:00-26:00 [[Task]]").timeBox).toBeUndefined();
+  });
+
+  test("writes schedule order and time boxes to the daily note", () => {
+    const editor = new InlineTaskEditor("Tasks");
+    const [write, review, plan] = ["Write", "Review", "Plan"].map(buildTask);
+    const content = [
+      "# Today",
+      "## Tasks",
+      "- [x] [[Tasks/Review.md|Review]]",
+      "Notes about reviewing",
+      "- [ ] 09:00-10:00 [[Tasks/Write.md|Write]]",
+      "## Log",
+    ].join("\n");
+
+    expect(
+      editor.writeSchedule(content, [review, write], [
+        { taskId: "Write", start: "09:00", end: "10:00" },
+      ])
+    ).toBe(content);
+
+    expect(
+      editor.writeSchedule(content, [write, review, plan], [
+        { taskId: "Review", start: "13:00", end: "14:00" },
+        { taskId: "Plan", start: "15:00", end: "15:30" },
+      ])
+    ).toBe(
+      [
+        "# Today",
+        "## Tasks",
+        "- [ ] [[Tasks/Write.md|Write]]",
+        "Notes about reviewing",
+        "- [x] 13:00-14:00 [[Tasks/Review.md|Review]]",
+        "- [ ] 15:00-15:30 [[Tasks/Plan.md|Plan]]",
+        "## Log",
+      ].join("\n")
+    );
+  });
+
+  test("keeps time boxes when updating and removing task lines", () => {
+    const editor = new InlineTaskEditor("Tasks");
+    const content = "## Tasks\n- [ ] 09:00-10:00 [[Tasks/Write.md|Write]]\n";
+
+    expect(editor.updateTaskStatus(content, "Tasks/Write.md", true)).toBe(
+      "## Tasks\n- [x] 09:00-10:00 [[Tasks/Write.md|Write]]\n"
+    );
+    expect(editor.removeTasks(content, ["Tasks/Write.md"])).toBe("## Tasks\n");
+  });
+});
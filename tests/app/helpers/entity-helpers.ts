@@ -0,0 +1,23 @@
+/**
+ * Test helpers for building entities
+ */
+
+import { TaskSchema, type Task } from "../../../src/app/core/entities";
+
+/**
+ * Build a local task identified by its title
+ * Schema defaults fill in everything not given in the overrides.
+ */
+export function buildTask(
+  title: string,
+  overrides: Record<string, unknown> = {}
+): Task {
+  return TaskSchema.parse({
+    id: title,
+    title,
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    source: { extension: "obsidian", keys: {} },
+    ...overrides,
+  });
+}
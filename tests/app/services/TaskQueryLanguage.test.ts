@@ -0,0 +1,199 @@
+/**
+ * Tests for the task query language parser and evaluator
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  parseTaskQuery,
+  TaskQueryError,
+} from "../../../src/app/services/TaskQueryLanguage";
+import { TaskQueryService } from "../../../src/app/services/TaskQueryService";
+import type { Task } from "../../../src/app/core/entities";
+import { buildTask } from "../helpers/entity-helpers";
+
+// 2026-10-19 is a Monday
+const now = new Date(2026, 9, 19, 10, 0);
+const updatedAt = new Date(2026, 9, 18);
+
+const tasks: Task[] = [
+  buildTask("Write report", {
+    updatedAt,
+    status: "In Progress",
+    priority: "High",
+    areas: ["Work"],
+    tags: ["writing"],
+    dueDate: new Date(2026, 9, 22),
+  }),
+  buildTask("Plan offsite", {
+    updatedAt,
+    status: "Backlog",
+    priority: "Urgent",
+    areas: ["Work"],
+    tags: ["someday"],
+    dueDate: new Date(2026, 9, 23),
+  }),
+  buildTask("Fix bike", {
+    updatedAt,
+    status: "Backlog",
+    priority: "Low",
+    areas: ["Home"],
+    project: "Garage",
+    dueDate: new Date(2026, 9, 15),
+  }),
+  buildTask("Water plants", {
+    updatedAt,
+    status: "Done",
+    done: true,
+    areas: ["Home"],
+    recurrence: "FREQ=WEEKLY",
+    source: { extension: "github", keys: {} },
+  }),
+];
+
+function titles(query: string): string[] {
+  return TaskQueryService.query(tasks, query, { now }).map(
+    (task) => task.title
+  );
+}
+
+describe("TaskQueryLanguage", () => {
+  describe("parseTaskQuery", () => {
+    test("parses fields, negation and implicit AND", () => {
+      expect(
+        parseTaskQuery('status:"In Progress" area:Work due<7d -tag:someday')
+      ).toEqual({
+        type: "and",
+        children: [
+          {
+            type: "field",
+            field: "status",
+            operator: ":",
+            value: "In Progress",
+          },
+          { type: "field", field: "area", operator: ":", value: "Work" },
+          { type: "field", field: "due", operator: "<", value: "7d" },
+          {
+            type: "not",
+            child: {
+              type: "field",
+              field: "tag",
+              operator: ":",
+              value: "someday",
+            },
+          },
+        ],
+      });
+    });
+
+    test("gives AND precedence over OR and supports grouping", () => {
+      expect(parseTaskQuery("a b OR (c OR NOT d)")).toEqual({
+        type: "or",
+        children: [
+          {
+            type: "and",
+            children: [
+              { type: "text", value: "a" },
+              { type: "text", value: "b" },
+            ],
+          },
+          {
+            type: "or",
+            children: [
+              { type: "text", value: "c" },
+              { type: "not", child: { type: "text", value: "d" } },
+            ],
+          },
+        ],
+      });
+    });
+
+    test("treats unknown fields and dashes inside words as text", () => {
+      expect(parseTaskQuery("http://example.com")).toEqual({
+        type: "text",
+        value: "http://example.com",
+      });
+      expect(parseTaskQuery("follow-up")).toEqual({
+        type: "text",
+        value: "follow-up",
+      });
+      expect(parseTaskQuery("   ")).toBeNull();
+    });
+
+    test("reports invalid queries with their position", () => {
+      const cases: Array<[string, string]> = [
+        ['title:"unterminated', "Unterminated"],
+        ["(a OR b", 'Missing closing ")"'],
+        ["a)", 'Unexpected ")"'],
+        ["status:", "Missing value"],
+        ["due<soon", "Invalid date"],
+        ["status>Done", "isn't supported"],
+        ["is:blocked", "Unknown value"],
+        ["a OR", "Unexpected end"],
+      ];
+
+      for (const [query, message] of cases) {
+        expect(() => parseTaskQuery(query), query).toThrow(message);
+      }
+
+      let error: unknown;
+      try {
+        parseTaskQuery("area:Work due<soon");
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(TaskQueryError);
+      expect((error as TaskQueryError).position).toBe(10);
+    });
+  });
+
+  describe("evaluation", () => {
+    test("matches the example query", () => {
+      expect(
+        titles(
+          'status:"In Progress" area:Work due<7d -tag:someday priority>=High'
+        )
+      ).toEqual(["Write report"]);
+    });
+
+    test("compares priorities using the configured order", () => {
+      expect(titles("priority>=High")).toEqual([
+        "Write report",
+        "Plan offsite",
+      ]);
+      expect(titles("priority<medium")).toEqual(["Fix bike"]);
+      expect(
+        TaskQueryService.query(tasks, "priority>High", {
+          now,
+          priorities: ["Urgent", "High", "Low"],
+        }).map((task) => task.title)
+      ).toEqual(["Fix bike"]);
+    });
+
+    test("compares dates by day", () => {
+      expect(titles("due<today")).toEqual(["Fix bike"]);
+      expect(titles("due=2026-10-22")).toEqual(["Write report"]);
+      expect(titles("due>=3d due<=4d")).toEqual([
+        "Write report",
+        "Plan offsite",
+      ]);
+      expect(titles("updated:yesterday -is:done")).toHaveLength(3);
+    });
+
+    test("supports is/has fields, sources and free text", () => {
+      expect(titles("is:overdue")).toEqual(["Fix bike"]);
+      expect(titles("is:recurring")).toEqual(["Water plants"]);
+      expect(titles("has:project OR source:github")).toEqual([
+        "Fix bike",
+        "Water plants",
+      ]);
+      expect(titles("garage")).toEqual(["Fix bike"]);
+      expect(titles('"write rep"')).toEqual(["Write report"]);
+      expect(titles("area!=Work -is:done")).toEqual(["Fix bike"]);
+    });
+
+    test("returns all tasks for empty queries", () => {
+      expect(TaskQueryService.query(tasks, "")).toHaveLength(4);
+      expect(TaskQueryService.query(tasks, null)).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for syncJournalReducer
+ * Tests the bounded journal and undo bookkeeping
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  syncJournalReducer,
+  initialSyncJournalStoreState,
+  MAX_SYNC_JOURNAL_ENTRIES,
+} from "../../../src/app/stores/reducers/syncJournalReducer";
+import type { SyncJournalEntry } from "../../../src/app/core/SyncManager";
+
+function buildEntry(id: string, syncId: string): SyncJournalEntry {
+  return {
+    id,
+    syncId,
+    timestamp: new Date(),
+    entityId: "task-1",
+    entityTitle: "Task 1",
+    field: "title",
+    oldValue: "Old",
+    newValue: "New",
+    source: "obsidian",
+    rule: "source-wins",
+  };
+}
+
+describe("syncJournalReducer", () => {
+  it("appends the entries of a sync run", () => {
+    const state = syncJournalReducer(initialSyncJournalStoreState, {
+      type: "RECORD_SYNC_CHANGES",
+      entries: [buildEntry("a", "sync-1"), buildEntry("b", "sync-1")],
+    });
+
+    expect(state.entries.map((e) => e.id)).toEqual(["a", "b"]);
+  });
+
+  it("drops the oldest entries beyond the limit", () => {
+    const entries = Array.from({ length: MAX_SYNC_JOURNAL_ENTRIES }, (_, i) =>
+      buildEntry(`old-${i}`, "sync-1")
+    );
+    let state = syncJournalReducer(initialSyncJournalStoreState, {
+      type: "LOAD_JOURNAL",
+      entries,
+    });
+
+    state = syncJournalReducer(state, {
+      type: "RECORD_SYNC_CHANGES",
+      entries: [buildEntry("new", "sync-2")],
+    });
+
+    expect(state.entries).toHaveLength(MAX_SYNC_JOURNAL_ENTRIES);
+    expect(state.entries[0].id).toBe("old-1");
+    expect(state.entries[state.entries.length - 1].id).toBe("new");
+  });
+
+  it("marks only the entries of the given sync run as undone", () => {
+    let state = syncJournalReducer(initialSyncJournalStoreState, {
+      type: "RECORD_SYNC_CHANGES",
+      entries: [buildEntry("a", "sync-1"), buildEntry("b", "sync-2")],
+    });
+
+    state = syncJournalReducer(state, {
+      type: "MARK_SYNC_UNDONE",
+      syncId: "sync-2",
+    });
+
+    expect(state.entries.map((e) => !!e.undone)).toEqual([false, true]);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Tests for RRULE recurrence utilities
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  parseRecurrence,
+  formatRecurrence,
+  getNextOccurrence,
+  occursOn,
+  getOccurrenceTitle,
+  filterRecurringTasksDueOn,
+  buildNextOccurrence,
+} from "../../../src/app/utils/recurrence";
+import { getDateString } from "../../../src/app/utils/dateFiltering";
+import { buildTask } from "../helpers/entity-helpers";
+
+function next(rule: string, anchor: string, after: string): string | null {
+  const date = getNextOccurrence(
+    parseRecurrence(rule),
+    new Date(`${anchor}T00:00:00`),
+    new Date(`${after}T00:00:00`)
+  );
+  return date ? getDateString(date) : null;
+}
+
+describe("recurrence", () => {
+  describe("parseRecurrence", () => {
+    test("parses supported rule parts", () => {
+      expect(
+        parseRecurrence("RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=1MO,-1FR;COUNT=5")
+      ).toEqual({
+        freq: "MONTHLY",
+        interval: 2,
+        byDay: [
+          { day: 1, ordinal: 1 },
+          { day: 5, ordinal: -1 },
+        ],
+        count: 5,
+      });
+    });
+
+    test("rejects invalid and unsupported rules", () => {
+      expect(() => parseRecurrence("")).toThrow("empty");
+      expect(() => parseRecurrence("FREQ=HOURLY")).toThrow("FREQ");
+      expect(() => parseRecurrence("FREQ=DAILY;INTERVAL=0")).toThrow(
+        "INTERVAL"
+      );
+      expect(() => parseRecurrence("FREQ=DAILY;BYSETPOS=1")).toThrow(
+        "Unsupported"
+      );
+      expect(() => parseRecurrence("FREQ=WEEKLY;BYDAY=2MO")).toThrow(
+        "MONTHLY"
+      );
+      expect(() =>
+        parseRecurrence("FREQ=DAILY;COUNT=2;UNTIL=20261231")
+      ).toThrow("COUNT and UNTIL");
+    });
+
+    test("round-trips through formatRecurrence", () => {
+      const rule = "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20261231";
+      expect(formatRecurrence(parseRecurrence(rule))).toBe(rule);
+    });
+  });
+
+  describe("getNextOccurrence", () => {
+    test("steps daily rules by interval", () => {
+      expect(next("FREQ=DAILY;INTERVAL=3", "2026-10-01", "2026-10-05")).toBe(
+        "2026-10-07"
+      );
+    });
+
+    test("uses BYDAY for weekly rules and skips off weeks", () => {
+      // 2026-10-19 is a Monday
+      expect(next("FREQ=WEEKLY;BYDAY=MO,TH", "2026-10-19", "2026-10-19")).toBe(
+        "2026-10-22"
+      );
+      expect(
+        next("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH", "2026-10-19", "2026-10-22")
+      ).toBe("2026-11-02");
+      expect(next("FREQ=WEEKLY", "2026-10-21", "2026-10-21")).toBe(
+        "2026-10-28"
+      );
+    });
+
+    test("supports month days and ordinal weekdays", () => {
+      expect(next("FREQ=MONTHLY;BYMONTHDAY=-1", "2026-01-31", "2026-01-31")).toBe(
+        "2026-02-28"
+      );
+      expect(next("FREQ=MONTHLY;BYDAY=1MO", "2026-10-05", "2026-10-05")).toBe(
+        "2026-11-02"
+      );
+      expect(next("FREQ=MONTHLY;BYDAY=-1FR", "2026-10-30", "2026-10-30")).toBe(
+        "2026-11-27"
+      );
+    });
+
+    test("skips years without the anchor day", () => {
+      expect(next("FREQ=YEARLY", "2024-02-29", "2024-02-29")).toBe(
+        "2028-02-29"
+      );
+    });
+
+    test("finds occurrences of series that started long ago", () => {
+      expect(next("FREQ=DAILY;INTERVAL=3", "2000-01-01", "2026-10-05")).toBe(
+        "2026-10-08"
+      );
+      expect(
+        next("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO", "2000-01-03", "2026-10-19")
+      ).toBe("2026-11-02");
+      expect(next("FREQ=YEARLY;INTERVAL=4", "1904-02-29", "2026-10-19")).toBe(
+        "2028-02-29"
+      );
+    });
+
+    test("ends series at COUNT and UNTIL", () => {
+      expect(next("FREQ=DAILY;COUNT=2", "2026-10-01", "2026-10-01")).toBe(
+        "2026-10-02"
+      );
+      expect(next("FREQ=DAILY;COUNT=2", "2026-10-01", "2026-10-02")).toBeNull();
+      expect(
+        next("FREQ=WEEKLY;UNTIL=20261031", "2026-10-19", "2026-10-26")
+      ).toBeNull();
+    });
+  });
+
+  test("occursOn checks a single day", () => {
+    const rule = parseRecurrence("FREQ=WEEKLY;BYDAY=MO");
+    const anchor = new Date(2026, 9, 5);
+
+    expect(occursOn(rule, anchor, new Date(2026, 9, 19, 15, 30))).toBe(true);
+    expect(occursOn(rule, anchor, new Date(2026, 9, 20))).toBe(false);
+    expect(occursOn(rule, anchor, new Date(2026, 8, 28))).toBe(false);
+  });
+
+  test("getOccurrenceTitle replaces a previous date suffix", () => {
+    const date = new Date(2026, 9, 26);
+
+    expect(getOccurrenceTitle("Water plants", date)).toBe(
+      "Water plants (2026-10-26)"
+    );
+    expect(getOccurrenceTitle("Water plants (2026-10-19)", date)).toBe(
+      "Water plants (2026-10-26)"
+    );
+  });
+
+  test("filterRecurringTasksDueOn returns pending tasks recurring that day", () => {
+    const tasks = [
+      buildTask("Weekly", { recurrence: "FREQ=WEEKLY;BYDAY=MO" }),
+      buildTask("Done", { recurrence: "FREQ=DAILY", done: true }),
+      buildTask("Invalid", { recurrence: "FREQ=SOMETIMES" }),
+      buildTask("Later", {
+        recurrence: "FREQ=DAILY",
+        doDate: new Date(2026, 9, 20),
+      }),
+      buildTask("Plain", {}),
+    ];
+
+    expect(
+      filterRecurringTasksDueOn(tasks, new Date(2026, 9, 19)).map(
+        (task) => task.title
+      )
+    ).toEqual(["Weekly"]);
+  });
+
+  describe("buildNextOccurrence", () => {
+    // 2026-10-19 is a Monday
+    const today = new Date(2026, 9, 19, 10, 0);
+
+    test("shifts dates, decrements COUNT and resets the state", () => {
+      const task = buildTask("Water plants", {
+        status: "In Progress",
+        areas: ["Home"],
+        tags: ["chore"],
+        recurrence: "FREQ=WEEKLY;BYDAY=MO;COUNT=3",
+        doDate: new Date(2026, 9, 19),
+        dueDate: new Date(2026, 9, 21),
+        source: {
+          extension: "github",
+          keys: { github: "https://github.com/acme/repo/issues/1" },
+        },
+      });
+
+      const occurrence = buildNextOccurrence(task, today)!;
+
+      expect(occurrence).toMatchObject({
+        title: "Water plants (2026-10-26)",
+        status: "Backlog",
+        done: false,
+        areas: ["Home"],
+        tags: ["chore"],
+        recurrence: "FREQ=WEEKLY;BYDAY=MO;COUNT=2",
+        source: { extension: "obsidian", keys: {} },
+      });
+      expect(occurrence).not.toHaveProperty("id");
+      expect(getDateString(occurrence.doDate!)).toBe("2026-10-26");
+      expect(getDateString(occurrence.dueDate!)).toBe("2026-10-28");
+    });
+
+    test("starts occurrences without tracked time or blockers", () => {
+      const task = buildTask("Water plants", {
+        recurrence: "FREQ=WEEKLY",
+        doDate: new Date(2026, 9, 19),
+        blockedBy: ["Buy fertilizer"],
+        timeLog: [
+          "2026-10-19T09:00:00/2026-10-19T09:30:00",
+          "2026-10-19T10:00:00",
+        ],
+      });
+
+      const occurrence = buildNextOccurrence(task, today)!;
+
+      expect(occurrence.timeLog).toBeUndefined();
+      expect(occurrence.blockedBy).toBeUndefined();
+    });
+
+    test("skips occurrences missed before today", () => {
+      const occurrence = buildNextOccurrence(
+        buildTask("Stretch", {
+          recurrence: "FREQ=DAILY",
+          doDate: new Date(2026, 9, 10),
+        }),
+        today
+      )!;
+
+      expect(getDateString(occurrence.doDate!)).toBe("2026-10-20");
+    });
+
+    test("keeps tasks with only a due date without a do date", () => {
+      const occurrence = buildNextOccurrence(
+        buildTask("Pay rent", {
+          recurrence: "FREQ=MONTHLY",
+          dueDate: new Date(2026, 9, 25),
+        }),
+        today
+      )!;
+
+      expect(occurrence.doDate).toBeUndefined();
+      expect(getDateString(occurrence.dueDate!)).toBe("2026-11-25");
+    });
+
+    test("returns null when the series has ended", () => {
+      expect(
+        buildNextOccurrence(
+          buildTask("Last", { recurrence: "FREQ=DAILY;COUNT=1" }),
+          today
+        )
+      ).toBeNull();
+      expect(buildNextOccurrence(buildTask("Plain"), today)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for task creation defaults
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  mergeTaskDefaults,
+  resolveTaskDefaults,
+  applyTaskDefaults,
+} from "../../../src/app/utils/taskDefaults";
+import { AreaSchema, ProjectSchema } from "../../../src/app/core/entities";
+
+const timestamps = {
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1),
+  source: { extension: "obsidian", keys: {} },
+};
+
+describe("taskDefaults", () => {
+  test("merges layers, later ones winning and tags accumulating", () => {
+    expect(
+      mergeTaskDefaults(
+        { template: "Area.md", priority: "Low", tags: ["area"] },
+        undefined,
+        { priority: "High", tags: ["project", "area"] }
+      )
+    ).toEqual({
+      template: "Area.md",
+      priority: "High",
+      category: undefined,
+      tags: ["area", "project"],
+    });
+  });
+
+  test("projects inherit the defaults of their areas", () => {
+    const work = AreaSchema.parse({
+      id: "work",
+      name: "Work",
+      taskDefaults: { category: "Chore", tags: ["work"] },
+      ...timestamps,
+    });
+    const launch = ProjectSchema.parse({
+      id: "launch",
+      name: "Launch",
+      areas: ["Work", "Unknown"],
+      taskDefaults: { priority: "Urgent", template: "Launch.md" },
+      ...timestamps,
+    });
+
+    expect(resolveTaskDefaults(launch, [work])).toEqual({
+      template: "Launch.md",
+      priority: "Urgent",
+      category: "Chore",
+      tags: ["work"],
+    });
+    expect(resolveTaskDefaults(work)).toEqual({
+      template: undefined,
+      priority: undefined,
+      category: "Chore",
+      tags: ["work"],
+    });
+  });
+
+  test("only fills in values that aren't set", () => {
+    expect(
+      applyTaskDefaults(
+        { title: "Write docs", priority: "Low", tags: ["docs"] },
+        { priority: "High", category: "Feature", tags: ["launch", "docs"] }
+      )
+    ).toEqual({
+      title: "Write docs",
+      priority: "Low",
+      category: "Feature",
+      tags: ["docs", "launch"],
+    });
+  });
+});
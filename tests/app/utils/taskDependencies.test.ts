@@ -0,0 +1,72 @@
+/**
+ * Tests for task dependency utilities
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  getBlockers,
+  isBlocked,
+  getBlockedTasks,
+  findDependencyCycle,
+  assertNoDependencyCycle,
+  releaseBlockedTasks,
+  TaskDependencyCycleError,
+} from "../../../src/app/utils/taskDependencies";
+import { buildTask } from "../helpers/entity-helpers";
+
+describe("taskDependencies", () => {
+  test("only pending, known tasks block", () => {
+    const design = buildTask("Design");
+    const research = buildTask("Research", { done: true });
+    const build = buildTask("Build", {
+      blockedBy: ["Design", "Research", "Missing"],
+    });
+    const tasks = [design, research, build];
+
+    expect(getBlockers(build, tasks).map((t) => t.title)).toEqual(["Design"]);
+    expect(isBlocked(build, tasks)).toBe(true);
+    expect(isBlocked(design, tasks)).toBe(false);
+    expect(getBlockedTasks(design, tasks).map((t) => t.title)).toEqual([
+      "Build",
+    ]);
+  });
+
+  test("detects direct, indirect and self cycles", () => {
+    const a = buildTask("A", { blockedBy: ["B"] });
+    const b = buildTask("B", { blockedBy: ["C"] });
+    const c = buildTask("C");
+    const tasks = [a, b, c];
+
+    expect(findDependencyCycle(a, tasks)).toBeNull();
+
+    // C blocked by A closes the loop A → B → C → A
+    const cyclicC = { ...c, blockedBy: ["A"] };
+    expect(findDependencyCycle(cyclicC, tasks)).toEqual(["C", "A", "B", "C"]);
+    expect(() => assertNoDependencyCycle(cyclicC, tasks)).toThrow(
+      TaskDependencyCycleError
+    );
+
+    const selfBlocked = { ...c, blockedBy: ["C"] };
+    expect(findDependencyCycle(selfBlocked, tasks)).toEqual(["C", "C"]);
+  });
+
+  test("ignores cycles that don't involve the task", () => {
+    const a = buildTask("A", { blockedBy: ["B"] });
+    const b = buildTask("B", { blockedBy: ["A"] });
+    const c = buildTask("C", { blockedBy: ["A"] });
+
+    expect(findDependencyCycle(c, [a, b, c])).toBeNull();
+  });
+
+  test("releases tasks blocked by a deleted task", () => {
+    const design = buildTask("Design");
+    const build = buildTask("Build", { blockedBy: ["Design", "Review"] });
+    const ship = buildTask("Ship", { blockedBy: ["Build"] });
+
+    const released = releaseBlockedTasks(design, [design, build, ship]);
+
+    expect(released).toHaveLength(1);
+    expect(released[0].title).toBe("Build");
+    expect(released[0].blockedBy).toEqual(["Review"]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for task hierarchy utilities
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  buildTaskTree,
+  flattenTaskTree,
+  getTaskRollup,
+  allSubtasksDone,
+  renameTaskReferences,
+} from "../../../src/app/utils/taskHierarchy";
+import { buildTask } from "../helpers/entity-helpers";
+
+describe("taskHierarchy", () => {
+  test("nests subtasks to any depth and rolls up completion", () => {
+    const tasks = [
+      buildTask("Launch"),
+      buildTask("Design", { parentTask: "Launch", done: true }),
+      buildTask("Build", { parentTask: "Launch" }),
+      buildTask("API", { parentTask: "Build", done: true }),
+      buildTask("UI", { parentTask: "Build" }),
+      buildTask("Orphan", { parentTask: "Missing" }),
+    ];
+
+    const tree = buildTaskTree(tasks);
+
+    expect(tree.map((node) => node.task.title)).toEqual(["Launch", "Orphan"]);
+    expect(tree[0].rollup).toEqual({ done: 2, total: 4 });
+    expect(
+      flattenTaskTree(tree).map((node) => [node.task.title, node.depth])
+    ).toEqual([
+      ["Launch", 0],
+      ["Design", 1],
+      ["Build", 1],
+      ["API", 2],
+      ["UI", 2],
+      ["Orphan", 0],
+    ]);
+    expect(
+      flattenTaskTree(tree, new Set(["Build"])).map((node) => node.task.title)
+    ).toEqual(["Launch", "Design", "Build", "Orphan"]);
+  });
+
+  test("counts filtered-out subtasks in rollups", () => {
+    const launch = buildTask("Launch");
+    const design = buildTask("Design", { parentTask: "Launch", done: true });
+    const build = buildTask("Build", { parentTask: "Launch" });
+
+    const tree = buildTaskTree([launch, build], [launch, design, build]);
+
+    expect(tree[0].children.map((node) => node.task.title)).toEqual(["Build"]);
+    expect(tree[0].rollup).toEqual({ done: 1, total: 2 });
+  });
+
+  test("survives parent cycles", () => {
+    const a = buildTask("A", { parentTask: "B" });
+    const b = buildTask("B", { parentTask: "A" });
+
+    expect(buildTaskTree([a, b]).map((node) => node.task.title)).toEqual([
+      "A",
+      "B",
+    ]);
+    expect(getTaskRollup(a, [a, b])).toEqual({ done: 0, total: 1 });
+  });
+
+  test("checks whether all subtasks are done", () => {
+    const parent = buildTask("Parent");
+    const first = buildTask("First", { parentTask: "Parent", done: true });
+    const second = buildTask("Second", { parentTask: "Parent" });
+
+    expect(allSubtasksDone(parent, [parent, first, second])).toBe(false);
+    expect(
+      allSubtasksDone(parent, [parent, first, { ...second, done: true }])
+    ).toBe(true);
+    expect(allSubtasksDone(parent, [parent])).toBe(false);
+  });
+
+  test("renames parent and blocked-by references", () => {
+    const child = buildTask("Child", { parentTask: "Old" });
+    const blocked = buildTask("Blocked", { blockedBy: ["Old", "Other"] });
+    const unrelated = buildTask("Unrelated", { parentTask: "Other" });
+
+    const renamed = renameTaskReferences("Old", "New", [
+      child,
+      blocked,
+      unrelated,
+    ]);
+
+    expect(
+      renamed.map((task) => [task.title, task.parentTask, task.blockedBy])
+    ).toEqual([
+      ["Child", "New", undefined],
+      ["Blocked", undefined, ["New", "Other"]],
+    ]);
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Tests for the line-based text diff
+ */
+
+import { describe, test, expect } from "vitest";
+import { diffLines } from "../../../src/app/utils/textDiff";
+
+describe("textDiff", () => {
+  test("marks added, removed and unchanged lines", () => {
+    expect(diffLines("a\nb\nc\nd", "a\nc\nx\nd")).toEqual([
+      { type: "unchanged", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "unchanged", text: "c" },
+      { type: "added", text: "x" },
+      { type: "unchanged", text: "d" },
+    ]);
+  });
+
+  test("handles empty texts", () => {
+    expect(diffLines("", "a")).toEqual([{ type: "added", text: "a" }]);
+    expect(diffLines("a", "")).toEqual([{ type: "removed", text: "a" }]);
+    expect(diffLines("", "")).toEqual([]);
+  });
+});
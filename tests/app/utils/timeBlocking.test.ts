@@ -0,0 +1,66 @@
+/**
+ * Tests for time blocking utilities
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  getSlotTime,
+  moveEvent,
+  resizeEvent,
+  buildTaskEvent,
+} from "../../../src/app/utils/timeBlocking";
+import { TaskSchema } from "../../../src/app/core/entities";
+
+const day = new Date(2026, 2, 2);
+const at = (hours: number, minutes = 0) =>
+  new Date(2026, 2, 2, hours, minutes);
+
+describe("timeBlocking", () => {
+  test("snaps drop positions to quarter hours within the slot", () => {
+    expect(getSlotTime(day, 9, 0, 60)).toEqual(at(9));
+    expect(getSlotTime(day, 9, 22, 60)).toEqual(at(9, 15));
+    expect(getSlotTime(day, 9, 59, 60)).toEqual(at(9, 45));
+    expect(getSlotTime(day, 9, -5, 60)).toEqual(at(9));
+  });
+
+  test("moves events keeping their duration and resizes them", () => {
+    const event = { startDate: at(9), endDate: at(10, 30) };
+
+    expect(moveEvent(event, at(14))).toEqual({
+      startDate: at(14),
+      endDate: at(15, 30),
+    });
+    expect(resizeEvent(event, 30, 60)).toEqual(at(11));
+    expect(resizeEvent(event, -200, 60)).toEqual(at(9, 15));
+  });
+
+  test("builds events linking back to the task note", () => {
+    const task = TaskSchema.parse({
+      id: "task-1",
+      title: "Write report",
+      priority: "High",
+      createdAt: day,
+      updatedAt: day,
+      source: { extension: "obsidian", keys: {} },
+    });
+
+    expect(
+      buildTaskEvent(task, at(9), {
+        calendarId: "work",
+        durationMinutes: 45,
+        includeTaskDetails: true,
+        noteUrl: "obsidian://open?vault=Vault&file=Tasks%2FWrite%20report.md",
+      })
+    ).toEqual({
+      title: "Write report",
+      description:
+        "obsidian://open?vault=Vault&file=Tasks%2FWrite%20report.md\n\nPriority: High",
+      startDate: at(9),
+      endDate: at(9, 45),
+      allDay: false,
+      calendarId: "work",
+      reminders: undefined,
+      metadata: { taskId: "task-1" },
+    });
+  });
+});
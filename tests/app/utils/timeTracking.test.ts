@@ -0,0 +1,98 @@
+/**
+ * Tests for task time tracking utilities
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  parseTimeEntry,
+  formatTimeEntry,
+  isTimerRunning,
+  startTimeEntry,
+  stopTimeEntry,
+  getTrackedMinutes,
+  getTrackedMinutesOn,
+  compareTrackedTime,
+} from "../../../src/app/utils/timeTracking";
+import { buildTask } from "../helpers/entity-helpers";
+
+function block(title: string, start: string, end: string) {
+  return {
+    title,
+    startDate: new Date(start),
+    endDate: new Date(end),
+    allDay: false,
+  };
+}
+
+describe("timeTracking", () => {
+  test("round-trips closed and running entries", () => {
+    const closed = "2026-03-02T09:00:00/2026-03-02T10:30:00";
+    const running = "2026-03-02T11:00:00/";
+
+    expect(formatTimeEntry(parseTimeEntry(closed)!)).toBe(closed);
+    expect(formatTimeEntry(parseTimeEntry(running)!)).toBe(running);
+    expect(parseTimeEntry("yesterday afternoon")).toBeNull();
+    expect(parseTimeEntry("2026-03-02T10:00/2026-03-02T09:00")).toBeNull();
+  });
+
+  test("starts and stops a timer", () => {
+    const started = startTimeEntry([], new Date(2026, 2, 2, 9, 0));
+
+    expect(isTimerRunning(started)).toBe(true);
+    // Starting again while running is a no-op
+    expect(startTimeEntry(started, new Date(2026, 2, 2, 9, 5))).toEqual(
+      started
+    );
+
+    const stopped = stopTimeEntry(started, new Date(2026, 2, 2, 9, 45));
+
+    expect(isTimerRunning(stopped)).toBe(false);
+    expect(stopped).toEqual(["2026-03-02T09:00:00/2026-03-02T09:45:00"]);
+  });
+
+  test("totals tracked time, counting a running timer up to now", () => {
+    const log = [
+      "2026-03-02T09:00:00/2026-03-02T10:30:00",
+      "2026-03-02T14:00:00/",
+    ];
+
+    expect(getTrackedMinutes(log, new Date(2026, 2, 2, 14, 20))).toBe(110);
+  });
+
+  test("splits entries across midnight when totalling a day", () => {
+    const log = ["2026-03-01T23:00:00/2026-03-02T01:00:00"];
+
+    expect(getTrackedMinutesOn(log, new Date(2026, 2, 1))).toBe(60);
+    expect(getTrackedMinutesOn(log, new Date(2026, 2, 2))).toBe(60);
+  });
+
+  test("compares tracked time with calendar blocks by task title", () => {
+    const writing = buildTask("Write report", {
+      timeLog: ["2026-03-02T09:00:00/2026-03-02T11:00:00"],
+    });
+    const review = buildTask("Review PRs");
+    const idle = buildTask("Idle task");
+
+    const result = compareTrackedTime(
+      [writing, review, idle],
+      [
+        block("write report", "2026-03-02T09:00:00", "2026-03-02T10:30:00"),
+        block("Review PRs", "2026-03-02T13:00:00", "2026-03-02T13:30:00"),
+        block("Review PRs", "2026-03-03T13:00:00", "2026-03-03T13:30:00"),
+      ],
+      new Date(2026, 2, 2)
+    );
+
+    expect(
+      result.map((entry) => [
+        entry.task.title,
+        entry.plannedMinutes,
+        entry.trackedMinutes,
+        entry.differenceMinutes,
+      ])
+    ).toEqual([
+      ["Write report", 90, 120, 30],
+      ["Review PRs", 30, 0, -30],
+    ]);
+  });
+});
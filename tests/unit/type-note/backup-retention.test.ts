@@ -0,0 +1,76 @@
+/**
+ * Tests for backup retention policies
+ */
+
+import { describe, test, expect } from "vitest";
+import { selectBackupsToPrune } from "../../../src/app/core/note-kit/backup-retention";
+import type { BackupEntry } from "../../../src/app/core/note-kit/backup-manager";
+
+const now = new Date(2026, 0, 31);
+
+function backup(
+  id: string,
+  daysAgo: number,
+  overrides: Partial<BackupEntry> = {}
+): { entry: BackupEntry; size: number } {
+  return {
+    entry: {
+      id,
+      type: "file",
+      timestamp: new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000),
+      description: id,
+      originalData: {},
+      filePath: "Tasks/Task.md",
+      ...overrides,
+    },
+    size: 1024 * 1024,
+  };
+}
+
+describe("selectBackupsToPrune", () => {
+  test("keeps the last backups of each item", () => {
+    const backups = [
+      backup("old", 3),
+      backup("newer", 2),
+      backup("newest", 1),
+      backup("other", 5, { filePath: "Tasks/Other.md" }),
+    ];
+
+    expect(
+      selectBackupsToPrune(
+        backups,
+        { keepLast: 2, maxAgeDays: 0, maxTotalSizeMB: 0 },
+        now
+      )
+    ).toEqual(["old"]);
+  });
+
+  test("removes backups older than the max age", () => {
+    const backups = [backup("old", 40), backup("recent", 10)];
+
+    expect(
+      selectBackupsToPrune(
+        backups,
+        { keepLast: 0, maxAgeDays: 30, maxTotalSizeMB: 0 },
+        now
+      )
+    ).toEqual(["old"]);
+  });
+
+  test("removes the oldest backups until they fit the max size", () => {
+    const backups = [
+      backup("oldest", 4),
+      backup("pinned", 3, { autoCleanup: false }),
+      backup("old", 2),
+      backup("new", 1),
+    ];
+
+    expect(
+      selectBackupsToPrune(
+        backups,
+        { keepLast: 0, maxAgeDays: 0, maxTotalSizeMB: 2 },
+        now
+      )
+    ).toEqual(["oldest", "old"]);
+  });
+});
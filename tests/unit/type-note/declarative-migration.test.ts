@@ -0,0 +1,119 @@
+/**
+ * Tests for declarative schema migrations
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  applyMigrationSteps,
+  generateMigrationSteps,
+} from "../../../src/app/core/note-kit/declarative-migration";
+import { stringSchema } from "../../../src/app/core/note-kit/schemas";
+import type { PropertyDefinition } from "../../../src/app/core/note-kit/types";
+
+function property(overrides: Partial<PropertyDefinition>): PropertyDefinition {
+  return {
+    key: "status",
+    name: "Status",
+    type: "select",
+    schema: stringSchema,
+    frontMatterKey: "Status",
+    required: false,
+    ...overrides,
+  };
+}
+
+describe("generateMigrationSteps", () => {
+  test("generates steps from edited properties", () => {
+    const steps = generateMigrationSteps([
+      {
+        before: property({}),
+        after: property({ name: "State", frontMatterKey: "State" }),
+        optionValues: { Todo: "Backlog", Doing: "In Progress", Done: "Done" },
+      },
+      {
+        before: property({ frontMatterKey: "Estimate", type: "string" }),
+        after: property({ frontMatterKey: "Estimate", type: "number" }),
+      },
+      { before: property({ frontMatterKey: "Legacy" }), after: null },
+    ]);
+
+    expect(steps).toEqual([
+      { kind: "rename-key", from: "Status", to: "State" },
+      {
+        kind: "map-values",
+        key: "State",
+        mapping: { Todo: "Backlog", Doing: "In Progress" },
+      },
+      { kind: "convert-type", key: "Estimate", to: "number" },
+      { kind: "drop-property", key: "Legacy" },
+    ]);
+  });
+});
+
+describe("applyMigrationSteps", () => {
+  test("migrates front-matter and describes the changes", () => {
+    const frontMatter = {
+      Type: "task",
+      Status: "Todo",
+      Tags: ["Doing", "Backlog"],
+      Estimate: "3",
+      Legacy: true,
+    };
+
+    const result = applyMigrationSteps(frontMatter, [
+      { kind: "rename-key", from: "Status", to: "State" },
+      { kind: "map-values", key: "State", mapping: { Todo: "Backlog" } },
+      { kind: "map-values", key: "Tags", mapping: { Doing: "Backlog" } },
+      { kind: "convert-type", key: "Estimate", to: "number" },
+      { kind: "drop-property", key: "Legacy" },
+    ]);
+
+    expect(result.frontMatter).toEqual({
+      Type: "task",
+      State: "Backlog",
+      Tags: ["Backlog"],
+      Estimate: 3,
+    });
+    expect(result.changes).toHaveLength(5);
+    expect(frontMatter.Status).toBe("Todo");
+  });
+
+  test("doesn't overwrite existing keys or unconvertible values", () => {
+    const result = applyMigrationSteps(
+      { Status: "Todo", State: "Done", Estimate: "soon" },
+      [
+        { kind: "rename-key", from: "Status", to: "State" },
+        { kind: "convert-type", key: "Estimate", to: "number" },
+      ]
+    );
+
+    expect(result.frontMatter).toEqual({
+      Status: "Todo",
+      State: "Done",
+      Estimate: "soon",
+    });
+    expect(result.changes).toEqual([]);
+  });
+
+  test("converts dates without shifting them to another day", () => {
+    const timezone = process.env.TZ;
+    process.env.TZ = "America/New_York";
+
+    try {
+      const result = applyMigrationSteps(
+        { Due: "2024-01-05", Start: "2024-01-05T00:00:00Z" },
+        [
+          { kind: "convert-type", key: "Due", to: "date" },
+          { kind: "convert-type", key: "Start", to: "date" },
+        ]
+      );
+
+      expect(result.frontMatter).toEqual({
+        Due: "2024-01-05",
+        Start: "2024-01-05",
+      });
+    } finally {
+      process.env.TZ = timezone;
+    }
+  });
+});
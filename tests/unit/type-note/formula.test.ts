@@ -0,0 +1,202 @@
+/**
+ * Tests for formula, duration and rating properties
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  parseFormula,
+  evaluateFormula,
+  computeFormulaValues,
+  isValidFormula,
+  FormulaError,
+} from "../../../src/app/core/note-kit/formula";
+import {
+  parseDuration,
+  formatDuration,
+} from "../../../src/app/core/note-kit/duration";
+import { PropertyProcessor } from "../../../src/app/core/note-kit/property-processor";
+import { validateNoteType } from "../../../src/app/core/note-kit/validation";
+import type {
+  NoteType,
+  PropertyDefinition,
+} from "../../../src/app/core/note-kit/types";
+import {
+  stringSchema,
+  numberSchema,
+  dateSchema,
+  optionalDurationSchema,
+  ratingSchema,
+  formulaSchema,
+} from "../../../src/app/core/note-kit/schemas";
+
+const property = (
+  key: string,
+  type: PropertyDefinition["type"],
+  extra: Partial<PropertyDefinition> = {}
+): PropertyDefinition => ({
+  key,
+  name: key,
+  type,
+  schema:
+    type === "formula"
+      ? formulaSchema
+      : type === "number"
+        ? numberSchema
+        : stringSchema,
+  frontMatterKey: key,
+  required: false,
+  ...extra,
+});
+
+describe("duration", () => {
+  test("parses common notations into minutes", () => {
+    expect(parseDuration("1h30m")).toBe(90);
+    expect(parseDuration("1h 30m")).toBe(90);
+    expect(parseDuration("1.5h")).toBe(90);
+    expect(parseDuration("1:30")).toBe(90);
+    expect(parseDuration("45m")).toBe(45);
+    expect(parseDuration(90)).toBe(90);
+    expect(parseDuration("soon")).toBeNull();
+    expect(parseDuration("")).toBeNull();
+  });
+
+  test("formats minutes canonically", () => {
+    expect(formatDuration(90)).toBe("1h30m");
+    expect(formatDuration(120)).toBe("2h");
+    expect(formatDuration(45)).toBe("45m");
+  });
+
+  test("duration and rating schemas validate values", () => {
+    expect(optionalDurationSchema.parse("90")).toBe("1h30m");
+    expect(optionalDurationSchema.safeParse("later").success).toBe(false);
+    expect(ratingSchema.safeParse(4).success).toBe(true);
+    expect(ratingSchema.safeParse(6).success).toBe(false);
+    expect(ratingSchema.safeParse(2.5).success).toBe(false);
+  });
+});
+
+describe("formula", () => {
+  test("evaluates arithmetic with precedence and functions", () => {
+    expect(evaluateFormula("1 + 2 * 3", {})).toBe(7);
+    expect(evaluateFormula("(1 + 2) * 3", {})).toBe(9);
+    expect(evaluateFormula("round(estimate / 60, 1)", { estimate: 95 })).toBe(
+      1.6
+    );
+    expect(evaluateFormula('if(done, "yes", "no")', { done: false })).toBe(
+      "no"
+    );
+    expect(
+      evaluateFormula('concat(title, " (", count, ")")', {
+        title: "Task",
+        count: 3,
+      })
+    ).toBe("Task (3)");
+  });
+
+  test("rejects malformed formulas", () => {
+    expect(isValidFormula("1 +")).toBe(false);
+    expect(isValidFormula("unknownFn(1)")).toBe(false);
+    expect(() => parseFormula("(1 + 2")).toThrow(FormulaError);
+  });
+
+  test("computes formulas from property values, including nested ones", () => {
+    const properties = {
+      estimate: property("estimate", "duration"),
+      spent: property("spent", "duration"),
+      remaining: property("remaining", "formula", {
+        formula: "estimate - spent",
+      }),
+      progress: property("progress", "formula", {
+        formula: "round(spent / estimate * 100)",
+      }),
+      summary: property("summary", "formula", {
+        formula: 'concat(progress, "% done, ", remaining, "m left")',
+      }),
+    };
+
+    const result = computeFormulaValues(properties, {
+      estimate: "2h",
+      spent: "1h30m",
+    });
+
+    expect(result.errors).toEqual({});
+    expect(result.values).toEqual({
+      remaining: 30,
+      progress: 75,
+      summary: "75% done, 30m left",
+    });
+  });
+
+  test("computes day differences between dates", () => {
+    const properties = {
+      start: property("start", "date"),
+      end: property("end", "date"),
+      days: property("days", "formula", { formula: "end - start" }),
+    };
+
+    const result = computeFormulaValues(properties, {
+      start: "2024-03-01",
+      end: "2024-03-11",
+    });
+
+    expect(result.values.days).toBe(10);
+  });
+
+  test("reports circular references", () => {
+    const properties = {
+      a: property("a", "formula", { formula: "b + 1" }),
+      b: property("b", "formula", { formula: "a + 1" }),
+    };
+
+    const result = computeFormulaValues(properties, {});
+
+    expect(result.errors.a).toMatch(/Circular/);
+    expect(result.values.a).toBeNull();
+  });
+
+  test("PropertyProcessor adds formula results without reading front-matter", async () => {
+    const noteType: NoteType = {
+      id: "task",
+      name: "Task",
+      version: "1.0.0",
+      properties: {
+        title: property("title", "string", { required: true }),
+        points: property("points", "number"),
+        due: property("due", "date", { schema: dateSchema }),
+        rating: property("rating", "rating", { schema: ratingSchema }),
+        score: property("score", "formula", {
+          frontMatterKey: "Score",
+          formula: "points * rating",
+        }),
+      },
+      template: { version: "1.0.0", content: "", variables: {} },
+    };
+
+    const result = await new PropertyProcessor().process(noteType, {
+      title: "Write docs",
+      points: 3,
+      rating: 4,
+      Score: "stale",
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.properties.Score).toBe(12);
+  });
+
+  test("validateNoteType rejects unparseable formulas", () => {
+    const noteType: NoteType = {
+      id: "task",
+      name: "Task",
+      version: "1.0.0",
+      properties: {
+        broken: property("broken", "formula", { formula: "1 +" }),
+      },
+      template: { version: "1.0.0", content: "", variables: {} },
+    };
+
+    const result = validateNoteType(noteType);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.code)).toContain("INVALID_FORMULA");
+  });
+});
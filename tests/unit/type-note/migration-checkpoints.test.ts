@@ -0,0 +1,74 @@
+/**
+ * Tests for bulk migration checkpoints
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  createMigrationCheckpoint,
+  isResumableCheckpoint,
+  recordCheckpointFile,
+} from "../../../src/app/core/note-kit/migration-checkpoints";
+import type { MigrationPlan } from "../../../src/app/core/note-kit/bulk-operations";
+
+const plan: MigrationPlan = {
+  sourceNoteTypeId: "task",
+  sourceVersion: "1.0.0",
+  targetNoteTypeId: "task",
+  targetVersion: "1.1.0",
+  isBackwardsCompatible: true,
+  operations: [
+    {
+      type: "rename-property",
+      sourceProperty: "Status",
+      targetProperty: "State",
+      step: { kind: "rename-key", from: "Status", to: "State" },
+    },
+    {
+      type: "transform-property",
+      sourceProperty: "Estimate",
+      transform: (value) => Number(value),
+    },
+  ],
+};
+
+describe("migration checkpoints", () => {
+  test("creates a checkpoint that can be persisted", () => {
+    const checkpoint = createMigrationCheckpoint("migration-1", plan, [
+      "Tasks/A.md",
+      "Tasks/B.md",
+    ]);
+
+    expect(checkpoint.status).toBe("running");
+    expect(checkpoint.pendingFiles).toEqual(["Tasks/A.md", "Tasks/B.md"]);
+    expect(checkpoint.plan.operations[1]).not.toHaveProperty("transform");
+    expect(JSON.parse(JSON.stringify(checkpoint))).toEqual(checkpoint);
+  });
+
+  test("records migrated files and their backups", () => {
+    const checkpoint = createMigrationCheckpoint("migration-1", plan, [
+      "Tasks/A.md",
+      "Tasks/B.md",
+      "Tasks/C.md",
+    ]);
+
+    recordCheckpointFile(checkpoint, "Tasks/A.md", {
+      success: true,
+      backupId: "backup-a",
+    });
+    recordCheckpointFile(checkpoint, "Tasks/B.md", {
+      success: false,
+      error: "Invalid front-matter",
+    });
+
+    expect(checkpoint.pendingFiles).toEqual(["Tasks/C.md"]);
+    expect(checkpoint.completedFiles).toEqual(["Tasks/A.md"]);
+    expect(checkpoint.failedFiles).toEqual([
+      { filePath: "Tasks/B.md", error: "Invalid front-matter" },
+    ]);
+    expect(checkpoint.backups).toEqual({ "Tasks/A.md": "backup-a" });
+    expect(isResumableCheckpoint(checkpoint)).toBe(true);
+
+    recordCheckpointFile(checkpoint, "Tasks/C.md", { success: true });
+    expect(isResumableCheckpoint(checkpoint)).toBe(false);
+  });
+});
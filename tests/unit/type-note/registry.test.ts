@@ -322,6 +322,40 @@ describe("TypeRegistry", () => {
     });
   });
 
+  describe("upgrade", () => {
+    test("adds new properties and keeps customized ones", () => {
+      const registered = createSampleNoteType();
+      registry.register({
+        ...registered,
+        properties: {
+          title: { ...registered.properties.title, name: "Name" },
+        },
+      });
+
+      const upgraded = createSampleNoteType("task", "1.1.0");
+      expect(registry.upgrade(upgraded)).toBe(true);
+
+      const noteType = registry.get("task")!;
+      expect(noteType.version).toBe("1.1.0");
+      expect(noteType.properties.title.name).toBe("Name");
+      expect(noteType.properties.dueDate.frontMatterKey).toBe("due_date");
+    });
+
+    test("ignores note types that are up to date or not registered", () => {
+      registry.register(createSampleNoteType("task", "1.1.0"));
+
+      expect(registry.upgrade(createSampleNoteType("task", "1.1.0"))).toBe(
+        false
+      );
+      expect(registry.upgrade(createSampleNoteType("task", "1.0.0"))).toBe(
+        false
+      );
+      expect(registry.upgrade(createSampleNoteType("note", "2.0.0"))).toBe(
+        false
+      );
+    });
+  });
+
   describe("clear", () => {
     test("removes all note types", () => {
       registry.register(createSampleNoteType("task", "1.0.0"));
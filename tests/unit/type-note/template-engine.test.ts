@@ -414,6 +414,113 @@ describe("TemplateEngine", () => {
     });
   });
 
+  describe("partials", () => {
+    test("renders registered partials", () => {
+      engine.registerPartial("meetingNotes", "## Notes for {{title}}");
+
+      const result = engine.process(
+        createSampleTemplate("# {{title}}\n\n{{> meetingNotes}}"),
+        createSampleContext({ title: "Standup" })
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.content).toBe("# Standup\n\n## Notes for Standup");
+    });
+
+    test("replaces all partials", () => {
+      engine.registerPartial("old", "Old");
+      engine.setPartials({ agenda: "Agenda" });
+
+      expect(engine.getPartialNames()).toEqual(["agenda"]);
+
+      const result = engine.process(
+        createSampleTemplate("{{> old}}"),
+        createSampleContext()
+      );
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("processInherited", () => {
+    test("renders parent templates found by the resolver", () => {
+      const parentTemplate: Template = {
+        version: "1.0.0",
+        content: "Project: {{link project}}",
+        variables: {},
+      };
+      engine.setTemplateResolver((id) =>
+        id === "base" ? parentTemplate : undefined
+      );
+
+      const result = engine.processInherited(
+        { ...createSampleTemplate("# {{title}}"), parentTemplateId: "base" },
+        createSampleContext({ title: "Kickoff", project: "Website" })
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.content).toBe("Project: [[Website]]\n\n# Kickoff");
+    });
+
+    test("reports missing parent templates", () => {
+      const result = engine.processInherited(
+        { ...createSampleTemplate(), parentTemplateId: "missing" },
+        createSampleContext()
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0].code).toBe("PARENT_TEMPLATE_NOT_FOUND");
+    });
+  });
+
+  describe("helpers", () => {
+    const render = (content: string, variables: Record<string, unknown>) =>
+      engine.process(
+        { version: "1.0.0", content, variables: {} },
+        createSampleContext(variables),
+        { allowUndefinedVariables: true }
+      ).content;
+
+    test("calculates dates", () => {
+      expect(render('{{dateAdd due 1 "month"}}', { due: "2025-01-31" })).toBe(
+        "2025-03-03"
+      );
+      expect(render("{{dateAdd due 7}}", { due: "2025-01-01" })).toBe(
+        "2025-01-08"
+      );
+      expect(
+        render("{{daysBetween start due}}", {
+          start: "2025-01-01",
+          due: "2025-01-15",
+        })
+      ).toBe("14");
+    });
+
+    test("formats links", () => {
+      expect(render('{{link project "Website"}}', { project: "[[Web]]" })).toBe(
+        "[[Web|Website]]"
+      );
+      expect(render("{{link people}}", { people: ["Ann", "Bob"] })).toBe(
+        "[[Ann]], [[Bob]]"
+      );
+      expect(
+        render("{{mdLink title url}}", { title: "Docs", url: "https://x.io" })
+      ).toBe("[Docs](https://x.io)");
+    });
+
+    test("renders sections based on property values", () => {
+      const content =
+        '{{#ifEquals status "Done"}}done{{else}}open{{/ifEquals}}' +
+        '{{#ifIncludes tags "meeting"}} meeting{{/ifIncludes}}';
+
+      expect(render(content, { status: "Done", tags: ["meeting"] })).toBe(
+        "done meeting"
+      );
+      expect(render(content, { status: "Todo", tags: "work, home" })).toBe(
+        "open"
+      );
+    });
+  });
+
   describe("migrateTemplate", () => {
     test("returns content unchanged for same version", () => {
       const template = createSampleTemplate();
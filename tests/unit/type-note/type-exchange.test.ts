@@ -0,0 +1,188 @@
+/**
+ * Tests for note type import/export
+ */
+
+import { describe, test, expect, beforeEach } from "vitest";
+import { TypeRegistry } from "../../../src/app/core/note-kit/registry";
+import {
+  exportNoteTypes,
+  parseNoteTypesFile,
+  diffNoteTypes,
+  applyNoteTypeImport,
+  NoteTypeImportError,
+} from "../../../src/app/core/note-kit/type-exchange";
+import type { NoteType } from "../../../src/app/core/note-kit/types";
+import {
+  stringSchema,
+  dateSchema,
+} from "../../../src/app/core/note-kit/schemas";
+
+const createTaskNoteType = (version = "1.0.0"): NoteType => ({
+  id: "task",
+  name: "Task",
+  version,
+  properties: {
+    title: {
+      key: "title",
+      name: "Title",
+      type: "string",
+      schema: stringSchema,
+      frontMatterKey: "Title",
+      required: true,
+    },
+    dueDate: {
+      key: "dueDate",
+      name: "Due Date",
+      type: "date",
+      schema: dateSchema,
+      frontMatterKey: "Due Date",
+      required: false,
+    },
+  },
+  template: {
+    version: "1.0.0",
+    content: "# {{title}}",
+    variables: {},
+  },
+  metadata: { createdAt: new Date("2026-01-01T00:00:00Z") },
+});
+
+describe("note type exchange", () => {
+  let source: TypeRegistry;
+  let target: TypeRegistry;
+
+  beforeEach(() => {
+    source = new TypeRegistry();
+    target = new TypeRegistry();
+  });
+
+  test("round-trips note types through a file", () => {
+    source.register(createTaskNoteType());
+
+    const [noteType] = parseNoteTypesFile(target, exportNoteTypes(source));
+
+    expect(noteType.id).toBe("task");
+    expect(noteType.properties.dueDate.frontMatterKey).toBe("Due Date");
+    expect(noteType.properties.title.schema.parse("Hello")).toBe("Hello");
+    expect(noteType.properties.title).not.toHaveProperty("schemaType");
+    expect(noteType.metadata?.createdAt).toEqual(
+      new Date("2026-01-01T00:00:00Z")
+    );
+    expect(target.register(noteType).valid).toBe(true);
+  });
+
+  test("rejects malformed files and invalid note types", () => {
+    expect(() => parseNoteTypesFile(target, "{")).toThrow("Invalid JSON");
+    expect(() => parseNoteTypesFile(target, "[]")).toThrow(
+      NoteTypeImportError
+    );
+
+    source.register(createTaskNoteType());
+    const file = JSON.parse(exportNoteTypes(source));
+    file.noteTypes[0].properties.title.frontMatterKey = "";
+    file.noteTypes.push({ ...file.noteTypes[0], name: "Copy" });
+
+    let error: unknown;
+    try {
+      parseNoteTypesFile(target, JSON.stringify(file));
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(NoteTypeImportError);
+    expect((error as NoteTypeImportError).errors.map((e) => e.code)).toEqual([
+      "INVALID_FRONT_MATTER_KEY",
+      "DUPLICATE_NOTE_TYPE",
+      "INVALID_FRONT_MATTER_KEY",
+    ]);
+  });
+
+  test("diffs imported note types against the registry", () => {
+    const local = createTaskNoteType();
+    local.properties.notes = {
+      key: "notes",
+      name: "Notes",
+      type: "string",
+      schema: stringSchema,
+      frontMatterKey: "Notes",
+      required: false,
+    };
+    target.register(local);
+
+    const canonical = createTaskNoteType("1.1.0");
+    canonical.properties.dueDate = {
+      ...canonical.properties.dueDate,
+      frontMatterKey: "Due",
+    };
+    canonical.properties.status = {
+      key: "status",
+      name: "Status",
+      type: "string",
+      schema: stringSchema,
+      frontMatterKey: "Status",
+      required: false,
+    };
+
+    const project: NoteType = { ...createTaskNoteType(), id: "project" };
+
+    expect(diffNoteTypes(target, [canonical, project])).toEqual([
+      {
+        noteTypeId: "task",
+        name: "Task",
+        status: "changed",
+        currentVersion: "1.0.0",
+        importedVersion: "1.1.0",
+        addedProperties: ["status"],
+        removedProperties: ["notes"],
+        changedProperties: ["dueDate"],
+        templateChanged: false,
+      },
+      expect.objectContaining({ noteTypeId: "project", status: "added" }),
+    ]);
+    expect(diffNoteTypes(target, [local])[0].status).toBe("unchanged");
+  });
+
+  test("merges or replaces existing note types", () => {
+    const local = createTaskNoteType("2.0.0");
+    local.properties.notes = {
+      key: "notes",
+      name: "Notes",
+      type: "string",
+      schema: stringSchema,
+      frontMatterKey: "Notes",
+      required: false,
+    };
+    target.register(local);
+
+    const canonical = createTaskNoteType("1.1.0");
+    canonical.properties.dueDate = {
+      ...canonical.properties.dueDate,
+      frontMatterKey: "Due",
+    };
+
+    const merged = applyNoteTypeImport(target, [canonical], "merge");
+    expect(merged).toEqual({
+      added: [],
+      updated: ["task"],
+      unchanged: [],
+      errors: [],
+    });
+    expect(Object.keys(target.get("task")!.properties).sort()).toEqual([
+      "dueDate",
+      "notes",
+      "title",
+    ]);
+    expect(target.get("task")!.properties.dueDate.frontMatterKey).toBe("Due");
+
+    applyNoteTypeImport(target, [canonical], "replace");
+    expect(Object.keys(target.get("task")!.properties).sort()).toEqual([
+      "dueDate",
+      "title",
+    ]);
+    expect(target.get("task")!.version).toBe("1.1.0");
+
+    expect(applyNoteTypeImport(target, [canonical], "merge").unchanged).toEqual(
+      ["task"]
+    );
+  });
+});
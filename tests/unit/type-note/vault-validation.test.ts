@@ -0,0 +1,219 @@
+/**
+ * Tests for vault-wide validation of typed notes
+ */
+
+import { describe, test, expect, beforeEach } from "vitest";
+import {
+  VaultValidator,
+  buildValidationReport,
+  applyValidationFix,
+  coerceDateValue,
+  type AssociationLinkResolver,
+} from "../../../src/app/core/note-kit/vault-validation";
+import type { NoteType } from "../../../src/app/core/note-kit/types";
+import {
+  stringSchema,
+  optionalStringSchema,
+  optionalDateSchema,
+  enumSchema,
+} from "../../../src/app/core/note-kit/schemas";
+import { NoteProcessor } from "../../../src/app/core/note-kit/note-processor";
+import { PropertyProcessor } from "../../../src/app/core/note-kit/property-processor";
+import { TemplateEngine } from "../../../src/app/core/note-kit/template-engine";
+import { TypeRegistry } from "../../../src/app/core/note-kit/registry";
+
+describe("VaultValidator", () => {
+  let validator: VaultValidator;
+
+  const taskNoteType: NoteType = {
+    id: "task",
+    name: "Task",
+    version: "1.0.0",
+    properties: {
+      title: {
+        key: "title",
+        name: "Title",
+        type: "string",
+        schema: stringSchema,
+        frontMatterKey: "Title",
+        required: true,
+      },
+      status: {
+        key: "status",
+        name: "Status",
+        type: "select",
+        schema: enumSchema(["Backlog", "Done"]),
+        frontMatterKey: "Status",
+        required: true,
+        defaultValue: "Backlog",
+        selectOptions: [{ value: "Backlog" }, { value: "Done" }],
+      },
+      doDate: {
+        key: "doDate",
+        name: "Do Date",
+        type: "date",
+        schema: optionalDateSchema,
+        frontMatterKey: "Do Date",
+        required: false,
+      },
+      project: {
+        key: "project",
+        name: "Project",
+        type: "association",
+        schema: optionalStringSchema,
+        frontMatterKey: "Project",
+        required: false,
+        association: { noteTypeId: "project", multiple: false },
+      },
+    },
+    template: { version: "1.0.0", content: "# {{title}}", variables: {} },
+  };
+
+  const linkResolver: AssociationLinkResolver = {
+    exists: (reference) => reference === "[[Website]]",
+    suggest: () => ["Website", "Web App"],
+  };
+
+  beforeEach(() => {
+    const registry = new TypeRegistry();
+    registry.register(taskNoteType);
+    const propertyProcessor = new PropertyProcessor();
+    validator = new VaultValidator(
+      new NoteProcessor(propertyProcessor, new TemplateEngine(), registry),
+      propertyProcessor,
+      linkResolver
+    );
+  });
+
+  test("skips notes that aren't typed notes", async () => {
+    const results = await validator.validateNotes([
+      { filePath: "Notes/Groceries.md", frontMatter: {} },
+      {
+        filePath: "Tasks/Valid.md",
+        frontMatter: {
+          Type: "task",
+          Title: "Valid",
+          Status: "Done",
+          "Do Date": "2024-01-15",
+          Project: "[[Website]]",
+        },
+      },
+    ]);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].issues).toEqual([]);
+  });
+
+  test("groups issues by note type and property and suggests fixes", async () => {
+    const results = await validator.validateNotes([
+      {
+        filePath: "Tasks/Missing status.md",
+        frontMatter: { Type: "task", Title: "Missing status" },
+      },
+      {
+        filePath: "Tasks/Broken.md",
+        frontMatter: {
+          Type: "task",
+          Title: "Broken",
+          Status: "done",
+          "Do Date": "January 15, 2024",
+          Project: "[[Websit]]",
+        },
+      },
+    ]);
+
+    const report = buildValidationReport(results);
+
+    expect(report.typedNotes).toBe(2);
+    expect(report.invalidNotes).toBe(2);
+    expect(report.groups).toHaveLength(1);
+    expect(report.groups[0].noteCount).toBe(2);
+
+    const fixes = Object.fromEntries(
+      report.groups[0].properties.map((property) => [
+        property.propertyKey,
+        property.issues.map((issue) => issue.fix),
+      ])
+    );
+
+    expect(fixes.status).toEqual([
+      { kind: "fill-default", value: "Backlog" },
+      {
+        kind: "map-select-value",
+        options: ["Backlog", "Done"],
+        suggested: "Done",
+      },
+    ]);
+    expect(fixes.doDate).toEqual([
+      { kind: "coerce-date", value: "2024-01-15" },
+    ]);
+    expect(fixes.project).toEqual([
+      {
+        kind: "relink-association",
+        reference: "[[Websit]]",
+        candidates: ["Website", "Web App"],
+      },
+    ]);
+  });
+
+  test("applies fixes to front-matter", async () => {
+    const frontMatter: Record<string, unknown> = {
+      Type: "task",
+      Title: "Broken",
+      Status: "done",
+      "Do Date": "January 15, 2024",
+      Project: "[[Websit]]",
+    };
+
+    const result = await validator.validateNote("Tasks/Broken.md", frontMatter);
+    for (const issue of result!.issues) {
+      applyValidationFix(
+        frontMatter,
+        issue,
+        issue.fix?.kind === "relink-association" ? "Website" : "Done"
+      );
+    }
+
+    expect(frontMatter).toMatchObject({
+      Status: "Done",
+      "Do Date": "2024-01-15",
+      Project: "[[Website]]",
+    });
+    expect(
+      (await validator.validateNote("Tasks/Broken.md", frontMatter))!.issues
+    ).toEqual([]);
+  });
+
+  test("rejects select values that aren't options", async () => {
+    const result = await validator.validateNote("Tasks/Broken.md", {
+      Type: "task",
+      Title: "Broken",
+      Status: "done",
+    });
+
+    expect(() => applyValidationFix({}, result!.issues[0], "Someday")).toThrow(
+      "'Someday' is not an option of 'Status'"
+    );
+  });
+
+  test("keeps the time when coercing dates", () => {
+    expect(coerceDateValue("2024/01/15 09:30")).toBe("2024-01-15T09:30");
+    expect(coerceDateValue("not a date")).toBeNull();
+  });
+
+  test("keeps the calendar date of ISO dates in any timezone", () => {
+    const timezone = process.env.TZ;
+    process.env.TZ = "America/New_York";
+
+    try {
+      expect(coerceDateValue("2024-01-05")).toBe("2024-01-05");
+      expect(coerceDateValue("2024-01-05T00:00:00Z")).toBe("2024-01-05");
+      expect(coerceDateValue("2024-01-05T09:30:00+02:00")).toBe(
+        "2024-01-05T09:30"
+      );
+      expect(coerceDateValue("2024-02-31")).toBeNull();
+    } finally {
+      process.env.TZ = timezone;
+    }
+  });
+});